@@ -3,13 +3,16 @@ import { queryClient, getQueryFn } from "./lib/queryClient";
 import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { NotificationToaster } from "@/components/widgets/NotificationToaster";
 import NotFound from "@/pages/not-found";
 
 import Home from "@/pages/Home";
 import NewBatch from "@/pages/NewBatch";
 import BatchDetail from "@/pages/BatchDetail";
 import AlexaIntegration from "@/pages/AlexaIntegration";
+import AlexaSimulator from "@/pages/AlexaSimulator";
 import Reports from "@/pages/Reports";
+import Maturation from "@/pages/Maturation";
 import PrivacyPolicy from "@/pages/PrivacyPolicy";
 import TermsOfUse from "@/pages/TermsOfUse";
 import Users from "@/pages/Users";
@@ -44,17 +47,22 @@ function AuthenticatedRouter() {
   }
 
   return (
-    <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/new" component={NewBatch} />
-      <Route path="/batch/:id" component={BatchDetail} />
-      <Route path="/alexa" component={AlexaIntegration} />
-      <Route path="/reports" component={Reports} />
-      <Route path="/users" component={Users} />
-      <Route path="/privacy" component={PrivacyPolicy} />
-      <Route path="/terms" component={TermsOfUse} />
-      <Route component={NotFound} />
-    </Switch>
+    <>
+      <NotificationToaster />
+      <Switch>
+        <Route path="/" component={Home} />
+        <Route path="/new" component={NewBatch} />
+        <Route path="/batch/:id" component={BatchDetail} />
+        <Route path="/alexa" component={AlexaIntegration} />
+        {import.meta.env.DEV && <Route path="/alexa/simulator" component={AlexaSimulator} />}
+        <Route path="/maturation" component={Maturation} />
+        <Route path="/reports" component={Reports} />
+        <Route path="/users" component={Users} />
+        <Route path="/privacy" component={PrivacyPolicy} />
+        <Route path="/terms" component={TermsOfUse} />
+        <Route component={NotFound} />
+      </Switch>
+    </>
   );
 }
 
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Activity, Settings, ChefHat, FileText, Users, LogOut } from "lucide-react";
+import { Activity, Settings, ChefHat, FileText, Users, LogOut, Hourglass } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -11,6 +11,7 @@ export function Navbar() {
   const navItems = [
     { href: "/", label: "Painel", icon: Activity },
     { href: "/new", label: "Novo Lote", icon: ChefHat },
+    { href: "/maturation", label: "Maturação", icon: Hourglass },
     { href: "/reports", label: "Relatórios", icon: FileText },
     { href: "/alexa", label: "Integrações", icon: Settings },
     { href: "/users", label: "Usuários", icon: Users },
@@ -1,21 +1,18 @@
 import { Droplet, TestTube } from "lucide-react";
+import { type BatchDose } from "@shared/schema";
 
-interface CalculatedInputs {
-  FERMENT_LR?: number;
-  FERMENT_DX?: number;
-  FERMENT_KL?: number;
-  RENNET?: number;
-}
+const COLORS = ["text-blue-400", "text-purple-400", "text-pink-400", "text-amber-400", "text-emerald-400", "text-sky-400"];
 
-export function IngredientList({ inputs }: { inputs: CalculatedInputs }) {
-  if (!inputs || Object.keys(inputs).length === 0) return null;
+export function IngredientList({ doses }: { doses: BatchDose[] | undefined }) {
+  if (!doses || doses.length === 0) return null;
 
-  const items = [
-    { name: "Fermento LR", value: inputs.FERMENT_LR, unit: "ml", icon: TestTube, color: "text-blue-400" },
-    { name: "Fermento DX", value: inputs.FERMENT_DX, unit: "ml", icon: TestTube, color: "text-purple-400" },
-    { name: "Fermento KL", value: inputs.FERMENT_KL, unit: "ml", icon: TestTube, color: "text-pink-400" },
-    { name: "Coalho", value: inputs.RENNET, unit: "ml", icon: Droplet, color: "text-amber-400" },
-  ].filter(item => item.value !== undefined);
+  const items = doses.map((dose, i) => ({
+    name: dose.name,
+    value: dose.value,
+    unit: dose.unit,
+    icon: dose.id.startsWith("FERMENT") ? TestTube : Droplet,
+    color: COLORS[i % COLORS.length],
+  }));
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
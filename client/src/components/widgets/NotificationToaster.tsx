@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+import { useNotifications } from "@/hooks/use-notifications";
+import { useToast } from "@/hooks/use-toast";
+
+const TITLES = {
+  timer_expired: "Timer concluído",
+  reminder_due: "Lembrete",
+  loop_timeout: "Tempo máximo atingido",
+} as const;
+
+// Shows each scheduler notification once as a toast
+export function NotificationToaster() {
+  const { data: notifications } = useNotifications();
+  const { toast } = useToast();
+  const shown = useRef(new Set<number>());
+
+  useEffect(() => {
+    for (const notification of notifications || []) {
+      if (shown.current.has(notification.id)) continue;
+      shown.current.add(notification.id);
+      toast({ title: TITLES[notification.kind], description: notification.message });
+    }
+  }, [notifications, toast]);
+
+  return null;
+}
@@ -1,34 +1,42 @@
 import { useState, useEffect } from "react";
-import { Clock, AlertCircle } from "lucide-react";
+import { Clock, AlertCircle, Pause } from "lucide-react";
 import { motion } from "framer-motion";
 
 interface TimerWidgetProps {
   durationMinutes: number;
   startTime: string;
   label: string;
+  // Set while the batch is paused: the countdown stays frozen at this instant
+  pausedAt?: Date | string | null;
 }
 
-export function TimerWidget({ durationMinutes, startTime, label }: TimerWidgetProps) {
+export function TimerWidget({ durationMinutes, startTime, label, pausedAt }: TimerWidgetProps) {
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [progress, setProgress] = useState(0);
 
   useEffect(() => {
     const start = new Date(startTime).getTime();
     const end = start + durationMinutes * 60 * 1000;
+    const total = durationMinutes * 60 * 1000;
 
-    const interval = setInterval(() => {
-      const now = Date.now();
+    const update = (now: number) => {
       const remaining = Math.max(0, end - now);
-      const total = durationMinutes * 60 * 1000;
-      
       setTimeLeft(remaining);
       setProgress(((total - remaining) / total) * 100);
+      return remaining;
+    };
+
+    if (pausedAt) {
+      update(new Date(pausedAt).getTime());
+      return;
+    }
 
-      if (remaining <= 0) clearInterval(interval);
+    const interval = setInterval(() => {
+      if (update(Date.now()) <= 0) clearInterval(interval);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [startTime, durationMinutes]);
+  }, [startTime, durationMinutes, pausedAt]);
 
   const totalMinutes = Math.floor(timeLeft / 60000);
   const hours = Math.floor(totalMinutes / 60);
@@ -54,12 +62,18 @@ export function TimerWidget({ durationMinutes, startTime, label }: TimerWidgetPr
             <span className="text-4xl font-display font-bold tabular-nums">
               {formatTime()}
             </span>
-            <span className="text-sm text-muted-foreground">restantes</span>
+            <span className="text-sm text-muted-foreground">{pausedAt ? "restantes (pausado)" : "restantes"}</span>
           </div>
         </div>
-        <div className={`p-3 rounded-full ${isComplete ? 'bg-green-500/20 text-green-500' : 'bg-primary/20 text-primary'}`}>
-          {isComplete ? <AlertCircle className="w-6 h-6 animate-pulse" /> : <Clock className="w-6 h-6 animate-spin-slow" />}
-        </div>
+        {pausedAt ? (
+          <div className="p-3 rounded-full bg-amber-500/20 text-amber-400">
+            <Pause className="w-6 h-6" />
+          </div>
+        ) : (
+          <div className={`p-3 rounded-full ${isComplete ? 'bg-green-500/20 text-green-500' : 'bg-primary/20 text-primary'}`}>
+            {isComplete ? <AlertCircle className="w-6 h-6 animate-pulse" /> : <Clock className="w-6 h-6 animate-spin-slow" />}
+          </div>
+        )}
       </div>
 
       <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
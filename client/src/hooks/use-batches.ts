@@ -4,7 +4,8 @@ import {
   type InsertBatch, 
   type StartBatchRequest,
   type AdvanceStageRequest,
-  type LogMeasurementRequest
+  type LogMeasurementRequest,
+  type MaturationCareAction
 } from "@shared/schema";
 
 export function useBatches() {
@@ -21,11 +22,11 @@ export function useBatches() {
 
 export function useCompletedBatches() {
   return useQuery({
-    queryKey: ["/api/batches/completed"],
+    queryKey: [api.batches.completed.path],
     queryFn: async () => {
-      const res = await fetch("/api/batches/completed");
+      const res = await fetch(api.batches.completed.path);
       if (!res.ok) throw new Error("Failed to fetch completed batches");
-      return api.batches.list.responses[200].parse(await res.json());
+      return api.batches.completed.responses[200].parse(await res.json());
     },
   });
 }
@@ -228,6 +229,88 @@ export function useCancelBatch() {
   });
 }
 
+export function useCloseBatch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, notes }: { id: number; notes?: string }) => {
+      const url = buildUrl(api.batches.close.path, { id });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to close batch");
+      }
+      return api.batches.close.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.batches.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.maturation.list.path] });
+    },
+  });
+}
+
+export function useRevertBatch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const url = buildUrl(api.batches.revert.path, { id });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to revert stage");
+      }
+      return api.batches.revert.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.batches.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.batches.status.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.batches.list.path] });
+    },
+  });
+}
+
+export function useMaturation() {
+  return useQuery({
+    queryKey: [api.maturation.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.maturation.list.path);
+      if (!res.ok) throw new Error("Failed to fetch maturation lots");
+      return api.maturation.list.responses[200].parse(await res.json());
+    },
+    refetchInterval: 60000,
+  });
+}
+
+export function useRecordMaturationCare() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, action, notes }: { id: number; action: MaturationCareAction; notes?: string }) => {
+      const url = buildUrl(api.maturation.record.path, { id });
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, notes }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Erro ao registrar cuidado");
+      }
+      return api.maturation.record.responses[201].parse(await res.json());
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.batches.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.maturation.list.path] });
+    },
+  });
+}
+
 export type CanonicalInput = {
   key: string;
   value: number | string;
@@ -0,0 +1,17 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+
+// Notifications fired since the page opened, polled while it stays open
+export function useNotifications() {
+  const [since] = useState(() => new Date().toISOString());
+  return useQuery({
+    queryKey: [api.notifications.list.path, since],
+    queryFn: async () => {
+      const res = await fetch(`${api.notifications.list.path}?since=${encodeURIComponent(since)}`);
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return api.notifications.list.responses[200].parse(await res.json());
+    },
+    refetchInterval: 15000,
+  });
+}
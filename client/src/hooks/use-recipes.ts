@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { type RecipeSummary, type RecipeDetail, type BatchDose } from "@shared/schema";
+
+// Recipes loaded by the server; a cheese type can only be produced if listed here
+export function useRecipes() {
+  return useQuery({
+    queryKey: ["/api/recipes"],
+    queryFn: async () => {
+      const res = await fetch("/api/recipes");
+      if (!res.ok) throw new Error("Failed to fetch recipes");
+      return (await res.json()) as RecipeSummary[];
+    },
+  });
+}
+
+// Recipe snapshot a batch was started with (not the current YAML)
+export function useBatchRecipe(batchId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ["/api/batches", batchId, "recipe"],
+    queryFn: async () => {
+      const res = await fetch(`/api/batches/${batchId}/recipe`);
+      if (!res.ok) throw new Error("Recipe not found");
+      return (await res.json()) as RecipeDetail;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Calculated doses with the units declared in the batch recipe
+export function useBatchDoses(batchId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ["/api/batches", batchId, "doses"],
+    queryFn: async () => {
+      const res = await fetch(`/api/batches/${batchId}/doses`);
+      if (!res.ok) throw new Error("Doses not found");
+      return (await res.json()) as BatchDose[];
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
@@ -1,6 +1,7 @@
 import { Navbar } from "@/components/layout/Navbar";
 import { Footer } from "@/components/layout/Footer";
-import { Mic, Check, Wifi, Key } from "lucide-react";
+import { Link } from "wouter";
+import { Mic, Check, Wifi, Key, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 
@@ -20,6 +21,14 @@ export default function AlexaIntegration() {
           <p className="text-xl text-muted-foreground">
             Conecte a Alexa para controlar a produção com as mãos livres.
           </p>
+          {import.meta.env.DEV && (
+            <Link href="/alexa/simulator">
+              <Button variant="outline" className="mt-6" data-testid="link-alexa-simulator">
+                <MessageSquare className="w-4 h-4 mr-2" />
+                Simulador (desenvolvimento)
+              </Button>
+            </Link>
+          )}
         </div>
 
         <div className="grid gap-8">
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Navbar } from "@/components/layout/Navbar";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { api } from "@shared/routes";
+import {
+  newSimulatedSession, buildLaunchRequest, buildIntentRequest, buildSessionEndedRequest,
+  readAlexaReply, applyAlexaReply, type SimulatedSession, type ConversationReport, type InteractionModel
+} from "@shared/alexaEnvelope";
+import { MessageSquare, Play, Power, Send, FlaskConical, Check, X } from "lucide-react";
+
+const WEBHOOK_PATH = "/api/alexa/webhook";
+
+const SAMPLE_SCRIPT = `{
+  "name": "Novo lote guiado",
+  "turns": [
+    { "request": "launch" },
+    { "request": "say", "utterance": "iniciar lote com 100 litros", "expect": "temperatura",
+      "expectAttributes": { "pending": "START_BATCH_TEMP" } },
+    { "request": "intent", "intent": "RegisterMilkTemperatureIntent", "slots": { "temp_value": "32" }, "expect": "pH" },
+    { "request": "intent", "intent": "RegisterPHAndPiecesIntent", "slots": { "ph_value": "6.6" }, "expect": "Lote iniciado" },
+    { "request": "wait", "minutes": 31 },
+    { "request": "intent", "intent": "AdvanceStageIntent", "expect": "Etapa 5" }
+  ]
+}`;
+
+type TranscriptLine = { from: "user" | "alexa"; text: string };
+
+export default function AlexaSimulator() {
+  const { toast } = useToast();
+  const [session, setSession] = useState(() => newSimulatedSession());
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [utterance, setUtterance] = useState("");
+  const [intentName, setIntentName] = useState("");
+  const [slots, setSlots] = useState<Record<string, string>>({});
+  const [script, setScript] = useState(SAMPLE_SCRIPT);
+  const [report, setReport] = useState<ConversationReport | null>(null);
+
+  const { data: model } = useQuery<InteractionModel>({
+    queryKey: [api.dev.alexaModel.path],
+  });
+  const intents = model?.interactionModel.languageModel.intents ?? [];
+  const selectedIntent = intents.find(i => i.name === intentName);
+
+  // Interactive turns go to this server's webhook, so they act on its lots
+  const turnMutation = useMutation({
+    mutationFn: async ({ label, from, envelope, ends }: { label: string; from: SimulatedSession; envelope: unknown; ends?: boolean }) => {
+      const res = await apiRequest("POST", WEBHOOK_PATH, envelope);
+      return { label, from, ends, reply: readAlexaReply(await res.json()) };
+    },
+    onSuccess: ({ label, from, ends, reply }) => {
+      setTranscript(lines => [
+        ...lines,
+        { from: "user", text: label },
+        ...(reply.speech ? [{ from: "alexa" as const, text: reply.speech }] : []),
+      ]);
+      setSession(ends ? newSimulatedSession() : applyAlexaReply(from, reply));
+    },
+    onError: (err: any) => {
+      toast({ title: "Erro no webhook", description: err.message, variant: "destructive" });
+    },
+  });
+
+  // Scripts run in memory on the server: the real lots are left alone
+  const scriptMutation = useMutation({
+    mutationFn: async (body: unknown) => {
+      const res = await apiRequest("POST", api.dev.alexaConversation.path, body);
+      return (await res.json()) as ConversationReport;
+    },
+    onSuccess: (result) => setReport(result),
+    onError: (err: any) => {
+      toast({ title: "Roteiro inválido", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const say = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!utterance.trim()) return;
+    turnMutation.mutate({
+      label: utterance,
+      from: session,
+      envelope: buildIntentRequest(session, "ProcessCommandIntent", { utterance }),
+    });
+    setUtterance("");
+  };
+
+  const sendIntent = () => {
+    if (!selectedIntent) return;
+    const filled = Object.fromEntries(Object.entries(slots).filter(([name, value]) =>
+      value && selectedIntent.slots?.some(s => s.name === name)));
+    const slotText = Object.entries(filled).map(([k, v]) => `${k}=${v}`).join(" ");
+    turnMutation.mutate({
+      label: `${selectedIntent.name}${slotText ? ` ${slotText}` : ""}`,
+      from: session,
+      envelope: buildIntentRequest(session, selectedIntent.name, filled),
+    });
+  };
+
+  const launch = () => {
+    const fresh = newSimulatedSession();
+    turnMutation.mutate({ label: "(abrir a skill)", from: fresh, envelope: buildLaunchRequest(fresh) });
+  };
+
+  const runScript = () => {
+    let body: unknown;
+    try {
+      body = JSON.parse(script);
+    } catch {
+      toast({ title: "JSON inválido", variant: "destructive" });
+      return;
+    }
+    scriptMutation.mutate(body);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navbar />
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="flex items-center gap-3">
+          <MessageSquare className="w-6 h-6 text-primary" />
+          <div>
+            <h1 className="text-2xl font-bold">Simulador Alexa</h1>
+            <p className="text-sm text-muted-foreground">
+              Somente no servidor de desenvolvimento. A conversa usa os lotes deste servidor; os roteiros rodam em memória.
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Conversa</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={launch}
+                disabled={turnMutation.isPending}
+                data-testid="button-sim-launch"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Abrir skill
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => turnMutation.mutate({ label: "(encerrar sessão)", from: session, envelope: buildSessionEndedRequest(session), ends: true })}
+                disabled={turnMutation.isPending}
+                data-testid="button-sim-end"
+              >
+                <Power className="w-4 h-4 mr-2" />
+                Encerrar sessão
+              </Button>
+            </div>
+
+            <div className="min-h-[160px] max-h-[360px] overflow-y-auto rounded-lg border border-white/10 bg-secondary/30 p-3 space-y-2 text-sm" data-testid="sim-transcript">
+              {transcript.length === 0 && <p className="text-muted-foreground">Abra a skill ou diga algo.</p>}
+              {transcript.map((line, i) => (
+                <p key={i} className={line.from === "user" ? "font-medium" : "text-muted-foreground"}>
+                  {line.from === "user" ? "> " : "Alexa: "}{line.text}
+                </p>
+              ))}
+            </div>
+
+            <form onSubmit={say} className="flex gap-2">
+              <Input
+                value={utterance}
+                onChange={(e) => setUtterance(e.target.value)}
+                placeholder="iniciar lote com 100 litros"
+                data-testid="input-sim-utterance"
+              />
+              <Button type="submit" disabled={turnMutation.isPending} data-testid="button-sim-say">
+                <Send className="w-4 h-4 mr-2" />
+                Dizer
+              </Button>
+            </form>
+
+            <div className="space-y-2">
+              <Label>Intent</Label>
+              <div className="flex gap-2">
+                <Select value={intentName} onValueChange={(value) => { setIntentName(value); setSlots({}); }}>
+                  <SelectTrigger data-testid="select-sim-intent">
+                    <SelectValue placeholder="Escolha uma intent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {intents.map(intent => (
+                      <SelectItem key={intent.name} value={intent.name}>{intent.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={sendIntent} disabled={!selectedIntent || turnMutation.isPending} data-testid="button-sim-intent">
+                  Enviar
+                </Button>
+              </div>
+              {selectedIntent?.slots?.map(slot => (
+                <div key={slot.name} className="flex items-center gap-2">
+                  <Label className="w-36 font-mono text-xs">{slot.name}</Label>
+                  <Input
+                    value={slots[slot.name] || ""}
+                    onChange={(e) => setSlots(current => ({ ...current, [slot.name]: e.target.value }))}
+                    placeholder={slot.type}
+                    data-testid={`input-sim-slot-${slot.name}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <Label>Atributos da sessão</Label>
+              <pre className="mt-2 rounded-lg bg-secondary/30 p-3 text-xs font-mono overflow-x-auto" data-testid="sim-attributes">
+                {JSON.stringify(session.attributes, null, 2)}
+              </pre>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FlaskConical className="w-5 h-5" />
+              Roteiro
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Mesmo formato dos arquivos em script/conversations (npm run alexa:test).
+            </p>
+            <Textarea
+              value={script}
+              onChange={(e) => setScript(e.target.value)}
+              className="font-mono text-xs min-h-[220px]"
+              data-testid="textarea-sim-script"
+            />
+            <Button onClick={runScript} disabled={scriptMutation.isPending} data-testid="button-sim-run">
+              Executar roteiro
+            </Button>
+
+            {report && (
+              <div className="space-y-2 text-sm" data-testid="sim-report">
+                <p className={report.success ? "text-green-500 font-medium" : "text-red-500 font-medium"}>
+                  {report.success ? "Todas as expectativas conferem" : "Há expectativas que não conferem"}
+                </p>
+                {report.turns.map(turn => (
+                  <div key={turn.turn} className="rounded-lg border border-white/10 p-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      {turn.failures.length === 0
+                        ? <Check className="w-4 h-4 text-green-500" />
+                        : <X className="w-4 h-4 text-red-500" />}
+                      #{turn.turn + 1} {turn.request}
+                    </div>
+                    {turn.reply?.speech && <p className="text-muted-foreground mt-1">{turn.reply.speech}</p>}
+                    {turn.failures.map((failure, i) => (
+                      <p key={i} className="text-red-500 mt-1">{failure}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+}
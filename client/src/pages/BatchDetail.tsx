@@ -1,19 +1,20 @@
 import { useState } from "react";
 import { useRoute, useLocation } from "wouter";
-import { ArrowRight, CheckCircle, AlertCircle, Thermometer, Scale, Pause, Play, XCircle, Flag, Pencil, Check, X } from "lucide-react";
+import { ArrowRight, CheckCircle, AlertCircle, Thermometer, Scale, Pause, Play, XCircle, Flag, Pencil, Check, X, Undo2 } from "lucide-react";
 import { Navbar } from "@/components/layout/Navbar";
 import { Footer } from "@/components/layout/Footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { useBatch, useAdvanceStage, useLogMeasurement, useLogCanonicalInput, useEditMeasurement, usePauseBatch, useResumeBatch, useCompleteBatch, useCancelBatch } from "@/hooks/use-batches";
+import { useBatch, useAdvanceStage, useLogMeasurement, useLogCanonicalInput, useEditMeasurement, usePauseBatch, useResumeBatch, useCompleteBatch, useCancelBatch, useCloseBatch, useRecordMaturationCare, useRevertBatch } from "@/hooks/use-batches";
+import { useBatchRecipe, useBatchDoses } from "@/hooks/use-recipes";
 import { TimerWidget } from "@/components/widgets/TimerWidget";
 import { IngredientList } from "@/components/widgets/IngredientList";
 
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
-import { getCheeseTypeName, formatBatchCode } from "@shared/schema";
+import { getCheeseTypeName, formatBatchLabel, getStagePathProgress, getPauseIntervals, toLocalDateKey, isTurnedOn, BATCH_LIFECYCLE_LABELS, MATURATION_CARE_LABELS, type MaturationCareAction, type MaturationCareEntry } from "@shared/schema";
 
 const STAGE_NAMES: Record<number, string> = {
   1: "Separar o leite e medir parâmetros iniciais",
@@ -57,6 +58,15 @@ const STATUS_LABELS: Record<string, { label: string; variant: "default" | "secon
   cancelled: { label: "Cancelado", variant: "destructive" },
 };
 
+// e.g. 90 -> "1 hora e 30 minutos"
+function formatInterval(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m} minutos`;
+  const hours = `${h} hora${h > 1 ? "s" : ""}`;
+  return m > 0 ? `${hours} e ${m} minutos` : hours;
+}
+
 export default function BatchDetail() {
   const [, params] = useRoute("/batch/:id");
   const [, navigate] = useLocation();
@@ -65,6 +75,8 @@ export default function BatchDetail() {
   
   // Query disabled for id <= 0, preventing GET /api/batches/0
   const { data: batch, isLoading } = useBatch(id, { enabled: id > 0 });
+  const { data: recipe } = useBatchRecipe(id, { enabled: id > 0 });
+  const { data: doses } = useBatchDoses(id, { enabled: id > 0 });
   const { mutate: advance, isPending: isAdvancing } = useAdvanceStage();
   const { mutate: logInput, isPending: isLogging } = useLogMeasurement();
   const { mutate: logCanonical, isPending: isLoggingCanonical } = useLogCanonicalInput();
@@ -73,6 +85,9 @@ export default function BatchDetail() {
   const { mutate: resumeBatch, isPending: isResuming } = useResumeBatch();
   const { mutate: completeBatch, isPending: isCompleting } = useCompleteBatch();
   const { mutate: cancelBatch, isPending: isCancelling } = useCancelBatch();
+  const { mutate: closeBatch, isPending: isClosing } = useCloseBatch();
+  const { mutate: recordCare, isPending: isRecordingCare } = useRecordMaturationCare();
+  const { mutate: revertBatch, isPending: isReverting } = useRevertBatch();
   const { toast } = useToast();
 
   const [inputVal, setInputVal] = useState("");
@@ -83,6 +98,9 @@ export default function BatchDetail() {
   const [editValue, setEditValue] = useState("");
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [showPauseDialog, setShowPauseDialog] = useState(false);
+  const [showRevertDialog, setShowRevertDialog] = useState(false);
+  const [revertReason, setRevertReason] = useState("");
+  const [careNotes, setCareNotes] = useState("");
   
   // Redirect to home if invalid id (after all hooks are called)
   if (id === 0) {
@@ -102,13 +120,22 @@ export default function BatchDetail() {
   const currentStageTimer = activeTimers.find((t: any) => t.stageId === batch.currentStageId);
   const isBlockingTimer = currentStageTimer?.blocking === true;
   const isTimerStage = !!currentStageTimer;
-  const isTimerComplete = currentStageTimer?.isComplete || (currentStageTimer ? new Date(currentStageTimer.endTime) <= new Date() : false);
-  const isInputStage = [6, 7, 13, 14, 15, 19].includes(batch.currentStageId);
+  // Timers are frozen while paused, so compare against the pause instant
+  const timerReference = batch.status === 'paused' && batch.pausedAt ? new Date(batch.pausedAt) : new Date();
+  const isTimerComplete = currentStageTimer?.isComplete || (currentStageTimer ? new Date(currentStageTimer.endTime) <= timerReference : false);
+  const pauseIntervals = getPauseIntervals(batch.history);
+  const reverts = ((batch.history as any[]) || []).filter(e => e.action === 'revert');
+  const currentStageDetail = recipe?.stages.find(s => s.stageId === batch.currentStageId);
+  const stageCount = recipe?.stageCount ?? 19;
+  const pathProgress = getStagePathProgress(batch.stagePath, batch.currentStageId, stageCount);
+  const isInputStage = currentStageDetail
+    ? (currentStageDetail.requiredInputs?.length ?? 0) > 0
+    : [6, 7, 13, 14, 15, 19].includes(batch.currentStageId);
   const isMultiInputStage = batch.currentStageId === 13; // Stage 13 needs ph_value + pieces_quantity
   const isDateInputStage = batch.currentStageId === 19; // Stage 19 needs chamber_2_entry_date
   const inputType = [13, 15].includes(batch.currentStageId) ? "ph" : (batch.currentStageId === 19 ? "date" : "time"); 
   const inputLabel = inputType === "ph" ? "Valor do pH" : (inputType === "date" ? "Data de entrada na Câmara 2" : "Horário (HH:MM)");
-  const stageInstructions = STAGE_INSTRUCTIONS[batch.currentStageId] || [];
+  const stageInstructions = currentStageDetail?.instructions || STAGE_INSTRUCTIONS[batch.currentStageId] || [];
   const timerLabel = TIMER_LABELS[batch.currentStageId] || "Timer da Etapa";
 
   const handleAdvance = () => {
@@ -153,7 +180,7 @@ export default function BatchDetail() {
         onSuccess: () => {
           toast({ title: "Registrado", description: "Medição de pH registrada." });
           setInputVal("");
-          // Don't auto-advance - user clicks button when pH < 5.3
+          // Don't auto-advance - user clicks button when the loop condition is met
         },
         onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
       });
@@ -268,11 +295,48 @@ export default function BatchDetail() {
     });
   };
   
+  const handleRevert = () => {
+    if (!revertReason.trim()) {
+      toast({ title: "Erro", description: "Informe o motivo para voltar a etapa.", variant: "destructive" });
+      return;
+    }
+    revertBatch({ id, reason: revertReason }, {
+      onSuccess: () => {
+        toast({ title: "Etapa revertida", description: `Lote de volta à etapa ${batch.revertTarget?.toStageId}.` });
+        setShowRevertDialog(false);
+        setRevertReason("");
+      },
+      onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
+    });
+  };
+
+  const handleCloseBatch = () => {
+    closeBatch({ id }, {
+      onSuccess: () => toast({ title: "Encerrado", description: "Lote encerrado." }),
+      onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
+    });
+  };
+
+  const handleRecordCare = (action: MaturationCareAction) => {
+    recordCare({ id, action, notes: careNotes.trim() || undefined }, {
+      onSuccess: () => {
+        toast({ title: "Registrado", description: `${MATURATION_CARE_LABELS[action]} registrada.` });
+        setCareNotes("");
+      },
+      onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
+    });
+  };
+
   const handleCloseCancelDialog = () => {
     setShowCancelDialog(false);
     setCancelReason("");
   };
   
+  const handleCloseRevertDialog = () => {
+    setShowRevertDialog(false);
+    setRevertReason("");
+  };
+
   const handleClosePauseDialog = () => {
     setShowPauseDialog(false);
     setPauseReason("");
@@ -291,14 +355,22 @@ export default function BatchDetail() {
           <div>
             <div className="flex items-center gap-3 mb-2 flex-wrap">
               <span className="text-sm font-mono text-primary bg-primary/10 px-2 py-1 rounded">
-                LOTE {formatBatchCode(batch.startedAt)}
+                LOTE {formatBatchLabel(batch)}
               </span>
+              {batch.isTraining && (
+                <Badge variant="outline" className="border-amber-500/40 text-amber-400" data-testid="badge-training">
+                  Treino • timers {batch.timeCompression}x mais rápidos
+                </Badge>
+              )}
               <Badge variant={statusInfo.variant} data-testid="badge-batch-status">
                 {statusInfo.label}
               </Badge>
               <span className="text-sm text-muted-foreground">
                 Iniciado em {new Date(batch.startedAt).toLocaleDateString('pt-BR')}
               </span>
+              <span className="text-xs font-mono text-muted-foreground" data-testid="text-recipe-version">
+                Receita {batch.recipeVersion ? `v${batch.recipeVersion}` : "versão não registrada"}
+              </span>
             </div>
             <h1 className="text-3xl font-display font-bold">Produção {getCheeseTypeName(batch.recipeId)}</h1>
           </div>
@@ -311,7 +383,10 @@ export default function BatchDetail() {
                <div className="h-8 w-px bg-border" />
                <div className="text-right">
                  <div className="text-xs text-muted-foreground uppercase tracking-wider">Etapa</div>
-                 <div className="text-xl font-bold text-primary">{batch.currentStageId} <span className="text-muted-foreground text-sm font-normal">/ 19</span></div>
+                 <div className="text-xl font-bold text-primary">{batch.currentStageId} <span className="text-muted-foreground text-sm font-normal">/ {stageCount}</span></div>
+                 {pathProgress.total !== stageCount && (
+                   <div className="text-xs text-muted-foreground">{pathProgress.position} de {pathProgress.total} no percurso</div>
+                 )}
                </div>
             </div>
             
@@ -355,6 +430,40 @@ export default function BatchDetail() {
                   </Dialog>
                 )}
                 
+                {batch.revertTarget && (
+                  <Dialog open={showRevertDialog} onOpenChange={(open) => open ? setShowRevertDialog(true) : handleCloseRevertDialog()}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline" data-testid="button-revert-open">
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Voltar Etapa
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Voltar Etapa</DialogTitle>
+                        <DialogDescription>
+                          O lote volta da etapa {batch.revertTarget.fromStageId} para a etapa {batch.revertTarget.toStageId} ({batch.revertTarget.toStageName}),
+                          com os timers daquela etapa restaurados. O histórico é mantido e marcado como revertido. Informe o motivo.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <Input
+                        placeholder="Motivo (ex.: avancei por engano)..."
+                        value={revertReason}
+                        onChange={(e) => setRevertReason(e.target.value)}
+                        data-testid="input-revert-reason"
+                      />
+                      <DialogFooter>
+                        <Button variant="outline" onClick={handleCloseRevertDialog}>
+                          Cancelar
+                        </Button>
+                        <Button onClick={handleRevert} disabled={isReverting} data-testid="button-revert-confirm">
+                          {isReverting ? "Voltando..." : "Confirmar"}
+                        </Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
+                )}
+
                 <Button onClick={handleComplete} disabled={isCompleting} variant="outline" data-testid="button-complete">
                   <Flag className="w-4 h-4 mr-2" />
                   {isCompleting ? "..." : "Concluir"}
@@ -414,6 +523,71 @@ export default function BatchDetail() {
           </div>
         )}
 
+        {batch.stagePath && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-6 text-xs font-mono" data-testid="stage-path">
+            <span className="text-muted-foreground uppercase tracking-wider mr-1">Percurso</span>
+            {batch.stagePath.visited.map((stageId) => (
+              <span
+                key={`v-${stageId}`}
+                title={recipe?.stages.find(s => s.stageId === stageId)?.name}
+                className={stageId === batch.stagePath!.current
+                  ? "px-2 py-0.5 rounded bg-primary text-primary-foreground font-bold"
+                  : "px-2 py-0.5 rounded bg-primary/15 text-primary"}
+              >
+                {stageId}
+              </span>
+            ))}
+            {batch.stagePath.remaining.map((stageId) => (
+              <span
+                key={`r-${stageId}`}
+                title={recipe?.stages.find(s => s.stageId === stageId)?.name}
+                className="px-2 py-0.5 rounded border border-dashed border-border text-muted-foreground"
+              >
+                {stageId}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {reverts.length > 0 && (
+          <div className="mb-6 text-xs" data-testid="stage-reverts">
+            <span className="text-muted-foreground uppercase tracking-wider font-mono">Etapas revertidas</span>
+            <ul className="mt-1.5 space-y-1">
+              {reverts.map((entry) => (
+                <li key={entry.timestamp} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                  <Undo2 className="w-3 h-3 text-amber-400" />
+                  <span className="font-mono">{new Date(entry.timestamp).toLocaleString('pt-BR')}</span>
+                  <span>etapa {entry.from} → {entry.stageId}</span>
+                  {entry.reason && <span className="opacity-80">— {entry.reason}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {pauseIntervals.length > 0 && (
+          <div className="mb-6 text-xs" data-testid="pause-intervals">
+            <span className="text-muted-foreground uppercase tracking-wider font-mono">Pausas</span>
+            <ul className="mt-1.5 space-y-1">
+              {pauseIntervals.map((interval) => {
+                const start = new Date(interval.start);
+                const end = interval.end ? new Date(interval.end) : null;
+                const minutes = Math.round(((end ?? new Date()).getTime() - start.getTime()) / 60000);
+                return (
+                  <li key={interval.start} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                    <Pause className="w-3 h-3 text-amber-400" />
+                    <span className="font-mono">
+                      {start.toLocaleString('pt-BR')} → {end ? end.toLocaleString('pt-BR') : 'em andamento'}
+                    </span>
+                    <span>({formatInterval(minutes)}, etapa {interval.stageId})</span>
+                    {interval.reason && <span className="opacity-80">— {interval.reason}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
         <div className="space-y-8">
           <div className="space-y-6">
             
@@ -428,7 +602,7 @@ export default function BatchDetail() {
               <div className="relative z-10">
                 <h2 className="text-sm font-medium text-primary uppercase tracking-widest mb-2">Etapa Atual</h2>
                 <h3 className="text-3xl font-bold mb-6 leading-tight">
-                  {STAGE_NAMES[batch.currentStageId] || `Etapa ${batch.currentStageId}`}
+                  {currentStageDetail?.name || STAGE_NAMES[batch.currentStageId] || `Etapa ${batch.currentStageId}`}
                 </h3>
 
                 <div className="bg-background/50 backdrop-blur rounded-xl p-6 border border-white/5 mb-8">
@@ -454,6 +628,7 @@ export default function BatchDetail() {
                         durationMinutes={currentStageTimer.durationMinutes || Math.round((new Date(currentStageTimer.endTime).getTime() - new Date(currentStageTimer.startTime).getTime()) / 60000)} 
                         startTime={currentStageTimer.startTime} 
                         label={timerLabel} 
+                        pausedAt={isPaused ? batch.pausedAt : null}
                       />
                       {isTimerComplete && (
                         <div className="text-center text-green-400 font-medium">
@@ -530,7 +705,7 @@ export default function BatchDetail() {
                            </div>
                            {batch.currentStageId === 15 && (
                              <div className="text-sm text-muted-foreground mt-2">
-                               Registre o pH a cada 1 hora e 30 minutos. Quando o pH ficar abaixo de 5.3, clique em "Concluir Etapa" abaixo.
+                               Registre o pH a cada {formatInterval(recipe?.process.phCheckIntervalMin ?? 90)}. Quando a condição for atingida ({currentStageDetail?.loopCondition?.description || `pH abaixo de ${recipe?.process.targetFinalPh ?? 5.3}`}), clique em "Concluir Etapa" abaixo.
                              </div>
                            )}
                            {isTimerStage && currentStageTimer && !isBlockingTimer && (
@@ -539,6 +714,7 @@ export default function BatchDetail() {
                                  durationMinutes={currentStageTimer.durationMinutes || Math.round((new Date(currentStageTimer.endTime).getTime() - new Date(currentStageTimer.startTime).getTime()) / 60000)} 
                                  startTime={currentStageTimer.startTime} 
                                  label={timerLabel} 
+                                 pausedAt={isPaused ? batch.pausedAt : null}
                                />
                                {isTimerComplete && (
                                  <div className="text-center text-amber-400 font-medium mt-2">
@@ -554,7 +730,7 @@ export default function BatchDetail() {
                     <div className="space-y-4 text-lg">
                       <p>Siga o procedimento padrão para esta etapa.</p>
                       {[4, 5].includes(batch.currentStageId) && batch.calculatedInputs && (
-                        <IngredientList inputs={batch.calculatedInputs as Record<string, number>} />
+                        <IngredientList doses={doses} />
                       )}
 
                       {[4, 5].includes(batch.currentStageId) && (() => {
@@ -652,7 +828,7 @@ export default function BatchDetail() {
                    <Scale className="w-5 h-5 text-primary" />
                    Receita do Lote
                  </h3>
-                 <IngredientList inputs={batch.calculatedInputs as Record<string, number>} />
+                 <IngredientList doses={doses} />
                </div>
             )}
           </div>
@@ -718,10 +894,78 @@ export default function BatchDetail() {
                   </div>
                 )}
 
+                {batch.batchStatus && batch.batchStatus !== 'IN_PROGRESS' && (
+                  <div className="flex justify-between items-center py-2 border-b border-border/50 text-sm" data-testid="batch-lifecycle">
+                    <span className="text-muted-foreground">Situação</span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={batch.batchStatus === 'READY_FOR_SALE' ? 'default' : 'outline'}>
+                        {BATCH_LIFECYCLE_LABELS[batch.batchStatus]}
+                      </Badge>
+                      {batch.batchStatus === 'READY_FOR_SALE' && (
+                        <Button size="sm" variant="outline" onClick={handleCloseBatch} disabled={isClosing} data-testid="button-close-batch">
+                          {isClosing ? "Encerrando..." : "Encerrar Lote"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {(batch.batchStatus === 'MATURING' || batch.batchStatus === 'READY_FOR_SALE' || ((batch.maturationLog as MaturationCareEntry[]) || []).length > 0) && (
+                  <div className="py-3 border-b border-border/50 text-sm space-y-3" data-testid="maturation-care">
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Cuidados na Câmara 2</span>
+                      {batch.batchStatus !== 'CLOSED' && (
+                        isTurnedOn(batch.maturationLog, toLocalDateKey(new Date()))
+                          ? <span className="text-green-400 text-xs">Virado hoje</span>
+                          : <span className="text-amber-400 text-xs">Falta virar hoje</span>
+                      )}
+                    </div>
+
+                    {batch.batchStatus !== 'CLOSED' && (
+                      <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" variant="outline" disabled={isRecordingCare} onClick={() => handleRecordCare("turn")} data-testid="button-care-turn">
+                            Virei os queijos
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={isRecordingCare} onClick={() => handleRecordCare("board_change")} data-testid="button-care-board">
+                            Troquei a tábua
+                          </Button>
+                        </div>
+                        <div className="flex gap-2">
+                          <Input
+                            value={careNotes}
+                            onChange={(e) => setCareNotes(e.target.value)}
+                            placeholder="Observação (ex.: mofo branco na face)"
+                            className="h-8 text-sm"
+                            data-testid="input-care-notes"
+                          />
+                          <Button size="sm" disabled={isRecordingCare || !careNotes.trim()} onClick={() => handleRecordCare("observation")} data-testid="button-care-observation">
+                            Anotar
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                      {[...((batch.maturationLog as MaturationCareEntry[]) || [])].reverse().map((entry) => (
+                        <li key={entry.timestamp + entry.action} className="flex justify-between gap-2 text-xs">
+                          <span>
+                            {MATURATION_CARE_LABELS[entry.action]}
+                            {entry.notes && <span className="text-muted-foreground"> — {entry.notes}</span>}
+                          </span>
+                          <span className="font-mono text-muted-foreground whitespace-nowrap">
+                            {new Date(entry.timestamp).toLocaleString('pt-BR')}{entry.source === 'voice' && ' (voz)'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 
                 {(() => {
                   const measurements = batch.measurements as Record<string, any> || {};
-                  const history = measurements._history as Array<{key: string; value: any; stageId: number; timestamp: string}> || [];
+                  const history = measurements._history as Array<{key: string; value: any; stageId: number; timestamp: string; reverted?: boolean}> || [];
                   
                   const labelMap: Record<string, string> = {
                     'ph_value': 'Medição de pH',
@@ -747,6 +991,7 @@ export default function BatchDetail() {
                   const readOnlyKeys = new Set(['loop_exit_reason']);
                   const reasonMap: Record<string, string> = {
                     "ph_reached": "pH ideal atingido",
+                    "condition_met": "Condição de saída atingida",
                     "time_limit": "Tempo limite atingido"
                   };
                   
@@ -757,6 +1002,7 @@ export default function BatchDetail() {
                     const phByStage: Record<number, number> = {};
                     
                     history.forEach((entry, idx) => {
+                      if (entry.reverted) return;
                       let label: string;
                       
                       if (entry.key === 'ph_value' || entry.key === 'ph_measurement') {
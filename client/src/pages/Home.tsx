@@ -4,11 +4,15 @@ import { Navbar } from "@/components/layout/Navbar";
 import { Footer } from "@/components/layout/Footer";
 import { Button } from "@/components/ui/button";
 import { useBatches } from "@/hooks/use-batches";
+import { useRecipes } from "@/hooks/use-recipes";
 
-import { getCheeseTypeName, formatBatchCode } from "@shared/schema";
+import { getCheeseTypeName, formatBatchLabel, getStagePathProgress } from "@shared/schema";
 
 export default function Home() {
   const { data: batches, isLoading } = useBatches();
+  const { data: recipes } = useRecipes();
+  const getStageCount = (recipeId: string) =>
+    recipes?.find(r => r.recipeId === recipeId)?.stageCount ?? 19;
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -52,7 +56,9 @@ export default function Home() {
           </div>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {batches?.map((batch) => (
+            {batches?.map((batch) => {
+              const { position, total } = getStagePathProgress(batch.stagePath, batch.currentStageId, getStageCount(batch.recipeId));
+              return (
               <Link key={batch.id} href={`/batch/${batch.id}`} className="group">
                 <div className="h-full glass-card p-6 rounded-2xl hover:border-primary/50 transition-all duration-300 hover:-translate-y-1 relative overflow-hidden">
                   <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
@@ -64,9 +70,16 @@ export default function Home() {
                       <span className="bg-primary/10 text-primary px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border border-primary/20">
                         {batch.status === 'active' ? 'Ativo' : batch.status === 'completed' ? 'Concluído' : 'Pausado'}
                       </span>
-                      <span className="text-xs text-muted-foreground font-mono">
-                        {formatBatchCode(batch.startedAt)}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        {batch.isTraining && (
+                          <span className="bg-amber-500/10 text-amber-400 px-2 py-0.5 rounded-full text-xs font-bold uppercase tracking-wider border border-amber-500/30" data-testid={`badge-training-${batch.id}`}>
+                            Treino
+                          </span>
+                        )}
+                        <span className="text-xs text-muted-foreground font-mono">
+                          {formatBatchLabel(batch)}
+                        </span>
+                      </div>
                     </div>
 
                     <h3 className="text-2xl font-bold mb-1">Queijo {getCheeseTypeName(batch.recipeId)}</h3>
@@ -74,19 +87,19 @@ export default function Home() {
                       Vol: <span className="text-foreground font-medium">{batch.milkVolumeL}L</span> • Iniciado em {new Date(batch.startedAt).toLocaleDateString('pt-BR')}
                     </div>
                     <div className="text-sm text-muted-foreground mb-6">
-                      Etapa <span className="text-foreground font-medium">{batch.currentStageId}</span> de 19
+                      Etapa <span className="text-foreground font-medium">{batch.currentStageId}</span> • {position} de {total} no percurso
                     </div>
 
                     <div className="space-y-4">
                       <div>
                         <div className="flex justify-between text-sm mb-2">
                           <span className="text-muted-foreground">Progresso</span>
-                          <span className="font-medium">{Math.round((batch.currentStageId / 19) * 100)}%</span>
+                          <span className="font-medium">{Math.round((position / total) * 100)}%</span>
                         </div>
                         <div className="h-2 bg-secondary rounded-full overflow-hidden">
                           <div 
                             className="h-full bg-primary transition-all duration-500" 
-                            style={{ width: `${(batch.currentStageId / 19) * 100}%` }} 
+                            style={{ width: `${(position / total) * 100}%` }} 
                           />
                         </div>
                       </div>
@@ -102,7 +115,8 @@ export default function Home() {
                   </div>
                 </div>
               </Link>
-            ))}
+              );
+            })}
           </div>
         )}
       </main>
@@ -0,0 +1,160 @@
+import { Link } from "wouter";
+import { Hourglass, CheckCircle, Archive, ArrowRight, RotateCw } from "lucide-react";
+import { Navbar } from "@/components/layout/Navbar";
+import { Footer } from "@/components/layout/Footer";
+import { Button } from "@/components/ui/button";
+import { useMaturation, useCloseBatch, useRecordMaturationCare } from "@/hooks/use-batches";
+import { useToast } from "@/hooks/use-toast";
+import { formatBatchLabel, type MaturationEntry, type BatchLifecycleStatus } from "@shared/schema";
+
+const SECTIONS: Array<{ status: BatchLifecycleStatus; title: string; empty: string; icon: typeof Hourglass }> = [
+  { status: "MATURING", title: "Em Maturação", empty: "Nenhum lote em maturação.", icon: Hourglass },
+  { status: "READY_FOR_SALE", title: "Prontos para Venda", empty: "Nenhum lote pronto para venda.", icon: CheckCircle },
+  { status: "CLOSED", title: "Encerrados", empty: "Nenhum lote encerrado.", icon: Archive },
+];
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString("pt-BR") : "—";
+}
+
+// Share of the maturation period already elapsed, from chamber 2 entry to end date
+function maturationProgress(entry: MaturationEntry): number {
+  if (!entry.chamber2EntryDate || !entry.maturationEndDate) return 0;
+  const start = new Date(entry.chamber2EntryDate).getTime();
+  const end = new Date(entry.maturationEndDate).getTime();
+  if (end <= start) return 100;
+  return Math.min(100, Math.max(0, ((Date.now() - start) / (end - start)) * 100));
+}
+
+export default function Maturation() {
+  const { data: entries, isLoading } = useMaturation();
+  const { mutate: closeBatch, isPending: isClosing } = useCloseBatch();
+  const { mutate: recordCare, isPending: isRecording } = useRecordMaturationCare();
+  const { toast } = useToast();
+  const turningDue = (entries || []).filter(e => e.batchStatus !== "CLOSED" && !e.turnedToday);
+
+  const handleTurn = (batchId: number) => {
+    recordCare({ id: batchId, action: "turn" }, {
+      onSuccess: () => toast({ title: "Virada registrada", description: `Lote ${batchId} virado hoje.` }),
+      onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
+    });
+  };
+
+  const handleClose = (batchId: number) => {
+    closeBatch({ id: batchId }, {
+      onSuccess: () => toast({ title: "Encerrado", description: "Lote encerrado." }),
+      onError: (err) => toast({ title: "Erro", description: err.message, variant: "destructive" })
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8">
+        <header className="mb-12">
+          <h1 className="text-4xl md:text-5xl font-display font-bold mb-2">
+            Painel de <span className="text-primary text-glow">Maturação</span>
+          </h1>
+          <p className="text-muted-foreground text-lg max-w-2xl">
+            Lotes na câmara 2, prontos para venda e encerrados.
+          </p>
+        </header>
+
+        {turningDue.length > 0 && (
+          <div className="bg-amber-500/10 border border-amber-500/30 text-amber-400 p-4 rounded-xl mb-6 flex items-center gap-3" data-testid="turning-due">
+            <RotateCw className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">
+              <span className="font-medium">Virar hoje:</span>{" "}
+              {turningDue.map(l => `${l.recipeName} ${formatBatchLabel(l)}`).join(", ")}
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="grid md:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-64 rounded-2xl bg-secondary/30 animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-3">
+            {SECTIONS.map(({ status, title, empty, icon: Icon }) => {
+              const lots = (entries || []).filter(e => e.batchStatus === status);
+              return (
+                <section key={status} className="glass-card p-6 rounded-2xl" data-testid={`maturation-${status.toLowerCase()}`}>
+                  <h2 className="flex items-center gap-2 text-lg font-bold mb-4">
+                    <Icon className="w-5 h-5 text-primary" />
+                    {title}
+                    <span className="text-sm text-muted-foreground font-normal">({lots.length})</span>
+                  </h2>
+
+                  {lots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{empty}</p>
+                  ) : (
+                    <ul className="space-y-3">
+                      {lots.map((lot) => (
+                        <li key={lot.batchId} className="p-4 rounded-xl border border-border/50 bg-secondary/10">
+                          <div className="flex justify-between items-start mb-1">
+                            <span className="font-bold">Queijo {lot.recipeName}</span>
+                            <span className="text-xs text-muted-foreground font-mono">{formatBatchLabel(lot)}</span>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Câmara 2: {formatDate(lot.chamber2EntryDate)} • Fim: {formatDate(lot.maturationEndDate)}
+                          </div>
+
+                          {status === "MATURING" && (
+                            <div className="mt-3">
+                              <div className="flex justify-between text-xs mb-1">
+                                <span className="text-muted-foreground">Faltam {lot.daysRemaining} dia{lot.daysRemaining === 1 ? "" : "s"}</span>
+                                <span>{Math.round(maturationProgress(lot))}%</span>
+                              </div>
+                              <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                                <div className="h-full bg-primary" style={{ width: `${maturationProgress(lot)}%` }} />
+                              </div>
+                            </div>
+                          )}
+                          {status !== "CLOSED" && (
+                            <div className="text-xs mt-2 text-muted-foreground">
+                              {lot.turnedToday
+                                ? <span className="text-green-400">Virado hoje</span>
+                                : <span className="text-amber-400">Falta virar hoje</span>}
+                              {lot.lastTurnedAt && ` • última virada ${new Date(lot.lastTurnedAt).toLocaleString("pt-BR")}`}
+                            </div>
+                          )}
+                          {status === "CLOSED" && (
+                            <div className="text-sm text-muted-foreground">Encerrado em {formatDate(lot.closedAt)}</div>
+                          )}
+
+                          <div className="flex items-center justify-between mt-3">
+                            <Link href={`/batch/${lot.batchId}`} className="text-sm text-primary flex items-center gap-1">
+                              Ver lote <ArrowRight className="w-3 h-3" />
+                            </Link>
+                            {status !== "CLOSED" && !lot.turnedToday && (
+                              <Button size="sm" variant="ghost" disabled={isRecording} onClick={() => handleTurn(lot.batchId)}
+                                data-testid={`button-turn-${lot.batchId}`}>
+                                <RotateCw className="w-3 h-3 mr-1" /> Virei
+                              </Button>
+                            )}
+                            {status === "READY_FOR_SALE" && (
+                              <Button size="sm" variant="outline" disabled={isClosing} onClick={() => handleClose(lot.batchId)}
+                                data-testid={`button-close-${lot.batchId}`}>
+                                Encerrar
+                              </Button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -5,18 +5,21 @@ import { Navbar } from "@/components/layout/Navbar";
 import { Footer } from "@/components/layout/Footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { useStartBatch } from "@/hooks/use-batches";
+import { useRecipes } from "@/hooks/use-recipes";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
-import { getAllCheeseTypes, type CheeseType } from "@shared/schema";
-
-const cheeseTypes = getAllCheeseTypes();
+import { getCheeseTypesWithAvailability } from "@shared/schema";
 
 export default function NewBatch() {
+  const { data: recipes } = useRecipes();
+  const cheeseTypes = getCheeseTypesWithAvailability(recipes?.map(r => r.recipeId) ?? []);
   const [milkVolume, setMilkVolume] = useState<string>("50");
   const [milkTemperature, setMilkTemperature] = useState<string>("");
   const [milkPh, setMilkPh] = useState<string>("");
   const [selectedCheese, setSelectedCheese] = useState<string>("QUEIJO_NETE");
+  const [isTraining, setIsTraining] = useState(false);
   const { mutate, isPending } = useStartBatch();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -58,10 +61,11 @@ export default function NewBatch() {
       milkVolumeL: volume, 
       milkTemperatureC: temperature,
       milkPh: ph,
-      recipeId: selectedCheese 
+      recipeId: selectedCheese,
+      isTraining
     }, {
       onSuccess: (batch) => {
-        toast({ title: "Lote Criado", description: `Lote iniciado com sucesso.` });
+        toast({ title: "Lote Criado", description: isTraining ? "Lote de treino iniciado com sucesso." : `Lote iniciado com sucesso.` });
         setLocation(`/batch/${batch.id}`);
       },
       onError: (err) => {
@@ -201,6 +205,23 @@ export default function NewBatch() {
                 </div>
               </div>
 
+              <div className="flex items-start justify-between gap-4 p-4 rounded-lg border border-amber-500/20 bg-amber-500/5">
+                <div className="space-y-1">
+                  <label htmlFor="switch-training" className="text-sm font-medium uppercase tracking-wider text-muted-foreground">
+                    Lote de treino
+                  </label>
+                  <p className="text-sm text-muted-foreground">
+                    Os timers correm mais rápido e o lote fica fora dos relatórios, da numeração e da rastreabilidade.
+                  </p>
+                </div>
+                <Switch
+                  id="switch-training"
+                  checked={isTraining}
+                  onCheckedChange={setIsTraining}
+                  data-testid="switch-training"
+                />
+              </div>
+
               <div className="pt-4 border-t border-white/5">
                 <Button 
                   type="submit" 
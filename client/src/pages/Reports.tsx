@@ -5,7 +5,7 @@ import { Footer } from "@/components/layout/Footer";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useCompletedBatches } from "@/hooks/use-batches";
-import { getCheeseTypeName, formatBatchCode, ProductionBatch } from "@shared/schema";
+import { getCheeseTypeName, formatBatchCode, ProductionBatch, type BatchStagePath, type MeasurementHistoryEntry } from "@shared/schema";
 import { useState, useRef } from "react";
 import * as XLSX from "xlsx";
 
@@ -55,6 +55,16 @@ interface MeasurementHistoryItem {
   timestamp: string;
 }
 
+// Current values from batch_measurements; batches not yet backfilled fall back to `_history`
+function getMeasurementHistory(batch: ReportBatch): MeasurementHistoryItem[] {
+  if (batch.measurementHistory?.length) {
+    return batch.measurementHistory
+      .filter((entry): entry is MeasurementHistoryEntry & { value: number | string } => entry.value !== null);
+  }
+  const measurements = batch.measurements as Record<string, any> || {};
+  return (measurements._history || []).filter((item: { reverted?: boolean }) => !item.reverted);
+}
+
 function formatValue(key: string, value: number | string): string {
   if (key === "chamber_2_entry_date") {
     return new Date(value).toLocaleDateString("pt-BR");
@@ -65,6 +75,7 @@ function formatValue(key: string, value: number | string): string {
   if (key === "loop_exit_reason") {
     const reasonMap: Record<string, string> = {
       "ph_reached": "pH ideal atingido",
+      "condition_met": "Condição de saída atingida",
       "time_limit": "Tempo limite atingido"
     };
     return reasonMap[String(value)] || String(value);
@@ -83,13 +94,18 @@ function getMeasurementLabel(key: string, stageId: number, measurementIndex?: nu
   return baseLabel;
 }
 
-function exportToExcel(batches: ProductionBatch[]) {
+type ReportBatch = ProductionBatch & { stagePath?: BatchStagePath; measurementHistory?: MeasurementHistoryEntry[] };
+
+// Stages in the order the batch actually went through them
+function getReportStageIds(batch: ReportBatch): number[] {
+  return batch.stagePath?.visited ?? Array.from({ length: 19 }, (_, i) => i + 1);
+}
+
+function exportToExcel(batches: ReportBatch[]) {
   const data: any[] = [];
-  const allStageIds = Array.from({ length: 19 }, (_, i) => i + 1);
-  
   batches.forEach((batch) => {
-    const measurements = batch.measurements as Record<string, any> || {};
-    const history: MeasurementHistoryItem[] = measurements._history || [];
+    const allStageIds = getReportStageIds(batch);
+    const history = getMeasurementHistory(batch);
     
     const measurementsByStage = history.reduce((acc, item) => {
       if (!acc[item.stageId]) acc[item.stageId] = [];
@@ -103,6 +119,7 @@ function exportToExcel(batches: ProductionBatch[]) {
         data.push({
           "Lote": formatBatchCode(batch.startedAt),
           "Tipo": getCheeseTypeName(batch.recipeId),
+          "Versão da Receita": batch.recipeVersion || "N/A",
           "Volume (L)": batch.milkVolumeL,
           "Data Conclusão": batch.completedAt ? new Date(batch.completedAt).toLocaleDateString("pt-BR") : "N/A",
           "Etapa": `${stageId} - ${STAGE_NAMES[stageId] || `Etapa ${stageId}`}`,
@@ -118,7 +135,7 @@ function exportToExcel(batches: ProductionBatch[]) {
   XLSX.utils.book_append_sheet(wb, ws, "Relatório de Lotes");
   
   const colWidths = [
-    { wch: 12 }, { wch: 15 }, { wch: 12 }, { wch: 15 },
+    { wch: 12 }, { wch: 15 }, { wch: 18 }, { wch: 12 }, { wch: 15 },
     { wch: 35 }, { wch: 25 }, { wch: 20 }
   ];
   ws["!cols"] = colWidths;
@@ -214,7 +231,7 @@ function getStageData(batch: ProductionBatch, stageId: number, measurementsBySta
     const exitReason = stageHistory.find(i => i.key === 'loop_exit_reason');
     const reason = exitReason?.value || measurements.loop_exit_reason;
     if (reason) {
-      const reasonMap: Record<string, string> = { "ph_reached": "pH ideal atingido", "time_limit": "Tempo limite atingido" };
+      const reasonMap: Record<string, string> = { "ph_reached": "pH ideal atingido", "condition_met": "Condição de saída atingida", "time_limit": "Tempo limite atingido" };
       rows.push({ label: "Motivo de Saída", value: reasonMap[String(reason)] || String(reason) });
     }
   }
@@ -224,7 +241,7 @@ function getStageData(batch: ProductionBatch, stageId: number, measurementsBySta
       rows.push({ label: "Data de Entrada na Câmara 2", value: new Date(batch.chamber2EntryDate).toLocaleDateString("pt-BR") });
     }
     if (batch.maturationEndDate) {
-      rows.push({ label: "Fim da Maturação (90 dias)", value: new Date(batch.maturationEndDate).toLocaleDateString("pt-BR") });
+      rows.push({ label: "Fim da Maturação", value: new Date(batch.maturationEndDate).toLocaleDateString("pt-BR") });
     }
     if (batch.completedAt) {
       rows.push({ label: "Data de Conclusão", value: new Date(batch.completedAt).toLocaleDateString("pt-BR") });
@@ -234,11 +251,10 @@ function getStageData(batch: ProductionBatch, stageId: number, measurementsBySta
   return rows;
 }
 
-function BatchReport({ batch, printRef }: { batch: ProductionBatch; printRef?: React.RefObject<HTMLDivElement> }) {
+function BatchReport({ batch, printRef }: { batch: ReportBatch; printRef?: React.RefObject<HTMLDivElement> }) {
   const [expanded, setExpanded] = useState(false);
   
-  const measurements = batch.measurements as Record<string, any> || {};
-  const history: MeasurementHistoryItem[] = measurements._history || [];
+  const history = getMeasurementHistory(batch);
   
   const measurementsByStage = history.reduce((acc, item) => {
     if (!acc[item.stageId]) {
@@ -248,7 +264,7 @@ function BatchReport({ batch, printRef }: { batch: ProductionBatch; printRef?: R
     return acc;
   }, {} as Record<number, MeasurementHistoryItem[]>);
 
-  const allStageIds = Array.from({ length: 19 }, (_, i) => i + 1);
+  const allStageIds = getReportStageIds(batch);
   const stagesWithData = allStageIds.filter((stageId) => getStageData(batch, stageId, measurementsByStage).length > 0);
 
   return (
@@ -268,7 +284,7 @@ function BatchReport({ batch, printRef }: { batch: ProductionBatch; printRef?: R
                 Lote {formatBatchCode(batch.startedAt)}
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                {getCheeseTypeName(batch.recipeId)} - {batch.milkVolumeL}L - Concluído em {batch.completedAt ? new Date(batch.completedAt).toLocaleDateString("pt-BR") : "N/A"}
+                {getCheeseTypeName(batch.recipeId)}{batch.recipeVersion && ` (receita v${batch.recipeVersion})`} - {batch.milkVolumeL}L - Concluído em {batch.completedAt ? new Date(batch.completedAt).toLocaleDateString("pt-BR") : "N/A"}
                 {batch.chamber2EntryDate && ` | Entrada Câmara 2: ${new Date(batch.chamber2EntryDate).toLocaleDateString("pt-BR")}`}
                 {batch.maturationEndDate && ` | Fim Maturação: ${new Date(batch.maturationEndDate).toLocaleDateString("pt-BR")}`}
               </p>
@@ -318,7 +334,7 @@ function BatchReport({ batch, printRef }: { batch: ProductionBatch; printRef?: R
   );
 }
 
-function PrintableReport({ batches }: { batches: ProductionBatch[] }) {
+function PrintableReport({ batches }: { batches: ReportBatch[] }) {
   return (
     <div className="p-8">
       <div className="text-center mb-8">
@@ -328,8 +344,7 @@ function PrintableReport({ batches }: { batches: ProductionBatch[] }) {
       </div>
       
       {batches.map((batch) => {
-        const measurements = batch.measurements as Record<string, any> || {};
-        const history: MeasurementHistoryItem[] = measurements._history || [];
+        const history = getMeasurementHistory(batch);
         
         const measurementsByStage = history.reduce((acc, item) => {
           if (!acc[item.stageId]) acc[item.stageId] = [];
@@ -337,14 +352,14 @@ function PrintableReport({ batches }: { batches: ProductionBatch[] }) {
           return acc;
         }, {} as Record<number, MeasurementHistoryItem[]>);
 
-        const allStageIds = Array.from({ length: 19 }, (_, i) => i + 1);
+        const allStageIds = getReportStageIds(batch);
         
         return (
           <div key={batch.id} className="mb-8 break-inside-avoid">
             <div className="border-b-2 border-black pb-2 mb-4">
               <h3 className="text-lg font-bold">Lote {formatBatchCode(batch.startedAt)}</h3>
               <p className="text-sm">
-                {getCheeseTypeName(batch.recipeId)} - {batch.milkVolumeL}L - 
+                {getCheeseTypeName(batch.recipeId)}{batch.recipeVersion && ` (receita v${batch.recipeVersion})`} - {batch.milkVolumeL}L - 
                 Concluído em {batch.completedAt ? new Date(batch.completedAt).toLocaleDateString("pt-BR") : "N/A"}
               </p>
             </div>
@@ -0,0 +1,151 @@
+// Talk to the Alexa webhook without an Echo device (see server/alexa/conversation.ts
+// for the conversation file format). Runs in memory unless --url is given.
+//
+//   npm run alexa:sim -- script/conversations/novo_lote_guiado.json
+//   npm run alexa:sim -- script/conversations/novo_lote_guiado.json --url http://localhost:5000
+//   npm run alexa:sim                                  # interactive
+//   npm run alexa:test                                 # every file in script/conversations
+//
+// Interactive lines: "abrir", "sair", "esperar 30m" (also 2h, 1d), "reiniciar", "atributos",
+// "!IntentName slot=valor outro=\"dois valores\"", anything else is said as
+// ProcessCommandIntent.
+
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { conversationScriptSchema, conversationTurnSchema } from "@shared/alexaEnvelope";
+
+// In-memory runs never touch the database, but the storage module creates its
+// (lazy) database pool on import
+process.env.DATABASE_URL ||= "postgres://alexa-sim@localhost/unused";
+
+const CONVERSATIONS_DIR = path.join(process.cwd(), "script", "conversations");
+
+const args = process.argv.slice(2);
+const runAll = args.includes("--all");
+const verbose = args.includes("--verbose");
+const asJson = args.includes("--json");
+const urlIndex = args.indexOf("--url");
+const url = urlIndex >= 0 ? args[urlIndex + 1] : undefined;
+const files = args.filter((a, i) => !a.startsWith("--") && (urlIndex < 0 || i !== urlIndex + 1));
+
+if (urlIndex >= 0 && !url) {
+  console.error("Usage: npm run alexa:sim -- [<conversation.json> ...] [--url <server>] [--json] [--verbose]");
+  process.exit(2);
+}
+
+type Conversation = typeof import("../server/alexa/conversation");
+
+// Service logs are noise here unless asked for
+function quiet<T>(fn: () => Promise<T>): Promise<T> {
+  if (verbose) return fn();
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+  return fn().finally(() => {
+    console.log = log;
+    console.warn = warn;
+  });
+}
+
+function listConversationFiles(): string[] {
+  return fs.readdirSync(CONVERSATIONS_DIR)
+    .filter(f => f.endsWith(".json"))
+    .sort()
+    .map(f => path.join(CONVERSATIONS_DIR, f));
+}
+
+async function runFile(conversation: Conversation, file: string): Promise<boolean> {
+  const source = path.relative(process.cwd(), file);
+  const parsed = conversationScriptSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      console.error(`${source}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    }
+    return false;
+  }
+
+  const report = await quiet(() => conversation.runConversation(parsed.data, { url }));
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+    return report.success;
+  }
+
+  console.log(`${report.success ? "ok  " : "FAIL"} ${source}${report.name ? ` (${report.name})` : ""}`);
+  for (const turn of report.turns) {
+    if (!runAll || turn.failures.length > 0) {
+      console.log(`  #${turn.turn + 1} ${turn.request}`);
+      if (turn.reply) console.log(`     < ${turn.reply.speech}`);
+    }
+    for (const failure of turn.failures) console.log(`     ✗ ${failure}`);
+  }
+  return report.success;
+}
+
+// "!LogTimeIntent time=10:30 timeType=\"ponto de corte\"" -> intent turn
+function parseLine(line: string): any {
+  const lower = line.toLowerCase();
+  if (lower === "abrir") return { request: "launch" };
+  if (lower === "sair") return { request: "end" };
+  if (lower === "reiniciar") return { request: "restart" };
+  const wait = lower.match(/^esperar (\d+(?:\.\d+)?)([mhd])$/);
+  if (wait) return { request: "wait", [{ m: "minutes", h: "hours", d: "days" }[wait[2]]!]: Number(wait[1]) };
+  if (line.startsWith("!")) {
+    const [intent, ...rest] = line.slice(1).match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+    const slots = Object.fromEntries(rest.map(pair => {
+      const [name, ...value] = pair.split("=");
+      return [name, value.join("=").replace(/^"|"$/g, "")];
+    }));
+    return { request: "intent", intent, slots };
+  }
+  return { request: "say", utterance: line };
+}
+
+async function interactive(conversation: Conversation) {
+  const session = await quiet(() => conversation.AlexaConversation.open({ url }));
+  console.log(`Simulador Alexa (${url || "em memória"}). Diga algo, "abrir", "!Intent slot=valor", "esperar 30m", "reiniciar", "atributos" ou Ctrl+D.`);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: "> " });
+  rl.prompt();
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (line === "atributos") {
+      console.log(JSON.stringify(session.attributes, null, 2));
+    } else if (line) {
+      const turn = conversationTurnSchema.safeParse(parseLine(line));
+      if (!turn.success) {
+        console.log(`  ${turn.error.issues[0].message}`);
+      } else {
+        const result = await quiet(() => session.send(turn.data));
+        if (result.reply?.speech) console.log(`< ${result.reply.speech}`);
+        if (result.reply?.shouldEndSession || turn.data.request === "end") console.log("  [sessão encerrada]");
+        if (turn.data.request === "wait") console.log(`  ${session.now().toISOString()}`);
+        for (const failure of result.failures) console.log(`  ✗ ${failure}`);
+      }
+    }
+    rl.prompt();
+  }
+  await session.close();
+}
+
+async function main() {
+  const conversation = await import("../server/alexa/conversation");
+
+  const targets = runAll ? listConversationFiles() : files.map(f => path.resolve(f));
+  if (targets.length === 0) {
+    await interactive(conversation);
+    process.exit(0);
+  }
+
+  let failed = 0;
+  for (const file of targets) {
+    if (!await runFile(conversation, file)) failed++;
+  }
+  if (runAll) console.log(`\n${targets.length - failed}/${targets.length} conversa(s) ok`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+// Print the skill's pt-BR interaction model (server/alexa/interactionModel.ts)
+// or check it against the recipes.
+//
+//   npm run alexa:model                                   # JSON for the Alexa developer console
+//   npm run alexa:model -- --out interaction-model.json
+//   npm run alexa:check
+
+import fs from "fs";
+
+// Only the handler declarations are read, but the storage module creates its
+// (lazy) database pool on import
+process.env.DATABASE_URL ||= "postgres://alexa-model@localhost/unused";
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const outIndex = args.indexOf("--out");
+const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+
+if (outIndex >= 0 && !outFile) {
+  console.error("Usage: npm run alexa:model -- [--out <file>] [--check]");
+  process.exit(2);
+}
+
+async function main() {
+  // Module logs (recipe loading) go to stderr; stdout is only the JSON
+  if (!check && !outFile) console.log = console.error;
+  const { buildInteractionModel, checkInteractionModel } = await import("../server/alexa/interactionModel");
+
+  const issues = checkInteractionModel();
+  if (check) {
+    if (issues.length > 0) {
+      for (const issue of issues) console.error(issue);
+      console.error(`\n${issues.length} issue(s) found`);
+      process.exit(1);
+    }
+    console.log("interaction model: ok");
+    return;
+  }
+
+  for (const issue of issues) console.warn(`warning: ${issue}`);
+  const json = JSON.stringify(buildInteractionModel(), null, 2) + "\n";
+  if (outFile) {
+    fs.writeFileSync(outFile, json);
+    console.error(`Wrote ${outFile}`);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+// Replay recorded Alexa requests (alexa_webhook_logs) against the current code
+// and show where the speech, session attributes or batch changes differ (see
+// server/alexa/replay.ts). Reads the database; the replay runs in memory.
+//
+//   npm run alexa:replay -- --from 2026-03-01 --to 2026-03-31
+//   npm run alexa:replay -- --session amzn1.echo-api.session.0a1b2c...
+//   npm run alexa:replay -- --from 2026-03-01 --json > replay.json
+//
+// Dates alone are whole days in Brasília time. --all also lists the requests
+// that replayed the same; --verbose keeps the service logs.
+
+import { type ReplayTurnResult } from "../server/alexa/replay";
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+const from = option("--from");
+const to = option("--to");
+const sessionId = option("--session");
+const asJson = args.includes("--json");
+const listAll = args.includes("--all");
+const verbose = args.includes("--verbose");
+
+if (!from && !to && !sessionId) {
+  console.error("Usage: npm run alexa:replay -- [--from <date>] [--to <date>] [--session <sessionId>] [--json] [--all] [--verbose]");
+  process.exit(2);
+}
+
+function parseDate(value: string, endOfDay: boolean): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}-03:00`);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(`Data inválida: ${value}`);
+    process.exit(2);
+  }
+  return date;
+}
+
+const MARKS = { same: "=", changed: "≠", inconclusive: "?" };
+
+// Service logs are silenced below unless --verbose; the report still prints
+const print = console.log;
+
+function printTurn(turn: ReplayTurnResult) {
+  if (turn.status === "same" && !listAll) return;
+  const session = turn.sessionId ? ` ...${turn.sessionId.slice(-8)}` : "";
+  print(`${MARKS[turn.status]} #${turn.logId} ${turn.at}${session} ${turn.request}`);
+  for (const difference of turn.differences) {
+    if (difference === "fala diferente") {
+      print(`    gravado: ${turn.recordedSpeech}`);
+      print(`    replay:  ${turn.replayedSpeech}`);
+    } else {
+      print(`    ${difference}`);
+    }
+  }
+  if (turn.status === "inconclusive") {
+    print(`    ${turn.missingLlmReplies} resposta(s) do modelo sem gravação; o replay usou as respostas padrão`);
+  }
+}
+
+async function main() {
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  const { getAlexaLogsForReplay } = await import("../server/logService");
+  const { replayWebhookLogs } = await import("../server/alexa/replay");
+
+  const logs = await getAlexaLogsForReplay({
+    startDate: from ? parseDate(from, false) : undefined,
+    endDate: to ? parseDate(to, true) : undefined,
+    sessionId
+  });
+  const report = await replayWebhookLogs(logs, asJson ? undefined : printTurn);
+
+  if (asJson) {
+    print(JSON.stringify(report, null, 2));
+  } else {
+    print(`\n${report.turns.length} requisição(ões): ${report.same} iguais, ${report.changed} diferentes, ${report.inconclusive} inconclusivas`);
+  }
+  process.exit(report.changed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+// Copy the `_history` of existing batches into the batch_measurements table.
+// Run once after `npm run db:push` creates the table; batches that already
+// have rows are skipped, so it is safe to run again.
+//
+//   npm run db:backfill-measurements
+
+import { storage } from "../server/storage";
+import { backfillBatchMeasurements } from "../server/batchService";
+
+async function main() {
+  const batches = await storage.getAllBatches();
+  let written = 0;
+  let filled = 0;
+  for (const batch of batches) {
+    const count = await backfillBatchMeasurements(batch);
+    if (count > 0) {
+      filled++;
+      written += count;
+      console.log(`Lote ${batch.id}: ${count} medições`);
+    }
+  }
+  console.log(`${written} medições copiadas de ${filled} lotes (${batches.length - filled} já migrados ou sem histórico).`);
+  process.exit(0);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+// Replay batches from their events (batch_logs entries with an `event`).
+//
+//   npm run events -- check                   # every batch: ok, drift or untracked
+//   npm run events -- check 12
+//   npm run events -- replay 12               # the batch as its events describe it
+//   npm run events -- replay 12 --at 14:30    # ... at 14:30 on the day it started
+//   npm run events -- replay 12 --at 2026-03-01T17:30:00Z
+//   npm run events -- rebuild 12              # overwrite the stored state with the replay
+
+import { storage } from "../server/storage";
+import { checkBatchConsistency, getBatchStateAt, rebuildBatch } from "../server/batchEvents";
+import { toLocalDateKey } from "@shared/schema";
+
+const [command, idArg, ...rest] = process.argv.slice(2);
+const atIndex = rest.indexOf("--at");
+const atArg = atIndex >= 0 ? rest[atIndex + 1] : undefined;
+
+function usage(): never {
+  console.error("Usage: npm run events -- check [batchId] | replay <batchId> [--at <HH:MM|ISO>] | rebuild <batchId>");
+  process.exit(2);
+}
+
+// "HH:MM" is read on the production day the batch started (Brasília time, UTC-3)
+function parseAt(value: string, startedAt: Date): Date {
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!clock) return new Date(value);
+  return new Date(`${toLocalDateKey(startedAt)}T${clock[1].padStart(2, "0")}:${clock[2]}:00-03:00`);
+}
+
+async function check(batchId?: number) {
+  const batches = batchId !== undefined
+    ? [await storage.getBatch(batchId)].filter(b => b !== undefined)
+    : await storage.getAllBatches();
+  let drifted = 0;
+  for (const batch of batches) {
+    const result = await checkBatchConsistency(batch);
+    console.log(`Lote ${batch.id}: ${result.status}`);
+    for (const d of result.drift) {
+      console.log(`  ${d.field}: gravado ${JSON.stringify(d.stored)}, eventos ${JSON.stringify(d.replayed)}`);
+    }
+    if (result.status === "drift") drifted++;
+  }
+  return drifted > 0 ? 1 : 0;
+}
+
+async function main() {
+  const batchId = idArg !== undefined ? Number(idArg) : undefined;
+  if (batchId !== undefined && isNaN(batchId)) usage();
+
+  switch (command) {
+    case "check":
+      return check(batchId);
+
+    case "replay": {
+      const batch = batchId !== undefined ? await storage.getBatch(batchId) : undefined;
+      if (!batch) usage();
+      const at = atArg ? parseAt(atArg, batch.startedAt) : undefined;
+      if (at && isNaN(at.getTime())) usage();
+      const state = await getBatchStateAt(batch.id, at);
+      if (!state) {
+        console.error(`Lote ${batch.id}: sem eventos${at ? ` até ${at.toISOString()}` : ""}.`);
+        return 1;
+      }
+      console.log(JSON.stringify(state, null, 2));
+      return 0;
+    }
+
+    case "rebuild": {
+      if (batchId === undefined) usage();
+      const result = await rebuildBatch(batchId);
+      if (!result.success) {
+        console.error(`Lote ${batchId}: ${result.error}`);
+        return 1;
+      }
+      if (result.drift?.length) {
+        for (const d of result.drift) console.log(`  ${d.field}: ${JSON.stringify(d.stored)} → ${JSON.stringify(d.replayed)}`);
+        console.log(`Lote ${batchId}: reconstruído (${result.drift.length} campos).`);
+      } else {
+        console.log(`Lote ${batchId}: já consistente.`);
+      }
+      return 0;
+    }
+
+    default:
+      usage();
+  }
+}
+
+main().then(code => process.exit(code)).catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+// Move the development server's clock (see server/devRoutes.ts). Logs in with
+// DEV_USERNAME / DEV_PASSWORD; APP_URL defaults to http://localhost:5000.
+//
+//   npm run clock                                  # current server time
+//   npm run clock -- advance 36h                   # also 90m, 90d, 1d12h
+//   npm run clock -- to 2026-06-01T09:00:00-03:00
+//   npm run clock -- reset                         # back to the real time
+
+import { api } from "@shared/routes";
+import { type DevClockStatus } from "@shared/schema";
+
+const baseUrl = process.env.APP_URL || "http://localhost:5000";
+const [command = "status", arg] = process.argv.slice(2);
+
+function usage(): never {
+  console.error("Usage: npm run clock -- [status | advance <90m|36h|90d> | to <ISO> | reset]");
+  process.exit(2);
+}
+
+// "1d12h30m" -> { days: 1, hours: 12, minutes: 30 }
+function parseDuration(value: string): { days: number; hours: number; minutes: number } | null {
+  const match = value.match(/^(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?$/);
+  if (!match || !value) return null;
+  return { days: Number(match[1] || 0), hours: Number(match[2] || 0), minutes: Number(match[3] || 0) };
+}
+
+async function login(): Promise<string> {
+  const username = process.env.DEV_USERNAME;
+  const password = process.env.DEV_PASSWORD;
+  if (!username || !password) {
+    console.error("Set DEV_USERNAME and DEV_PASSWORD to a user of the development server");
+    process.exit(2);
+  }
+  const res = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password })
+  });
+  if (!res.ok) throw new Error(`Login failed: ${res.status} ${await res.text()}`);
+  return (res.headers.get("set-cookie") || "").split(";")[0];
+}
+
+async function call(cookie: string, method: string, path: string, body?: unknown): Promise<DevClockStatus> {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (res.status === 404) throw new Error("Dev clock not available: is the server running with npm run dev?");
+  if (!res.ok) throw new Error(`${method} ${path} failed: ${res.status} ${await res.text()}`);
+  return await res.json();
+}
+
+function print(status: DevClockStatus) {
+  const offsetHours = status.offsetMs / 3_600_000;
+  console.log(`Hora do servidor: ${status.now} (${offsetHours === 0 ? "hora real" : `+${offsetHours.toFixed(2)} h`})`);
+  for (const notification of status.fired) {
+    console.log(`  ${notification.firedAt}  [lote ${notification.batchId}] ${notification.kind}: ${notification.message}`);
+  }
+  if (status.promoted.length > 0) {
+    console.log(`  Lotes prontos para venda: ${status.promoted.join(", ")}`);
+  }
+}
+
+async function main() {
+  const cookie = await login();
+
+  switch (command) {
+    case "status":
+      print(await call(cookie, "GET", api.dev.clock.path));
+      break;
+    case "advance": {
+      const duration = arg ? parseDuration(arg) : null;
+      if (!duration) usage();
+      print(await call(cookie, "POST", api.dev.advanceClock.path, duration));
+      break;
+    }
+    case "to":
+      if (!arg || isNaN(new Date(arg).getTime())) usage();
+      print(await call(cookie, "POST", api.dev.advanceClock.path, { to: arg }));
+      break;
+    case "reset":
+      print(await call(cookie, "POST", api.dev.resetClock.path));
+      break;
+    default:
+      usage();
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
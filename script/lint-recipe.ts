@@ -0,0 +1,50 @@
+// Lint recipe YAML files offline with the same checks the server runs at startup.
+//
+//   npm run lint:recipes                                  # every file in server/recipes
+//   npm run lint:recipes -- server/recipes/queijo_nina.yml
+
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { validateRecipe, formatRecipeIssues } from "../server/recipeSchema";
+
+const RECIPES_DIR = path.join(process.cwd(), "server", "recipes");
+
+function listRecipeFiles(): string[] {
+  return fs.readdirSync(RECIPES_DIR)
+    .filter(f => f.endsWith(".yml") || f.endsWith(".yaml"))
+    .sort()
+    .map(f => path.join(RECIPES_DIR, f));
+}
+
+function lintFile(file: string): number {
+  const source = path.relative(process.cwd(), file);
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    console.error(`${source}: ${(e as Error).message}`);
+    return 1;
+  }
+
+  const issues = validateRecipe(raw);
+  if (issues.length > 0) {
+    console.error(formatRecipeIssues(source, issues));
+  } else {
+    console.log(`${source}: ok`);
+  }
+  return issues.length;
+}
+
+const files = process.argv.slice(2);
+const targets = files.length > 0 ? files.map(f => path.resolve(f)) : listRecipeFiles();
+
+let total = 0;
+for (const file of targets) {
+  total += lintFile(file);
+}
+
+if (total > 0) {
+  console.error(`\n${total} issue(s) found`);
+  process.exit(1);
+}
@@ -0,0 +1,72 @@
+// Dry-run a batch through a recipe with a scripted list of inputs and a
+// virtual clock (see server/simulator.ts for the script format).
+//
+//   npm run simulate -- script/simulations/queijo_nete.json
+//   npm run simulate -- script/simulations/queijo_nete.json --json
+//   npm run simulate -- script/simulations/queijo_nete.json --verbose
+
+import fs from "fs";
+
+// The simulator only uses in-memory storage, but the storage module creates
+// its (lazy) database pool on import
+process.env.DATABASE_URL ||= "postgres://simulator@localhost/unused";
+
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith("--"));
+const asJson = args.includes("--json");
+const verbose = args.includes("--verbose");
+
+if (!file) {
+  console.error("Usage: npm run simulate -- <script.json> [--json] [--verbose]");
+  process.exit(2);
+}
+
+async function main() {
+  const { runSimulation, simulationScriptSchema } = await import("../server/simulator");
+
+  const parsed = simulationScriptSchema.safeParse(JSON.parse(fs.readFileSync(file!, "utf8")));
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      console.error(`${file}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    }
+    process.exit(2);
+  }
+
+  // Service logs are noise here unless asked for
+  const log = console.log;
+  const warn = console.warn;
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+  const report = await runSimulation(parsed.data);
+  console.log = log;
+  console.warn = warn;
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Receita ${report.recipeId} (${report.recipeVersion}), ${report.milkVolumeL} L`);
+    console.log(`\nDoses:`);
+    for (const dose of report.doses) {
+      console.log(`  ${dose.name}: ${dose.value} ${dose.unit}`);
+    }
+    console.log(`\nPercurso: ${report.stagePath.visited.join(" → ")}` +
+      (report.stagePath.remaining.length ? ` (faltam ${report.stagePath.remaining.join(", ")})` : ""));
+    console.log(`\nEventos:`);
+    for (const event of report.events) {
+      const step = event.step !== undefined ? `#${event.step + 1}` : "";
+      console.log(`  ${event.at}  ${step.padEnd(4)} [${event.stageId}] ${event.type}: ${event.message}`);
+    }
+    console.log(`\nTimers: ${report.timers.length} (${report.timers.filter(t => t.outcome === "fired").length} disparados)`);
+    console.log(`Bloqueios: ${report.blocks.length}`);
+    console.log(`Situação final: etapa ${report.finalStageId}, ${report.status} (${report.batchStatus}), ${report.finishedAt}`);
+  }
+
+  process.exit(report.success ? 0 : 1);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
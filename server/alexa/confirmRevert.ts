@@ -0,0 +1,37 @@
+import * as batchService from "../batchService";
+import { readVoiceDialog, writeVoiceDialog } from "../voiceDialog";
+import { buildAlexaResponse, type AlexaResponse } from "./response";
+import { type IntentContext } from "./types";
+
+/**
+ * Answer to "voltar etapa?" (session `pending` CONFIRM_REVERT): "sim" reverts,
+ * "não" keeps the stage, anything else drops the question and the turn goes
+ * on to its own intent (null).
+ */
+export async function answerPendingRevert({ intentName, slots, sessionAttributes, apiCtx, activeBatch }: IntentContext): Promise<AlexaResponse | null> {
+  const dialog = readVoiceDialog(sessionAttributes);
+  if (dialog?.flow !== "revert") return null;
+
+  const answer = String((slots.utterance || slots.command || slots.query)?.value || "").toLowerCase().trim().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  const confirmed = intentName === "AMAZON.YesIntent" || (intentName === "ProcessCommandIntent" && ["sim", "confirmo", "confirmar"].includes(answer));
+  const declined = intentName === "AMAZON.NoIntent" || (intentName === "ProcessCommandIntent" && ["nao", "cancelar", "manter"].includes(answer));
+  const clearedAttrs = writeVoiceDialog(sessionAttributes, null);
+
+  if (confirmed) {
+    if (!activeBatch || activeBatch.currentStageId !== dialog.fromStageId) {
+      return buildAlexaResponse("A etapa mudou desde a pergunta. Nada foi revertido.", false, "O que deseja fazer?", clearedAttrs);
+    }
+    const result = await batchService.revertBatchStage(activeBatch.id, "Confirmado por voz: avanço por engano", apiCtx);
+    console.log(`[CONFIRM_REVERT] batch=${activeBatch.id} success=${result.success} code=${result.code || '-'}`);
+    const speech = result.success
+      ? `Pronto. Voltamos para a etapa ${result.previousStage!.id}, ${result.previousStage!.name}.`
+      : result.error || "Não foi possível voltar a etapa.";
+    return buildAlexaResponse(speech, false, "O que deseja fazer?", clearedAttrs);
+  }
+  if (declined) {
+    return buildAlexaResponse("Ok, etapa mantida.", false, "O que deseja fazer?", clearedAttrs);
+  }
+  delete sessionAttributes.pending;
+  delete sessionAttributes.revertFromStageId;
+  return null;
+}
@@ -0,0 +1,232 @@
+/**
+ * Scripted Alexa conversations against the webhook, without an Echo device.
+ * Each turn becomes a request envelope (shared/alexaEnvelope.ts), session
+ * attributes are carried between turns and the reply is checked against the
+ * turn's expectations. Used by `npm run alexa:sim` / `npm run alexa:test`
+ * (script/alexa-conversation.ts) and POST /api/dev/alexa/conversations.
+ *
+ *   {
+ *     "name": "Novo lote guiado",
+ *     "turns": [
+ *       { "request": "launch", "expect": "nenhum lote" },
+ *       { "request": "say", "utterance": "iniciar lote com 100 litros", "expect": "temperatura",
+ *         "expectAttributes": { "pending": "START_BATCH_TEMP" } },
+ *       { "request": "intent", "intent": "RegisterMilkTemperatureIntent", "slots": { "temp_value": "32" } },
+ *       { "request": "wait", "minutes": 30 },              // in-memory runs only
+ *       { "request": "restart" },                          // in-memory runs only
+ *       { "request": "end" }
+ *     ]
+ *   }
+ *
+ * "restart" stands for a server restart (or another instance) in the middle
+ * of a session: the webhook is replaced by a new one over the same storage
+ * and the session attributes are dropped, so only what the server stored
+ * (voice_dialog_state, the user's last batch) carries the dialog on.
+ *
+ * By default the webhook runs in-process over a MemoryStorage, a VirtualClock
+ * and the offline LLM (only the deterministic fallbacks speak), with signature
+ * checks and request logging off. With a URL the envelopes go to that server
+ * instead; the development server skips signature checks.
+ */
+
+import express from "express";
+import { once } from "events";
+import {
+  newSimulatedSession, buildLaunchRequest, buildIntentRequest, buildSessionEndedRequest,
+  readAlexaReply, applyAlexaReply, SIMULATOR_USER_ID, type SimulatedSession, type SimulatedReply,
+  type ConversationScript, type ConversationTurn, type ConversationTurnResult, type ConversationReport
+} from "@shared/alexaEnvelope";
+import { MemoryStorage } from "../memoryStorage";
+import { runWithStorage } from "../storage";
+import { VirtualClock, runWithClock } from "../clock";
+import { offlineLlm, runWithLlm, type Llm } from "../llm";
+import { createAlexaWebhook } from "./webhook";
+
+const MINUTE_MS = 60_000;
+
+// What an in-process webhook request runs against
+export interface WebhookScope {
+  store: MemoryStorage;
+  clock: VirtualClock;
+  model: Llm;
+}
+
+/**
+ * The webhook on a loopback port, signature checks and logging off. Each
+ * request runs in the scope `scope()` returns when it arrives (the webhook
+ * replay swaps it per turn).
+ */
+export async function startLocalWebhook(scope: () => WebhookScope): Promise<{ url: string; close(): Promise<void> }> {
+  const app = express();
+  app.use(express.json());
+  app.use((_req, _res, next) => {
+    const { store, clock, model } = scope();
+    runWithStorage(store, () => runWithClock(clock, () => runWithLlm(model, next)));
+  });
+  app.post("/api/alexa/webhook", createAlexaWebhook({ verify: false, log: false }));
+
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const address = server.address();
+  return {
+    url: `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/api/alexa/webhook`,
+    async close() {
+      server.close();
+      await once(server, "close");
+    }
+  };
+}
+
+export function describeTurn(turn: ConversationTurn): string {
+  switch (turn.request) {
+    case "intent": {
+      const slots = Object.entries(turn.slots || {}).map(([k, v]) => `${k}=${v}`).join(" ");
+      return slots ? `${turn.intent} ${slots}` : turn.intent;
+    }
+    case "say":
+      return `"${turn.utterance}"`;
+    case "wait":
+      return `esperar ${[turn.days && `${turn.days}d`, turn.hours && `${turn.hours}h`, turn.minutes && `${turn.minutes}m`].filter(Boolean).join("") || "0m"}`;
+    default:
+      return turn.request;
+  }
+}
+
+function checkReply(turn: ConversationTurn, reply: SimulatedReply): string[] {
+  if (turn.request === "end" || turn.request === "wait" || turn.request === "restart") return [];
+  const failures: string[] = [];
+  const expected = typeof turn.expect === "string" ? [turn.expect] : turn.expect || [];
+  for (const text of expected) {
+    if (!reply.speech.toLowerCase().includes(text.toLowerCase())) failures.push(`fala sem "${text}"`);
+  }
+  if (turn.expectEnd !== undefined && reply.shouldEndSession !== turn.expectEnd) {
+    failures.push(turn.expectEnd ? "sessão deveria terminar" : "sessão não deveria terminar");
+  }
+  for (const [key, value] of Object.entries(turn.expectAttributes || {})) {
+    const actual = reply.attributes[key] ?? null;
+    if (JSON.stringify(actual) !== JSON.stringify(value)) {
+      failures.push(`atributo ${key} = ${JSON.stringify(actual)}, esperado ${JSON.stringify(value)}`);
+    }
+  }
+  return failures;
+}
+
+/**
+ * One Alexa session against a webhook, turn by turn (the CLI's interactive
+ * mode drives it directly). close() stops the in-process webhook.
+ */
+export class AlexaConversation {
+  private session: SimulatedSession;
+  private local?: { close(): Promise<void> };
+  private scope?: WebhookScope;
+  private clock?: VirtualClock;
+  private webhookUrl: string;
+
+  private constructor(private userId: string, url?: string) {
+    this.session = newSimulatedSession(userId);
+    this.webhookUrl = url ? `${url.replace(/\/$/, "")}/api/alexa/webhook` : "";
+  }
+
+  static async open(options: { url?: string; userId?: string; startAt?: Date } = {}): Promise<AlexaConversation> {
+    const conversation = new AlexaConversation(options.userId || SIMULATOR_USER_ID, options.url);
+    if (!options.url) await conversation.startInMemoryWebhook(options.startAt);
+    return conversation;
+  }
+
+  private async startInMemoryWebhook(startAt?: Date) {
+    this.scope = { store: new MemoryStorage(), clock: new VirtualClock(startAt), model: offlineLlm };
+    this.clock = this.scope.clock;
+    await this.startLocal(this.scope);
+  }
+
+  private async startLocal(scope: WebhookScope) {
+    const local = await startLocalWebhook(() => scope);
+    this.local = local;
+    this.webhookUrl = local.url;
+  }
+
+  now(): Date {
+    return this.clock?.now() ?? new Date();
+  }
+
+  get attributes(): Record<string, any> {
+    return this.session.attributes;
+  }
+
+  private async post(body: unknown): Promise<SimulatedReply> {
+    const res = await fetch(this.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`Webhook respondeu ${res.status}: ${await res.text()}`);
+    return readAlexaReply(await res.json());
+  }
+
+  async send(turn: ConversationTurn, index: number = 0): Promise<ConversationTurnResult> {
+    const result: ConversationTurnResult = { turn: index, request: describeTurn(turn), at: this.now().toISOString(), failures: [] };
+    try {
+      switch (turn.request) {
+        case "wait": {
+          if (!this.clock) {
+            result.failures.push("esperar só funciona na simulação em memória");
+            return result;
+          }
+          this.clock.advance(((turn.days || 0) * 1440 + (turn.hours || 0) * 60 + (turn.minutes || 0)) * MINUTE_MS);
+          return result;
+        }
+        case "restart": {
+          if (!this.scope) {
+            result.failures.push("reiniciar só funciona na simulação em memória");
+            return result;
+          }
+          await this.local?.close();
+          await this.startLocal(this.scope);
+          this.session = { ...this.session, attributes: {} };
+          return result;
+        }
+        case "end": {
+          result.reply = await this.post(buildSessionEndedRequest(this.session, turn.reason, this.now()));
+          this.session = newSimulatedSession(this.userId);
+          return result;
+        }
+        case "launch":
+          this.session = newSimulatedSession(this.userId);
+          result.reply = await this.post(buildLaunchRequest(this.session, this.now()));
+          break;
+        case "intent":
+          result.reply = await this.post(buildIntentRequest(this.session, turn.intent, turn.slots, this.now()));
+          break;
+        case "say":
+          result.reply = await this.post(buildIntentRequest(this.session, "ProcessCommandIntent", { utterance: turn.utterance }, this.now()));
+          break;
+      }
+      this.session = applyAlexaReply(this.session, result.reply);
+      result.failures = checkReply(turn, result.reply);
+    } catch (err) {
+      result.failures.push((err as Error).message);
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.local?.close();
+  }
+}
+
+export async function runConversation(script: ConversationScript, options: { url?: string } = {}): Promise<ConversationReport> {
+  const conversation = await AlexaConversation.open({
+    url: options.url,
+    userId: script.userId,
+    startAt: script.startAt ? new Date(script.startAt) : undefined
+  });
+  const turns: ConversationTurnResult[] = [];
+  try {
+    for (let i = 0; i < script.turns.length; i++) {
+      turns.push(await conversation.send(script.turns[i], i));
+    }
+  } finally {
+    await conversation.close();
+  }
+  return { name: script.name, success: turns.every(t => t.failures.length === 0), turns };
+}
@@ -0,0 +1,372 @@
+import { storage } from "../storage";
+import * as batchService from "../batchService";
+import * as speechRenderer from "../speechRenderer";
+import { recipeManager, DEFAULT_RECIPE_ID } from "../recipe";
+import { type ApiContext } from "../alexaReminders";
+import { type InterpretedCommand } from "../interpreter";
+import { getStage13EntryPrompt, VOICE_ORIGIN } from "./voiceHelpers";
+
+// Execute action based on interpreted intent - backend is SOVEREIGN
+// LLM only interprets, backend decides and executes
+// IMPORTANT: Uses batchService for ALL operations to ensure consistency with REST API
+export async function executeIntent(
+  command: InterpretedCommand,
+  pendingInputReminder?: string,
+  resolvedBatch?: any,
+  apiCtxParam?: ApiContext | null,
+  alexaUserId?: string | null
+): Promise<{ speech: string; shouldEndSession: boolean; card?: any; sessionAttrsOverride?: Record<string, any> }> {
+
+  const activeBatch = resolvedBatch || await batchService.getActiveBatch();
+
+  switch (command.intent) {
+    case "start_batch": {
+      const milkVolume = command.entities.volume;
+      const milkTemperature = command.entities.milk_temperature;
+      const milkPh = command.entities.ph_value;
+      const recipeId = command.entities.cheese_type || DEFAULT_RECIPE_ID;
+      const isTraining = command.entities.training === true;
+
+      if (milkVolume === undefined || milkVolume === null) {
+        return {
+          speech: "Para iniciar um novo lote, diga a quantidade de leite em litros. Por exemplo: 'novo lote com 130 litros'.",
+          shouldEndSession: false
+        };
+      }
+
+      if (milkTemperature !== undefined && milkTemperature !== null &&
+          milkPh !== undefined && milkPh !== null) {
+        // All 3 provided in one utterance - proceed directly
+      } else {
+        // Multi-turn: volume provided, need temp and/or pH
+        // Return session attributes to trigger guided flow
+        return {
+          speech: `_GUIDED_START_BATCH_`,
+          shouldEndSession: false,
+          guidedDraft: { recipe_id: recipeId, milk_volume_l: milkVolume, milk_temperature_c: milkTemperature ?? undefined, milk_ph: milkPh ?? undefined, training: isTraining || undefined }
+        } as any;
+      }
+
+      const result = await batchService.startBatch({
+        milkVolumeL: milkVolume!,
+        milkTemperatureC: milkTemperature!,
+        milkPh: milkPh!,
+        recipeId,
+        isTraining,
+        origin: VOICE_ORIGIN
+      });
+
+      if (!result.success) {
+        const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
+        const speech = await speechRenderer.renderSpeech(payload);
+        return { speech, shouldEndSession: false };
+      }
+
+      if (alexaUserId && result.batch?.id) {
+        await storage.setLastActiveBatch(alexaUserId, result.batch.id);
+        console.log(`[start_batch] Persisted activeBatch=${result.batch.id} for user`);
+      }
+      const currentStage = recipeManager.getStage(result.batch.currentStageId || 3, result.batch);
+      const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "status": {
+      if (!activeBatch) {
+        const payload = speechRenderer.buildErrorPayload(
+          "Não há lote ativo no momento.",
+          undefined
+        );
+        payload.allowedUtterances = ["novo lote com 130 litros"];
+        const speech = await speechRenderer.renderSpeech(payload);
+        return { speech, shouldEndSession: false };
+      }
+      const status = await batchService.getBatchStatus(activeBatch.id);
+      if (!status) {
+        return { speech: "Erro ao obter status.", shouldEndSession: false };
+      }
+      const stage = recipeManager.getStage(status.currentStageId, activeBatch);
+      const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "status", pendingInputReminder);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "advance": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para avançar.", shouldEndSession: false };
+      }
+
+      const currentS13 = getStage13EntryPrompt(activeBatch, {});
+      if (currentS13) {
+        const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+        const speech = `Etapa ${activeBatch.currentStageId}: ${stage?.name || 'Medir pH inicial e registrar quantidade de peças'}.${currentS13.prompt}`;
+        console.log(`[advance] Already on stage ${activeBatch.currentStageId}, starting guided entry: pending=${currentS13.newAttrs.pending}`);
+        return { speech, shouldEndSession: false, sessionAttrsOverride: currentS13.newAttrs };
+      }
+
+      const result = await batchService.advanceBatch(activeBatch.id, apiCtxParam);
+
+      if (!result.success) {
+        const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+        const payload = speechRenderer.buildErrorPayload(result.error || "Não é possível avançar agora.", stage);
+        const speech = await speechRenderer.renderSpeech(payload);
+        return { speech, shouldEndSession: false };
+      }
+
+      if (result.completed) {
+        if (alexaUserId) {
+          await storage.clearLastActiveBatch(alexaUserId);
+          console.log(`[advance] Batch completed, cleared persisted activeBatch for user`);
+        }
+        const payload = speechRenderer.buildAdvancePayload(activeBatch, null, true);
+        const speech = await speechRenderer.renderSpeech(payload);
+        return { speech, shouldEndSession: false };
+      }
+
+      const updatedBatch = result.batch || activeBatch;
+      const nextStage = recipeManager.getStage(result.nextStage?.id || 0, updatedBatch);
+
+      if (nextStage) {
+        const s13 = getStage13EntryPrompt(updatedBatch, {});
+        if (s13) {
+          const speech = `Etapa ${nextStage.id}: ${nextStage.name}.${s13.prompt}`;
+          console.log(`[advance] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
+          return { speech, shouldEndSession: false, sessionAttrsOverride: s13.newAttrs };
+        }
+      }
+
+      const payload = speechRenderer.buildAdvancePayload(updatedBatch, nextStage, false);
+      let speech = await speechRenderer.renderSpeech(payload);
+
+      if (result.reminderScheduled && result.waitDurationText) {
+        speech += ` Vou te avisar em ${result.waitDurationText}.`;
+      } else if (result.needsReminderPermission && result.waitDurationText) {
+        speech += ` Esta etapa dura ${result.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+      } else if (result.needsReminderPermission) {
+        speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+      }
+
+      return { speech, shouldEndSession: false };
+    }
+
+    case "log_time": {
+      // Time registration is now handled exclusively by LogTimeIntent with AMAZON.TIME slot
+      // Redirect user to use proper time format for reliable recognition
+      return { 
+        speech: "Para registrar horários, diga: 'hora da floculação às quinze e trinta' ou 'hora do corte às 16 horas'. Use o formato com 'às' seguido do horário.", 
+        shouldEndSession: false 
+      };
+    }
+
+    case "log_date": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para registrar data.", shouldEndSession: false };
+      }
+      const dateValue = command.entities.date_value;
+      const dateType = command.entities.date_type;
+      if (!dateValue) {
+        return { speech: "Não entendi a data. Diga algo como 'coloquei na câmara dois agora'.", shouldEndSession: false };
+      }
+
+      if (dateType === "chamber_2_entry") {
+        const result = await batchService.recordChamber2Entry(activeBatch.id, dateValue, { origin: VOICE_ORIGIN }, apiCtxParam);
+        if (!result.success) {
+          return { speech: result.error || "Erro ao registrar data.", shouldEndSession: false };
+        }
+        return { speech: `Data de entrada na câmara dois ${dateValue} registrada. Maturação termina em ${result.maturationDays} dias.`, shouldEndSession: false };
+      }
+
+      return { speech: "Tipo de data não reconhecido.", shouldEndSession: false };
+    }
+
+    case "log_number": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para registrar valor.", shouldEndSession: false };
+      }
+      const numberValue = command.entities.number_value;
+      const numberType = command.entities.number_type;
+      if (numberValue === undefined || numberValue === null) {
+        return { speech: "Não entendi o valor. Diga algo como 'o pH é cinco ponto dois' ou 'tem doze peças'.", shouldEndSession: false };
+      }
+
+      if (numberType === "ph_value") {
+        if (recipeManager.isPhLoopStage(activeBatch.currentStageId, activeBatch)) {
+          console.log(`[log_number] Redirecting pH registration at stage ${activeBatch.currentStageId}`);
+          return { speech: "Na etapa de viradas, diga: 'pH cinco vírgula dois'.", shouldEndSession: false };
+        }
+        const warnings = batchService.getInputValidationWarnings(activeBatch, "ph_value", numberValue);
+        const result = await batchService.logPh(activeBatch.id, numberValue, undefined, VOICE_ORIGIN);
+        if (!result.success) {
+          return { speech: result.error || "Erro ao registrar pH.", shouldEndSession: false };
+        }
+        const warningText = warnings.length > 0 ? ` Atenção: ${warnings.join(' ')}` : '';
+        return { speech: `pH ${numberValue} registrado com sucesso.${warningText}`, shouldEndSession: false };
+      }
+
+      if (numberType === "pieces_quantity") {
+        await batchService.saveMeasurement(activeBatch, "pieces_quantity", numberValue, VOICE_ORIGIN);
+        return { speech: `Quantidade de ${numberValue} peças registrada.`, shouldEndSession: false };
+      }
+
+      if (numberType === "milk_temperature") {
+        const normalizedTemp = batchService.normalizeTemperatureValue(numberValue);
+        if (normalizedTemp === null) {
+          return { speech: `Temperatura ${numberValue} não parece válida. Diga um valor entre 0 e 50 graus.`, shouldEndSession: false };
+        }
+        const warnings = batchService.getInputValidationWarnings(activeBatch, "current_temperature", normalizedTemp);
+        await batchService.saveMeasurement(activeBatch, "current_temperature", normalizedTemp, VOICE_ORIGIN);
+        const warningText = warnings.length > 0 ? ` Atenção: ${warnings.join(' ')}` : '';
+        return { speech: `Temperatura ${normalizedTemp} graus registrada.${warningText}`, shouldEndSession: false };
+      }
+
+      return { speech: "Tipo de valor não reconhecido.", shouldEndSession: false };
+    }
+
+    case "pause": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para pausar.", shouldEndSession: false };
+      }
+
+      // FIXED: Now uses batchService for consistent state management
+      const result = await batchService.pauseBatch(activeBatch.id, undefined, apiCtxParam);
+      if (!result.success) {
+        return { speech: result.error || "Erro ao pausar lote.", shouldEndSession: false };
+      }
+      return { speech: "Lote pausado. Diga 'quero retomar' quando quiser continuar.", shouldEndSession: false };
+    }
+
+    case "resume": {
+      if (!activeBatch) {
+        return { speech: "Não há lote para retomar.", shouldEndSession: false };
+      }
+
+      // FIXED: Now uses batchService for consistent state management
+      const result = await batchService.resumeBatch(activeBatch.id, apiCtxParam);
+      if (!result.success) {
+        return { speech: result.error || "Erro ao retomar lote.", shouldEndSession: false };
+      }
+      const shifted = result.pausedMinutes ? ` Os timers foram adiados em ${result.pausedMinutes} minutos.` : "";
+      return { speech: `Lote retomado.${shifted} Continuando de onde paramos.`, shouldEndSession: false };
+    }
+
+    case "revert": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo.", shouldEndSession: false };
+      }
+      // Only asks here; the revert runs when the operator confirms (CONFIRM_REVERT)
+      const target = batchService.getRevertTarget(activeBatch);
+      if (!target) {
+        return { speech: "Não há etapa anterior para voltar neste lote.", shouldEndSession: false };
+      }
+      const currentStage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+      return {
+        speech: `Voltar da etapa ${target.fromStageId}, ${currentStage?.name || ''}, para a etapa ${target.toStageId}, ${target.toStageName}? Diga 'sim' para confirmar ou 'não' para manter.`,
+        shouldEndSession: false,
+        sessionAttrsOverride: { pending: "CONFIRM_REVERT", revertFromStageId: target.fromStageId }
+      };
+    }
+
+    case "instructions": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo.", shouldEndSession: false };
+      }
+      const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+      if (!stage) {
+        return { speech: "Etapa não encontrada.", shouldEndSession: false };
+      }
+      const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "instructions", pendingInputReminder);
+      if (stage.llm_guidance) {
+        payload.notes = payload.notes 
+          ? `${payload.notes} Dica: ${stage.llm_guidance}` 
+          : `Dica: ${stage.llm_guidance}`;
+      }
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "timer": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo.", shouldEndSession: false };
+      }
+
+      // FIXED: Now reads timers from batchService which are created by advance
+      const status = await batchService.getBatchStatus(activeBatch.id);
+      if (!status) {
+        return { speech: "Erro ao obter status.", shouldEndSession: false };
+      }
+
+      const activeTimer = status.activeTimers.find(t => !t.isComplete);
+      if (!activeTimer) {
+        return { speech: "Não há timer ativo no momento.", shouldEndSession: false };
+      }
+
+      const remaining = Math.ceil(activeTimer.remainingSeconds / 60);
+      if (remaining > 60) {
+        const hours = Math.floor(remaining / 60);
+        const mins = remaining % 60;
+        return { speech: `Faltam ${hours} horas e ${mins} minutos no timer.`, shouldEndSession: false };
+      }
+      return { speech: `Faltam ${remaining} minutos no timer.`, shouldEndSession: false };
+    }
+
+    case "query_input": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para consultar insumos.", shouldEndSession: false };
+      }
+
+      const inputType = command.entities.input_type;
+      if (!inputType) {
+        return { speech: "Qual insumo você quer consultar? LR, DX, KL ou coalho?", shouldEndSession: false };
+      }
+
+      const calculatedInputs = activeBatch.calculatedInputs as Record<string, number> | null;
+      if (!calculatedInputs) {
+        return { speech: "Os insumos ainda não foram calculados para este lote.", shouldEndSession: false };
+      }
+
+      const dose = recipeManager.getBatchDoses(calculatedInputs, activeBatch).find(d => d.id === inputType);
+      if (!dose) {
+        const inputNames: Record<string, string> = {
+          "FERMENT_LR": "fermento LR",
+          "FERMENT_DX": "fermento DX",
+          "FERMENT_KL": "fermento KL",
+          "RENNET": "coalho"
+        };
+        return { speech: `O insumo ${inputNames[inputType] || inputType} não foi encontrado.`, shouldEndSession: false };
+      }
+
+      const payload = speechRenderer.buildQueryInputPayload(inputType, dose.value, dose.unit);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "repeat_doses": {
+      if (!activeBatch) {
+        return { speech: "Não há lote ativo para consultar as doses.", shouldEndSession: false };
+      }
+      const payload = speechRenderer.buildRepeatDosesPayload(activeBatch);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "help": {
+      const stage = activeBatch ? recipeManager.getStage(activeBatch.currentStageId, activeBatch) : undefined;
+      const payload = speechRenderer.buildHelpPayload(stage, activeBatch);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return { speech, shouldEndSession: false };
+    }
+
+    case "goodbye": {
+      return { speech: "Até logo! Bom trabalho na queijaria.", shouldEndSession: true };
+    }
+
+    case "unknown":
+    default: {
+      return {
+        speech: "Não entendi o comando. Diga 'ajuda' para ver as opções disponíveis.",
+        shouldEndSession: false
+      };
+    }
+  }
+}
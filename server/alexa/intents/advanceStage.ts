@@ -0,0 +1,61 @@
+import { storage } from "../../storage";
+import * as batchService from "../../batchService";
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { buildAlexaResponse } from "../response";
+import { getActiveBatchForUser, buildBatchSelectionMenu } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// AdvanceStageIntent: deterministic stage advancement (no LLM)
+export const advanceStageIntent: IntentHandler = {
+  intents: ["AdvanceStageIntent"],
+  guidedSteps: [],
+  stageLock: "respect",
+  model: {
+    AdvanceStageIntent: {
+      samples: ["avançar etapa", "avançar", "próxima etapa", "ir para a próxima etapa", "terminei a etapa", "concluir etapa"]
+    }
+  },
+  async handle({ sessionAttributes, userId, apiCtx, activeBatch: activeBatchResolved }) {
+    const activeBatch = activeBatchResolved || (userId ? await getActiveBatchForUser(userId) : null);
+    if (!activeBatch) {
+      console.log(`[AdvanceStageIntent] No active batch, showing menu`);
+      const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
+      return buildAlexaResponse(speechText, false, repromptText, newSessionAttrs);
+    }
+
+    console.log(`[AdvanceStageIntent] Advancing batch=${activeBatch.id} from stage=${activeBatch.currentStageId}`);
+    const result = await batchService.advanceBatch(activeBatch.id, apiCtx);
+
+    if (!result.success) {
+      const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+      const payload = speechRenderer.buildErrorPayload(result.error || "Não é possível avançar agora.", stage);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+    }
+
+    if (result.completed) {
+      if (userId) {
+        await storage.clearLastActiveBatch(userId);
+        console.log(`[AdvanceStageIntent] Batch completed, cleared persisted activeBatch`);
+      }
+      const payload = speechRenderer.buildAdvancePayload(activeBatch, null, true);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+    }
+
+    const updatedBatch = result.batch || activeBatch;
+    const nextStage = recipeManager.getStage(result.nextStage?.id || 0, updatedBatch);
+    const payload = speechRenderer.buildAdvancePayload(updatedBatch, nextStage, false);
+    let speech = await speechRenderer.renderSpeech(payload);
+    if (result.reminderScheduled && result.waitDurationText) {
+      speech += ` Vou te avisar em ${result.waitDurationText}.`;
+    } else if (result.needsReminderPermission && result.waitDurationText) {
+      speech += ` Esta etapa dura ${result.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+    } else if (result.needsReminderPermission) {
+      speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+    }
+
+    return buildAlexaResponse(speech, false, "O que mais posso ajudar?", { ...sessionAttributes, activeBatchId: updatedBatch.id, state: undefined });
+  }
+};
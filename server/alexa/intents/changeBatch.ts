@@ -0,0 +1,20 @@
+import { buildAlexaResponse } from "../response";
+import { buildBatchSelectionMenu } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// ChangeBatchIntent / AMAZON.NoIntent: switch to a different batch
+export const changeBatchIntent: IntentHandler = {
+  intents: ["ChangeBatchIntent", "AMAZON.NoIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  model: {
+    ChangeBatchIntent: {
+      samples: ["trocar lote", "trocar de lote", "mudar de lote", "outro lote", "ver os lotes"]
+    }
+  },
+  async handle({ intentName, sessionAttributes }) {
+    console.log(`[${intentName}] Showing batch selection menu`);
+    const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
+    return buildAlexaResponse(speechText, false, repromptText, newSessionAttrs);
+  }
+};
@@ -0,0 +1,45 @@
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { buildAlexaResponse } from "../response";
+import { getActiveBatchForUser, getStage13EntryPrompt, buildBatchSelectionMenu } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// ContinueIntent / AMAZON.YesIntent: continue with the active batch
+export const continueIntent: IntentHandler = {
+  intents: ["ContinueIntent", "AMAZON.YesIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  model: {
+    ContinueIntent: {
+      samples: ["continuar", "continua", "continuar o lote", "seguir com o lote", "pode continuar"]
+    }
+  },
+  async handle({ intentName, sessionAttributes, userId, activeBatch: activeBatchResolved }) {
+    const activeBatch = userId ? await getActiveBatchForUser(userId) : activeBatchResolved;
+    if (activeBatch) {
+      console.log(`[${intentName}] Continuing with batch=${activeBatch.id} stage=${activeBatch.currentStageId}`);
+      const baseAttrs = { ...sessionAttributes, activeBatchId: activeBatch.id, state: undefined };
+
+      const s13 = getStage13EntryPrompt(activeBatch, baseAttrs);
+      if (s13) {
+        const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+        const speech = `Continuando o lote. Etapa ${activeBatch.currentStageId}: ${stage?.name || 'Medir pH inicial e registrar quantidade de peças'}.${s13.prompt}`;
+        console.log(`[${intentName}] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
+        return buildAlexaResponse(speech, false, s13.reprompt, s13.newAttrs);
+      }
+
+      const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+      const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "status");
+      const speech = await speechRenderer.renderSpeech(payload);
+      return buildAlexaResponse(
+        speech,
+        false,
+        "O que deseja fazer?",
+        baseAttrs
+      );
+    }
+    console.log(`[${intentName}] No active batch found, showing menu`);
+    const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
+    return buildAlexaResponse(speechText, false, repromptText, newSessionAttrs);
+  }
+};
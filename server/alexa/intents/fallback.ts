@@ -0,0 +1,85 @@
+import * as speechRenderer from "../../speechRenderer";
+import { readVoiceDialog } from "../../voiceDialog";
+import { buildAlexaResponse } from "../response";
+import { getTimeTypeLabel } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// AMAZON.FallbackIntent: re-ask the open guided step, else point to "ajuda"
+export const fallbackIntent: IntentHandler = {
+  intents: ["AMAZON.FallbackIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  async handle({ sessionAttributes }) {
+    // Handle guided start batch pending states
+    if (sessionAttributes?.pending === "START_BATCH_TEMP") {
+      console.log(`[FallbackIntent] In START_BATCH_TEMP state, re-prompting for temperature`);
+      return buildAlexaResponse(
+        "Não entendi. Diga a temperatura do leite em graus. Por exemplo: '32 graus'.",
+        false,
+        "Qual a temperatura do leite?",
+        sessionAttributes
+      );
+    }
+    if (sessionAttributes?.pending === "START_BATCH_PH") {
+      console.log(`[FallbackIntent] In START_BATCH_PH state, re-prompting for pH`);
+      return buildAlexaResponse(
+        "Não entendi. Diga o pH do leite. Por exemplo: 'pH seis vírgula cinco'.",
+        false,
+        "Qual o pH do leite?",
+        sessionAttributes
+      );
+    }
+    if (sessionAttributes?.pending === "STAGE13_PH") {
+      console.log(`[FallbackIntent] In STAGE13_PH state, re-prompting for pH`);
+      return buildAlexaResponse(
+        "Não entendi. Diga o pH inicial. Por exemplo: 'pH cinco vírgula dois'.",
+        false,
+        "Qual o pH inicial?",
+        sessionAttributes
+      );
+    }
+    if (sessionAttributes?.pending === "STAGE13_PIECES") {
+      console.log(`[FallbackIntent] In STAGE13_PIECES state, re-prompting for pieces`);
+      return buildAlexaResponse(
+        "Não entendi. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
+        false,
+        "Quantas peças?",
+        sessionAttributes
+      );
+    }
+    const fallbackDialog = readVoiceDialog(sessionAttributes);
+    if (fallbackDialog?.flow === "log_time") {
+      const typeLabel = getTimeTypeLabel(fallbackDialog.timeType);
+      console.log(`[FallbackIntent] In LOG_TIME state, re-prompting for ${fallbackDialog.timeType}`);
+      return buildAlexaResponse(
+        `Não entendi. Diga o horário ${typeLabel}. Por exemplo: 'às quinze e trinta'.`,
+        false,
+        `Qual foi a hora ${typeLabel}?`,
+        sessionAttributes
+      );
+    }
+    if (sessionAttributes?.state === "CONFIRM_CONTINUE_OR_SWITCH") {
+      console.log(`[FallbackIntent] In CONFIRM_CONTINUE_OR_SWITCH state, prompting user`);
+      return buildAlexaResponse(
+        "Diga 'continuar' para seguir com o lote atual, ou 'trocar lote' para ver outros lotes.",
+        false,
+        "Diga 'continuar' ou 'trocar lote'.",
+        sessionAttributes
+      );
+    }
+    if (sessionAttributes?.state === "AWAITING_BATCH_SELECTION") {
+      const choices = sessionAttributes.batchChoices as Array<{ optionNumber: number }> | undefined;
+      const validRange = choices?.map(c => `'opção ${c.optionNumber}'`).join(', ') || "'opção 1'";
+      return buildAlexaResponse(
+        `Não entendi. Diga ${validRange}.`,
+        false,
+        `Diga ${validRange}.`,
+        sessionAttributes
+      );
+    }
+    const payload = speechRenderer.buildErrorPayload("Não entendi o comando.");
+    payload.allowedUtterances = ["ajuda"];
+    const speech = await speechRenderer.renderSpeech(payload);
+    return buildAlexaResponse(speech, false, "Diga 'ajuda' para ver os comandos.", sessionAttributes);
+  }
+};
@@ -0,0 +1,18 @@
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { buildAlexaResponse } from "../response";
+import { type IntentHandler } from "../types";
+
+// AMAZON.HelpIntent
+export const helpIntent: IntentHandler = {
+  intents: ["AMAZON.HelpIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  async handle({ sessionAttributes, activeBatch: activeBatchResolved }) {
+    const activeBatch = activeBatchResolved;
+    const stage = activeBatch ? recipeManager.getStage(activeBatch.currentStageId, activeBatch) : undefined;
+    const payload = speechRenderer.buildHelpPayload(stage, activeBatch);
+    const speech = await speechRenderer.renderSpeech(payload);
+    return buildAlexaResponse(speech, false, "Diga um comando.", sessionAttributes);
+  }
+};
@@ -0,0 +1,219 @@
+import * as batchService from "../../batchService";
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { readVoiceDialog, writeVoiceDialog } from "../../voiceDialog";
+import { buildAlexaResponse } from "../response";
+import { parseSpokenTime, getTimeTypeLabel, VOICE_ORIGIN } from "../voiceHelpers";
+import { type IntentHandler, type IntentContext } from "../types";
+
+// Time said on its own while the time question is open
+function spokenTimeAnswer({ intentName, slots, sessionAttributes }: IntentContext): string | null {
+  if (intentName !== "ProcessCommandIntent" || readVoiceDialog(sessionAttributes)?.flow !== "log_time") return null;
+  return typeof slots.utterance?.value === "string" ? parseSpokenTime(slots.utterance.value) : null;
+}
+
+// TIME_TYPE slot values (the recipes' expected_time_type) and other names
+// operators use for them; the matching in handle accepts all of these
+export const TIME_TYPE_SYNONYMS: Record<string, string[]> = {
+  "floculação": ["floculacao", "flocul"],
+  "corte": ["ponto de corte", "ponto"],
+  "prensa": ["início de prensa", "inicio de prensa", "moldagem"],
+};
+
+// LogTimeIntent: structured time registration with the AMAZON.TIME slot, which
+// Alexa recognizes more reliably than free text
+export const logTimeIntent: IntentHandler = {
+  intents: ["LogTimeIntent"],
+  guidedSteps: [],
+  stageLock: "respect",
+  inputs: ["flocculation_time", "cut_point_time", "press_start_time"],
+  model: {
+    LogTimeIntent: {
+      slots: [
+        { name: "time", type: "AMAZON.TIME" },
+        { name: "timeType", type: "TIME_TYPE" }
+      ],
+      samples: [
+        "hora da {timeType} às {time}",
+        "hora do {timeType} às {time}",
+        "horário da {timeType} às {time}",
+        "registra hora da {timeType} às {time}",
+        "registra horário da {timeType} às {time}",
+        "a {timeType} foi às {time}",
+        "o {timeType} foi às {time}",
+        "hora às {time}",
+        "registra hora às {time}",
+        "às {time}"
+      ]
+    }
+  },
+  // After "qual foi a hora...?", a bare time ("às quinze e trinta") may arrive as ProcessCommandIntent
+  claims: (ctx: IntentContext) => spokenTimeAnswer(ctx) !== null,
+  async handle(ctx) {
+    const { slots, sessionAttributes, apiCtx, activeBatch: activeBatchResolved } = ctx;
+    const timeDialog = readVoiceDialog(sessionAttributes);
+    console.log("LogTimeIntent received:", JSON.stringify(slots, null, 2));
+    // Whatever this turn decides, the time question is answered
+    const attrsAfterTime = timeDialog?.flow === "log_time" ? writeVoiceDialog(sessionAttributes, null) : sessionAttributes;
+
+    const activeBatch = activeBatchResolved;
+    if (!activeBatch) {
+      return buildAlexaResponse(
+        "Não há lote ativo para registrar horário.",
+        false,
+        "O que mais posso ajudar?",
+        attrsAfterTime
+      );
+    }
+
+    // Extract time type from custom slot, or from the question that asked for the time
+    const timeTypeSlot = slots.timeType?.value || slots.time_type?.value;
+    const pendingTimeType = timeDialog?.flow === "log_time" ? timeDialog.timeType : undefined;
+
+    // Map slot values to internal time types and the recipe input they fill;
+    // the recipe's stage asking for that input is the only one that takes it
+    const timeTypeInputs: Record<string, string> = {
+      'flocculation': 'flocculation_time',
+      'cut_point': 'cut_point_time',
+      'press_start': 'press_start_time'
+    };
+
+    let timeType: string | undefined;
+
+    if (timeTypeSlot) {
+      const normalizedType = timeTypeSlot.toLowerCase();
+      if (normalizedType.includes("floc") || normalizedType === "floculação" || normalizedType === "floculacao") {
+        timeType = "flocculation";
+      } else if (normalizedType.includes("corte") || normalizedType === "ponto") {
+        timeType = "cut_point";
+      } else if (normalizedType.includes("prensa") || normalizedType.includes("moldagem")) {
+        timeType = "press_start";
+      }
+    } else if (pendingTimeType && timeTypeInputs[pendingTimeType]) {
+      timeType = pendingTimeType;
+    }
+
+    // STAGE VALIDATION: Reject if not at the expected stage
+    if (timeType) {
+      const inputKey = timeTypeInputs[timeType];
+      const label = batchService.TIME_INPUT_LABELS[inputKey];
+      const expectedStage = recipeManager.getStageForInput(inputKey, activeBatch);
+      if (!expectedStage) {
+        return buildAlexaResponse(
+          `A receita ${recipeManager.getRecipeName(activeBatch)} não registra horário de ${label}.`,
+          false,
+          "O que mais posso ajudar?",
+          attrsAfterTime
+        );
+      }
+      if (activeBatch.currentStageId !== expectedStage.id) {
+        const currentStage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+        return buildAlexaResponse(
+          `Não é possível registrar horário de ${label} nesta etapa. Estamos na etapa ${activeBatch.currentStageId}: ${currentStage?.name || 'em andamento'}.`,
+          false,
+          "O que mais posso ajudar?",
+          attrsAfterTime
+        );
+      }
+    }
+
+    // Extract time from AMAZON.TIME slot
+    // AMAZON.TIME formats: "15:30", "T15:30", "2026-01-08T15:30", "now", "MO", "AF", "EV", "NI"
+    let timeSlot = slots.time?.value ?? spokenTimeAnswer(ctx) ?? undefined;
+
+    // Normalize AMAZON.TIME value to HH:MM format
+    // AMAZON.TIME can return: "15:30", "T15:30", "T15:30:00", "2026-01-08T15:30:00", "17", "now", "MO", "AF", "EV", "NI"
+    let timeValue: string | null = null;
+    if (timeSlot) {
+      // Handle special values
+      if (timeSlot === "now" || timeSlot === "agora") {
+        timeValue = parseSpokenTime("agora");
+      }
+      // Handle period values (MO=morning, AF=afternoon, EV=evening, NI=night)
+      else if (timeSlot === "MO" || timeSlot === "AF" || timeSlot === "EV" || timeSlot === "NI") {
+        // Use current Brasília time for period-based inputs
+        timeValue = parseSpokenTime("agora");
+      }
+      // Handle ISO format with T prefix: T15:30, T15:30:00, 2026-01-08T15:30:00+00:00
+      else if (timeSlot.includes("T")) {
+        const timeMatch = timeSlot.match(/T(\d{1,2}):(\d{2})/);
+        if (timeMatch) {
+          timeValue = `${timeMatch[1].padStart(2, '0')}:${timeMatch[2]}`;
+        }
+      }
+      // Handle HH:MM or HH:MM:SS format directly
+      else if (/^\d{1,2}:\d{2}(:\d{2})?$/.test(timeSlot)) {
+        const parts = timeSlot.split(":");
+        timeValue = `${parts[0].padStart(2, '0')}:${parts[1]}`;
+      }
+      // Handle bare hour (e.g., "17" for 5 PM)
+      else if (/^\d{1,2}$/.test(timeSlot)) {
+        const hour = parseInt(timeSlot, 10);
+        if (hour >= 0 && hour <= 23) {
+          timeValue = `${String(hour).padStart(2, '0')}:00`;
+        }
+      }
+    }
+
+    // If no valid time, ask for it with correct example for the time type
+    if (!timeValue) {
+      const typeLabel = getTimeTypeLabel(timeType);
+      // Provide correct example based on time type
+      const examples: Record<string, string> = {
+        'flocculation': 'hora da floculação às vinte e três e nove',
+        'cut_point': 'hora do corte às quinze e trinta',
+        'press_start': 'hora da prensa às dezesseis e dez'
+      };
+      const example = examples[timeType || ''] || 'hora da floculação às vinte e três e nove';
+      console.log(`[LogTimeIntent] Missing time for ${timeType}, suggesting example: ${example}`);
+      return buildAlexaResponse(
+        `Por favor, diga o horário ${typeLabel}. Por exemplo: '${example}'.`,
+        false,
+        `Qual foi a hora ${typeLabel}?`,
+        writeVoiceDialog(sessionAttributes, { flow: "log_time", step: "time", timeType })
+      );
+    }
+
+    // Log the time - pass raw slot as fallback so batchService can try broader normalization
+    const logResult = await batchService.logTime(activeBatch.id, timeValue, timeType || timeTypeSlot, VOICE_ORIGIN);
+    if (!logResult.success) {
+      return buildAlexaResponse(
+        logResult.error || "Erro ao registrar horário.",
+        false,
+        "O que mais posso ajudar?",
+        attrsAfterTime
+      );
+    }
+
+    const typeLabel = getTimeTypeLabel(timeType);
+    const confirmationMsg = `Hora ${typeLabel} registrada às ${timeValue}.`;
+
+    const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
+    if (advanceResult.success && advanceResult.nextStage) {
+      const nextStage = recipeManager.getStage(advanceResult.nextStage.id, activeBatch);
+      const updatedBatch = await batchService.getBatch(activeBatch.id);
+      console.log(`[LogTimeIntent] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
+
+      if (nextStage && updatedBatch) {
+        const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
+        let speech = await speechRenderer.renderSpeech(payload);
+        if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
+          speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
+        } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
+          speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+        } else if (advanceResult.needsReminderPermission) {
+          speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+        }
+        return buildAlexaResponse(speech, false, "O que mais posso ajudar?", attrsAfterTime);
+      }
+    }
+
+    // Fallback if advance failed or no next stage
+    return buildAlexaResponse(
+      confirmationMsg,
+      false,
+      "O que mais posso ajudar?",
+      attrsAfterTime
+    );
+  }
+};
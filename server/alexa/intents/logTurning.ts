@@ -0,0 +1,71 @@
+import * as batchService from "../../batchService";
+import { formatBatchCode } from "@shared/schema";
+import { buildAlexaResponse } from "../response";
+import { type IntentHandler } from "../types";
+
+// LogTurningIntent: daily turning of a lot in chamber 2 ("virei os queijos do lote 190226")
+export const logTurningIntent: IntentHandler = {
+  intents: ["LogTurningIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  model: {
+    LogTurningIntent: {
+      slots: [{ name: "batch_code", type: "AMAZON.NUMBER" }],
+      samples: ["virei os queijos do lote {batch_code}", "virei o lote {batch_code}", "virei os queijos"]
+    }
+  },
+  async handle({ slots, sessionAttributes }) {
+    const codeSlot = slots.batch_code?.value || slots.batchCode?.value;
+    const due = await batchService.getTurningDue();
+    const describeDue = (lots: typeof due) =>
+      lots.map(l => `${l.recipeName} ${l.isTraining ? 'de treino' : formatBatchCode(l.startedAt).split('').join(' ')}`).join(', ');
+
+    let batchId: number | null = null;
+    if (codeSlot && codeSlot !== '?') {
+      // AMAZON.NUMBER drops the leading zero of days 01-09
+      const code = String(codeSlot).replace(/\D/g, '').padStart(6, '0');
+      const matches = await batchService.findMaturingBatchesByCode(code);
+      if (matches.length === 0) {
+        return buildAlexaResponse(
+          `Não encontrei lote ${code.split('').join(' ')} na câmara dois.${due.length ? ` Lotes para virar hoje: ${describeDue(due)}.` : ''}`,
+          false,
+          "Qual lote você virou?",
+          sessionAttributes
+        );
+      }
+      if (matches.length > 1) {
+        return buildAlexaResponse(
+          `Há ${matches.length} lotes com o código ${code.split('').join(' ')}. Registre a virada pelo painel de maturação.`,
+          false,
+          "O que mais posso ajudar?",
+          sessionAttributes
+        );
+      }
+      batchId = matches[0].id;
+    } else if (due.length === 1) {
+      batchId = due[0].batchId;
+    } else {
+      const example = due.find(l => !l.isTraining);
+      const speech = due.length === 0
+        ? "Todos os lotes da câmara dois já foram virados hoje."
+        : `Qual lote você virou? Faltam: ${describeDue(due)}.` +
+          (example ? ` Diga, por exemplo, 'virei os queijos do lote ${formatBatchCode(example.startedAt)}'.` : '');
+      return buildAlexaResponse(speech, false, "Qual lote você virou?", sessionAttributes);
+    }
+
+    const result = await batchService.recordMaturationCare(batchId, "turn", { source: "voice" });
+    if (!result.success) {
+      return buildAlexaResponse(
+        result.error || "Erro ao registrar a virada.",
+        false,
+        "O que mais posso ajudar?",
+        sessionAttributes
+      );
+    }
+
+    const remaining = due.filter(l => l.batchId !== batchId);
+    const speech = `Virada registrada.${remaining.length ? ` Ainda faltam virar hoje: ${describeDue(remaining)}.` : ' Todos os lotes da câmara dois foram virados hoje.'}`;
+    console.log(`[LogTurningIntent] batch=${batchId} remaining=${remaining.length}`);
+    return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+  }
+};
@@ -0,0 +1,163 @@
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { writeVoiceDialog } from "../../voiceDialog";
+import { interpretCommand } from "../../interpreter";
+import { buildAlexaResponse } from "../response";
+import { buildBatchSelectionMenu } from "../voiceHelpers";
+import { executeIntent } from "../executeCommand";
+import { type IntentHandler } from "../types";
+
+// --- ProcessCommandIntent: Main voice command processing ---
+// This is the ONLY custom intent - all voice commands come through here
+export const processCommandIntent: IntentHandler = {
+  intents: ["ProcessCommandIntent"],
+  guidedSteps: ["STAGE13_PH", "STAGE13_PIECES"],
+  stageLock: "remind",
+  model: {
+    ProcessCommandIntent: {
+      slots: [{ name: "utterance", type: "AMAZON.SearchQuery" }],
+      samples: [
+        "quanto de {utterance}",
+        "qual o {utterance}",
+        "qual é o {utterance}",
+        "quero ver {utterance}",
+        "me diz o {utterance}",
+        "preciso de {utterance}",
+        "me ajuda com {utterance}",
+        "registrar {utterance}",
+        "iniciar {utterance}",
+        "começar {utterance}",
+        "status {utterance}",
+        "{utterance} a etapa",
+        "quero {utterance}",
+        "ajuda {utterance}",
+        "qual foi {utterance}",
+        "me lembra {utterance}",
+        "diga {utterance}"
+      ]
+    }
+  },
+  async handle({ slots, sessionAttributes, userId, apiCtx, activeBatch: activeBatchResolved, pendingInputReminder }) {
+    // Log the full slots structure for debugging
+    console.log("Alexa slots received:", JSON.stringify(slots, null, 2));
+
+    // Note: Stage input lock is now handled by executeIntent blocking log_time when LogTimeIntent should be used
+    // ProcessCommandIntent is allowed for status/help/advance commands even at locked stages
+
+    // Extract utterance from multiple possible slot formats
+    // Alexa can send the value in different ways depending on slot type
+    let utterance = "";
+    const utteranceSlot = slots.utterance || slots.command || slots.query || Object.values(slots)[0];
+
+    if (utteranceSlot) {
+      // Try direct value first
+      if (typeof utteranceSlot.value === "string") {
+        utterance = utteranceSlot.value;
+      }
+      // Try slotValue.value (for some slot types)
+      else if (utteranceSlot.slotValue?.value) {
+        utterance = utteranceSlot.slotValue.value;
+      }
+      // Try resolutions (for slots with entity resolution)
+      else if (utteranceSlot.resolutions?.resolutionsPerAuthority?.[0]?.values?.[0]?.value?.name) {
+        utterance = utteranceSlot.resolutions.resolutionsPerAuthority[0].values[0].value.name;
+      }
+    }
+
+    console.log("Extracted utterance:", utterance);
+
+    // Note: Time registration now uses LogTimeIntent exclusively
+
+    // GUARDA-CORPO: Se slot vazio, pedir clarificação amigável
+    // Samples sem slot (ex: "status" sozinho) invocam o intent mas slot fica vazio
+    // A Alexa não informa qual sample foi usado, então precisamos pedir mais contexto
+    let textToInterpret = utterance.trim();
+    if (!textToInterpret) {
+      console.log("Slot vazio - pedindo clarificação");
+      return buildAlexaResponse(
+        "Entendi! Pode dar mais detalhes? Por exemplo: 'qual o status', 'quero avançar', ou 'preciso de ajuda'.",
+        false,
+        "Diga um comando completo como 'qual é o status' ou 'avançar etapa'.",
+        sessionAttributes
+      );
+    }
+
+    const lowerText = textToInterpret.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+    // --- "trocar lote" handling: show full batch list ---
+    if (lowerText.includes("trocar") && lowerText.includes("lote")) {
+      console.log(`[ProcessCommandIntent] "trocar lote" detected, showing batch list`);
+      const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
+      return buildAlexaResponse(speechText, false, repromptText, newSessionAttrs);
+    }
+
+    // --- "continuar"/"sim"/"prosseguir" handling: resume active batch ---
+    const continueWords = ["continuar", "sim", "seguir", "prosseguir", "continue"];
+    if (continueWords.some(w => lowerText === w || lowerText.startsWith(w + " "))) {
+      const activeBatch = activeBatchResolved;
+      if (activeBatch) {
+        const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+        if (stage) {
+          const payload = speechRenderer.buildStatusPayload(activeBatch, stage);
+          const speech = await speechRenderer.renderSpeech(payload);
+          console.log(`[ProcessCommandIntent] "continuar" → rendering status for batch=${activeBatch.id} stage=${stage.id}`);
+          return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+        }
+      }
+    }
+
+    // LLM interprets the command, backend executes
+    const command = await interpretCommand(textToInterpret);
+    console.log("LLM interpreted command:", JSON.stringify(command));
+    // Pass pendingInputReminder from GATING to status/instructions handlers
+    const result = await executeIntent(command, pendingInputReminder, activeBatchResolved || undefined, apiCtx, userId) as any;
+
+    if (result.sessionAttrsOverride) {
+      const mergedAttrs = { ...sessionAttributes, ...result.sessionAttrsOverride };
+      return buildAlexaResponse(
+        result.speech,
+        result.shouldEndSession,
+        result.sessionAttrsOverride.pending === "STAGE13_PH" ? "Qual o pH inicial?" :
+        result.sessionAttrsOverride.pending === "STAGE13_PIECES" ? "Quantas peças?" :
+        result.sessionAttrsOverride.pending === "CONFIRM_REVERT" ? "Diga 'sim' para voltar a etapa ou 'não' para manter." :
+        "O que deseja fazer?",
+        mergedAttrs,
+        result.card
+      );
+    }
+
+    // Handle guided start_batch multi-turn flow
+    if (result.speech === '_GUIDED_START_BATCH_' && result.guidedDraft) {
+      const draft = result.guidedDraft;
+
+      if (draft.milk_temperature_c === undefined) {
+        const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "start_batch", step: "temperature", draft });
+        console.log(`[GUIDED_START] Volume=${draft.milk_volume_l}L captured. Asking for temperature.`);
+        return buildAlexaResponse(
+          `Perfeito, ${draft.milk_volume_l} litros. Qual a temperatura do leite?`,
+          false,
+          "Diga a temperatura, por exemplo: '32 graus'.",
+          newAttrs
+        );
+      }
+      if (draft.milk_ph === undefined) {
+        const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "start_batch", step: "ph", draft });
+        console.log(`[GUIDED_START] Volume=${draft.milk_volume_l}L, Temp=${draft.milk_temperature_c}. Asking for pH.`);
+        return buildAlexaResponse(
+          `Temperatura ${draft.milk_temperature_c} graus registrada. Qual o pH do leite?`,
+          false,
+          "Diga o pH, por exemplo: 'pH seis vírgula cinco'.",
+          newAttrs
+        );
+      }
+    }
+
+    return buildAlexaResponse(
+      result.speech,
+      result.shouldEndSession,
+      result.shouldEndSession ? undefined : "O que mais posso ajudar?",
+      sessionAttributes,
+      result.card
+    );
+  }
+};
@@ -0,0 +1,154 @@
+import * as batchService from "../../batchService";
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager } from "../../recipe";
+import { now as currentTime } from "../../clock";
+import { buildAlexaResponse } from "../response";
+import { getMonthName, VOICE_ORIGIN } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// RegisterChamberEntryDateIntent: date the lot went into chamber 2 (stage 19 in Nete)
+export const registerChamberEntryDateIntent: IntentHandler = {
+  intents: ["RegisterChamberEntryDateIntent"],
+  guidedSteps: [],
+  stageLock: "respect",
+  inputs: ["chamber_2_entry_date"],
+  model: {
+    RegisterChamberEntryDateIntent: {
+      slots: [{ name: "entry_date", type: "AMAZON.DATE" }],
+      samples: [
+        "acabei de colocar na câmara {entry_date}",
+        "já coloquei na câmara {entry_date}",
+        "coloquei na câmara {entry_date}",
+        "coloquei na câmara dois {entry_date}",
+        "entrada na câmara {entry_date}",
+        "entrada na câmara dois {entry_date}",
+        "colocar na câmara dois {entry_date}",
+        "transferir para a câmara dois {entry_date}",
+        "data de entrada na câmara {entry_date}",
+        "data de entrada na câmara dois {entry_date}"
+      ]
+    }
+  },
+  async handle({ slots, sessionAttributes, apiCtx, activeBatch: activeBatchResolved, dialogState }) {
+    console.log("RegisterChamberEntryDateIntent received:", JSON.stringify(slots, null, 2));
+
+    // Extract date from AMAZON.DATE slot
+    // AMAZON.DATE returns formats like: "2026-01-15", "2026-01", "2026-W03", "2026-01-15" for specific dates
+    const dateSlot = slots.entry_date?.value || slots.entryDate?.value || slots.date?.value;
+
+    // === INTENT MISROUTE GUARD ===
+    // If entry_date is absent/undefined/"?", this is likely a misroute
+    const dateEmpty = !dateSlot || dateSlot === '?';
+
+    if (dateEmpty) {
+      const activeBatch = activeBatchResolved;
+      const stageId = activeBatch?.currentStageId || 0;
+      const currentStage = recipeManager.getStage(stageId, activeBatch);
+
+      console.log(`[MISROUTE] intent=RegisterChamberEntryDateIntent stage=${stageId} missingSlots=entry_date dialogState=${dialogState}`);
+
+      // Build contextual help based on current stage
+      let helpMessage: string;
+      if (activeBatch && currentStage) {
+        if (recipeManager.isValidInputForStage(stageId, "chamber_2_entry_date", activeBatch)) {
+          helpMessage = `Estamos na etapa ${stageId}: ${currentStage.name}. Quando transferir, diga: "coloquei na câmara dois agora". Ou diga "qual é o status".`;
+        } else {
+          // Stage doesn't require date - suggest what IS valid
+          const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
+          const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
+          helpMessage = `Estamos na etapa ${stageId}: ${currentStage.name}. Você pode dizer ${examples}.`;
+        }
+      } else {
+        helpMessage = "Não há lote ativo. Diga 'qual é o status' para verificar.";
+      }
+
+      return buildAlexaResponse(
+        helpMessage,
+        false,
+        "O que mais posso ajudar?",
+        sessionAttributes
+      );
+    }
+
+    const activeBatch = activeBatchResolved;
+    if (!activeBatch) {
+      return buildAlexaResponse(
+        "Não há lote ativo para registrar data de entrada na câmara.",
+        false,
+        "O que mais posso ajudar?",
+        sessionAttributes
+      );
+    }
+
+    // Check if we're at the stage asking for the entry date
+    const currentStage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+    if (!this.inputs!.some(key => recipeManager.isValidInputForStage(activeBatch.currentStageId, key, activeBatch))) {
+      const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
+      const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
+      return buildAlexaResponse(
+        `Estamos na etapa ${activeBatch.currentStageId}: ${currentStage?.name || 'em andamento'}. Você pode dizer ${examples}.`,
+        false,
+        "O que mais posso ajudar?",
+        sessionAttributes
+      );
+    }
+
+    let dateValue: string | null = null;
+
+    if (dateSlot) {
+      // Handle "today" equivalent (Alexa returns current date in YYYY-MM-DD format)
+      if (/^\d{4}-\d{2}-\d{2}$/.test(dateSlot)) {
+        dateValue = dateSlot;
+      }
+      // Handle relative dates that Alexa might resolve
+      else if (dateSlot.toLowerCase() === "today" || dateSlot === "hoje") {
+        const now = currentTime();
+        // Adjust to Brasília timezone
+        const brasiliaOffset = -3 * 60; // UTC-3 in minutes
+        const localTime = new Date(now.getTime() + (brasiliaOffset - now.getTimezoneOffset()) * 60000);
+        dateValue = localTime.toISOString().split('T')[0];
+      }
+    }
+
+    if (!dateValue) {
+      return buildAlexaResponse(
+        "Por favor, informe a data de entrada na câmara 2. Diga: 'coloquei na câmara dois agora'.",
+        false,
+        "Qual a data de entrada na câmara 2?",
+        sessionAttributes
+      );
+    }
+
+    console.log(`[Stage 19] chamber2EntryDate BEFORE: ${(activeBatch as any).chamber2EntryDate || 'null'}`);
+
+    const result = await batchService.recordChamber2Entry(activeBatch.id, dateValue, { origin: VOICE_ORIGIN }, apiCtx);
+
+    console.log(`[Stage 19] chamber2EntryDate AFTER: dateValue=${dateValue} success=${result.success}`);
+
+    if (!result.success) {
+      return buildAlexaResponse(
+        result.error || "Erro ao registrar data.",
+        false,
+        "Tente novamente.",
+        sessionAttributes
+      );
+    }
+
+    const maturationEndDate = result.maturationEndDateISO!.split('T')[0];
+    console.log(`[Stage 19] Chamber 2 entry date registered: ${dateValue}, maturation ends: ${maturationEndDate}. Batch maturing.`);
+
+    const dateParts = dateValue.split('-');
+    const formattedDate = `${parseInt(dateParts[2])} de ${getMonthName(parseInt(dateParts[1]))} de ${dateParts[0]}`;
+    const matDateParts = maturationEndDate.split('-');
+    const formattedMatDate = `${parseInt(matDateParts[2])} de ${getMonthName(parseInt(matDateParts[1]))} de ${matDateParts[0]}`;
+
+    const speech = `Produção concluída, lote em maturação. Data de entrada na câmara dois: ${formattedDate}. Fim da maturação: ${formattedMatDate}. Até o próximo queijo!`;
+
+    return buildAlexaResponse(
+      speech,
+      true,
+      undefined,
+      sessionAttributes
+    );
+  }
+};
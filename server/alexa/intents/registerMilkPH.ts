@@ -0,0 +1,89 @@
+import { storage } from "../../storage";
+import * as batchService from "../../batchService";
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager, DEFAULT_RECIPE_ID } from "../../recipe";
+import { writeVoiceDialog } from "../../voiceDialog";
+import { buildAlexaResponse } from "../response";
+import { VOICE_ORIGIN } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// RegisterMilkPHIntent: guided start batch, pH step (creates the batch)
+export const registerMilkPHIntent: IntentHandler = {
+  intents: ["RegisterMilkPHIntent"],
+  guidedSteps: ["START_BATCH_PH"],
+  stageLock: "respect",
+  model: {
+    RegisterMilkPHIntent: {
+      slots: [{ name: "ph_value", type: "AMAZON.NUMBER" }],
+      samples: ["pH do leite {ph_value}", "o pH do leite é {ph_value}", "pH do leite é {ph_value}", "o leite está com pH {ph_value}"]
+    }
+  },
+  async handle({ slots, sessionAttributes, userId }) {
+    const phSlot = slots.ph_value?.value || slots.phValue?.value;
+    console.log(`[RegisterMilkPHIntent] pending=${sessionAttributes?.pending} phSlot=${phSlot}`);
+
+    if (sessionAttributes?.pending !== "START_BATCH_PH") {
+      return buildAlexaResponse(
+        "Para registrar o pH, primeiro inicie um novo lote dizendo a quantidade de leite. Por exemplo: 'novo lote com 130 litros'.",
+        false,
+        "Diga 'novo lote com 130 litros' para começar.",
+        sessionAttributes
+      );
+    }
+
+    const draft = sessionAttributes.startBatchDraft || {};
+
+    if (!phSlot || phSlot === '?') {
+      return buildAlexaResponse(
+        "Não entendi o pH. Diga por exemplo: 'pH seis vírgula cinco'.",
+        false,
+        "Qual o pH do leite?",
+        sessionAttributes
+      );
+    }
+
+    const normalizedPh = batchService.normalizePHValue(phSlot);
+    if (normalizedPh === null) {
+      return buildAlexaResponse(
+        "pH inválido. Diga um valor entre 3,5 e 8,0. Por exemplo: 'pH seis vírgula cinco'.",
+        false,
+        "Qual o pH do leite?",
+        sessionAttributes
+      );
+    }
+
+    draft.milk_ph = normalizedPh;
+
+    // All 3 values collected - create the batch
+    console.log(`[RegisterMilkPHIntent] pH=${normalizedPh}. Creating batch: volume=${draft.milk_volume_l}, temp=${draft.milk_temperature_c}, pH=${draft.milk_ph}`);
+
+    const result = await batchService.startBatch({
+      milkVolumeL: draft.milk_volume_l,
+      milkTemperatureC: draft.milk_temperature_c,
+      milkPh: draft.milk_ph,
+      recipeId: draft.recipe_id || DEFAULT_RECIPE_ID,
+      isTraining: draft.training === true,
+      origin: VOICE_ORIGIN
+    });
+
+    if (!result.success) {
+      const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
+      const speech = await speechRenderer.renderSpeech(payload);
+      return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+    }
+
+    // Persist active batch for user
+    if (userId && result.batch?.id) {
+      await storage.setLastActiveBatch(userId, result.batch.id);
+      console.log(`[RegisterMilkPHIntent] Persisted activeBatch=${result.batch.id} for user`);
+    }
+
+    // Clear guided flow state
+    const newAttrs = { ...writeVoiceDialog(sessionAttributes, null), activeBatchId: result.batch?.id };
+
+    const currentStage = recipeManager.getStage(result.batch.currentStageId || 3, result.batch);
+    const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
+    const speech = await speechRenderer.renderSpeech(payload);
+    return buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs);
+  }
+};
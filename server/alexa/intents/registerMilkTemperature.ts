@@ -0,0 +1,91 @@
+import { writeVoiceDialog } from "../../voiceDialog";
+import { buildAlexaResponse } from "../response";
+import { type IntentHandler } from "../types";
+
+// RegisterMilkTemperatureIntent: guided start batch, temperature step
+export const registerMilkTemperatureIntent: IntentHandler = {
+  intents: ["RegisterMilkTemperatureIntent"],
+  guidedSteps: ["START_BATCH_TEMP"],
+  stageLock: "respect",
+  model: {
+    RegisterMilkTemperatureIntent: {
+      slots: [{ name: "temp_value", type: "AMAZON.NUMBER" }],
+      samples: ["{temp_value} graus", "temperatura {temp_value}", "a temperatura é {temp_value} graus", "temperatura do leite {temp_value} graus", "o leite está a {temp_value} graus"]
+    }
+  },
+  async handle({ slots, sessionAttributes }) {
+    const tempSlot = slots.temp_value?.value || slots.tempValue?.value;
+    console.log(`[RegisterMilkTemperatureIntent] pending=${sessionAttributes?.pending} tempSlot=${tempSlot}`);
+
+    if (sessionAttributes?.pending !== "START_BATCH_TEMP") {
+      return buildAlexaResponse(
+        "Para registrar a temperatura, primeiro inicie um novo lote dizendo a quantidade de leite. Por exemplo: 'novo lote com 130 litros'.",
+        false,
+        "Diga 'novo lote com 130 litros' para começar.",
+        sessionAttributes
+      );
+    }
+
+    const draft = sessionAttributes.startBatchDraft || {};
+
+    if (!tempSlot || tempSlot === '?') {
+      return buildAlexaResponse(
+        "Não entendi a temperatura. Diga por exemplo: '32 graus'.",
+        false,
+        "Qual a temperatura do leite?",
+        sessionAttributes
+      );
+    }
+
+    let tempValue = parseFloat(String(tempSlot).replace(',', '.'));
+    if (isNaN(tempValue)) {
+      return buildAlexaResponse(
+        "Temperatura inválida. Diga por exemplo: '32 graus'.",
+        false,
+        "Qual a temperatura do leite?",
+        sessionAttributes
+      );
+    }
+
+    // Normalize ASR-mangled temperature values
+    // "6,69" → ASR sends 669 → divide by 100 → 6.69
+    // "6,5" → ASR sends 65 → divide by 10 → 6.5
+    // "32" → valid as-is
+    if (tempValue > 60) {
+      if (tempValue >= 100 && tempValue < 10000) {
+        const divided100 = tempValue / 100;
+        if (divided100 >= 1 && divided100 <= 60) {
+          console.log(`[normalizeTemp] ${tempValue} -> ${divided100} (divided by 100)`);
+          tempValue = divided100;
+        }
+      }
+      if (tempValue > 60 && tempValue >= 10 && tempValue < 100) {
+        const divided10 = tempValue / 10;
+        if (divided10 >= 1 && divided10 <= 60) {
+          console.log(`[normalizeTemp] ${tempValue} -> ${divided10} (divided by 10)`);
+          tempValue = divided10;
+        }
+      }
+    }
+
+    if (tempValue <= 0 || tempValue > 60) {
+      return buildAlexaResponse(
+        `Temperatura ${tempValue} graus não parece válida. Diga um valor entre 1 e 60 graus.`,
+        false,
+        "Qual a temperatura do leite?",
+        sessionAttributes
+      );
+    }
+
+    draft.milk_temperature_c = tempValue;
+    const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "start_batch", step: "ph", draft });
+    console.log(`[RegisterMilkTemperatureIntent] Temperature=${tempValue} saved. Asking for pH.`);
+
+    return buildAlexaResponse(
+      `Temperatura ${tempValue} graus registrada. Qual o pH do leite?`,
+      false,
+      "Diga o pH, por exemplo: 'pH seis vírgula cinco'.",
+      newAttrs
+    );
+  }
+};
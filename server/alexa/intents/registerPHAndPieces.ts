@@ -0,0 +1,499 @@
+import { storage } from "../../storage";
+import * as batchService from "../../batchService";
+import * as speechRenderer from "../../speechRenderer";
+import { recipeManager, TEST_MODE, DEFAULT_RECIPE_ID } from "../../recipe";
+import { writeVoiceDialog } from "../../voiceDialog";
+import { cancelReminder, scheduleReminderForWait, type ScheduledAlert } from "../../alexaReminders";
+import { now as currentTime } from "../../clock";
+import { buildAlexaResponse, buildAlexaElicitSlotResponse } from "../response";
+import { loopExitMessage, VOICE_ORIGIN } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// --- RegisterPHAndPiecesIntent: Stage-aware pH registration ---
+// pH + pieces stage (13 in Nete): multi-turn dialog
+// pH loop stage (15 in Nete): pH only (loop control with turning cycles)
+// CRITICAL: Decision based on the recipe stage, NOT intent name alone
+export const registerPHAndPiecesIntent: IntentHandler = {
+  intents: ["RegisterPHAndPiecesIntent"],
+  guidedSteps: ["START_BATCH_PH", "STAGE13_PH", "STAGE13_PIECES"],
+  stageLock: "respect",
+  inputs: ["ph_value", "pieces_quantity"],
+  model: {
+    RegisterPHAndPiecesIntent: {
+      slots: [
+        { name: "ph_value", type: "AMAZON.NUMBER" },
+        { name: "pieces_quantity", type: "AMAZON.NUMBER" }
+      ],
+      samples: [
+        "registrar pH {ph_value} com {pieces_quantity} peças",
+        "o pH é {ph_value} e são {pieces_quantity} peças",
+        "pH {ph_value} e {pieces_quantity} peças",
+        "pH {ph_value}",
+        "o pH é {ph_value}",
+        "{pieces_quantity} peças",
+        "são {pieces_quantity} peças"
+      ]
+    }
+  },
+  async handle({ slots, sessionAttributes, userId, apiCtx, activeBatch: activeBatchResolved, dialogState }) {
+    console.log("RegisterPHAndPiecesIntent received:", JSON.stringify(slots, null, 2));
+
+    // === GUIDED START BATCH REDIRECT ===
+    // During START_BATCH_PH, Alexa often routes pH utterances here instead of RegisterMilkPHIntent
+    if (sessionAttributes?.pending === "START_BATCH_PH") {
+      const phSlotForBatch = slots.ph_value?.value || slots.phValue?.value;
+      console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] Redirecting pH=${phSlotForBatch} to batch creation`);
+
+      const draft = sessionAttributes.startBatchDraft || {};
+
+      if (!phSlotForBatch || phSlotForBatch === '?') {
+        return buildAlexaResponse(
+          "Não entendi o pH. Diga por exemplo: 'pH seis vírgula cinco'.",
+          false,
+          "Qual o pH do leite?",
+          sessionAttributes
+        );
+      }
+
+      const normalizedPh = batchService.normalizePHValue(phSlotForBatch);
+      if (normalizedPh === null) {
+        return buildAlexaResponse(
+          "pH inválido. Diga um valor entre 3,5 e 8,0. Por exemplo: 'pH seis vírgula cinco'.",
+          false,
+          "Qual o pH do leite?",
+          sessionAttributes
+        );
+      }
+
+      draft.milk_ph = normalizedPh;
+
+      console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] pH=${normalizedPh}. Creating batch: volume=${draft.milk_volume_l}, temp=${draft.milk_temperature_c}, pH=${draft.milk_ph}`);
+
+      const result = await batchService.startBatch({
+        milkVolumeL: draft.milk_volume_l,
+        milkTemperatureC: draft.milk_temperature_c,
+        milkPh: draft.milk_ph,
+        recipeId: draft.recipe_id || DEFAULT_RECIPE_ID,
+        isTraining: draft.training === true,
+        origin: VOICE_ORIGIN
+      });
+
+      if (!result.success) {
+        const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
+        const speech = await speechRenderer.renderSpeech(payload);
+        return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+      }
+
+      if (userId && result.batch?.id) {
+        await storage.setLastActiveBatch(userId, result.batch.id);
+        console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] Persisted activeBatch=${result.batch.id} for user`);
+      }
+
+      const newAttrs = { ...writeVoiceDialog(sessionAttributes, null), activeBatchId: result.batch?.id };
+      const currentStage = recipeManager.getStage(result.batch.currentStageId || 3, result.batch);
+      const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
+      const speech = await speechRenderer.renderSpeech(payload);
+      return buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs);
+    }
+
+    // Extract pH value from slot with normalization (54 -> 5.4)
+    const phSlot = slots.ph_value?.value || slots.phValue?.value;
+    const piecesSlot = slots.pieces_quantity?.value || slots.piecesQuantity?.value || slots.pieces?.value;
+
+    // === INTENT MISROUTE GUARD ===
+    // If BOTH ph_value AND pieces_quantity are absent/undefined/"?", this is likely a misroute
+    // EXCEPT at the pH + pieces stage, where empty slots trigger the multi-turn guided flow
+    const phEmpty = !phSlot || phSlot === '?';
+    const piecesEmpty = !piecesSlot || piecesSlot === '?';
+
+    if (phEmpty && piecesEmpty) {
+      const activeBatch = activeBatchResolved;
+      const stageId = activeBatch?.currentStageId || 0;
+
+      // At the pH + pieces stage, let empty slots fall through to start multi-turn guided flow
+      // The pH loop keeps misroute guard (its handler already elicits pH via ElicitSlot)
+      if (!recipeManager.isPhAndPiecesStage(stageId, activeBatch)) {
+        const currentStage = recipeManager.getStage(stageId, activeBatch);
+
+        console.log(`[MISROUTE] intent=RegisterPHAndPiecesIntent stage=${stageId} missingSlots=ph_value,pieces_quantity dialogState=${dialogState}`);
+
+        let helpMessage: string;
+        if (activeBatch && currentStage) {
+          const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
+          const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
+          helpMessage = `Estamos na etapa ${stageId}: ${currentStage.name}. Você pode dizer ${examples}.`;
+        } else {
+          helpMessage = "Não há lote ativo. Diga 'qual é o status' para verificar.";
+        }
+
+        return buildAlexaResponse(
+          helpMessage,
+          false,
+          "O que mais posso ajudar?",
+          sessionAttributes
+        );
+      }
+    }
+
+    const activeBatch = activeBatchResolved;
+    if (!activeBatch) {
+      return buildAlexaResponse(
+        "Não há lote ativo para registrar pH.",
+        false,
+        "O que mais posso ajudar?",
+        sessionAttributes
+      );
+    }
+
+    const stageId = activeBatch.currentStageId;
+    const currentStage = recipeManager.getStage(stageId, activeBatch);
+
+    console.log(`[Stage ${stageId}] Slots received - pH: ${phSlot}, pieces: ${piecesSlot}`);
+
+    // Normalize pH value using centralized function
+    let phValue: number | undefined;
+    let phError: string | undefined;
+    if (phSlot && phSlot !== '?') {
+      const normalized = batchService.normalizePHValue(phSlot);
+      if (normalized !== null) {
+        phValue = normalized;
+      } else {
+        phError = "pH inválido";
+      }
+    }
+
+    // ============================================
+    // STAGE 13: pH inicial + quantidade de peças
+    // Multi-turn guided flow using pending states
+    // ============================================
+    if (recipeManager.isPhAndPiecesStage(stageId, activeBatch)) {
+      console.log(`[Stage 13] Processing pH and pieces registration. pending=${sessionAttributes?.pending}`);
+
+      const measurements = (activeBatch.measurements as Record<string, any>) || {};
+      const existingPh = measurements["initial_ph"];
+      const existingPieces = measurements["pieces_quantity"];
+
+      console.log(`[Stage 13] Existing values - pH: ${existingPh}, pieces: ${existingPieces}`);
+
+      // Parse pieces quantity
+      let piecesQuantity: number | undefined;
+      if (piecesSlot && piecesSlot !== "?") {
+        const parsed = parseInt(piecesSlot, 10);
+        if (!isNaN(parsed) && parsed > 0) {
+          piecesQuantity = parsed;
+        }
+      }
+
+      console.log(`[Stage 13] Parsed values - pH: ${phValue}, pieces: ${piecesQuantity}`);
+
+      // === MULTI-TURN STAGE 13: PIECES STEP ===
+      if (sessionAttributes?.pending === "STAGE13_PIECES") {
+        if (piecesQuantity === undefined && phValue !== undefined) {
+          // User said pH again instead of pieces - accept it as update, re-ask pieces
+          await batchService.saveMeasurement(activeBatch, "initial_ph", phValue, VOICE_ORIGIN);
+          console.log(`[Stage 13] pH updated to ${phValue} during STAGE13_PIECES. Re-asking pieces.`);
+          return buildAlexaResponse(
+            `pH atualizado para ${phValue}. Agora, quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
+            false,
+            "Quantas peças?",
+            sessionAttributes
+          );
+        }
+        if (piecesQuantity === undefined) {
+          console.log(`[Stage 13] STAGE13_PIECES: no pieces parsed. Re-prompting.`);
+          return buildAlexaResponse(
+            "Não entendi a quantidade. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
+            false,
+            "Quantas peças?",
+            sessionAttributes
+          );
+        }
+        // Got pieces - complete the registration
+        const effectivePh = phValue ?? existingPh;
+        const newAttrs = writeVoiceDialog(sessionAttributes, null);
+        if (effectivePh === undefined) {
+          console.log(`[Stage 13] STAGE13_PIECES: pH missing from measurements. Restarting flow.`);
+          const restartAttrs = writeVoiceDialog(sessionAttributes, { flow: "stage13", step: "ph" });
+          return buildAlexaResponse(
+            "Antes de registrar as peças, preciso do pH. Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.",
+            false,
+            "Qual o pH inicial?",
+            restartAttrs
+          );
+        }
+        const result = await batchService.logPh(activeBatch.id, effectivePh, piecesQuantity, VOICE_ORIGIN);
+        if (!result.success) {
+          return buildAlexaResponse(
+            result.error || "Erro ao registrar valores.",
+            false,
+            "Tente novamente.",
+            newAttrs
+          );
+        }
+        console.log(`[Stage 13] Complete: pH ${effectivePh}, ${piecesQuantity} pieces saved. Clearing pending.`);
+        const confirmationMsg = `${piecesQuantity} peças registradas. pH ${effectivePh} e ${piecesQuantity} peças confirmados.`;
+        const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
+        if (advanceResult.success && advanceResult.nextStage) {
+          const nextStage = recipeManager.getStage(advanceResult.nextStage.id, activeBatch);
+          const updatedBatch = await batchService.getBatch(activeBatch.id);
+          console.log(`[Stage 13] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
+          if (nextStage && updatedBatch) {
+            const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
+            let speech = await speechRenderer.renderSpeech(payload);
+            if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
+              speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
+            } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
+              speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+            } else if (advanceResult.needsReminderPermission) {
+              speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+            }
+            return buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs);
+          }
+        }
+        return buildAlexaResponse(
+          `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
+          false,
+          "Diga 'avançar etapa' para continuar.",
+          newAttrs
+        );
+      }
+
+      // === MULTI-TURN STAGE 13: pH STEP (or first entry) ===
+      if (sessionAttributes?.pending === "STAGE13_PH" || (existingPh === undefined && phValue === undefined)) {
+        if (phValue !== undefined) {
+          // Got pH - save it and move to pieces step
+          await batchService.saveMeasurement(activeBatch, "initial_ph", phValue, VOICE_ORIGIN);
+          const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "stage13", step: "pieces" });
+          console.log(`[Stage 13] pH ${phValue} saved. Moving to STAGE13_PIECES.`);
+          return buildAlexaResponse(
+            `pH ${phValue} registrado. Agora, quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
+            false,
+            "Quantas peças?",
+            newAttrs
+          );
+        }
+        // No pH yet - ask for it
+        const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "stage13", step: "ph" });
+        const prompt = phError 
+          ? `${phError}. Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.`
+          : "Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.";
+        console.log(`[Stage 13] No pH yet. Setting STAGE13_PH.`);
+        return buildAlexaResponse(prompt, false, "Qual o pH inicial?", newAttrs);
+      }
+
+      // === pH already exists, pieces missing - ask for pieces ===
+      if (existingPieces === undefined) {
+        if (phValue !== undefined) {
+          await batchService.saveMeasurement(activeBatch, "initial_ph", phValue, VOICE_ORIGIN);
+          console.log(`[Stage 13] pH updated to ${phValue}.`);
+        }
+        const savedPh = phValue ?? existingPh;
+        const newAttrs = writeVoiceDialog(sessionAttributes, { flow: "stage13", step: "pieces" });
+        console.log(`[Stage 13] pH exists (${savedPh}). Moving to STAGE13_PIECES.`);
+        return buildAlexaResponse(
+          `pH ${savedPh} registrado. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
+          false,
+          "Quantas peças?",
+          newAttrs
+        );
+      }
+
+      // === Both already exist (re-registration) - use centralized logPh ===
+      const effectivePh = phValue ?? existingPh;
+      const effectivePieces = piecesQuantity ?? existingPieces;
+      const result = await batchService.logPh(activeBatch.id, effectivePh, effectivePieces, VOICE_ORIGIN);
+
+      if (!result.success) {
+        return buildAlexaResponse(
+          result.error || "Erro ao registrar valores.",
+          false,
+          "Tente novamente.",
+          sessionAttributes
+        );
+      }
+
+      console.log(`[Stage 13] Complete: pH ${effectivePh}, ${effectivePieces} pieces saved via batchService.`);
+
+      const confirmationMsg = `pH ${effectivePh} e ${effectivePieces} peças registrados.`;
+
+      const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
+      if (advanceResult.success && advanceResult.nextStage) {
+        const nextStage = recipeManager.getStage(advanceResult.nextStage.id, activeBatch);
+        const updatedBatch = await batchService.getBatch(activeBatch.id);
+        console.log(`[Stage 13] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
+
+        if (nextStage && updatedBatch) {
+          const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
+          let speech = await speechRenderer.renderSpeech(payload);
+          if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
+            speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
+          } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
+            speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+          } else if (advanceResult.needsReminderPermission) {
+            speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+          }
+          return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+        }
+      }
+
+      // Fallback if advance failed - confirm registration only
+      return buildAlexaResponse(
+        `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
+        false,
+        "Diga 'avançar etapa' para continuar.",
+        sessionAttributes
+      );
+    }
+
+    // ============================================
+    // STAGE 15: Loop de viradas - só pH (ignora peças)
+    // Uses centralized batchService.logPh()
+    // ============================================
+    if (recipeManager.isPhLoopStage(stageId, activeBatch)) {
+      console.log(`[Stage 15] Processing pH for turning loop`);
+
+      // Step 1: If no pH provided, elicit it
+      if (phValue === undefined) {
+        const prompt = phError 
+          ? `${phError}. Informe o pH atual dos queijos. Diga, por exemplo: 'pH cinco vírgula dois'.`
+          : "Informe o pH atual dos queijos. Diga, por exemplo: 'pH cinco vírgula dois'.";
+        console.log(`[Stage 15] Eliciting pH`);
+        return buildAlexaElicitSlotResponse(
+          "ph_value",
+          "RegisterPHAndPiecesIntent",
+          prompt,
+          "Qual o pH atual?",
+          slots,
+          sessionAttributes
+        );
+      }
+
+      // Use centralized logPh function
+      const result = await batchService.logPh(activeBatch.id, phValue, undefined, VOICE_ORIGIN);
+
+      if (!result.success) {
+        return buildAlexaResponse(
+          result.error || "Erro ao registrar pH.",
+          false,
+          "Tente novamente.",
+          sessionAttributes
+        );
+      }
+
+      if (result.isDuplicate) {
+        console.log(`[Stage 15] Duplicate pH ${phValue} detected. Returning existing state.`);
+        const turningCycles = result.turningCyclesCount || 1;
+        if (result.shouldExitLoop) {
+          return buildAlexaResponse(
+            `pH ${phValue} já registrado. ${loopExitMessage(result.exitReason)} Diga 'avançar etapa' para continuar.`,
+            false,
+            "Diga 'avançar etapa' para continuar.",
+            sessionAttributes
+          );
+        }
+        return buildAlexaResponse(
+          `pH ${phValue} já registrado. Queijos virados ${turningCycles} vez${turningCycles > 1 ? 'es' : ''}. Continue monitorando ou informe novo pH.`,
+          false,
+          "Informe o próximo pH ou diga 'qual é o status'.",
+          sessionAttributes
+        );
+      }
+
+      const turningCycles = result.turningCyclesCount || 1;
+      console.log(`[Stage 15] pH ${phValue} recorded. Turning cycles: ${turningCycles}`);
+
+      if (result.shouldExitLoop) {
+        // pH reached target - advance to next stage and vocalize it
+        const confirmationMsg = `pH ${phValue} registrado. ${loopExitMessage(result.exitReason)} Queijos virados ${turningCycles} vezes.`;
+
+        const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
+        if (advanceResult.success && advanceResult.nextStage) {
+          const nextStage = recipeManager.getStage(advanceResult.nextStage.id, activeBatch);
+          const updatedBatch = await batchService.getBatch(activeBatch.id);
+          console.log(`[Stage 15] pH ${phValue} reached target. Loop complete. Auto-advancing to stage ${advanceResult.nextStage.id}.`);
+
+          if (nextStage && updatedBatch) {
+            const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
+            let speech = await speechRenderer.renderSpeech(payload);
+            if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
+              speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
+            } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
+              speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
+            } else if (advanceResult.needsReminderPermission) {
+              speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
+            }
+            return buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes);
+          }
+        }
+
+        // Fallback if advance failed
+        return buildAlexaResponse(
+          `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
+          false,
+          "Diga 'avançar etapa' para continuar.",
+          sessionAttributes
+        );
+      } else {
+        // pH still above target - continue loop, schedule the next pH check reminder
+        console.log(`[Stage 15] pH ${phValue} above target. Continue monitoring.`);
+
+        let reminderMsg = '';
+        if (apiCtx) {
+          try {
+            const updatedBatchForReminder = await batchService.getBatch(activeBatch.id);
+            const loopStage = recipeManager.getStage(stageId, activeBatch);
+            const intervalMinutes = recipeManager.getProcessParameters(activeBatch).phCheckIntervalMin
+              ?? (loopStage?.max_loop_duration_hours || 1.5) * 60;
+            const reminderSeconds = TEST_MODE ? 2 * 60 : intervalMinutes * 60 / (activeBatch.timeCompression || 1);
+
+            const scheduledAlerts = ((updatedBatchForReminder as any)?.scheduledAlerts || {}) as Record<string, ScheduledAlert>;
+            const alertKey = `stage_${stageId}`;
+            if (scheduledAlerts[alertKey]) {
+              await cancelReminder(apiCtx, scheduledAlerts[alertKey].reminderId);
+              await batchService.setScheduledAlert(activeBatch.id, alertKey, null);
+            }
+            const reminderResult = await scheduleReminderForWait(
+              apiCtx,
+              { id: activeBatch.id, recipeId: (updatedBatchForReminder as any).recipeId, recipeVersion: (updatedBatchForReminder as any).recipeVersion },
+              stageId,
+              reminderSeconds
+            );
+            if (reminderResult.reminderId) {
+              await batchService.setScheduledAlert(activeBatch.id, alertKey, {
+                reminderId: reminderResult.reminderId,
+                stageId,
+                dueAtISO: new Date(currentTime().getTime() + reminderSeconds * 1000).toISOString(),
+                kind: 'ph_check_reminder'
+              });
+              const reminderMin = Math.round(reminderSeconds / 60);
+              reminderMsg = ` Vou te lembrar em ${reminderMin} minuto${reminderMin !== 1 ? 's' : ''} para medir o pH novamente.`;
+              console.log(`[Stage 15] Reminder scheduled for ${reminderSeconds}s (${reminderMin}min) for next pH check`);
+            } else if (reminderResult.permissionDenied) {
+              console.log(`[Stage 15] Reminder permission denied after pH log`);
+              reminderMsg = ' Para eu lembrar de medir o pH, habilite as permissões de lembrete no app da Alexa.';
+            }
+          } catch (err) {
+            console.log(`[Stage 15] Error scheduling reminder after pH: ${err}`);
+          }
+        }
+
+        return buildAlexaResponse(
+          `pH ${phValue} registrado. Queijos virados ${turningCycles} vez${turningCycles > 1 ? 'es' : ''}. Meta: ${result.exitCondition}.${reminderMsg} Continue monitorando ou informe novo pH.`,
+          false,
+          "Informe o próximo pH ou diga 'qual é o status' para ver o progresso.",
+          sessionAttributes
+        );
+      }
+    }
+
+    // ============================================
+    // OTHER STAGES: Intent not valid here
+    // ============================================
+    return buildAlexaResponse(
+      `Esta etapa não aceita registro de pH. Estamos na etapa ${stageId}: ${currentStage?.name || 'em andamento'}.`,
+      false,
+      "O que mais posso ajudar?",
+      sessionAttributes
+    );
+  }
+};
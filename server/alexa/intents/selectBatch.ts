@@ -0,0 +1,84 @@
+import { storage } from "../../storage";
+import * as batchService from "../../batchService";
+import { recipeManager } from "../../recipe";
+import { buildAlexaResponse } from "../response";
+import { formatDatePtBr, getStage13EntryPrompt, buildStage15Context } from "../voiceHelpers";
+import { type IntentHandler } from "../types";
+
+// SelectBatchIntent: pick a batch from the menu ("opção 2")
+export const selectBatchIntent: IntentHandler = {
+  intents: ["SelectBatchIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  model: {
+    SelectBatchIntent: {
+      slots: [{ name: "option_number", type: "AMAZON.NUMBER" }],
+      samples: ["opção {option_number}", "a opção {option_number}", "quero a opção {option_number}", "número {option_number}"]
+    }
+  },
+  async handle({ slots, sessionAttributes, userId }) {
+    const optionSlot = slots.option_number?.value || slots.optionNumber?.value;
+    const optionNumber = optionSlot ? parseInt(optionSlot, 10) : NaN;
+
+    console.log(`[SelectBatchIntent] optionNumber=${optionNumber} state=${sessionAttributes?.state || 'none'}`);
+
+    if (sessionAttributes?.state !== "AWAITING_BATCH_SELECTION" || !sessionAttributes?.batchChoices) {
+      return buildAlexaResponse(
+        "Para trocar de lote, diga 'trocar lote'.",
+        false,
+        "Diga 'trocar lote' para ver os lotes disponíveis.",
+        sessionAttributes
+      );
+    }
+
+    const choices = sessionAttributes.batchChoices as Array<{ optionNumber: number; batchId: number; recipeName: string; startedAt: string; currentStageId: number; currentStageName: string }>;
+
+    if (isNaN(optionNumber) || optionNumber < 1 || optionNumber > choices.length) {
+      const validRange = choices.map(c => `'opção ${c.optionNumber}'`).join(', ');
+      return buildAlexaResponse(
+        `Opção inválida. Escolha entre: ${validRange}.`,
+        false,
+        `Diga ${validRange}.`,
+        sessionAttributes
+      );
+    }
+
+    const selected = choices.find(c => c.optionNumber === optionNumber)!;
+    const dateStr = formatDatePtBr(selected.startedAt);
+
+    if (userId) {
+      await storage.setLastActiveBatch(userId, selected.batchId);
+      console.log(`[SelectBatchIntent] Persisted activeBatch=${selected.batchId} for user=${userId.substring(0, 20)}...`);
+    }
+
+    const newSessionAttrs = { ...sessionAttributes, activeBatchId: selected.batchId, state: undefined, batchChoices: undefined };
+
+    let stageCtx = '';
+    let finalAttrs = newSessionAttrs;
+    let repromptText = "O que deseja fazer?";
+
+    const fullBatch = await batchService.getBatch(selected.batchId);
+    if (fullBatch && recipeManager.isPhLoopStage(fullBatch.currentStageId, fullBatch)) {
+      stageCtx = buildStage15Context(fullBatch);
+      repromptText = "Informe o pH ou diga 'qual é o status'.";
+    } else if (fullBatch && recipeManager.isPhAndPiecesStage(fullBatch.currentStageId, fullBatch)) {
+      const s13 = getStage13EntryPrompt(fullBatch, newSessionAttrs);
+      if (s13) {
+        stageCtx = s13.prompt;
+        finalAttrs = s13.newAttrs;
+        repromptText = s13.reprompt;
+        console.log(`[BATCH_SELECT] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
+      }
+    }
+
+    const speech = `Beleza, vamos continuar o lote do ${selected.recipeName} iniciado em ${dateStr}. Você está na etapa ${selected.currentStageId}: ${selected.currentStageName}.${stageCtx}`;
+    console.log(`[BATCH_SELECT] option=${optionNumber} batchId=${selected.batchId}`);
+
+    return buildAlexaResponse(
+      speech,
+      false,
+      repromptText,
+      finalAttrs
+    );
+  }
+};
@@ -0,0 +1,12 @@
+import { buildAlexaResponse } from "../response";
+import { type IntentHandler } from "../types";
+
+// AMAZON.CancelIntent / AMAZON.StopIntent
+export const stopIntent: IntentHandler = {
+  intents: ["AMAZON.CancelIntent", "AMAZON.StopIntent"],
+  guidedSteps: "any",
+  stageLock: "bypass",
+  async handle() {
+    return buildAlexaResponse("Até logo! Bom trabalho na queijaria.", true);
+  }
+};
@@ -0,0 +1,100 @@
+import { recipeManager } from "../recipe";
+import { INTENT_HANDLERS } from "./registry";
+import { TIME_TYPE_SYNONYMS } from "./intents/logTime";
+import { type IntentModel } from "./types";
+import { type InteractionModel, type SlotTypeValue } from "@shared/alexaEnvelope";
+
+/**
+ * pt-BR interaction model of the skill, built from the handlers' `model`
+ * entries and the time types the recipes ask for. `npm run alexa:model`
+ * prints it for the Alexa developer console; `npm run alexa:check` fails on
+ * a recipe intent the skill can't take.
+ */
+
+export const INVOCATION_NAME = "matuh queijaria";
+
+// Built-in intents Alexa requires in every model
+const REQUIRED_BUILT_INS = ["AMAZON.CancelIntent", "AMAZON.HelpIntent", "AMAZON.StopIntent", "AMAZON.NavigateHomeIntent"];
+
+// Stages across all loaded recipes that wait on a voice input
+function recipeInputStages() {
+  return recipeManager.getRecipeIds().flatMap(recipeId => {
+    const stageCount = recipeManager.getStageCount(recipeId);
+    return Array.from({ length: stageCount }, (_, i) => {
+      const lock = recipeManager.getStageInputLock(i + 1, recipeId);
+      return { recipeId, stageId: i + 1, expectedIntent: lock.expectedIntent, expectedTimeType: lock.expectedTimeType };
+    }).filter(s => s.expectedIntent);
+  });
+}
+
+function timeTypeValues(): SlotTypeValue[] {
+  const values = new Set(recipeInputStages().map(s => s.expectedTimeType).filter((t): t is string => !!t));
+  return Array.from(values).sort().map(value => {
+    const synonyms = TIME_TYPE_SYNONYMS[value];
+    return { name: synonyms?.length ? { value, synonyms } : { value } };
+  });
+}
+
+export function buildInteractionModel(): InteractionModel {
+  const intents = new Map<string, IntentModel>();
+  for (const handler of INTENT_HANDLERS) {
+    for (const intent of handler.intents) {
+      const model = handler.model?.[intent];
+      if (model) intents.set(intent, model);
+      else if (intent.startsWith("AMAZON.")) intents.set(intent, { samples: [] });
+    }
+  }
+  for (const intent of REQUIRED_BUILT_INS) {
+    if (!intents.has(intent)) intents.set(intent, { samples: [] });
+  }
+
+  return {
+    interactionModel: {
+      languageModel: {
+        invocationName: INVOCATION_NAME,
+        intents: Array.from(intents, ([name, model]) => ({ name, ...model })),
+        types: [{ name: "TIME_TYPE", values: timeTypeValues() }]
+      }
+    }
+  };
+}
+
+/**
+ * Problems that would leave a recipe stage (or a handler) unreachable by
+ * voice: an expected_intent with no handler or no sample utterances, a time
+ * type LogTimeIntent doesn't know, a sample using a slot the intent lacks or
+ * claimed by two intents (the console rejects the model).
+ */
+export function checkInteractionModel(): string[] {
+  const issues: string[] = [];
+  const model = buildInteractionModel().interactionModel.languageModel;
+  const intents = new Map(model.intents.map(i => [i.name, i]));
+
+  for (const { recipeId, stageId, expectedIntent, expectedTimeType } of recipeInputStages()) {
+    const at = `${recipeId} etapa ${stageId}`;
+    if (!INTENT_HANDLERS.some(h => h.intents.includes(expectedIntent!))) {
+      issues.push(`${at}: expected_intent "${expectedIntent}" has no handler`);
+    } else if (!intents.get(expectedIntent!)?.samples.length) {
+      issues.push(`${at}: expected_intent "${expectedIntent}" has no sample utterances`);
+    }
+    if (expectedTimeType && !TIME_TYPE_SYNONYMS[expectedTimeType]) {
+      issues.push(`${at}: expected_time_type "${expectedTimeType}" is not a TIME_TYPE known to LogTimeIntent`);
+    }
+  }
+
+  const sampleOwners = new Map<string, string>();
+  for (const intent of model.intents) {
+    const slots = new Set((intent.slots || []).map(s => s.name));
+    for (const sample of intent.samples) {
+      for (const [, slot] of Array.from(sample.matchAll(/\{(\w+)\}/g))) {
+        if (!slots.has(slot)) issues.push(`${intent.name}: sample "${sample}" uses undeclared slot {${slot}}`);
+      }
+      const key = sample.toLowerCase();
+      const owner = sampleOwners.get(key);
+      if (owner && owner !== intent.name) issues.push(`${intent.name}: sample "${sample}" is also a sample of ${owner}`);
+      else sampleOwners.set(key, intent.name);
+    }
+  }
+
+  return issues;
+}
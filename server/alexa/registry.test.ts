@@ -0,0 +1,135 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductionBatch } from "@shared/schema";
+import { readAlexaReply } from "@shared/alexaEnvelope";
+import { MemoryStorage } from "../memoryStorage";
+import { runWithStorage } from "../storage";
+import { VirtualClock, runWithClock } from "../clock";
+import { offlineLlm, runWithLlm } from "../llm";
+import * as batchService from "../batchService";
+import { buildAlexaResponse } from "./response";
+import { dispatchIntent } from "./registry";
+import { type IntentContext, type IntentHandler } from "./types";
+
+function inMemory<T>(fn: () => Promise<T>): Promise<T> {
+  const clock = new VirtualClock(new Date("2026-04-15T08:00:00-03:00"));
+  return runWithStorage(new MemoryStorage(), () => runWithClock(clock, () => runWithLlm(offlineLlm, fn)));
+}
+
+type FakeHandler = IntentHandler & { calls: IntentContext[] };
+
+// Answers with its own name and keeps the contexts it was called with
+function fakeHandler(name: string, declaration: Partial<IntentHandler> = {}): FakeHandler {
+  const calls: IntentContext[] = [];
+  return {
+    intents: [name],
+    guidedSteps: [],
+    stageLock: "respect",
+    ...declaration,
+    calls,
+    async handle(ctx) {
+      calls.push(ctx);
+      return buildAlexaResponse(name, false, undefined, ctx.sessionAttributes);
+    }
+  };
+}
+
+function fakeContext(intentName: string, overrides: Partial<IntentContext> = {}): IntentContext {
+  return {
+    intentName,
+    slots: {},
+    sessionAttributes: {},
+    userId: "amzn1.ask.account.TEST",
+    apiCtx: null,
+    activeBatch: null,
+    dialogState: "STARTED",
+    ...overrides
+  };
+}
+
+async function dispatch(ctx: IntentContext, handlers: IntentHandler[]): Promise<string> {
+  return readAlexaReply(await dispatchIntent(ctx, handlers)).speech;
+}
+
+// A Nete batch moved to `stageId`; stage 6 waits on the flocculation time
+// (LogTimeIntent), stage 5 on nothing
+async function batchAtStage(stageId: number): Promise<ProductionBatch> {
+  const result = await batchService.startBatch({ milkVolumeL: 100, milkTemperatureC: 32, milkPh: 6.6 });
+  assert.ok(result.success, result.error);
+  return { ...result.batch, currentStageId: stageId };
+}
+
+test("stageLock: respect is blocked by another intent's input, remind runs with the reminder, bypass ignores it", () => inMemory(async () => {
+  const activeBatch = await batchAtStage(6);
+  const respect = fakeHandler("RespectIntent");
+  const remind = fakeHandler("RemindIntent", { stageLock: "remind" });
+  const bypass = fakeHandler("BypassIntent", { stageLock: "bypass" });
+  const expected = fakeHandler("LogTimeIntent");
+  const handlers = [respect, remind, bypass, expected];
+
+  const blocked = await dispatch(fakeContext("RespectIntent", { activeBatch }), handlers);
+  assert.equal(respect.calls.length, 0);
+  assert.match(blocked, /floculação/);
+
+  assert.equal(await dispatch(fakeContext("RemindIntent", { activeBatch }), handlers), "RemindIntent");
+  assert.equal(remind.calls[0].pendingInputReminder, "Falta registrar horário de floculação.");
+
+  assert.equal(await dispatch(fakeContext("BypassIntent", { activeBatch }), handlers), "BypassIntent");
+  assert.equal(bypass.calls[0].pendingInputReminder, undefined);
+
+  assert.equal(await dispatch(fakeContext("LogTimeIntent", { activeBatch }), handlers), "LogTimeIntent");
+}));
+
+test("stageLock: a stage waiting on nothing lets respect handlers through", () => inMemory(async () => {
+  const respect = fakeHandler("RespectIntent");
+  const activeBatch = await batchAtStage(5);
+
+  assert.equal(await dispatch(fakeContext("RespectIntent", { activeBatch }), [respect]), "RespectIntent");
+  assert.equal(respect.calls[0].pendingInputReminder, undefined);
+}));
+
+test("guidedSteps: an open guided step repeats its question to intents that don't declare it", () => inMemory(async () => {
+  const undeclared = fakeHandler("UndeclaredIntent");
+  const declared = fakeHandler("DeclaredIntent", { guidedSteps: ["START_BATCH_TEMP"] });
+  const any = fakeHandler("AnyIntent", { guidedSteps: "any" });
+  const handlers = [undeclared, declared, any];
+  const sessionAttributes = { pending: "START_BATCH_TEMP" };
+
+  const blocked = await dispatch(fakeContext("UndeclaredIntent", { sessionAttributes }), handlers);
+  assert.match(blocked, /Diga a temperatura do leite/);
+  assert.equal(undeclared.calls.length, 0);
+
+  assert.equal(await dispatch(fakeContext("DeclaredIntent", { sessionAttributes }), handlers), "DeclaredIntent");
+  assert.equal(await dispatch(fakeContext("AnyIntent", { sessionAttributes }), handlers), "AnyIntent");
+
+  // Time capture doesn't hold the session
+  const timeQuestion = { pending: "LOG_TIME" };
+  assert.equal(await dispatch(fakeContext("UndeclaredIntent", { sessionAttributes: timeQuestion }), handlers), "UndeclaredIntent");
+}));
+
+test("claims: the first claiming handler takes the turn, after the matched intent's gates", () => inMemory(async () => {
+  const owner = fakeHandler("OwnerIntent", { claims: () => true });
+  const first = fakeHandler("FirstIntent", { guidedSteps: "any", stageLock: "bypass", claims: () => true });
+  const second = fakeHandler("SecondIntent", { guidedSteps: "any", stageLock: "bypass", claims: () => true });
+  const handlers = [owner, first, second];
+
+  assert.equal(await dispatch(fakeContext("OwnerIntent"), handlers), "FirstIntent");
+  assert.equal(await dispatch(fakeContext("OwnerIntent"), [owner, second, first]), "SecondIntent");
+  assert.equal(owner.calls.length, 0);
+
+  // The owner's guard still applies: a claim doesn't get past an open step
+  const blocked = await dispatch(fakeContext("OwnerIntent", { sessionAttributes: { pending: "STAGE13_PH" } }), handlers);
+  assert.match(blocked, /pH inicial/);
+  assert.equal(first.calls.length, 1);
+  assert.equal(second.calls.length, 1);
+}));
+
+test("a pending revert question is answered before any handler", () => inMemory(async () => {
+  const no = fakeHandler("AMAZON.NoIntent", { guidedSteps: "any", stageLock: "bypass" });
+  const sessionAttributes = { pending: "CONFIRM_REVERT", revertFromStageId: 5 };
+
+  const reply = readAlexaReply(await dispatchIntent(fakeContext("AMAZON.NoIntent", { sessionAttributes }), [no]));
+  assert.equal(reply.speech, "Ok, etapa mantida.");
+  assert.equal(reply.attributes.pending, undefined);
+  assert.equal(no.calls.length, 0);
+}));
@@ -0,0 +1,154 @@
+import * as speechRenderer from "../speechRenderer";
+import { recipeManager } from "../recipe";
+import { type VoiceDialogPending } from "../voiceDialog";
+import { buildAlexaResponse, type AlexaResponse } from "./response";
+import { answerPendingRevert } from "./confirmRevert";
+import { type IntentContext, type IntentHandler } from "./types";
+import { continueIntent } from "./intents/continue";
+import { changeBatchIntent } from "./intents/changeBatch";
+import { selectBatchIntent } from "./intents/selectBatch";
+import { logTurningIntent } from "./intents/logTurning";
+import { stopIntent } from "./intents/stop";
+import { helpIntent } from "./intents/help";
+import { fallbackIntent } from "./intents/fallback";
+import { advanceStageIntent } from "./intents/advanceStage";
+import { logTimeIntent } from "./intents/logTime";
+import { registerPHAndPiecesIntent } from "./intents/registerPHAndPieces";
+import { registerChamberEntryDateIntent } from "./intents/registerChamberEntryDate";
+import { registerMilkTemperatureIntent } from "./intents/registerMilkTemperature";
+import { registerMilkPHIntent } from "./intents/registerMilkPH";
+import { processCommandIntent } from "./intents/processCommand";
+
+/**
+ * Alexa intent handlers and the gating in front of them. A turn goes through
+ * the pending revert question, then the guided dialog guard, then the stage
+ * input lock, each driven by what the handler declares (see IntentHandler).
+ */
+
+// Order matters only for `claims`: the first handler claiming a turn takes it
+export const INTENT_HANDLERS: IntentHandler[] = [
+  continueIntent,
+  changeBatchIntent,
+  selectBatchIntent,
+  logTurningIntent,
+  stopIntent,
+  helpIntent,
+  fallbackIntent,
+  advanceStageIntent,
+  logTimeIntent,
+  registerPHAndPiecesIntent,
+  registerChamberEntryDateIntent,
+  registerMilkTemperatureIntent,
+  registerMilkPHIntent,
+  processCommandIntent,
+];
+
+// Intents no handler knows
+const unknownIntent: IntentHandler = {
+  intents: [],
+  guidedSteps: [],
+  stageLock: "respect",
+  async handle({ sessionAttributes }) {
+    return buildAlexaResponse(
+      "Comando não reconhecido. Diga 'ajuda' para ver as opções.",
+      false,
+      "Diga 'ajuda' para ver os comandos.",
+      sessionAttributes
+    );
+  }
+};
+
+// Guided steps that hold the session: an intent not declaring the step gets
+// the step's question again. Time capture (LOG_TIME) lets anything through.
+export const GUIDED_STEP_PROMPTS: Partial<Record<VoiceDialogPending, { prompt: string; reprompt: string }>> = {
+  START_BATCH_TEMP: {
+    prompt: "Estamos iniciando um novo lote. Diga a temperatura do leite. Por exemplo: '32 graus'.",
+    reprompt: "Qual a temperatura do leite?"
+  },
+  START_BATCH_PH: {
+    prompt: "Estamos iniciando um novo lote. Diga o pH do leite. Por exemplo: 'pH seis vírgula cinco'.",
+    reprompt: "Qual o pH do leite?"
+  },
+  STAGE13_PH: {
+    prompt: "Estamos registrando dados da etapa 13. Diga o pH inicial. Por exemplo: 'pH cinco vírgula dois'.",
+    reprompt: "Qual o pH inicial?"
+  },
+  STAGE13_PIECES: {
+    prompt: "Estamos registrando dados da etapa 13. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
+    reprompt: "Quantas peças?"
+  }
+};
+
+const PENDING_INPUT_LABELS: Record<string, string> = {
+  'flocculation_time': 'registrar horário de floculação',
+  'cut_point_time': 'registrar horário do ponto de corte',
+  'press_start_time': 'registrar horário da prensa',
+  'ph_value': 'registrar pH',
+  'initial_ph': 'registrar pH',
+  'pieces_quantity': 'registrar quantidade de peças',
+  'chamber_2_entry_date': 'registrar data de entrada na câmara 2'
+};
+
+export function findIntentHandler(intentName: string, handlers: IntentHandler[] = INTENT_HANDLERS): IntentHandler {
+  return handlers.find(h => h.intents.includes(intentName)) ?? unknownIntent;
+}
+
+function guidedStepGuard(handler: IntentHandler, { intentName, sessionAttributes }: IntentContext): AlexaResponse | null {
+  const pending = sessionAttributes?.pending as VoiceDialogPending | undefined;
+  const step = pending ? GUIDED_STEP_PROMPTS[pending] : undefined;
+  if (!step || handler.guidedSteps === "any" || handler.guidedSteps.includes(pending!)) return null;
+
+  console.log(`[GUIDED_GUARD] Blocked intent=${intentName} during pending=${pending}`);
+  return buildAlexaResponse(step.prompt, false, step.reprompt, sessionAttributes);
+}
+
+// Stage waiting on a recipe input: blocks "respect" handlers of other
+// intents, hands "remind" handlers the reminder
+async function stageLockGuard(handler: IntentHandler, ctx: IntentContext): Promise<AlexaResponse | null> {
+  const { intentName, sessionAttributes, activeBatch } = ctx;
+  if (handler.stageLock === "bypass" || !activeBatch) return null;
+
+  const stageLock = recipeManager.getStageInputLock(activeBatch.currentStageId, activeBatch);
+  if (!stageLock.locked || !stageLock.expectedIntent) return null;
+
+  const stage = recipeManager.getStage(activeBatch.currentStageId, activeBatch);
+  const pendingInputs = speechRenderer.getPendingInputs(activeBatch, activeBatch.currentStageId, stage);
+  if (pendingInputs.length === 0) return null;
+
+  const pendingInputReminder = `Falta ${PENDING_INPUT_LABELS[pendingInputs[0]] || pendingInputs[0]}.`;
+  console.log(`[GATING] stage=${activeBatch.currentStageId} intent=${intentName} pendingInputs=${pendingInputs.join(',')} expected=${stageLock.expectedIntent}`);
+  if (intentName === stageLock.expectedIntent) return null;
+
+  if (handler.stageLock === "remind") {
+    console.log(`[GATING] Allowing ${intentName} for read-only query at stage ${activeBatch.currentStageId}`);
+    ctx.pendingInputReminder = pendingInputReminder;
+    return null;
+  }
+
+  console.log(`[GATING] Blocked intent ${intentName} at stage ${activeBatch.currentStageId}. Expected: ${stageLock.expectedIntent}`);
+  const payload = speechRenderer.buildErrorPayload(
+    stageLock.inputPrompt || `Esta etapa requer input específico.`,
+    stage
+  );
+  payload.notes = pendingInputReminder;
+  payload.allowedUtterances = speechRenderer.getContextualUtterances(stage, activeBatch);
+  const speech = await speechRenderer.renderSpeech(payload);
+  return buildAlexaResponse(speech, false, `Use o comando apropriado para esta etapa.`, sessionAttributes);
+}
+
+/**
+ * Reply to one IntentRequest. The gates use the handler of the intent Alexa
+ * matched; a handler claiming the turn only takes it once it got through.
+ * `handlers` is only swapped in tests.
+ */
+export async function dispatchIntent(ctx: IntentContext, handlers: IntentHandler[] = INTENT_HANDLERS): Promise<AlexaResponse> {
+  const revertReply = await answerPendingRevert(ctx);
+  if (revertReply) return revertReply;
+
+  const owner = findIntentHandler(ctx.intentName, handlers);
+  const blocked = guidedStepGuard(owner, ctx) ?? await stageLockGuard(owner, ctx);
+  if (blocked) return blocked;
+
+  const handler = handlers.find(h => h !== owner && h.claims?.(ctx)) ?? owner;
+  return handler.handle(ctx);
+}
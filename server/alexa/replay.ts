@@ -0,0 +1,346 @@
+/**
+ * Recorded Alexa traffic (alexa_webhook_logs) replayed against the current
+ * code, to check a refactor against real operator conversations. Used by
+ * `npm run alexa:replay` (script/alexa-replay.ts).
+ *
+ * Every request runs on its own MemoryStorage, seeded with the batches as
+ * their events described them when it arrived (projectBatch), the current
+ * stage's timers restarted from when it was entered, and a VirtualClock at
+ * that moment. The model gives back the replies recorded with the request.
+ * The new speech, response attributes and batch changes are compared with
+ * the log entry and with the batch events written up to it.
+ *
+ * Not reproduced: Alexa reminders (no API token, so speech about reminder
+ * permissions may differ), measurement rows, and the voice dialog and
+ * last-used batch kept in the database, which are taken from the previous
+ * replayed request of the same session and user. Requests logged before the
+ * session id, response attributes and model replies were recorded replay
+ * with the deterministic fallbacks; when they differ the turn is
+ * "inconclusive" rather than "changed".
+ */
+
+import {
+  buildLaunchRequest, buildIntentRequest, buildSessionEndedRequest, readAlexaReply, type SimulatedSession
+} from "@shared/alexaEnvelope";
+import { type AlexaWebhookLog, type BatchEventRecord, type BatchProjection, type ProductionBatch } from "@shared/schema";
+import { storage, runWithStorage } from "../storage";
+import { MemoryStorage } from "../memoryStorage";
+import { VirtualClock, runWithClock } from "../clock";
+import { replayingLlm, type LlmCall } from "../llm";
+import { recipeManager } from "../recipe";
+import { projectBatch, diffBatch } from "../batchEvents";
+import { restoreStageTimers } from "../batchService";
+import { readVoiceDialog, saveVoiceDialog } from "../voiceDialog";
+import { startLocalWebhook, type WebhookScope } from "./conversation";
+
+// responseSpeech is cut at this length when logged
+const LOGGED_SPEECH_LENGTH = 2000;
+// The arrival is estimated from the log time and duration and may come after
+// the turn's own events; batches are seeded with the events before this margin
+const SEED_MARGIN_MS = 1000;
+
+export interface ReplayTurnResult {
+  logId: number;
+  at: string; // when the request arrived
+  sessionId: string | null;
+  request: string;
+  status: "same" | "changed" | "inconclusive";
+  recordedSpeech: string;
+  replayedSpeech: string;
+  differences: string[];
+  missingLlmReplies: number; // prompts the recording has no reply for
+}
+
+export interface ReplayReport {
+  turns: ReplayTurnResult[];
+  same: number;
+  changed: number;
+  inconclusive: number;
+}
+
+interface RecordedBatch {
+  row: ProductionBatch;
+  events: BatchEventRecord[];
+}
+
+function arrivalOf(log: AlexaWebhookLog): Date {
+  return new Date(log.timestamp.getTime() - (log.durationMs || 0));
+}
+
+function seededUpTo(log: AlexaWebhookLog): Date {
+  return new Date(arrivalOf(log).getTime() - SEED_MARGIN_MS);
+}
+
+// Batch ids in session attributes (activeBatchId, batchChoices[].batchId)
+// through `ids`, so batches created in memory read as the recorded ones
+function renumber(value: any, ids: Map<number, number>, key = ""): any {
+  if (Array.isArray(value)) return value.map(v => renumber(v, ids));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renumber(v, ids, k)]));
+  }
+  return /batchId$/i.test(key) && ids.has(Number(value)) ? ids.get(Number(value)) : value;
+}
+
+function describeLog(log: AlexaWebhookLog): string {
+  if (log.requestType !== "IntentRequest") return log.requestType || "?";
+  const slots = Object.entries((log.slots as Record<string, any>) || {})
+    .filter(([, slot]) => slot?.value !== undefined)
+    .map(([name, slot]) => `${name}="${slot.value}"`);
+  return [log.intentName, ...slots].join(" ");
+}
+
+function speechText(raw: string | null | undefined): string {
+  return (raw || "").replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+}
+
+// The batch as it stood at `at`; null when it didn't exist yet, predates the
+// event stream or can no longer change (closed, cancelled)
+function batchAt({ row, events }: RecordedBatch, at: Date): ProductionBatch | null {
+  const projection = projectBatch(events, at);
+  if (!projection || projection.batchStatus === "CLOSED" || projection.status === "cancelled") return null;
+
+  const happened = (entry: any) => !entry?.timestamp || new Date(entry.timestamp) <= at;
+  const history = ((row.history as any[]) || []).filter(happened).map(entry => {
+    if (!entry.revertedAt || new Date(entry.revertedAt) <= at) return entry;
+    const { reverted, revertedAt, ...before } = entry;
+    return before;
+  });
+  const measurements: Record<string, any> = {};
+  for (const [key, value] of Object.entries((row.measurements as Record<string, any>) || {})) {
+    if (Array.isArray(value)) measurements[key] = value.filter(happened);
+  }
+  Object.assign(measurements, projection.measurements);
+
+  const toDate = (iso: string | null) => iso ? new Date(iso) : null;
+  const batch: ProductionBatch = {
+    ...row,
+    currentStageId: projection.currentStageId,
+    status: projection.status,
+    batchStatus: projection.batchStatus,
+    turningCyclesCount: projection.turningCyclesCount,
+    pausedAt: toDate(projection.pausedAt),
+    pauseReason: projection.pauseReason,
+    completedAt: toDate(projection.completedAt),
+    cancelledAt: toDate(projection.cancelledAt),
+    cancelReason: projection.cancelReason,
+    chamber2EntryDate: toDate(projection.chamber2EntryDate),
+    maturationEndDate: toDate(projection.maturationEndDate),
+    closedAt: toDate(projection.closedAt),
+    maturationLog: ((row.maturationLog as any[]) || []).filter(happened),
+    measurements,
+    history,
+    activeTimers: [],
+    activeReminders: [],
+    scheduledAlerts: {},
+    version: 1,
+    updatedAt: at
+  };
+
+  const stage = recipeManager.getStage(batch.currentStageId, batch);
+  if (stage && batch.status === "active") {
+    const entered = history.filter(e => e.action === "start" && e.stageId === batch.currentStageId && !e.reverted).pop();
+    const state = { measurements, activeTimers: [] as any[], activeReminders: [] as any[] };
+    restoreStageTimers(batch, stage, entered ? new Date(entered.timestamp) : row.startedAt, state);
+    Object.assign(batch, state);
+  }
+  return batch;
+}
+
+/**
+ * Differences in the batches the turn changed: the replayed rows against the
+ * recorded events up to the log entry. Times inside the turn count as equal.
+ * `renumbered` maps the ids of batches created in memory to the recorded ones.
+ */
+async function diffBatches(store: MemoryStorage, batches: RecordedBatch[], seededIds: Set<number>, log: AlexaWebhookLog) {
+  const arrivedAt = arrivalOf(log);
+  const differences: string[] = [];
+  const renumbered = new Map<number, number>();
+  const sameMoment = (a: unknown, b: unknown) => typeof a === "string" && typeof b === "string" &&
+    !isNaN(Date.parse(a)) && !isNaN(Date.parse(b)) &&
+    Math.abs(Date.parse(a) - Date.parse(b)) <= log.timestamp.getTime() - arrivedAt.getTime() + SEED_MARGIN_MS;
+  const compare = (label: string, replayed: ProductionBatch, recorded: BatchProjection) => {
+    for (const drift of diffBatch(replayed, recorded)) {
+      if (sameMoment(drift.stored, drift.replayed)) continue;
+      differences.push(`${label} ${drift.field}: gravado ${JSON.stringify(drift.replayed)}, replay ${JSON.stringify(drift.stored)}`);
+    }
+  };
+
+  const replayedRows = await store.getAllBatches();
+  const createdInReplay = replayedRows.filter(b => !seededIds.has(b.id)).sort((a, b) => a.id - b.id);
+  const createdInRecording: Array<{ id: number; after: BatchProjection }> = [];
+
+  for (const recorded of batches) {
+    const before = projectBatch(recorded.events, seededUpTo(log));
+    const after = projectBatch(recorded.events, log.timestamp);
+    if (!after) continue;
+    if (!before) {
+      createdInRecording.push({ id: recorded.row.id, after });
+      continue;
+    }
+    const replayed = replayedRows.find(b => b.id === recorded.row.id);
+    const changed = after.eventCount !== before.eventCount || (replayed && replayed.version > 1);
+    if (replayed && changed) compare(`lote ${recorded.row.id}`, replayed, after);
+  }
+
+  // New batches get other ids in memory; pair them by creation order
+  createdInRecording.forEach(({ id, after }, i) => {
+    const replayed = createdInReplay[i];
+    if (!replayed) {
+      differences.push(`lote ${id} foi criado na gravação, não no replay`);
+      return;
+    }
+    renumbered.set(replayed.id, id);
+    compare(`lote ${id} (novo)`, replayed, after);
+  });
+  for (const extra of createdInReplay.slice(createdInRecording.length)) {
+    differences.push(`replay criou um lote (etapa ${extra.currentStageId}) que a gravação não tem`);
+  }
+  return { differences, renumbered };
+}
+
+class WebhookReplay {
+  private scope?: WebhookScope;
+  private batches: RecordedBatch[] = [];
+
+  constructor(private logs: AlexaWebhookLog[]) {}
+
+  // Batches and recipe snapshots from the database, read before any turn
+  async load(): Promise<void> {
+    recipeManager.loadSnapshots(await storage.getRecipeSnapshots());
+    for (const row of await storage.getAllBatches()) {
+      this.batches.push({ row, events: await storage.getBatchEvents(row.id) });
+    }
+  }
+
+  async run(onTurn?: (turn: ReplayTurnResult) => void): Promise<ReplayReport> {
+    const local = await startLocalWebhook(() => this.scope!);
+    const turns: ReplayTurnResult[] = [];
+    try {
+      for (let i = 0; i < this.logs.length; i++) {
+        const turn = await this.replay(local.url, i);
+        turns.push(turn);
+        onTurn?.(turn);
+      }
+    } finally {
+      await local.close();
+    }
+    return {
+      turns,
+      same: turns.filter(t => t.status === "same").length,
+      changed: turns.filter(t => t.status === "changed").length,
+      inconclusive: turns.filter(t => t.status === "inconclusive").length
+    };
+  }
+
+  private previous(index: number, match: (log: AlexaWebhookLog) => boolean): AlexaWebhookLog | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (match(this.logs[i])) return this.logs[i];
+    }
+    return undefined;
+  }
+
+  // Database state the request found that the batch events don't cover
+  private async seedSessionState(store: MemoryStorage, index: number) {
+    const log = this.logs[index];
+    const userId = log.alexaUserId;
+    if (userId) {
+      const last = this.previous(index, l => l.alexaUserId === userId && !!(
+        (l.responseAttributes as any)?.activeBatchId ?? (l.sessionAttributes as any)?.activeBatchId ?? l.batchId));
+      const batchId = last && ((last.responseAttributes as any)?.activeBatchId ?? (last.sessionAttributes as any)?.activeBatchId ?? last.batchId);
+      if (batchId) await store.setLastActiveBatch(userId, Number(batchId));
+    }
+
+    const sessionId = log.sessionId;
+    const before = sessionId ? this.previous(index, l => l.sessionId === sessionId) : undefined;
+    const attrs = (before?.responseAttributes as Record<string, any> | null) || null;
+    const dialog = readVoiceDialog(attrs);
+    if (before && attrs && dialog) {
+      const savedAt = new VirtualClock(before.timestamp);
+      await runWithStorage(store, () => runWithClock(savedAt, () => saveVoiceDialog(sessionId!, userId, dialog, attrs)));
+    }
+  }
+
+  private async replay(url: string, index: number): Promise<ReplayTurnResult> {
+    const log = this.logs[index];
+    const arrivedAt = arrivalOf(log);
+    const seedAt = seededUpTo(log);
+
+    const store = new MemoryStorage();
+    const seededIds = new Set<number>();
+    for (const recorded of this.batches) {
+      const batch = batchAt(recorded, seedAt);
+      if (!batch) continue;
+      store.seedBatch(batch, recorded.events.filter(e => new Date(e.event.at) <= seedAt));
+      seededIds.add(batch.id);
+    }
+    const clock = new VirtualClock(arrivedAt);
+    await this.seedSessionState(store, index);
+
+    const missed: string[] = [];
+    this.scope = { store, clock, model: replayingLlm((log.llmCalls as LlmCall[] | null) || [], missed) };
+
+    const session: SimulatedSession = {
+      sessionId: log.sessionId || `replay-${log.id}`,
+      userId: log.alexaUserId || "",
+      attributes: (log.sessionAttributes as Record<string, any>) || {},
+      isNew: log.requestType === "LaunchRequest"
+    };
+    let body;
+    if (log.requestType === "LaunchRequest") {
+      body = buildLaunchRequest(session, arrivedAt);
+    } else if (log.requestType === "SessionEndedRequest") {
+      body = buildSessionEndedRequest(session, "USER_INITIATED", arrivedAt);
+    } else {
+      body = buildIntentRequest(session, log.intentName || "", {}, arrivedAt);
+      const request: Record<string, any> = body.request;
+      request.intent.slots = log.slots || {}; // as recorded, entity resolutions included
+    }
+
+    const differences: string[] = [];
+    let replayedSpeech = "";
+    try {
+      const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      if (!res.ok) throw new Error(`Webhook respondeu ${res.status}: ${await res.text()}`);
+      const json = await res.json();
+      const reply = readAlexaReply(json);
+      const raw = json?.response?.outputSpeech?.ssml || json?.response?.outputSpeech?.text || "";
+      replayedSpeech = speechText(raw.substring(0, LOGGED_SPEECH_LENGTH));
+
+      if (log.error) differences.push(`gravado com erro: ${log.error}`);
+      else if (replayedSpeech !== speechText(log.responseSpeech)) differences.push("fala diferente");
+
+      const batches = await diffBatches(store, this.batches, seededIds, log);
+      const recordedAttrs = log.responseAttributes as Record<string, any> | null;
+      if (recordedAttrs) {
+        const replayedAttrs = renumber(reply.attributes, batches.renumbered);
+        const keys = new Set([...Object.keys(recordedAttrs), ...Object.keys(replayedAttrs)]);
+        Array.from(keys).sort().forEach(key => {
+          const recorded = JSON.stringify(recordedAttrs[key] ?? null);
+          const replayed = JSON.stringify(replayedAttrs[key] ?? null);
+          if (recorded !== replayed) differences.push(`atributo ${key}: gravado ${recorded}, replay ${replayed}`);
+        });
+      }
+      differences.push(...batches.differences);
+    } catch (err) {
+      differences.push((err as Error).message);
+    }
+
+    return {
+      logId: log.id,
+      at: arrivedAt.toISOString(),
+      sessionId: log.sessionId,
+      request: describeLog(log),
+      status: differences.length === 0 ? "same" : missed.length > 0 ? "inconclusive" : "changed",
+      recordedSpeech: speechText(log.responseSpeech),
+      replayedSpeech,
+      differences,
+      missingLlmReplies: missed.length
+    };
+  }
+}
+
+export async function replayWebhookLogs(logs: AlexaWebhookLog[], onTurn?: (turn: ReplayTurnResult) => void): Promise<ReplayReport> {
+  const replay = new WebhookReplay(logs);
+  await replay.load();
+  return replay.run(onTurn);
+}
@@ -0,0 +1,115 @@
+/**
+ * Alexa response envelopes. Handlers return these and the webhook sends them
+ * as they are.
+ */
+
+// Response body sent back to Alexa
+export type AlexaResponse = {
+  version: string;
+  response: Record<string, any>;
+  sessionAttributes?: Record<string, any>;
+};
+
+// Utility function to build Alexa-compliant responses
+// CRITICAL: NEVER returns empty outputSpeech.text - always has fallback
+const DEFAULT_FALLBACK_SPEECH = "Tudo bem. Até logo.";
+const DEFAULT_SESSION_OPEN_FALLBACK = "Não entendi o comando. Pode repetir?";
+const DEFAULT_REPROMPT = "O que mais posso ajudar?";
+
+export function buildAlexaResponse(
+  speechText: string, 
+  shouldEndSession: boolean = false, 
+  repromptText?: string,
+  sessionAttributes?: Record<string, any>,
+  card?: any
+) {
+  let finalSpeech = speechText?.trim();
+  if (!finalSpeech) {
+    finalSpeech = shouldEndSession ? DEFAULT_FALLBACK_SPEECH : DEFAULT_SESSION_OPEN_FALLBACK;
+  }
+
+  const response: any = {
+    version: "1.0",
+    response: {
+      outputSpeech: {
+        type: "PlainText",
+        text: finalSpeech
+      },
+      shouldEndSession
+    }
+  };
+
+  if (card) {
+    response.response.card = card;
+  }
+
+  if (sessionAttributes && Object.keys(sessionAttributes).length > 0) {
+    response.sessionAttributes = sessionAttributes;
+  }
+
+  if (!shouldEndSession) {
+    const finalReprompt = repromptText?.trim() || DEFAULT_REPROMPT;
+    response.response.reprompt = {
+      outputSpeech: {
+        type: "PlainText",
+        text: finalReprompt
+      }
+    };
+  }
+
+  return response;
+}
+
+// Build Alexa Dialog.ElicitSlot response for slot elicitation
+export function buildAlexaElicitSlotResponse(
+  slotToElicit: string,
+  intentName: string,
+  speechText: string,
+  repromptText?: string,
+  currentSlots?: Record<string, any>,
+  sessionAttributes?: Record<string, any>
+) {
+  const response: any = {
+    version: "1.0",
+    response: {
+      outputSpeech: {
+        type: "PlainText",
+        text: speechText
+      },
+      shouldEndSession: false,
+      directives: [
+        {
+          type: "Dialog.ElicitSlot",
+          slotToElicit: slotToElicit,
+          updatedIntent: {
+            name: intentName,
+            confirmationStatus: "NONE",
+            slots: {}
+          }
+        }
+      ],
+      reprompt: {
+        outputSpeech: {
+          type: "PlainText",
+          text: repromptText || speechText
+        }
+      }
+    }
+  };
+
+  if (sessionAttributes && Object.keys(sessionAttributes).length > 0) {
+    response.sessionAttributes = sessionAttributes;
+  }
+
+  if (currentSlots) {
+    for (const [key, value] of Object.entries(currentSlots)) {
+      response.response.directives[0].updatedIntent.slots[key] = {
+        name: key,
+        value: value?.value,
+        confirmationStatus: "NONE"
+      };
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,52 @@
+import { type ProductionBatch } from "@shared/schema";
+import { type ApiContext } from "../alexaReminders";
+import { type VoiceDialogPending } from "../voiceDialog";
+import { type AlexaResponse } from "./response";
+
+// What an intent handler gets for one IntentRequest
+export interface IntentContext {
+  intentName: string;
+  slots: Record<string, any>;
+  sessionAttributes: Record<string, any>;
+  userId: string | null;
+  apiCtx: ApiContext | null;
+  // Batch the session works on (session attribute, else the user's last one)
+  activeBatch: ProductionBatch | null;
+  dialogState: string;
+  // "Falta registrar ..." while the stage still waits on an input; only set
+  // for handlers with stageLock "remind"
+  pendingInputReminder?: string;
+}
+
+// Slots and sample utterances of one intent in the Alexa interaction model
+export interface IntentModel {
+  slots?: Array<{ name: string; type: string }>;
+  samples: string[];
+}
+
+/**
+ * One Alexa intent (or a few that share a reply). The registry checks the
+ * declared preconditions before `handle` runs:
+ *
+ * - guidedSteps: guided dialog steps (`pending`) the handler may answer;
+ *   "any" lets it run in the middle of any dialog.
+ * - stageLock: what happens when the stage waits on a recipe input meant for
+ *   another intent. "respect" answers with the stage's input prompt,
+ *   "remind" runs with `pendingInputReminder`, "bypass" ignores the lock.
+ * - inputs: recipe inputs the intent records; outside the stages of the
+ *   batch's recipe that ask for them, the handler says where it belongs.
+ *
+ * `model` holds the interaction model entries (npm run alexa:model); built-in
+ * AMAZON intents without samples may be left out.
+ */
+export interface IntentHandler {
+  intents: string[];
+  guidedSteps: VoiceDialogPending[] | "any";
+  stageLock: "respect" | "remind" | "bypass";
+  inputs?: string[];
+  model?: Record<string, IntentModel>;
+  // Take a turn addressed to another intent (e.g. a bare time said as a
+  // ProcessCommandIntent while the time question is open)
+  claims?(ctx: IntentContext): boolean;
+  handle(ctx: IntentContext): Promise<AlexaResponse>;
+}
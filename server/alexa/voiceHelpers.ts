@@ -0,0 +1,311 @@
+import { storage } from "../storage";
+import * as batchService from "../batchService";
+import { recipeManager } from "../recipe";
+import { writeVoiceDialog } from "../voiceDialog";
+import { now as currentTime } from "../clock";
+import { type MeasurementOrigin } from "@shared/schema";
+
+/**
+ * Pieces the Alexa handlers share: spoken time and date parsing, which batch
+ * a session works on, the batch menu and the stage 13 / 15 prompts.
+ */
+
+export const VOICE_ORIGIN: MeasurementOrigin = { source: "voice" };
+
+// --- Deterministic Time Parsing ---
+// Parses spoken time formats to HH:MM
+const TIME_WORDS: Record<string, number> = {
+  "zero": 0, "uma": 1, "um": 1, "duas": 2, "dois": 2, "três": 3, "tres": 3,
+  "quatro": 4, "cinco": 5, "seis": 6, "sete": 7, "oito": 8, "nove": 9,
+  "dez": 10, "onze": 11, "doze": 12, "treze": 13, "catorze": 14, "quatorze": 14,
+  "quinze": 15, "dezesseis": 16, "dezessete": 17, "dezoito": 18, "dezenove": 19,
+  "vinte": 20, "trinta": 30, "quarenta": 40, "cinquenta": 50,
+  "meia": 30
+};
+
+export function parseSpokenTime(text: string): string | null {
+  const normalized = text.toLowerCase().trim();
+
+  // Handle "agora" - current time in Brasília timezone (America/Sao_Paulo)
+  if (normalized === "agora") {
+    const now = currentTime();
+    const brasiliaTime = now.toLocaleString('pt-BR', { 
+      timeZone: 'America/Sao_Paulo',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+    return brasiliaTime;
+  }
+
+  // Handle "15:30" or "15 30" format
+  const numericMatch = normalized.match(/^(\d{1,2})[:\s](\d{2})$/);
+  if (numericMatch) {
+    const hours = parseInt(numericMatch[1], 10);
+    const minutes = parseInt(numericMatch[2], 10);
+    if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
+      return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+    }
+  }
+
+  // Handle just "15" or "quinze" (assume :00)
+  const singleHourNum = normalized.match(/^(\d{1,2})$/);
+  if (singleHourNum) {
+    const hours = parseInt(singleHourNum[1], 10);
+    if (hours >= 0 && hours <= 23) {
+      return `${String(hours).padStart(2, '0')}:00`;
+    }
+  }
+
+  // Handle spoken format "quinze trinta", "quinze e trinta", "quinze e meia"
+  const words = normalized.replace(/\s+e\s+/g, ' ').split(/\s+/);
+  let hours = -1;
+  let minutes = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const value = TIME_WORDS[word];
+
+    if (value !== undefined) {
+      if (hours === -1) {
+        // First number is hours
+        hours = value;
+        // Check for compound like "vinte e uma"
+        if (i + 1 < words.length && TIME_WORDS[words[i + 1]] !== undefined && TIME_WORDS[words[i + 1]] < 10) {
+          hours += TIME_WORDS[words[i + 1]];
+          i++;
+        }
+      } else {
+        // Second number is minutes
+        minutes = value;
+        // Check for compound like "trinta e cinco"
+        if (i + 1 < words.length && TIME_WORDS[words[i + 1]] !== undefined && TIME_WORDS[words[i + 1]] < 10) {
+          minutes += TIME_WORDS[words[i + 1]];
+        }
+        break;
+      }
+    }
+  }
+
+  // If we only got hours, check for single word
+  if (hours === -1 && words.length === 1 && TIME_WORDS[words[0]] !== undefined) {
+    hours = TIME_WORDS[words[0]];
+  }
+
+  if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+// Get human-readable time type label
+export function getTimeTypeLabel(timeType: string | undefined): string {
+  switch (timeType) {
+    case 'flocculation': return 'da floculação';
+    case 'cut_point': return 'do ponto de corte';
+    case 'press_start': return 'de início de prensa';
+    default: return 'do evento';
+  }
+}
+
+// Get Portuguese month name
+export function getMonthName(month: number): string {
+  const months = ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 
+                  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+  return months[month - 1] || 'mês desconhecido';
+}
+
+export function formatDatePtBr(isoDateStr: string): string {
+  try {
+    const date = new Date(isoDateStr);
+    const day = date.getUTCDate();
+    const month = date.getUTCMonth() + 1;
+    return `${day} de ${getMonthName(month)}`;
+  } catch {
+    return isoDateStr;
+  }
+}
+
+export async function getActiveBatchForUser(userId: string) {
+  const lastId = await storage.getLastActiveBatch(userId);
+  if (!lastId) return null;
+  const batch = await batchService.getBatch(lastId);
+  if (!batch) return null;
+  if (batch.status !== "active" && (batch.status as string) !== "in_progress") {
+    await storage.clearLastActiveBatch(userId);
+    return null;
+  }
+  return batch;
+}
+
+export async function resolveActiveBatch(userId: string | null, sessionActiveBatchId?: number | null) {
+  if (sessionActiveBatchId) {
+    const batch = await batchService.getBatch(sessionActiveBatchId);
+    if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
+      console.log(`[resolveActiveBatch] Using session activeBatchId=${batch.id} stage=${batch.currentStageId}`);
+      return batch;
+    }
+  }
+  if (userId) {
+    const lastBatchId = await storage.getLastActiveBatch(userId);
+    if (lastBatchId) {
+      const batch = await batchService.getBatch(lastBatchId);
+      if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
+        console.log(`[resolveActiveBatch] Using persisted batch id=${batch.id} stage=${batch.currentStageId} for user=${userId.substring(0, 20)}...`);
+        return batch;
+      }
+      console.log(`[resolveActiveBatch] Persisted batch id=${lastBatchId} not active, clearing for user=${userId.substring(0, 20)}...`);
+      await storage.clearLastActiveBatch(userId);
+    }
+  }
+  const batch = await batchService.getActiveBatch();
+  if (batch) {
+    console.log(`[resolveActiveBatch] Fallback to first active batch id=${batch.id} stage=${batch.currentStageId}`);
+  }
+  return batch;
+}
+
+export function getStage13EntryPrompt(batch: any, sessionAttrs: Record<string, any>): { prompt: string; reprompt: string; newAttrs: Record<string, any> } | null {
+  if (!recipeManager.isPhAndPiecesStage(batch.currentStageId, batch)) return null;
+  const measurements = (batch.measurements as any) || {};
+  const existingPh = measurements.initial_ph;
+  const existingPieces = measurements.pieces_quantity;
+
+  if (existingPh === undefined) {
+    return {
+      prompt: " Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.",
+      reprompt: "Qual o pH inicial?",
+      newAttrs: writeVoiceDialog(sessionAttrs, { flow: "stage13", step: "ph" }),
+    };
+  }
+  if (existingPieces === undefined) {
+    return {
+      prompt: ` pH ${existingPh} já registrado. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
+      reprompt: "Quantas peças?",
+      newAttrs: writeVoiceDialog(sessionAttrs, { flow: "stage13", step: "pieces" }),
+    };
+  }
+  return null;
+}
+
+// Spoken reason a loop stage may end (see recipeManager.evaluateLoopExit)
+export function loopExitMessage(exitReason?: string): string {
+  switch (exitReason) {
+    case 'time_limit': return 'Tempo máximo da etapa atingido.';
+    case 'condition_met': return 'Condição de saída atingida!';
+    default: return 'Valor ideal atingido!';
+  }
+}
+
+export function buildStage15Context(batch: any): string {
+  if (!recipeManager.isPhLoopStage(batch.currentStageId, batch)) return '';
+
+  const parts: string[] = [];
+  const turningCycles = (batch as any).turningCyclesCount || 0;
+  const measurements = (batch.measurements as any) || {};
+  const phMeasurements = measurements.ph_measurements || [];
+  const lastPh = phMeasurements.length > 0 ? phMeasurements[phMeasurements.length - 1].value : null;
+
+  if (turningCycles > 0) {
+    parts.push(`${turningCycles} virada${turningCycles > 1 ? 's' : ''} feita${turningCycles > 1 ? 's' : ''}`);
+  }
+  if (lastPh !== null) {
+    parts.push(`último pH: ${lastPh}`);
+  }
+  const exitCondition = recipeManager.evaluateLoopExit(batch).description;
+  if (exitCondition) {
+    parts.push(`meta: ${exitCondition}`);
+  }
+
+  const activeTimers = (batch.activeTimers as any[]) || [];
+  const stage15Timer = activeTimers.find((t: any) => t.stageId === batch.currentStageId);
+  if (stage15Timer?.endTime) {
+    const remainingMs = new Date(stage15Timer.endTime).getTime() - currentTime().getTime();
+    if (remainingMs > 0) {
+      const remainingMin = Math.ceil(remainingMs / 60000);
+      if (remainingMin >= 60) {
+        const hours = Math.floor(remainingMin / 60);
+        const mins = remainingMin % 60;
+        parts.push(mins > 0 ? `faltam ${hours} hora${hours > 1 ? 's' : ''} e ${mins} minutos para medir o pH` : `falta ${hours} hora${hours > 1 ? 's' : ''} para medir o pH`);
+      } else {
+        parts.push(`faltam ${remainingMin} minuto${remainingMin > 1 ? 's' : ''} para medir o pH`);
+      }
+    } else {
+      parts.push('já passou o tempo de medir o pH');
+    }
+  }
+
+  let context = '';
+  if (parts.length > 0) {
+    context = ' ' + parts.join(', ') + '.';
+  }
+  context += " Informe o pH dizendo: 'pH é X ponto X'.";
+  return context;
+}
+
+export async function buildBatchSelectionMenu(sessionAttrs: Record<string, any>): Promise<{ speechText: string; repromptText: string; newSessionAttrs: Record<string, any> }> {
+  const batches = await batchService.listInProgressBatches();
+  console.log(`[BATCH_MENU] count=${batches.length}`);
+
+  if (batches.length === 0) {
+    return {
+      speechText: "Olá, não temos lotes em andamento. Para iniciar um novo lote, diga apenas a quantidade de leite. Por exemplo: 'novo lote com 130 litros'. Eu vou perguntar a temperatura e o pH depois.",
+      repromptText: "Diga 'novo lote com 130 litros' para começar.",
+      newSessionAttrs: { ...sessionAttrs, activeBatchId: undefined, state: undefined, batchChoices: undefined },
+    };
+  }
+
+  if (batches.length === 1) {
+    const b = batches[0];
+    const dateStr = formatDatePtBr(b.startedAt);
+    let stageCtx = '';
+    let baseAttrs: Record<string, any> = { ...sessionAttrs, activeBatchId: b.batchId, state: undefined, batchChoices: undefined };
+    let reprompt = "O que deseja fazer?";
+
+    if (recipeManager.isPhLoopStage(b.currentStageId, b.recipeId)) {
+      const fullBatch = await batchService.getBatch(b.batchId);
+      if (fullBatch) stageCtx = buildStage15Context(fullBatch);
+      reprompt = "Informe o pH ou diga 'qual é o status'.";
+    } else if (recipeManager.isPhAndPiecesStage(b.currentStageId, b.recipeId)) {
+      const fullBatch = await batchService.getBatch(b.batchId);
+      if (fullBatch) {
+        const s13 = getStage13EntryPrompt(fullBatch, baseAttrs);
+        if (s13) {
+          stageCtx = s13.prompt;
+          baseAttrs = s13.newAttrs;
+          reprompt = s13.reprompt;
+          console.log(`[BATCH_MENU] Single batch stage 13 guided entry: pending=${s13.newAttrs.pending}`);
+        }
+      }
+    }
+
+    return {
+      speechText: `Beleza, vamos continuar o lote do ${b.recipeName} iniciado em ${dateStr}. Você está na etapa ${b.currentStageId}: ${b.currentStageName}.${stageCtx}`,
+      repromptText: reprompt,
+      newSessionAttrs: baseAttrs,
+    };
+  }
+
+  const batchChoices = batches.map((b, idx) => ({
+    optionNumber: idx + 1,
+    batchId: b.batchId,
+    recipeName: b.recipeName,
+    startedAt: b.startedAt,
+    currentStageId: b.currentStageId,
+    currentStageName: b.currentStageName,
+  }));
+
+  const optionsList = batchChoices.map(c => {
+    const dateStr = formatDatePtBr(c.startedAt);
+    return `Opção ${c.optionNumber}: ${c.recipeName}, iniciado em ${dateStr}, etapa ${c.currentStageId}: ${c.currentStageName}.`;
+  }).join(' ');
+
+  const repromptOptions = batchChoices.map(c => `'opção ${c.optionNumber}'`).join(', ');
+
+  return {
+    speechText: `Olá, temos ${batches.length} lotes em andamento. ${optionsList} Qual opção você quer continuar?`,
+    repromptText: `Diga ${repromptOptions}.`,
+    newSessionAttrs: { ...sessionAttrs, state: "AWAITING_BATCH_SELECTION", batchChoices },
+  };
+}
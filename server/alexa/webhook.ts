@@ -0,0 +1,236 @@
+import type { RequestHandler } from "express";
+import { storage } from "../storage";
+import * as batchService from "../batchService";
+import { recipeManager } from "../recipe";
+import { getApiContext as extractApiContext } from "../alexaReminders";
+import { logAlexaWebhook } from "../logService";
+import { verifyAlexaRequest } from "../alexaVerifier";
+import { llm, recordingLlm, runWithLlm, type LlmCall } from "../llm";
+import { restoreVoiceDialog, saveVoiceDialog, type VoiceDialog } from "../voiceDialog";
+import { buildAlexaResponse } from "./response";
+import { resolveActiveBatch, buildStage15Context, buildBatchSelectionMenu } from "./voiceHelpers";
+import { dispatchIntent } from "./registry";
+
+/**
+ * Alexa webhook (ASK-compliant). It accepts ONLY:
+ * - LaunchRequest: skill opening
+ * - SessionEndedRequest: skill closing
+ * - IntentRequest: dispatched to the intent handlers (registry.ts)
+ * The backend interprets the utterance and executes actions - Alexa is just a
+ * voice adapter.
+ */
+
+export interface AlexaWebhookOptions {
+  // Check the request signature (verifyAlexaRequest skips it in development)
+  verify?: boolean;
+  // Write each request to alexa_webhook_logs
+  log?: boolean;
+}
+
+// The conversation simulator runs it in-process with both off
+export function createAlexaWebhook(options: AlexaWebhookOptions = {}): RequestHandler {
+  const handle = handleAlexaRequests(options);
+  // Model replies go into the log so a replay can give them back
+  return (req, res, next) => {
+    const llmCalls: LlmCall[] = [];
+    res.locals.llmCalls = llmCalls;
+    return runWithLlm(recordingLlm(llm(), llmCalls), () => handle(req, res, next));
+  };
+}
+
+function handleAlexaRequests({ verify = true, log = true }: AlexaWebhookOptions): RequestHandler {
+  return async (req, res) => {
+    const webhookStartTime = Date.now();
+
+    if (verify) {
+      const verification = await verifyAlexaRequest(
+        req.headers["signaturecertchainurl"] as string | undefined,
+        (req.headers["signature-256"] || req.headers["signature"]) as string | undefined,
+        req.rawBody as Buffer,
+        req.body,
+        process.env.ALEXA_SKILL_ID
+      );
+      if (!verification.valid) {
+        console.log(`[ALEXA_VERIFY] Rejected: ${verification.reason}`);
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+    }
+
+    const origJson = res.json.bind(res);
+    let capturedSpeech: string | undefined;
+    let capturedAttributes: Record<string, any> | undefined;
+    let errorLogged = false;
+    // Guided dialog step at the start of the turn; the response's step is
+    // stored before it is sent, so the next turn finds it on any instance
+    let dialogSessionId: string | undefined;
+    let dialogAtStart: VoiceDialog | null = null;
+    const send = (body: any) => {
+      capturedAttributes = body?.sessionAttributes || {};
+      return origJson(body);
+    };
+    res.json = function(body: any) {
+      capturedSpeech = body?.response?.outputSpeech?.ssml || body?.response?.outputSpeech?.text;
+      const sessionId = dialogSessionId;
+      if (!sessionId) return send(body);
+      dialogSessionId = undefined;
+      saveVoiceDialog(sessionId, req.body?.context?.System?.user?.userId || null, dialogAtStart, body?.sessionAttributes || {})
+        .then(attrs => {
+          if (Object.keys(attrs).length > 0) body.sessionAttributes = attrs;
+          else delete body.sessionAttributes;
+        })
+        .catch(err => console.error("[VOICE_DIALOG] Save failed:", err))
+        .finally(() => send(body));
+      return res;
+    } as any;
+    try {
+      const alexaRequest = req.body;
+      const requestType = alexaRequest?.request?.type;
+      const sessionAttributes: Record<string, any> = alexaRequest?.session?.attributes || {};
+      const requestAttributes = structuredClone(sessionAttributes);
+      if (alexaRequest?.session) {
+        alexaRequest.session.attributes = sessionAttributes;
+        dialogAtStart = await restoreVoiceDialog(alexaRequest.session.sessionId, sessionAttributes);
+        dialogSessionId = alexaRequest.session.sessionId;
+      }
+      const apiCtx = extractApiContext(alexaRequest);
+      const userId: string | null = alexaRequest?.context?.System?.user?.userId || null;
+      console.log(`[ALEXA_REQ] type=${requestType} apiCtx=${apiCtx ? 'present' : 'NULL'} userId=${userId ? userId.substring(0, 20) + '...' : 'NULL'}`);
+      
+      const intentName = alexaRequest?.request?.intent?.name || requestType;
+      const slots = alexaRequest?.request?.intent?.slots || {};
+      const batchIdForLog = sessionAttributes.activeBatchId || null;
+      // Stage of the batch the request found, once resolved
+      let stageIdForLog: number | null = null;
+      
+      res.on("finish", () => {
+        if (errorLogged || !log) return;
+        logAlexaWebhook({
+          alexaUserId: userId || undefined,
+          intentName,
+          stageId: stageIdForLog ?? undefined,
+          batchId: batchIdForLog,
+          requestType,
+          slots,
+          sessionAttributes: requestAttributes,
+          responseSpeech: capturedSpeech,
+          durationMs: Date.now() - webhookStartTime,
+          sessionId: alexaRequest?.session?.sessionId,
+          responseAttributes: capturedAttributes,
+          llmCalls: res.locals.llmCalls,
+        });
+      });
+      
+      // --- LaunchRequest: Intelligent skill opening ---
+      if (requestType === "LaunchRequest") {
+        if (userId) {
+          const lastBatchId = await storage.getLastActiveBatch(userId);
+          if (lastBatchId) {
+            const batch = await batchService.getBatch(lastBatchId);
+            if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
+              stageIdForLog = batch.currentStageId;
+              const stage = recipeManager.getStage(batch.currentStageId, batch);
+              const recipeName = recipeManager.getRecipeName(batch);
+              const stage15Ctx = buildStage15Context(batch);
+              let stageHint = '';
+              if (recipeManager.isPhAndPiecesStage(batch.currentStageId, batch)) {
+                const measurements = (batch.measurements as any) || {};
+                if (measurements.initial_ph === undefined) {
+                  stageHint = ' Ao continuar, vou pedir o pH inicial.';
+                } else if (measurements.pieces_quantity === undefined) {
+                  stageHint = ` pH ${measurements.initial_ph} já registrado. Ao continuar, vou pedir a quantidade de peças.`;
+                }
+              }
+              const speechText = `Etapa ${batch.currentStageId} do ${recipeName}: ${stage?.name || 'em andamento'}.${stage15Ctx}${stageHint} Continuar ou trocar de lote?`;
+              console.log(`[LaunchRequest] Resuming persisted batch=${batch.id} stage=${batch.currentStageId} for user=${userId.substring(0, 20)}...`);
+              let launchReprompt = "Diga 'continuar' ou 'trocar lote'.";
+              if (recipeManager.isPhLoopStage(batch.currentStageId, batch)) launchReprompt = "Informe o pH ou diga 'continuar' ou 'trocar lote'.";
+              else if (recipeManager.isPhAndPiecesStage(batch.currentStageId, batch)) launchReprompt = "Diga 'continuar' para informar o pH, ou 'trocar lote'.";
+              return res.status(200).json(buildAlexaResponse(
+                speechText,
+                false,
+                launchReprompt,
+                { activeBatchId: batch.id, state: "CONFIRM_CONTINUE_OR_SWITCH" }
+              ));
+            } else {
+              await storage.clearLastActiveBatch(userId);
+              console.log(`[LaunchRequest] Persisted batch=${lastBatchId} no longer active, cleared.`);
+            }
+          }
+        }
+        const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
+        console.log(`[LaunchRequest] No persisted batch, showing menu. activeBatchId=${newSessionAttrs.activeBatchId || 'none'} state=${newSessionAttrs.state || 'none'}`);
+        if (userId && newSessionAttrs.activeBatchId) {
+          await storage.setLastActiveBatch(userId, newSessionAttrs.activeBatchId);
+        }
+        return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
+      }
+      
+      // --- SessionEndedRequest: Skill closing ---
+      // Session already ended by Alexa - return minimal response without speech
+      // This happens when: user is silent, timeout, error, or external close
+      if (requestType === "SessionEndedRequest") {
+        return res.status(200).json({
+          version: "1.0",
+          response: {}
+        });
+      }
+      
+      // --- IntentRequest: Process voice command ---
+      if (requestType === "IntentRequest") {
+        const intent = alexaRequest?.request?.intent;
+        const intentName = intent?.name;
+        const slots = intent?.slots || {};
+        const dialogState = alexaRequest?.request?.dialogState || 'N/A';
+        
+        const sessionBatchId = sessionAttributes?.activeBatchId ? Number(sessionAttributes.activeBatchId) : null;
+        const activeBatchResolved = await resolveActiveBatch(userId, sessionBatchId);
+        stageIdForLog = activeBatchResolved?.currentStageId ?? null;
+        const stageForLog = activeBatchResolved?.currentStageId || 'no-batch';
+        if (activeBatchResolved) {
+          console.log(`[ACTIVE_BATCH] activeBatchId=${activeBatchResolved.id} stage=${stageForLog}`);
+        }
+        
+        console.log(`[ALEXA_REQ] intent=${intentName} stage=${stageForLog} activeBatchId=${activeBatchResolved?.id || 'none'} dialogState=${dialogState} slots=${JSON.stringify(Object.fromEntries(Object.entries(slots).map(([k, v]: [string, any]) => [k, v?.value || '?'])))}`);
+        
+        return res.status(200).json(await dispatchIntent({
+          intentName,
+          slots,
+          sessionAttributes,
+          userId,
+          apiCtx,
+          activeBatch: activeBatchResolved,
+          dialogState,
+        }));
+      }
+      
+      // Fallback for unknown request types
+      return res.status(200).json(buildAlexaResponse(
+        "Desculpe, não consegui processar sua solicitação.",
+        false,
+        "Diga 'ajuda' para ver os comandos.",
+        sessionAttributes
+      ));
+      
+    } catch (error) {
+      console.error("Alexa webhook error:", error);
+      errorLogged = true;
+      const catchSessionAttrs = req.body?.session?.attributes || {};
+      if (log) logAlexaWebhook({
+        alexaUserId: req.body?.context?.System?.user?.userId || undefined,
+        intentName: req.body?.request?.intent?.name || req.body?.request?.type,
+        requestType: req.body?.request?.type,
+        batchId: catchSessionAttrs.activeBatchId || undefined,
+        durationMs: Date.now() - webhookStartTime,
+        error: String(error),
+        sessionId: req.body?.session?.sessionId,
+        llmCalls: res.locals.llmCalls,
+      });
+      return res.status(200).json(buildAlexaResponse(
+        "Ocorreu um erro. Tente novamente.",
+        false,
+        "Diga 'ajuda' para ver os comandos.",
+        catchSessionAttrs
+      ));
+    }
+  };
+}
@@ -1,4 +1,5 @@
 import { recipeManager, getWaitSpecForStage } from './recipe.js';
+import { now } from './clock.js';
 
 export interface ApiContext {
   apiEndpoint: string;
@@ -10,6 +11,9 @@ export interface ScheduledAlert {
   stageId: number;
   dueAtISO: string;
   kind: string;
+  // A pause or resume without the Alexa API context couldn't move it: the
+  // reminder still rings at dueAtISO, whatever the batch's timers say now
+  stale?: boolean;
 }
 
 export interface ReminderResult {
@@ -61,19 +65,19 @@ function alexaProofText(text: string): string {
 
 export async function scheduleReminderForWait(
   apiCtx: ApiContext,
-  batch: { id: number; recipeId: string },
+  batch: { id: number; recipeId: string; recipeVersion?: string | null },
   stageId: number,
   seconds: number,
   timezone?: string
 ): Promise<ReminderResult> {
-  const stage = recipeManager.getStage(stageId);
-  const recipeName = recipeManager.getRecipeName();
+  const stage = recipeManager.getStage(stageId, batch);
+  const recipeName = recipeManager.getRecipeName(batch);
   const stageName = alexaProofText(stage?.name || `Etapa ${stageId}`);
   const tz = timezone || 'America/Sao_Paulo';
 
-  const now = new Date();
-  const scheduledDate = new Date(now.getTime() + seconds * 1000);
-  const requestTime = toLocalISOString(now, tz);
+  const requestedAt = now();
+  const scheduledDate = new Date(requestedAt.getTime() + seconds * 1000);
+  const requestTime = toLocalISOString(requestedAt, tz);
   const scheduledTime = toLocalISOString(scheduledDate, tz);
 
   const body = {
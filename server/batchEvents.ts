@@ -0,0 +1,229 @@
+import { storage, BatchVersionConflictError } from "./storage";
+import {
+  type ProductionBatch, type BatchEventRecord, type BatchProjection, type BatchDrift,
+  type BatchConsistency, type MeasurementScalar
+} from "@shared/schema";
+
+/**
+ * The batch row as a projection of its events (batch_logs entries with an
+ * `event`). Services still write the row directly and log the event with it;
+ * replaying the events tells whether the two agree, rebuilds a row that
+ * drifted and answers "what did this batch look like at 14:30".
+ */
+
+// Top-level measurement values; arrays, objects and `_history` are derived data
+export function scalarValues(measurements: Record<string, any> | null | undefined): Record<string, MeasurementScalar> {
+  const values: Record<string, MeasurementScalar> = {};
+  for (const [key, value] of Object.entries(measurements || {})) {
+    if (key.startsWith("_")) continue;
+    if (value === null || ["number", "string", "boolean"].includes(typeof value)) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+// Keys whose value differs between two scalarValues snapshots
+export function changedValues(before: Record<string, MeasurementScalar>, after: Record<string, MeasurementScalar>) {
+  const values: Record<string, MeasurementScalar> = {};
+  const removed: string[] = [];
+  for (const [key, value] of Object.entries(after)) {
+    if (before[key] !== value) values[key] = value;
+  }
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) removed.push(key);
+  }
+  return { values, removed };
+}
+
+const toISO = (value: Date | string | null | undefined) => value ? new Date(value).toISOString() : null;
+
+/**
+ * Fold events (oldest first) into the batch state. With `at`, only events
+ * written up to that moment count. Null when there is no "started" event,
+ * i.e. the batch predates the event stream or didn't exist yet at `at`.
+ */
+export function projectBatch(records: BatchEventRecord[], at?: Date): BatchProjection | null {
+  let state: BatchProjection | null = null;
+
+  for (const { batchId, event } of records) {
+    if (at && new Date(event.at) > at) break;
+
+    if (event.type === "started") {
+      state = {
+        batchId,
+        recipeId: event.recipeId,
+        recipeVersion: event.recipeVersion,
+        milkVolumeL: event.milkVolumeL,
+        currentStageId: event.stageId,
+        status: "active",
+        batchStatus: "IN_PROGRESS",
+        turningCyclesCount: 0,
+        pausedAt: null,
+        pauseReason: null,
+        completedAt: null,
+        cancelledAt: null,
+        cancelReason: null,
+        chamber2EntryDate: null,
+        maturationEndDate: null,
+        closedAt: null,
+        measurements: {},
+        eventCount: 0,
+        lastEventAt: event.at
+      };
+    }
+    if (!state) continue;
+
+    switch (event.type) {
+      case "advanced":
+      case "reverted":
+        state.currentStageId = event.to;
+        break;
+      case "measurement_recorded":
+        if (event.turningCyclesCount !== undefined) state.turningCyclesCount = event.turningCyclesCount;
+        break;
+      case "measurement_corrected":
+        if (event.turningCyclesCount !== undefined) state.turningCyclesCount = event.turningCyclesCount;
+        if (event.chamber2EntryDate) state.chamber2EntryDate = event.chamber2EntryDate;
+        if (event.maturationEndDate) state.maturationEndDate = event.maturationEndDate;
+        if (event.batchStatus) state.batchStatus = event.batchStatus;
+        break;
+      case "paused":
+        state.status = "paused";
+        state.pausedAt = event.at;
+        state.pauseReason = event.reason || null;
+        break;
+      case "resumed":
+        state.status = "active";
+        state.pausedAt = null;
+        state.pauseReason = null;
+        break;
+      case "completed":
+        state.status = "completed";
+        state.completedAt = event.at;
+        break;
+      case "cancelled":
+        state.status = "cancelled";
+        state.cancelledAt = event.at;
+        state.cancelReason = event.reason;
+        break;
+      case "chamber2_entered":
+        state.status = "completed";
+        state.completedAt = event.at;
+        state.chamber2EntryDate = event.chamber2EntryDate;
+        state.maturationEndDate = event.maturationEndDate;
+        state.batchStatus = event.batchStatus;
+        break;
+      case "ready_for_sale":
+        state.batchStatus = "READY_FOR_SALE";
+        break;
+      case "closed":
+        state.batchStatus = "CLOSED";
+        state.closedAt = event.at;
+        break;
+    }
+
+    Object.assign(state.measurements, event.values || {});
+    for (const key of event.removed || []) delete state.measurements[key];
+    state.eventCount++;
+    state.lastEventAt = event.at;
+  }
+
+  return state;
+}
+
+// Differences between the stored row and its replay
+export function diffBatch(batch: ProductionBatch, projection: BatchProjection): BatchDrift[] {
+  const drift: BatchDrift[] = [];
+  const compare = (field: string, stored: unknown, replayed: unknown) => {
+    if (stored !== replayed) drift.push({ field, stored, replayed });
+  };
+
+  compare("recipeId", batch.recipeId, projection.recipeId);
+  compare("recipeVersion", batch.recipeVersion, projection.recipeVersion);
+  compare("milkVolumeL", Number(batch.milkVolumeL), Number(projection.milkVolumeL));
+  compare("currentStageId", batch.currentStageId, projection.currentStageId);
+  compare("status", batch.status, projection.status);
+  compare("batchStatus", batch.batchStatus ?? "IN_PROGRESS", projection.batchStatus);
+  compare("turningCyclesCount", batch.turningCyclesCount ?? 0, projection.turningCyclesCount);
+  compare("pausedAt", toISO(batch.pausedAt), projection.pausedAt);
+  compare("pauseReason", batch.pauseReason ?? null, projection.pauseReason);
+  compare("completedAt", toISO(batch.completedAt), projection.completedAt);
+  compare("cancelledAt", toISO(batch.cancelledAt), projection.cancelledAt);
+  compare("cancelReason", batch.cancelReason ?? null, projection.cancelReason);
+  compare("chamber2EntryDate", toISO(batch.chamber2EntryDate), projection.chamber2EntryDate);
+  compare("maturationEndDate", toISO(batch.maturationEndDate), projection.maturationEndDate);
+  compare("closedAt", toISO(batch.closedAt), projection.closedAt);
+
+  const stored = scalarValues(batch.measurements as Record<string, any>);
+  const keys = new Set([...Object.keys(stored), ...Object.keys(projection.measurements)]);
+  Array.from(keys).sort().forEach(key => {
+    compare(`measurements.${key}`, stored[key], projection.measurements[key]);
+  });
+
+  return drift;
+}
+
+export async function getBatchStateAt(batchId: number, at?: Date): Promise<BatchProjection | null> {
+  return projectBatch(await storage.getBatchEvents(batchId), at);
+}
+
+export async function checkBatchConsistency(batch: ProductionBatch): Promise<BatchConsistency> {
+  const projection = await getBatchStateAt(batch.id);
+  if (!projection) return { batchId: batch.id, status: "untracked", drift: [] };
+  const drift = diffBatch(batch, projection);
+  return { batchId: batch.id, status: drift.length > 0 ? "drift" : "ok", drift };
+}
+
+/**
+ * Overwrite the replayed fields of a batch with its projection. Measurement
+ * keys the events don't know about are dropped; arrays and `_history` are kept.
+ */
+export async function rebuildBatch(batchId: number): Promise<{
+  success: boolean;
+  error?: string;
+  code?: string;
+  batch?: ProductionBatch;
+  drift?: BatchDrift[];
+}> {
+  const batch = await storage.getBatch(batchId);
+  if (!batch) return { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" };
+
+  const projection = await getBatchStateAt(batchId);
+  if (!projection) {
+    return { success: false, error: "Lote sem eventos registrados; não é possível reconstruir.", code: "BATCH_UNTRACKED" };
+  }
+  const drift = diffBatch(batch, projection);
+  if (drift.length === 0) return { success: true, batch, drift };
+
+  const measurements: Record<string, any> = {};
+  for (const [key, value] of Object.entries((batch.measurements as Record<string, any>) || {})) {
+    if (!(key in scalarValues({ [key]: value }))) measurements[key] = value;
+  }
+  Object.assign(measurements, projection.measurements);
+
+  const toDate = (iso: string | null) => iso ? new Date(iso) : null;
+  try {
+    const rebuilt = await storage.updateBatch(batchId, {
+      currentStageId: projection.currentStageId,
+      status: projection.status,
+      batchStatus: projection.batchStatus,
+      turningCyclesCount: projection.turningCyclesCount,
+      pausedAt: toDate(projection.pausedAt),
+      pauseReason: projection.pauseReason,
+      completedAt: toDate(projection.completedAt),
+      cancelledAt: toDate(projection.cancelledAt),
+      cancelReason: projection.cancelReason,
+      chamber2EntryDate: toDate(projection.chamber2EntryDate),
+      maturationEndDate: toDate(projection.maturationEndDate),
+      closedAt: toDate(projection.closedAt),
+      measurements
+    }, batch.version);
+    return { success: true, batch: rebuilt, drift };
+  } catch (err) {
+    if (err instanceof BatchVersionConflictError) {
+      return { success: false, error: "O lote foi alterado durante a reconstrução. Tente novamente.", code: "VERSION_CONFLICT" };
+    }
+    throw err;
+  }
+}
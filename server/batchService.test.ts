@@ -0,0 +1,204 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductionBatch } from "@shared/schema";
+import { MemoryStorage } from "./memoryStorage";
+import { runWithStorage, storage } from "./storage";
+import { VirtualClock, runWithClock } from "./clock";
+import * as batchService from "./batchService";
+
+// Every read yields before returning, so two writers started together both
+// read the same version before either writes
+class RacingStorage extends MemoryStorage {
+  async getBatch(id: number): Promise<ProductionBatch | undefined> {
+    const batch = await super.getBatch(id);
+    await new Promise(resolve => setImmediate(resolve));
+    return batch;
+  }
+}
+
+function inMemory<T>(fn: (clock: VirtualClock) => Promise<T>): Promise<T> {
+  const clock = new VirtualClock(new Date("2026-04-15T08:00:00-03:00"));
+  return runWithStorage(new RacingStorage(), () => runWithClock(clock, () => fn(clock)));
+}
+
+async function startedBatch(): Promise<ProductionBatch> {
+  const result = await batchService.startBatch({ milkVolumeL: 100, milkTemperatureC: 32, milkPh: 6.6 });
+  assert.ok(result.success, result.error);
+  return (await storage.getBatch(result.batch.id))!;
+}
+
+test("racing writers keep every history entry", () => inMemory(async () => {
+  const batch = await startedBatch();
+
+  // Two writers at a time: each loses at most once, well within the retries
+  const results = [
+    ...await Promise.all([batchService.logPh(batch.id, 6.5), batchService.logPh(batch.id, 6.4)]),
+    ...await Promise.all([batchService.logPh(batch.id, 6.3), batchService.logTime(batch.id, "10:30", "floculação")]),
+    ...await Promise.all([
+      batchService.logPh(batch.id, 6.2),
+      batchService.saveMeasurement(batch, "pieces_quantity", 12, { source: "voice" }).then(() => ({ success: true }))
+    ]),
+  ];
+  assert.ok(results.every(r => r.success));
+
+  const measurements = (await storage.getBatch(batch.id))!.measurements as Record<string, any>;
+  const history = measurements._history.map((e: any) => `${e.key}=${e.value}`);
+  for (const value of [6.5, 6.4, 6.3, 6.2]) assert.ok(history.includes(`ph_measurement=${value}`));
+  assert.ok(history.includes("flocculation_time=10:30"));
+  assert.deepEqual(measurements.ph_measurements.map((m: any) => m.value).sort(), [6.2, 6.3, 6.4, 6.5]);
+  assert.equal(measurements.pieces_quantity, 12);
+  assert.equal(measurements.flocculation_time, "10:30");
+}));
+
+test("atomic appends survive a stale read-modify-write", () => inMemory(async () => {
+  const batch = await startedBatch();
+  const historyBefore = (batch.history as any[]).length;
+
+  await storage.appendBatchHistory(batch.id, [{ action: "note", timestamp: "2026-04-15T11:00:00.000Z" }]);
+  await storage.mergeMeasurements(batch.id, { pieces_quantity: 12 }, [{ key: "pieces_quantity", value: 12 }]);
+
+  // Computed from the copy read before both appends
+  assert.equal(await batchService.updateIfUnchanged(batch, { history: [], measurements: {} }), null);
+
+  const stored = (await storage.getBatch(batch.id))!;
+  assert.equal((stored.history as any[]).length, historyBefore + 1);
+  assert.equal((stored.measurements as any).pieces_quantity, 12);
+  assert.ok((stored.measurements as any)._history.some((e: any) => e.key === "pieces_quantity"));
+}));
+
+test("the loser of a transition race gets VERSION_CONFLICT", () => inMemory(async () => {
+  const batch = await startedBatch();
+
+  const results = await Promise.all([
+    batchService.pauseBatch(batch.id, "primeiro"),
+    batchService.pauseBatch(batch.id, "segundo"),
+  ]);
+
+  assert.equal(results.filter(r => r.success).length, 1);
+  assert.deepEqual(results.find(r => !r.success), batchService.VERSION_CONFLICT);
+  const stored = (await storage.getBatch(batch.id))!;
+  assert.equal((stored.history as any[]).filter(e => e.action === "pause").length, 1);
+}));
+
+test("retryOnConflict gives up after losing three races in a row", () => inMemory(async () => {
+  const batch = await startedBatch();
+
+  let attempts = 0;
+  const result = await batchService.retryOnConflict(batch.id, async current => {
+    attempts++;
+    // Another writer gets in between this read and the write, every time
+    await storage.appendBatchHistory(batch.id, [{ action: "concurrent", timestamp: `${attempts}` }]);
+    return { updates: { history: [...(current!.history as any[]), { action: "mine" }] }, result: "written" };
+  });
+
+  assert.equal(attempts, 3);
+  assert.deepEqual(result, batchService.VERSION_CONFLICT);
+  const history = (await storage.getBatch(batch.id))!.history as any[];
+  assert.equal(history.filter(e => e.action === "concurrent").length, 3);
+  assert.equal(history.filter(e => e.action === "mine").length, 0);
+}));
+
+test("a batch that skips heating starts at the stage its transition chose", () => inMemory(async () => {
+  // Milk at 31–33 °C goes from stage 2 straight to stage 4 (Nete)
+  const batch = await startedBatch();
+  assert.equal(batch.currentStageId, 4);
+
+  const start = (batch.history as any[]).find(e => e.action === "start");
+  assert.equal(start.stageId, 4);
+  const logs = await storage.getBatchLogs(batch.id);
+  assert.equal(logs.find(l => l.action === "start").stageId, 4);
+}));
+
+test("chamber 2 entry is taken once, at the recipe's stage and with a valid date", () => inMemory(async () => {
+  const batch = await startedBatch();
+
+  // An entry date at stage 4 would skip the rest of production
+  assert.equal((await batchService.recordChamber2Entry(batch.id, "2026-04-15")).code, "WRONG_STAGE");
+  assert.equal((await storage.getBatch(batch.id))!.status, "active");
+
+  await storage.updateBatch(batch.id, { currentStageId: 19 });
+  const invalid = await batchService.recordChamber2Entry(batch.id, "amanhã cedo");
+  assert.equal(invalid.code, "INVALID_DATE");
+
+  const first = await batchService.recordChamber2Entry(batch.id, "2026-04-15");
+  assert.ok(first.success, first.error);
+  const repeated = await batchService.recordChamber2Entry(batch.id, "2026-04-16");
+  assert.equal(repeated.code, "CHAMBER2_ALREADY_RECORDED");
+
+  const stored = (await storage.getBatch(batch.id))!;
+  assert.equal(stored.chamber2EntryDate?.toISOString().slice(0, 10), "2026-04-15");
+}));
+
+test("logTime takes its stage from the batch's recipe", () => inMemory(async () => {
+  const nete = await startedBatch();
+  const lala = await batchService.startBatch({ milkVolumeL: 100, milkTemperatureC: 32, milkPh: 6.6, recipeId: "QUEIJO_LALA" });
+  assert.ok(lala.success, lala.error);
+
+  assert.equal((await batchService.logTime(nete.id, "14:10", "prensa")).key, "press_start_time");
+  // Lala's stage 14 is dry salting: there is no press
+  const press = await batchService.logTime(lala.batch.id, "14:10", "prensa");
+  assert.equal(press.code, "INVALID_TIME_TYPE");
+  assert.match(press.error!, /Lala/);
+
+  // Without a time type, the stage asking for a time decides
+  await storage.updateBatch(lala.batch.id, { currentStageId: 7 });
+  assert.equal((await batchService.logTime(lala.batch.id, "10:30")).key, "cut_point_time");
+}));
+
+test("a paused batch takes no pH or time until resumed", () => inMemory(async () => {
+  const batch = await startedBatch();
+  assert.ok((await batchService.pauseBatch(batch.id)).success);
+
+  assert.equal((await batchService.logPh(batch.id, 6.4)).code, "BATCH_PAUSED");
+  assert.equal((await batchService.logTime(batch.id, "10:30", "floculação")).code, "BATCH_PAUSED");
+  const measurements = (await storage.getBatch(batch.id))!.measurements as Record<string, any>;
+  assert.equal(measurements.flocculation_time, undefined);
+  assert.equal(measurements.ph_measurements, undefined);
+
+  assert.ok((await batchService.resumeBatch(batch.id)).success);
+  assert.ok((await batchService.logTime(batch.id, "10:30", "floculação")).success);
+}));
+
+test("pause and resume without the Alexa API keep the reminders' times and mark them stale", () => inMemory(async clock => {
+  const batch = await startedBatch();
+  const alert = { reminderId: "r-1", stageId: 4, dueAtISO: "2026-04-15T11:30:00.000Z", kind: "timer" };
+  await batchService.setScheduledAlert(batch.id, "stage_4", alert);
+
+  assert.ok((await batchService.pauseBatch(batch.id)).success);
+  const paused = (await storage.getBatch(batch.id))!.scheduledAlerts as Record<string, any>;
+  assert.deepEqual(paused.stage_4, { ...alert, stale: true });
+
+  clock.advance(20 * 60_000);
+  assert.ok((await batchService.resumeBatch(batch.id)).success);
+  const stored = (await storage.getBatch(batch.id))!;
+  // The reminder still rings at its old time, while the timer moved by the pause
+  assert.deepEqual((stored.scheduledAlerts as Record<string, any>).stage_4, { ...alert, stale: true });
+  assert.notEqual((stored.activeTimers as any[])[0].endTime, (batch.activeTimers as any[])[0].endTime);
+}));
+
+test("two promotion runs at once mark a matured lot ready once", () => inMemory(async clock => {
+  const batch = await startedBatch();
+  await storage.updateBatch(batch.id, { currentStageId: 19 });
+  assert.ok((await batchService.recordChamber2Entry(batch.id, "2026-04-15")).success);
+
+  clock.advance(400 * 24 * 60 * 60_000);
+  const runs = await Promise.all([batchService.promoteMaturedBatches(), batchService.promoteMaturedBatches()]);
+
+  assert.deepEqual(runs.flat(), [batch.id]);
+  const stored = (await storage.getBatch(batch.id))!;
+  assert.equal(stored.batchStatus, "READY_FOR_SALE");
+  assert.equal((stored.history as any[]).filter(e => e.action === "ready_for_sale").length, 1);
+}));
+
+test("training lots stay off the maturation dashboard", () => inMemory(async () => {
+  const real = await startedBatch();
+  const training = await batchService.startBatch({ milkVolumeL: 100, milkTemperatureC: 32, milkPh: 6.6, isTraining: true });
+  assert.ok(training.success, training.error);
+  for (const id of [real.id, training.batch.id]) {
+    await storage.updateBatch(id, { currentStageId: 19 });
+    assert.ok((await batchService.recordChamber2Entry(id, "2026-04-15")).success);
+  }
+
+  assert.deepEqual((await batchService.getMaturationOverview()).map(e => e.batchId), [real.id]);
+  assert.deepEqual((await batchService.getTurningDue()).map(e => e.batchId), [real.id]);
+}));
@@ -1,11 +1,170 @@
-import { storage } from "./storage";
-import { recipeManager, getTimerDurationMinutes, getIntervalDurationMinutes, getWaitSpecForStage, TEST_MODE } from "./recipe";
-import { CHEESE_TYPES } from "@shared/schema";
+import { storage, BatchVersionConflictError } from "./storage";
+import { recipeManager, getTimerDurationMinutes, getIntervalDurationMinutes, getWaitSpecForStage, getStoredInputKey, getTimerReferenceTime, TEST_MODE, TRAINING_TIME_COMPRESSION, DEFAULT_RECIPE_ID, type LoopExitStatus, type RecipeStage } from "./recipe";
+import { CHEESE_TYPES, toLocalDateKey, toMeasurementColumns, type RevertTarget, type BatchMeasurement, type InsertBatchMeasurement, type MeasurementOrigin, type MeasurementScalar, isTurnedOn, formatBatchCode, type ProductionBatch, type BatchLifecycleStatus, type MaturationEntry, type MaturationCareAction, type MaturationCareEntry } from "@shared/schema";
+import { evaluateInputValidations } from "./recipeRules";
+import { describeCurrentValues } from "./loopConditions";
+import { runStageHooks, buildHookTimer } from "./stageHooks";
 import { randomBytes } from "crypto";
+import { now } from "./clock";
+import { scalarValues, changedValues } from "./batchEvents";
 import { ApiContext, ScheduledAlert, scheduleReminderForWait, cancelReminder, cancelAllBatchReminders } from "./alexaReminders";
 
 const generateId = () => randomBytes(8).toString('hex');
 
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Result of a write that kept losing to concurrent ones (see updateIfUnchanged)
+export const VERSION_CONFLICT = {
+  success: false as const,
+  error: "O lote foi alterado por outro comando ao mesmo tempo. Tente novamente.",
+  code: "VERSION_CONFLICT"
+};
+
+/**
+ * Write updates computed from `batch`, only if nobody else wrote the batch
+ * since it was read. Returns null on a conflict so the caller can retry or
+ * report VERSION_CONFLICT.
+ */
+export async function updateIfUnchanged(batch: ProductionBatch, updates: Partial<ProductionBatch>): Promise<ProductionBatch | null> {
+  try {
+    return await storage.updateBatch(batch.id, updates, batch.version);
+  } catch (err) {
+    if (err instanceof BatchVersionConflictError) {
+      console.warn(`[concurrency] batch=${batch.id} changed since version ${batch.version}`);
+      return null;
+    }
+    throw err;
+  }
+}
+
+export type BatchMutation<R> = { updates?: Partial<ProductionBatch> | null; result: R };
+
+/**
+ * Read-modify-write with retry: `apply` computes the updates from the latest
+ * row and runs again on a fresh copy when another writer got there first.
+ * Only for changes that are safe to recompute; transitions such as advance
+ * use updateIfUnchanged so a lost race is reported instead of repeated.
+ */
+export async function retryOnConflict<R>(
+  batchId: number,
+  apply: (batch: ProductionBatch | undefined) => BatchMutation<R> | Promise<BatchMutation<R>>
+): Promise<R | typeof VERSION_CONFLICT> {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const batch = await storage.getBatch(batchId);
+    const { updates, result } = await apply(batch);
+    if (!batch || !updates) return result;
+    if (await updateIfUnchanged(batch, updates)) return result;
+  }
+  console.warn(`[concurrency] batch=${batchId} gave up after ${MAX_WRITE_ATTEMPTS} attempts`);
+  return VERSION_CONFLICT;
+}
+
+// Set (or, with null, remove) one Alexa reminder entry on the latest row
+export async function setScheduledAlert(batchId: number, key: string, alert: ScheduledAlert | null) {
+  return retryOnConflict(batchId, batch => {
+    const scheduledAlerts = { ...((batch?.scheduledAlerts as Record<string, ScheduledAlert>) || {}) };
+    if (alert) {
+      scheduledAlerts[key] = alert;
+    } else {
+      delete scheduledAlerts[key];
+    }
+    return { updates: batch && { scheduledAlerts }, result: undefined };
+  });
+}
+
+const SYSTEM_ORIGIN: MeasurementOrigin = { source: "system" };
+
+// batch_measurements rows for `_history` entries ({key, value, stageId, timestamp, unit?, notes?})
+export function toMeasurementRows(batchId: number, entries: any[], origin: MeasurementOrigin): InsertBatchMeasurement[] {
+  return entries.map(entry => ({
+    batchId,
+    stageId: entry.stageId,
+    key: entry.key,
+    ...toMeasurementColumns(entry.key, entry.value),
+    unit: entry.unit ?? null,
+    notes: entry.notes ?? null,
+    source: origin.source,
+    operator: origin.operator ?? null,
+    recordedAt: entry.timestamp ? new Date(entry.timestamp) : now()
+  }));
+}
+
+// Written after the batch row: the `_history` copy stays the one the batch
+// screens read, the table is what reports and queries across batches use
+export async function recordMeasurements(batchId: number, entries: any[], origin: MeasurementOrigin) {
+  if (entries.length === 0) return;
+  await storage.addMeasurements(toMeasurementRows(batchId, entries, origin));
+}
+
+// A single value set outside the stage flow (voice pieces, temperature)
+export async function saveMeasurement(batch: ProductionBatch, key: string, value: any, origin: MeasurementOrigin) {
+  const timestamp = now().toISOString();
+  await storage.mergeMeasurements(batch.id, { [key]: value });
+  await recordMeasurements(batch.id, [{ key, value, timestamp, stageId: batch.currentStageId }], origin);
+  await storage.logBatchAction({
+    batchId: batch.id,
+    stageId: batch.currentStageId,
+    action: "input",
+    details: { key, value, source: origin.source },
+    event: { type: "measurement_recorded", at: timestamp, stageId: batch.currentStageId, values: { [key]: value } }
+  });
+}
+
+/**
+ * Copy a batch's `_history` into batch_measurements (source "backfill") for
+ * batches recorded before the table existed. Entries undone by a stage revert
+ * are kept as reverted rows. Batches that already have rows are left alone,
+ * so running it twice is harmless. Returns the number of rows written.
+ */
+export async function backfillBatchMeasurements(batch: ProductionBatch): Promise<number> {
+  if ((await storage.getBatchMeasurements([batch.id])).length > 0) return 0;
+
+  const entries = (((batch.measurements as any)?._history || []) as any[])
+    .filter(entry => entry?.key)
+    .map(entry => ({
+      ...entry,
+      stageId: entry.stageId ?? batch.currentStageId,
+      timestamp: entry.timestamp ?? batch.startedAt.toISOString()
+    }));
+  const rows = await storage.addMeasurements(toMeasurementRows(batch.id, entries, { source: "backfill" }));
+
+  // The revert that undid an entry is the first one after it
+  const reverts = ((batch.history as any[]) || []).filter(h => h.action === "revert").map(h => new Date(h.timestamp));
+  for (let i = 0; i < entries.length; i++) {
+    if (!entries[i].reverted) continue;
+    const revertedAt = reverts.find(at => at >= new Date(entries[i].timestamp)) ?? now();
+    await storage.markMeasurementsReverted([rows[i].id], revertedAt);
+  }
+  return rows.length;
+}
+
+/**
+ * Table side of a measurement edit: the row the old value came from (by id,
+ * else by its `_history` timestamp, else the latest one for the key) is
+ * superseded by a row with the new value. Values recorded before the table
+ * existed and never backfilled just get the new row.
+ */
+export async function recordMeasurementEdit(
+  batchId: number,
+  edit: { key: string; value: any; stageId?: number; measurementId?: number; previousTimestamp?: string },
+  origin: MeasurementOrigin
+): Promise<BatchMeasurement | undefined> {
+  const candidates = (await storage.getBatchMeasurements([batchId]))
+    .filter(row => row.key === edit.key && (edit.stageId === undefined || row.stageId === edit.stageId));
+  const previous = edit.measurementId !== undefined
+    ? candidates.find(row => row.id === edit.measurementId)
+    : edit.previousTimestamp
+      ? candidates.find(row => row.recordedAt.toISOString() === edit.previousTimestamp)
+      : candidates[candidates.length - 1];
+
+  const stageId = edit.stageId ?? previous?.stageId;
+  if (stageId === undefined) return undefined;
+  const [replacement] = toMeasurementRows(batchId, [{ key: edit.key, value: edit.value, stageId, unit: previous?.unit }], origin);
+  return previous
+    ? storage.supersedeMeasurement(previous.id, replacement)
+    : (await storage.addMeasurements([replacement]))[0];
+}
+
 /**
  * Normalize pH value: 54 -> 5.4, 62 -> 6.2, 66 -> 6.6, etc.
  * Handles cases like "54" spoken as "cinquenta e quatro" for pH 5.4
@@ -128,6 +287,8 @@ export interface StartBatchParams {
   milkTemperatureC: number;
   milkPh: number;
   recipeId?: string;
+  origin?: MeasurementOrigin;
+  isTraining?: boolean;
 }
 
 export interface StartBatchResult {
@@ -151,10 +312,12 @@ export interface AdvanceBatchResult {
 }
 
 export async function startBatch(params: StartBatchParams): Promise<StartBatchResult> {
-  const { milkVolumeL, milkTemperatureC: rawMilkTemp, milkPh: rawMilkPh, recipeId: rawRecipeId = "QUEIJO_NETE" } = params;
+  const { milkVolumeL, milkTemperatureC: rawMilkTemp, milkPh: rawMilkPh, recipeId: rawRecipeId = DEFAULT_RECIPE_ID } = params;
   
   // Normalize recipeId to uppercase for CHEESE_TYPES lookup
   const recipeId = rawRecipeId.toUpperCase();
+  const isTraining = params.isTraining === true;
+  const timeCompression = isTraining ? TRAINING_TIME_COMPRESSION : 1;
   
   // Normalize milk pH (handles values like 66 → 6.6, 55 → 5.5)
   const milkPh = normalizePHValue(rawMilkPh);
@@ -184,7 +347,7 @@ export async function startBatch(params: StartBatchParams): Promise<StartBatchRe
       code: "INVALID_CHEESE_TYPE"
     };
   }
-  if (!cheeseType.available) {
+  if (!recipeManager.hasRecipe(recipeId)) {
     return {
       success: false,
       error: `O queijo ${cheeseType.name} ainda não está disponível.`,
@@ -192,85 +355,200 @@ export async function startBatch(params: StartBatchParams): Promise<StartBatchRe
     };
   }
   
-  const inputs = recipeManager.calculateInputs(milkVolumeL);
+  const inputs = recipeManager.calculateInputs(milkVolumeL, recipeId);
   
+  // Pin the batch to the recipe as it is now; later YAML edits won't affect it
+  const snapshot = recipeManager.getRecipeSnapshot(recipeId);
+  await storage.saveRecipeSnapshot(snapshot);
+  
+  const milkEntries = [
+    { key: 'milk_volume_l', value: milkVolumeL, timestamp: now().toISOString(), stageId: 1 },
+    { key: 'milk_temperature_c', value: milkTemperatureC, timestamp: now().toISOString(), stageId: 1 },
+    { key: 'milk_ph', value: milkPh, timestamp: now().toISOString(), stageId: 1 }
+  ];
   const initialMeasurements: Record<string, any> = {
     milk_volume_l: milkVolumeL,
     milk_temperature_c: milkTemperatureC,
     milk_ph: milkPh,
-    _history: [
-      { key: 'milk_volume_l', value: milkVolumeL, timestamp: new Date().toISOString(), stageId: 1 },
-      { key: 'milk_temperature_c', value: milkTemperatureC, timestamp: new Date().toISOString(), stageId: 1 },
-      { key: 'milk_ph', value: milkPh, timestamp: new Date().toISOString(), stageId: 1 }
-    ]
+    _history: [...milkEntries]
   };
 
+  // Stages 1 and 2 are done at start; stage 2's transitions pick the first operational stage
+  const recipeRef = { recipeId, recipeVersion: snapshot.version };
+  const transition = recipeManager.resolveNextStage(2, recipeRef, {
+    ...recipeManager.getProcessVariables(recipeRef),
+    ...initialMeasurements
+  });
+  const firstStage = transition.stage ?? recipeManager.getFirstStage(recipeRef);
+  const activeTimers: any[] = [];
+  const activeReminders: any[] = [];
+  addStageTimers(firstStage, activeTimers, activeReminders, now(), timeCompression);
+  const hookState = { measurements: initialMeasurements, activeTimers };
+  runStageHooks(firstStage.on_enter, firstStage.id, hookState, {
+    testMode: TEST_MODE,
+    parameters: recipeManager.getProcessVariables(recipeRef),
+    timeCompression
+  });
+
   const batch = await storage.createBatch({
     recipeId: recipeId,
-    currentStageId: 3,
+    recipeVersion: snapshot.version,
+    currentStageId: firstStage.id,
     milkVolumeL: String(milkVolumeL),
     calculatedInputs: inputs,
-    measurements: initialMeasurements,
+    measurements: hookState.measurements,
+    activeTimers: hookState.activeTimers,
+    activeReminders,
     status: "active",
+    isTraining,
+    timeCompression,
     history: [
-      { stageId: 1, action: "complete", timestamp: new Date().toISOString(), auto: true },
-      { stageId: 2, action: "complete", timestamp: new Date().toISOString(), auto: true },
-      { stageId: 3, action: "start", timestamp: new Date().toISOString() }
+      { stageId: 1, action: "complete", timestamp: now().toISOString(), auto: true },
+      { stageId: 2, action: "complete", timestamp: now().toISOString(), auto: true },
+      {
+        stageId: firstStage.id,
+        action: "start",
+        timestamp: now().toISOString(),
+        from: 2,
+        ...(transition.condition && { condition: transition.condition })
+      }
     ]
   });
 
   await storage.logBatchAction({
     batchId: batch.id,
-    stageId: 3,
+    stageId: firstStage.id,
     action: "start",
-    details: { milkVolume: milkVolumeL, milkTemperatureC, milkPh, calculatedInputs: inputs }
+    details: { milkVolume: milkVolumeL, milkTemperatureC, milkPh, calculatedInputs: inputs, recipeVersion: snapshot.version },
+    event: {
+      type: "started",
+      at: batch.startedAt.toISOString(),
+      recipeId,
+      recipeVersion: snapshot.version,
+      milkVolumeL: String(milkVolumeL),
+      stageId: firstStage.id,
+      values: scalarValues(hookState.measurements)
+    }
   });
 
+  await recordMeasurements(batch.id, milkEntries, params.origin ?? { source: "web" });
+  await recordMeasurements(batch.id, hookState.measurements._history.slice(milkEntries.length), SYSTEM_ORIGIN);
+
   return { success: true, batch };
 }
 
+// Timers and reminders a stage declares (timer / reminder), started when it is entered
+// " (treino: 4 min)" after a timer description in a training batch
+function trainingNote(minutes: number, compression: number): string {
+  return compression > 1 && !TEST_MODE ? ` (treino: ${Math.max(1, Math.round(minutes))} min)` : "";
+}
+
+function addStageTimers(stage: RecipeStage, activeTimers: any[], activeReminders: any[], startedAt: Date = now(), compression: number = 1): void {
+  if (stage.timer) {
+    const durationMinutes = getTimerDurationMinutes(stage, compression);
+    const intervalMinutes = getIntervalDurationMinutes(stage, compression);
+    
+    if (intervalMinutes > 0) {
+      const intervalDesc = TEST_MODE ? "1 minuto (TESTE)" : `${stage.timer.interval_hours} horas${trainingNote(intervalMinutes, compression)}`;
+      activeReminders.push({
+        id: generateId(),
+        stageId: stage.id,
+        type: "interval",
+        intervalHours: intervalMinutes / 60,
+        nextTrigger: new Date(startedAt.getTime() + intervalMinutes * 60000).toISOString(),
+        acknowledged: false,
+        description: `Verificar pH a cada ${intervalDesc}`
+      });
+    }
+    
+    if (durationMinutes > 0) {
+      const blocking = stage.timer.blocking === true;
+      const timer = stage.timer as any;
+      const timerDesc = TEST_MODE 
+        ? `${durationMinutes} minuto(s) (TESTE)` 
+        : (timer.duration || `${durationMinutes * compression} min`) + trainingNote(durationMinutes, compression);
+      activeTimers.push({
+        id: generateId(),
+        stageId: stage.id,
+        durationMinutes,
+        startTime: startedAt.toISOString(),
+        endTime: new Date(startedAt.getTime() + durationMinutes * 60000).toISOString(),
+        description: timerDesc,
+        blocking
+      });
+    }
+  }
+
+  if (stage.reminder) {
+    const reminder = stage.reminder as any;
+    const reminderHours = TEST_MODE 
+      ? (1/60)
+      : (reminder.interval_hours || 1) / compression;
+    activeReminders.push({
+      id: generateId(),
+      stageId: stage.id,
+      type: reminder.type || "interval",
+      intervalHours: reminderHours,
+      nextTrigger: new Date(startedAt.getTime() + reminderHours * 3600000).toISOString(),
+      acknowledged: false,
+      description: reminder.message || `Lembrete etapa ${stage.id}`
+    });
+  }
+}
+
+/**
+ * Timers and reminders `stage` has been running since `enteredAt`, start_timer
+ * hooks included, added to `state`. Reverts bring back the previous stage's;
+ * the webhook replay seeds a batch's current stage with them.
+ */
+export function restoreStageTimers(
+  batch: ProductionBatch,
+  stage: RecipeStage,
+  enteredAt: Date,
+  state: { measurements: Record<string, any>; activeTimers: any[]; activeReminders: any[] }
+): void {
+  addStageTimers(stage, state.activeTimers, state.activeReminders, enteredAt, batch.timeCompression);
+  runStageHooks((stage.on_enter || []).filter(h => h.action === "start_timer"), stage.id, state, {
+    testMode: TEST_MODE,
+    now: enteredAt,
+    parameters: recipeManager.getProcessVariables(batch),
+    timeCompression: batch.timeCompression
+  });
+}
+
 export async function advanceBatch(batchId: number, apiCtx?: ApiContext | null): Promise<AdvanceBatchResult> {
   const batch = await storage.getBatch(batchId);
   if (!batch) {
     return { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" };
   }
 
-  const currentStage = recipeManager.getStage(batch.currentStageId);
+  if (batch.status === "paused") {
+    return { success: false, error: "Lote pausado. Retome a produção antes de avançar.", code: "BATCH_PAUSED" };
+  }
+
+  const currentStage = recipeManager.getStage(batch.currentStageId, batch);
   if (!currentStage) {
     return { success: false, error: "Etapa inválida", code: "INVALID_STAGE" };
   }
 
-  if (recipeManager.isLoopStage(batch.currentStageId)) {
-    const measurements = (batch.measurements as Record<string, any>) || {};
-    const canExitByPh = recipeManager.checkLoopExitCondition(batch.currentStageId, measurements);
-    
-    if (!canExitByPh) {
-      const phMessage = measurements.ph_value 
-        ? `pH atual: ${measurements.ph_value}` 
-        : 'pH ainda não medido';
+  const loopExitEntries: any[] = [];
+  if (recipeManager.isLoopStage(batch.currentStageId, batch)) {
+    const loopStatus = recipeManager.evaluateLoopExit(batch);
+
+    if (!loopStatus.canExit) {
+      const currentValues = describeCurrentValues(loopStatus.currentValues);
       return {
         success: false,
-        error: `pH deve ser menor que 5.3 para sair desta etapa (${phMessage}). Continue monitorando o pH.`,
+        error: `Para sair desta etapa: ${loopStatus.description}${currentValues ? ` (${currentValues})` : ''}. Continue monitorando.`,
         code: "LOOP_CONDITION_NOT_MET"
       };
     }
 
-    if (batch.currentStageId === 15) {
-      const freshBatch = await storage.getBatch(batchId);
-      if (freshBatch) {
-        const freshMeasurements = (freshBatch.measurements as Record<string, any>) || {};
-        const turningCount = (freshBatch as any).turningCyclesCount || 0;
-        const timestamp = new Date().toISOString();
-        const historyEntries = [
-          { key: 'turning_cycles_count', value: turningCount, stageId: 15, timestamp },
-          { key: 'loop_exit_reason', value: 'ph_reached', stageId: 15, timestamp }
-        ];
-        const history = freshMeasurements._history || [];
-        history.push(...historyEntries);
-        freshMeasurements._history = history;
-        await storage.updateBatch(batchId, { measurements: freshMeasurements });
-      }
-    }
+    const timestamp = now().toISOString();
+    loopExitEntries.push(
+      { key: 'turning_cycles_count', value: (batch as any).turningCyclesCount || 0, stageId: currentStage.id, timestamp },
+      { key: 'loop_exit_reason', value: loopStatus.exitReason, stageId: currentStage.id, timestamp }
+    );
   }
 
   const validation = recipeManager.validateAdvance(batch, currentStage);
@@ -282,17 +560,27 @@ export async function advanceBatch(batchId: number, apiCtx?: ApiContext | null):
     };
   }
 
-  const nextStage = recipeManager.getNextStage(batch.currentStageId);
+  const transition = recipeManager.resolveNextStage(batch.currentStageId, batch, recipeManager.getConditionVariables(batch));
+  const nextStage = transition.stage;
   if (!nextStage) {
     const alerts = (batch.scheduledAlerts as Record<string, ScheduledAlert>) || {};
     if (apiCtx && Object.keys(alerts).length > 0) {
       await cancelAllBatchReminders(apiCtx, alerts);
     }
-    const completed = await storage.updateBatch(batchId, { 
+    const completedAt = now();
+    const completed = await updateIfUnchanged(batch, { 
       status: "completed",
-      completedAt: new Date(),
+      completedAt,
       scheduledAlerts: {}
     });
+    if (!completed) return VERSION_CONFLICT;
+    await storage.logBatchAction({
+      batchId,
+      stageId: currentStage.id,
+      action: "complete",
+      details: { completedAt: completedAt.toISOString() },
+      event: { type: "completed", at: completedAt.toISOString() }
+    });
     return { success: true, batch: completed, completed: true };
   }
 
@@ -316,116 +604,61 @@ export async function advanceBatch(batchId: number, apiCtx?: ApiContext | null):
     scheduledAlerts
   };
 
-  if (nextStage.id === 15) {
-    const phTimerMinutes = TEST_MODE ? 2 : 90;
-    const timerDesc = TEST_MODE ? "2 minuto(s) (TESTE)" : "1 hora e 30 minutos";
-    activeTimers.push({
-      id: generateId(),
-      stageId: 15,
-      durationMinutes: phTimerMinutes,
-      startTime: new Date().toISOString(),
-      endTime: new Date(Date.now() + phTimerMinutes * 60000).toISOString(),
-      description: timerDesc,
-      blocking: false
-    });
-    updates.activeTimers = activeTimers;
-  }
-
-  if (nextStage.timer) {
-    const durationMinutes = getTimerDurationMinutes(nextStage);
-    const intervalMinutes = getIntervalDurationMinutes(nextStage);
-    
-    if (intervalMinutes > 0) {
-      const intervalDesc = TEST_MODE ? "1 minuto (TESTE)" : `${nextStage.timer.interval_hours} horas`;
-      activeReminders.push({
-        id: generateId(),
-        stageId: nextStage.id,
-        type: "interval",
-        intervalHours: intervalMinutes / 60,
-        nextTrigger: new Date(Date.now() + intervalMinutes * 60000).toISOString(),
-        acknowledged: false,
-        description: `Verificar pH a cada ${intervalDesc}`
-      });
-      updates.activeReminders = activeReminders;
-    }
-    
-    if (durationMinutes > 0) {
-      const blocking = nextStage.timer.blocking === true;
-      const timer = nextStage.timer as any;
-      const timerDesc = TEST_MODE 
-        ? `${durationMinutes} minuto(s) (TESTE)` 
-        : (timer.duration || `${durationMinutes} min`);
-      activeTimers.push({
-        id: generateId(),
-        stageId: nextStage.id,
-        durationMinutes,
-        startTime: new Date().toISOString(),
-        endTime: new Date(Date.now() + durationMinutes * 60000).toISOString(),
-        description: timerDesc,
-        blocking
-      });
-      updates.activeTimers = activeTimers;
-    }
-  }
-
-  if (nextStage.reminder) {
-    const reminder = nextStage.reminder as any;
-    const reminderHours = TEST_MODE 
-      ? (1/60)
-      : (reminder.interval_hours || 1);
-    activeReminders.push({
-      id: generateId(),
-      stageId: nextStage.id,
-      type: reminder.type || "interval",
-      intervalHours: reminderHours,
-      nextTrigger: new Date(Date.now() + reminderHours * 3600000).toISOString(),
-      acknowledged: false,
-      description: reminder.message || `Lembrete etapa ${nextStage.id}`
-    });
-    updates.activeReminders = activeReminders;
-  }
+  addStageTimers(nextStage, activeTimers, activeReminders, now(), batch.timeCompression);
 
   const updatedHistory = [...((batch.history as any[]) || [])];
-  updatedHistory.push({ stageId: currentStage.id, action: "complete", timestamp: new Date().toISOString() });
-  updatedHistory.push({ stageId: nextStage.id, action: "start", timestamp: new Date().toISOString() });
+  updatedHistory.push({ stageId: currentStage.id, action: "complete", timestamp: now().toISOString() });
+  updatedHistory.push({
+    stageId: nextStage.id,
+    action: "start",
+    timestamp: now().toISOString(),
+    from: currentStage.id,
+    ...(transition.condition && { condition: transition.condition })
+  });
   updates.history = updatedHistory;
 
+  // Recipe-declared side-effects (timestamps, timers) of leaving and entering stages
   const measurements = (batch.measurements as Record<string, any>) || {};
-  const nowIso = new Date().toISOString();
-  let touchedMeasurements = false;
-
-  if (nextStage.id === 4 && !measurements.ferment_lr_dx_add_time_iso) {
-    measurements.ferment_lr_dx_add_time_iso = nowIso;
-    const mHistory = measurements._history || [];
-    mHistory.push({ key: 'ferment_lr_dx_add_time_iso', value: nowIso, stageId: 4, timestamp: nowIso });
-    measurements._history = mHistory;
-    touchedMeasurements = true;
+  const historyLength = (measurements._history || []).length;
+  const valuesBefore = scalarValues(measurements);
+  const hookState = { measurements, activeTimers };
+  const hookOptions = { testMode: TEST_MODE, parameters: recipeManager.getProcessVariables(batch), timeCompression: batch.timeCompression };
+  const exitHooks = runStageHooks(currentStage.on_exit, currentStage.id, hookState, hookOptions);
+  const enterHooks = runStageHooks(nextStage.on_enter, nextStage.id, hookState, hookOptions);
+  if (exitHooks.timersChanged || enterHooks.timersChanged) {
+    updates.activeTimers = hookState.activeTimers;
   }
 
-  if (nextStage.id === 5 && !measurements.ferment_kl_coalho_add_time_iso) {
-    measurements.ferment_kl_coalho_add_time_iso = nowIso;
-    const mHistory = measurements._history || [];
-    mHistory.push({ key: 'ferment_kl_coalho_add_time_iso', value: nowIso, stageId: 5, timestamp: nowIso });
-    measurements._history = mHistory;
-    touchedMeasurements = true;
+  if (loopExitEntries.length > 0) {
+    measurements._history = [...(measurements._history || []), ...loopExitEntries];
   }
-
-  if (touchedMeasurements) {
+  if (loopExitEntries.length > 0 || exitHooks.measurementsChanged || enterHooks.measurementsChanged) {
     updates.measurements = measurements;
   }
 
-  const updatedBatch = await storage.updateBatch(batchId, updates);
+  const updatedBatch = await updateIfUnchanged(batch, updates);
+  if (!updatedBatch) return VERSION_CONFLICT;
+
+  await recordMeasurements(batchId, (measurements._history || []).slice(historyLength), SYSTEM_ORIGIN);
   
   await storage.logBatchAction({
     batchId,
     stageId: nextStage.id,
     action: "advance",
-    details: { from: currentStage.id, to: nextStage.id }
+    details: { from: currentStage.id, to: nextStage.id, ...(transition.condition && { condition: transition.condition }) },
+    event: {
+      type: "advanced",
+      at: now().toISOString(),
+      from: currentStage.id,
+      to: nextStage.id,
+      ...(transition.condition && { condition: transition.condition }),
+      ...changedValues(valuesBefore, scalarValues(measurements))
+    }
   });
 
   let reminderScheduled = false;
   let needsPermission = false;
-  const waitSpec = getWaitSpecForStage(nextStage.id);
+  const waitSpec = getWaitSpecForStage(nextStage.id, batch, batch.timeCompression);
 
   let waitDurationText: string | undefined;
   if (waitSpec) {
@@ -450,18 +683,20 @@ export async function advanceBatch(batchId: number, apiCtx?: ApiContext | null):
       }
       const reminderResult = await scheduleReminderForWait(
         apiCtx,
-        { id: batchId, recipeId: batch.recipeId },
+        { id: batchId, recipeId: batch.recipeId, recipeVersion: batch.recipeVersion },
         nextStage.id,
         waitSpec.seconds
       );
       if (reminderResult.reminderId) {
-        scheduledAlerts[newKey] = {
+        const alert: ScheduledAlert = {
           reminderId: reminderResult.reminderId,
           stageId: nextStage.id,
-          dueAtISO: new Date(Date.now() + waitSpec.seconds * 1000).toISOString(),
+          dueAtISO: new Date(now().getTime() + waitSpec.seconds * 1000).toISOString(),
           kind: waitSpec.kind
         };
-        await storage.updateBatch(batchId, { scheduledAlerts });
+        scheduledAlerts[newKey] = alert;
+        // The reminder call can take a while; merged into whatever was written meanwhile
+        await setScheduledAlert(batchId, newKey, alert);
         reminderScheduled = true;
       } else if (reminderResult.permissionDenied) {
         needsPermission = true;
@@ -485,6 +720,173 @@ export async function advanceBatch(batchId: number, apiCtx?: ApiContext | null):
   };
 }
 
+// Where the last (not yet reverted) transition came from, with the history
+// positions revertBatchStage marks. Stages done automatically at batch start
+// have no "start" entry and can't be returned to.
+function findRevertibleTransition(batch: ProductionBatch) {
+  const history = (batch.history as any[]) || [];
+  const lastIndex = (before: number, match: (e: any) => boolean) => {
+    for (let i = before - 1; i >= 0; i--) {
+      if (!history[i]?.reverted && match(history[i])) return i;
+    }
+    return -1;
+  };
+
+  const startIndex = lastIndex(history.length, e => e.action === "start" && e.stageId === batch.currentStageId);
+  const previousStageId = startIndex >= 0 ? history[startIndex].from : undefined;
+  if (typeof previousStageId !== "number") return null;
+
+  const previousStartIndex = lastIndex(startIndex, e => e.action === "start" && e.stageId === previousStageId);
+  if (previousStartIndex < 0) return null;
+
+  return {
+    startIndex,
+    completeIndex: lastIndex(startIndex, e => e.action === "complete" && e.stageId === previousStageId),
+    previousStageId,
+    previousStartedAt: new Date(history[previousStartIndex].timestamp),
+    advancedAt: new Date(history[startIndex].timestamp)
+  };
+}
+
+// The stage revertBatchStage would return to, for confirmations and the UI
+export function getRevertTarget(batch: ProductionBatch): RevertTarget | null {
+  if (batch.status !== "active") return null;
+  const transition = findRevertibleTransition(batch);
+  if (!transition) return null;
+  const stage = recipeManager.getStage(transition.previousStageId, batch);
+  return {
+    fromStageId: batch.currentStageId,
+    toStageId: transition.previousStageId,
+    toStageName: stage?.name || `Etapa ${transition.previousStageId}`
+  };
+}
+
+export interface RevertBatchResult {
+  success: boolean;
+  batch?: any;
+  previousStage?: { id: number; name: string };
+  revertedStage?: { id: number; name: string };
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Undo the last advance (e.g. an "avançar" said by mistake). The batch goes
+ * back to the previous stage with its timers restored from when that stage
+ * started; the undone stage's timers, Alexa reminder and on_enter timestamps
+ * are removed. History entries of the undone transition are kept and marked
+ * `reverted`; a "revert" entry and a batch log record the reason.
+ */
+export async function revertBatchStage(batchId: number, reason: string, apiCtx?: ApiContext | null): Promise<RevertBatchResult> {
+  const batch = await storage.getBatch(batchId);
+  if (!batch) {
+    return { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" };
+  }
+  if (batch.status !== "active") {
+    return { success: false, error: "Só é possível voltar etapa de um lote em produção.", code: "BATCH_NOT_ACTIVE" };
+  }
+  if (!reason?.trim()) {
+    return { success: false, error: "Informe o motivo para voltar a etapa.", code: "REASON_REQUIRED" };
+  }
+
+  const transition = findRevertibleTransition(batch);
+  const currentStage = recipeManager.getStage(batch.currentStageId, batch);
+  const previousStage = transition && recipeManager.getStage(transition.previousStageId, batch);
+  if (!transition || !currentStage || !previousStage) {
+    return { success: false, error: "Não há etapa anterior para voltar.", code: "NO_PREVIOUS_STAGE" };
+  }
+
+  const revertedAt = now().toISOString();
+  const history = ((batch.history as any[]) || []).map((entry, i) =>
+    i === transition.startIndex || i === transition.completeIndex ? { ...entry, reverted: true, revertedAt } : entry
+  );
+  history.push({ stageId: previousStage.id, action: "revert", timestamp: revertedAt, from: currentStage.id, reason: reason.trim() });
+
+  // Side-effects of the undone advance: loop exit records and on_enter timestamps
+  const measurements = { ...((batch.measurements as Record<string, any>) || {}) };
+  const undoneKeys = (currentStage.on_enter || [])
+    .filter(h => h.action === "record_timestamp" && h.key)
+    .map(h => h.key!);
+  const removed: string[] = [];
+  for (const key of undoneKeys) {
+    if (measurements[key] && new Date(measurements[key]) >= transition.advancedAt) {
+      delete measurements[key];
+      removed.push(key);
+    }
+  }
+  const isUndone = (entry: { key: string; stageId: number }, at: Date) => at >= transition.advancedAt && (
+    (entry.stageId === previousStage.id && (entry.key === "turning_cycles_count" || entry.key === "loop_exit_reason")) ||
+    (entry.stageId === currentStage.id && undoneKeys.includes(entry.key))
+  );
+  measurements._history = (measurements._history || []).map((entry: any) =>
+    isUndone(entry, new Date(entry.timestamp)) ? { ...entry, reverted: true } : entry
+  );
+
+  // The previous stage's timers come back as they ran before the advance
+  const activeTimers = ((batch.activeTimers as any[]) || [])
+    .filter(t => t.stageId !== currentStage.id && t.stageId !== previousStage.id);
+  const activeReminders = ((batch.activeReminders as any[]) || [])
+    .filter(r => r.stageId !== currentStage.id && r.stageId !== previousStage.id);
+  const hookState = { measurements, activeTimers, activeReminders };
+  restoreStageTimers(batch, previousStage, transition.previousStartedAt, hookState);
+
+  // Alexa reminders can only be changed with the Alexa API token
+  const scheduledAlerts = { ...((batch.scheduledAlerts as Record<string, ScheduledAlert>) || {}) };
+  if (apiCtx) {
+    const undoneKey = `stage_${currentStage.id}`;
+    if (scheduledAlerts[undoneKey]) {
+      await cancelReminder(apiCtx, scheduledAlerts[undoneKey].reminderId);
+      delete scheduledAlerts[undoneKey];
+    }
+    const waitSpec = getWaitSpecForStage(previousStage.id, batch, batch.timeCompression);
+    const remainingMs = waitSpec ? transition.previousStartedAt.getTime() + waitSpec.seconds * 1000 - now().getTime() : 0;
+    if (waitSpec && remainingMs > 0) {
+      const result = await scheduleReminderForWait(
+        apiCtx,
+        { id: batchId, recipeId: batch.recipeId, recipeVersion: batch.recipeVersion },
+        previousStage.id,
+        Math.round(remainingMs / 1000)
+      );
+      if (result.reminderId) {
+        scheduledAlerts[`stage_${previousStage.id}`] = {
+          reminderId: result.reminderId,
+          stageId: previousStage.id,
+          dueAtISO: new Date(now().getTime() + remainingMs).toISOString(),
+          kind: waitSpec.kind
+        };
+      }
+    }
+  }
+
+  const updatedBatch = await updateIfUnchanged(batch, {
+    currentStageId: previousStage.id,
+    history,
+    measurements: hookState.measurements,
+    activeTimers: hookState.activeTimers,
+    activeReminders,
+    scheduledAlerts
+  });
+  if (!updatedBatch) return VERSION_CONFLICT;
+
+  const undoneRows = (await storage.getBatchMeasurements([batchId])).filter(row => isUndone(row, row.recordedAt));
+  await storage.markMeasurementsReverted(undoneRows.map(row => row.id), new Date(revertedAt));
+
+  await storage.logBatchAction({
+    batchId,
+    stageId: previousStage.id,
+    action: "revert",
+    details: { from: currentStage.id, to: previousStage.id, reason: reason.trim() },
+    event: { type: "reverted", at: revertedAt, from: currentStage.id, to: previousStage.id, reason: reason.trim(), removed }
+  });
+
+  return {
+    success: true,
+    batch: updatedBatch,
+    previousStage: { id: previousStage.id, name: previousStage.name },
+    revertedStage: { id: currentStage.id, name: currentStage.name }
+  };
+}
+
 export async function getActiveBatch() {
   const batches = await storage.getActiveBatches();
   return batches[0] || null;
@@ -507,18 +909,16 @@ export interface BatchSummary {
 export async function listInProgressBatches(): Promise<BatchSummary[]> {
   const allBatches = await storage.getActiveBatches();
   
-  const recipeName = recipeManager.getRecipeName();
-  
   const summaries: BatchSummary[] = allBatches.map(batch => {
-    const stage = recipeManager.getStage(batch.currentStageId);
+    const stage = recipeManager.getStage(batch.currentStageId, batch);
     const startedAtISO = batch.startedAt 
       ? new Date(batch.startedAt).toISOString() 
-      : new Date().toISOString();
+      : now().toISOString();
     
     return {
       batchId: batch.id,
       recipeId: batch.recipeId,
-      recipeName: recipeName,
+      recipeName: recipeManager.getRecipeName(batch),
       startedAt: startedAtISO,
       currentStageId: batch.currentStageId,
       currentStageName: stage?.name || `Etapa ${batch.currentStageId}`,
@@ -537,20 +937,22 @@ export async function getBatchStatus(batchId: number) {
   const batch = await storage.getBatch(batchId);
   if (!batch) return null;
   
-  const stage = recipeManager.getStage(batch.currentStageId);
+  const stage = recipeManager.getStage(batch.currentStageId, batch);
   const activeTimers = (batch.activeTimers as any[]) || [];
-  const now = new Date();
+  const currentTime = getTimerReferenceTime(batch);
   
   const timersWithStatus = activeTimers.map(t => ({
     ...t,
-    isComplete: new Date(t.endTime) <= now,
-    remainingSeconds: Math.max(0, Math.ceil((new Date(t.endTime).getTime() - now.getTime()) / 1000))
+    isComplete: new Date(t.endTime) <= currentTime,
+    remainingSeconds: Math.max(0, Math.ceil((new Date(t.endTime).getTime() - currentTime.getTime()) / 1000))
   }));
 
   const activeReminders = (batch.activeReminders as any[]) || [];
 
   return {
     batchId: batch.id,
+    recipeId: batch.recipeId,
+    recipeVersion: batch.recipeVersion,
     currentStageId: batch.currentStageId,
     stageName: stage?.name,
     status: batch.status,
@@ -561,37 +963,106 @@ export async function getBatchStatus(batchId: number) {
   };
 }
 
-const TARGET_PH = 5.3;
+/**
+ * Check a just-registered value against the current stage's validation rules.
+ * The value is still stored; the returned reasons are meant to be spoken or shown.
+ */
+export function getInputValidationWarnings(batch: ProductionBatch, key: string, value: any): string[] {
+  const stage = recipeManager.getStage(batch.currentStageId, batch);
+  const evaluation = evaluateInputValidations(
+    stage?.validations,
+    key,
+    value,
+    (batch.measurements as Record<string, any>) || {}
+  );
+  return evaluation.failures.map(f => f.reason);
+}
 
 export interface LogPhResult {
   success: boolean;
   error?: string;
+  code?: string;
   phValue?: number;
   piecesQuantity?: number;
   stageId?: number;
   turningCyclesCount?: number;
   shouldExitLoop?: boolean;
   phReachedTarget?: boolean;
+  // Loop stages: why the loop may end and its condition in Portuguese
+  exitReason?: LoopExitStatus['exitReason'];
+  exitCondition?: string;
   isDuplicate?: boolean;
 }
 
 /**
  * Log pH measurement for any stage
  * - Stage 13: Stores as initial_ph, optionally with pieces_quantity
- * - Stage 15: Stores in ph_measurements array, increments turning cycles, checks loop exit condition
+ * - Loop stages (15): Stores in ph_measurements array, increments turning cycles, checks loop exit condition
  * - Other stages: Stores as ph_value
  */
-export async function logPh(batchId: number, phValue: number, piecesQuantity?: number): Promise<LogPhResult> {
-  const batch = await storage.getBatch(batchId);
-  if (!batch) return { success: false, error: "Lote não encontrado" };
+export async function logPh(
+  batchId: number,
+  phValue: number,
+  piecesQuantity?: number,
+  origin: MeasurementOrigin = { source: "web" }
+): Promise<LogPhResult> {
+  // A reading is recomputed on the latest row if another write got in between
+  let entries: any[] = [];
+  let values: Record<string, MeasurementScalar> = {};
+  const result = await retryOnConflict(batchId, batch => {
+    // Taken first: the reading is applied to the measurements object in place
+    const before = scalarValues(batch?.measurements as Record<string, any>);
+    const mutation = applyPhReading(batch, phValue, piecesQuantity);
+    entries = mutation.entries;
+    values = changedValues(before, scalarValues(mutation.updates?.measurements as Record<string, any>)).values;
+    return mutation;
+  });
+  
+  if (result.success && !result.isDuplicate) {
+    await recordMeasurements(batchId, entries, origin);
+    await storage.logBatchAction({
+      batchId,
+      stageId: result.stageId!,
+      action: "log_ph",
+      details: { 
+        ph_value: phValue,
+        ...(piecesQuantity !== undefined && { pieces_quantity: piecesQuantity }),
+        ...(result.turningCyclesCount !== undefined && { turning_cycles: result.turningCyclesCount })
+      },
+      event: {
+        type: "measurement_recorded",
+        at: entries[0]?.timestamp ?? now().toISOString(),
+        stageId: result.stageId!,
+        values,
+        ...(result.turningCyclesCount !== undefined && { turningCyclesCount: result.turningCyclesCount })
+      }
+    });
+  }
+  
+  return result;
+}
+
+function applyPhReading(
+  batch: ProductionBatch | undefined,
+  phValue: number,
+  piecesQuantity?: number
+): BatchMutation<LogPhResult> & { entries: any[] } {
+  if (!batch) return { result: { success: false, error: "Lote não encontrado" }, entries: [] };
+  if (batch.status === "paused") {
+    return { result: { success: false, error: "Lote pausado. Retome a produção antes de registrar o pH.", code: "BATCH_PAUSED" }, entries: [] };
+  }
   
   const measurements = (batch.measurements as any) || {};
   const inputHistory = measurements._history || [];
-  const timestamp = new Date().toISOString();
+  const historyLength = inputHistory.length;
+  const timestamp = now().toISOString();
   const stageId = batch.currentStageId;
   
+  const stage = recipeManager.getStage(stageId, batch);
+  const isLoop = recipeManager.isLoopStage(stageId, batch);
+  
   const DEDUP_WINDOW_MS = 30_000;
-  if (stageId === 15) {
+  if (isLoop) {
     const phMeasurements = measurements.ph_measurements || [];
     if (phMeasurements.length > 0) {
       const last = phMeasurements[phMeasurements.length - 1];
@@ -600,30 +1071,33 @@ export async function logPh(batchId: number, phValue: number, piecesQuantity?: n
         if (elapsed < DEDUP_WINDOW_MS) {
           console.log(`[logPh] Dedup: pH ${phValue} already recorded ${elapsed}ms ago at stage ${stageId}. Skipping.`);
           const currentCount = (batch as any).turningCyclesCount || 0;
-          const phReachedTarget = phValue < TARGET_PH;
-          return { 
+          const loopStatus = recipeManager.evaluateLoopExit(batch, { ph_value: phValue });
+          return { result: { 
             success: true, 
             phValue, 
             piecesQuantity, 
             stageId,
             turningCyclesCount: currentCount,
-            shouldExitLoop: phReachedTarget,
-            phReachedTarget,
+            shouldExitLoop: loopStatus.canExit,
+            phReachedTarget: loopStatus.exitReason === 'ph_reached',
+            exitReason: loopStatus.exitReason,
+            exitCondition: loopStatus.description,
             isDuplicate: true
-          };
+          }, entries: [] };
         }
       }
     }
   }
   
-  // Stage 13: Store as initial_ph (per recipe.yml stored_values)
-  if (stageId === 13) {
-    measurements.initial_ph = phValue;
-    inputHistory.push({ key: 'initial_ph', value: phValue, timestamp, stageId: 13 });
+  // Stage 13: Store as initial_ph (per the stage's store_as mapping)
+  const phKey = getStoredInputKey(stage, 'ph_value');
+  if (phKey !== 'ph_value') {
+    measurements[phKey] = phValue;
+    inputHistory.push({ key: phKey, value: phValue, timestamp, stageId });
     
     if (piecesQuantity !== undefined) {
       measurements.pieces_quantity = piecesQuantity;
-      inputHistory.push({ key: 'pieces_quantity', value: piecesQuantity, timestamp, stageId: 13 });
+      inputHistory.push({ key: 'pieces_quantity', value: piecesQuantity, timestamp, stageId });
     }
   } else {
     // For loop stages (15) and others, use ph_value and add to history
@@ -640,69 +1114,71 @@ export async function logPh(batchId: number, phValue: number, piecesQuantity?: n
   let turningCyclesCount: number | undefined;
   let shouldExitLoop = false;
   let phReachedTarget = false;
-  
-  // Stage 15: Increment turning cycles count, check loop exit, and manage timer
-  if (stageId === 15) {
-    const currentCount = (batch as any).turningCyclesCount || 0;
-    turningCyclesCount = currentCount + 1;
-    updates.turningCyclesCount = turningCyclesCount;
+  let exitReason: LoopExitStatus['exitReason'];
+  let exitCondition: string | undefined;
+  
+  // Loop stage: Increment turning cycles count, check loop exit, and manage timer
+  if (isLoop) {
+    const nextCount = ((batch as any).turningCyclesCount || 0) + 1;
+    turningCyclesCount = nextCount;
+    updates.turningCyclesCount = nextCount;
     
-    // Check if pH reached target (loop exit condition)
-    if (phValue < TARGET_PH) {
-      shouldExitLoop = true;
-      phReachedTarget = true;
-    }
+    // Evaluate the recipe's loop_condition with the new reading
+    const loopStatus = recipeManager.evaluateLoopExit(
+      { ...batch, turningCyclesCount: nextCount },
+      { ph_value: phValue }
+    );
+    shouldExitLoop = loopStatus.canExit;
+    phReachedTarget = loopStatus.exitReason === 'ph_reached';
+    exitReason = loopStatus.exitReason;
+    exitCondition = loopStatus.description;
     
-    // Manage stage 15 timer: cancel current, create new if pH not reached
+    // Manage loop timer: cancel current, re-arm the stage's on_enter timer if the loop continues
     let activeTimers = (batch.activeTimers as any[]) || [];
-    activeTimers = activeTimers.filter(t => t.stageId !== 15);
+    activeTimers = activeTimers.filter(t => t.stageId !== stageId);
     
-    if (!phReachedTarget) {
-      const phTimerMinutes = TEST_MODE ? 2 : 90;
-      const timerDesc = TEST_MODE ? "2 minuto(s) (TESTE)" : "1 hora e 30 minutos";
-      activeTimers.push({
-        id: generateId(),
-        stageId: 15,
-        durationMinutes: phTimerMinutes,
-        startTime: new Date().toISOString(),
-        endTime: new Date(Date.now() + phTimerMinutes * 60000).toISOString(),
-        description: timerDesc,
-        blocking: false
-      });
-      console.log(`[logPh] Stage 15: pH ${phValue} not ideal. New 1h30 timer started.`);
-    } else {
-      console.log(`[logPh] Stage 15: pH ${phValue} reached target. Timer cleared.`);
+    const loopTimer = stage?.on_enter?.find(h => h.action === 'start_timer');
+    if (!shouldExitLoop && loopTimer) {
+      const timer = buildHookTimer(loopTimer, stageId, TEST_MODE, getTimerReferenceTime(batch), recipeManager.getProcessVariables(batch), batch.timeCompression);
+      activeTimers.push(timer);
+      console.log(`[logPh] Stage ${stageId}: pH ${phValue}, exit condition not met (${exitCondition}). New ${timer.durationMinutes} min timer started.`);
+    } else if (shouldExitLoop) {
+      console.log(`[logPh] Stage ${stageId}: pH ${phValue}, loop can exit (${exitReason}). Timer cleared.`);
     }
     updates.activeTimers = activeTimers;
   }
   
-  await storage.updateBatch(batchId, updates);
-  
-  await storage.logBatchAction({
-    batchId,
-    stageId,
-    action: "log_ph",
-    details: { 
-      ph_value: phValue,
-      ...(piecesQuantity !== undefined && { pieces_quantity: piecesQuantity }),
-      ...(turningCyclesCount !== undefined && { turning_cycles: turningCyclesCount })
-    }
-  });
-  
-  return { 
-    success: true, 
-    phValue, 
-    piecesQuantity, 
-    stageId,
-    turningCyclesCount,
-    shouldExitLoop,
-    phReachedTarget
+  return {
+    updates,
+    result: { 
+      success: true, 
+      phValue, 
+      piecesQuantity, 
+      stageId,
+      turningCyclesCount,
+      shouldExitLoop,
+      phReachedTarget,
+      exitReason,
+      exitCondition
+    },
+    entries: inputHistory.slice(historyLength)
   };
 }
 
-export async function logTime(batchId: number, timeValue: string, timeType?: string) {
+// Recipe inputs logTime records, with how they're spoken
+export const TIME_INPUT_LABELS: Record<string, string> = {
+  flocculation_time: "floculação",
+  cut_point_time: "ponto de corte",
+  press_start_time: "início de prensa",
+};
+const TIME_INPUT_KEYS = Object.keys(TIME_INPUT_LABELS);
+
+export async function logTime(batchId: number, timeValue: string, timeType?: string, origin: MeasurementOrigin = { source: "web" }) {
   const batch = await storage.getBatch(batchId);
   if (!batch) return { success: false, error: "Lote não encontrado" };
+  if (batch.status === "paused") {
+    return { success: false, error: "Lote pausado. Retome a produção antes de registrar o horário.", code: "BATCH_PAUSED" };
+  }
   
   const normalizeTimeType = (s?: string): string | null => {
     if (!s || s === '?' || !s.trim()) return null;
@@ -711,51 +1187,45 @@ export async function logTime(batchId: number, timeValue: string, timeType?: str
       .replace(/[^a-z]/g, '');
   };
 
-  const timeTypeMapping: Record<string, { key: string; expectedStage: number }> = {
-    'flocculation': { key: 'flocculation_time', expectedStage: 6 },
-    'cut': { key: 'cut_point_time', expectedStage: 7 },
-    'cut_point': { key: 'cut_point_time', expectedStage: 7 },
-    'press': { key: 'press_start_time', expectedStage: 14 },
-    'press_start': { key: 'press_start_time', expectedStage: 14 },
-    'floculacao': { key: 'flocculation_time', expectedStage: 6 },
-    'flocoacao': { key: 'flocculation_time', expectedStage: 6 },
-    'flucoacao': { key: 'flocculation_time', expectedStage: 6 },
-    'fortunacao': { key: 'flocculation_time', expectedStage: 6 },
-    'flocuacao': { key: 'flocculation_time', expectedStage: 6 },
-    'corte': { key: 'cut_point_time', expectedStage: 7 },
-    'pontodecorte': { key: 'cut_point_time', expectedStage: 7 },
-    'ponto': { key: 'cut_point_time', expectedStage: 7 },
-    'prensa': { key: 'press_start_time', expectedStage: 14 },
-    'prensagem': { key: 'press_start_time', expectedStage: 14 },
-  };
-
-  const stageInferMap: Record<number, { key: string; expectedStage: number }> = {
-    6: { key: 'flocculation_time', expectedStage: 6 },
-    7: { key: 'cut_point_time', expectedStage: 7 },
-    14: { key: 'press_start_time', expectedStage: 14 },
+  const timeTypeMapping: Record<string, string> = {
+    'flocculation': 'flocculation_time',
+    'cut': 'cut_point_time',
+    'cut_point': 'cut_point_time',
+    'press': 'press_start_time',
+    'press_start': 'press_start_time',
+    'floculacao': 'flocculation_time',
+    'flocoacao': 'flocculation_time',
+    'flucoacao': 'flocculation_time',
+    'fortunacao': 'flocculation_time',
+    'flocuacao': 'flocculation_time',
+    'corte': 'cut_point_time',
+    'pontodecorte': 'cut_point_time',
+    'ponto': 'cut_point_time',
+    'prensa': 'press_start_time',
+    'prensagem': 'press_start_time',
   };
   
   const normalized = normalizeTimeType(timeType);
-  let mapping = normalized ? timeTypeMapping[normalized] : null;
+  let key: string | null = normalized ? timeTypeMapping[normalized] ?? null : null;
 
-  if (!mapping && normalized) {
+  if (!key && normalized) {
     if (normalized.includes('floc') || normalized.includes('fluc') || normalized.includes('fort')) {
-      mapping = { key: 'flocculation_time', expectedStage: 6 };
+      key = 'flocculation_time';
     } else if (normalized.includes('cort')) {
-      mapping = { key: 'cut_point_time', expectedStage: 7 };
+      key = 'cut_point_time';
     } else if (normalized.includes('prens') || normalized.includes('prensa')) {
-      mapping = { key: 'press_start_time', expectedStage: 14 };
+      key = 'press_start_time';
     }
   }
 
-  if (!mapping) {
-    mapping = stageInferMap[batch.currentStageId] || null;
-    if (mapping) {
-      console.log(`[logTime] Inferred timeType from stage ${batch.currentStageId} => ${mapping.key} (raw timeType: "${timeType}")`);
+  if (!key) {
+    key = recipeManager.getExpectedInputsForStage(batch.currentStageId, batch).find(k => TIME_INPUT_KEYS.includes(k)) ?? null;
+    if (key) {
+      console.log(`[logTime] Inferred timeType from stage ${batch.currentStageId} => ${key} (raw timeType: "${timeType}")`);
     }
   }
   
-  if (!mapping) {
+  if (!key) {
     return { 
       success: false, 
       error: "Tipo de horário inválido. Use: floculação, corte, ou prensa. Se estiver na etapa correta, diga apenas 'hora às HH:MM'.",
@@ -763,52 +1233,62 @@ export async function logTime(batchId: number, timeValue: string, timeType?: str
     };
   }
   
-  const { key, expectedStage } = mapping;
+  const expectedStage = recipeManager.getStageForInput(key, batch);
+  if (!expectedStage) {
+    return {
+      success: false,
+      error: `A receita ${recipeManager.getRecipeName(batch)} não registra o horário de ${TIME_INPUT_LABELS[key]}.`,
+      code: "INVALID_TIME_TYPE"
+    };
+  }
   
   // Validate that we're on the correct stage (warning only, still allow)
-  if (batch.currentStageId !== expectedStage) {
-    console.warn(`logTime: Recording ${key} on stage ${batch.currentStageId}, expected stage ${expectedStage}`);
+  if (batch.currentStageId !== expectedStage.id) {
+    console.warn(`logTime: Recording ${key} on stage ${batch.currentStageId}, expected stage ${expectedStage.id}`);
   }
   
-  const measurements = (batch.measurements as any) || {};
-  measurements[key] = timeValue;
-  
-  const inputHistory = measurements._history || [];
-  inputHistory.push({ key, value: timeValue, timestamp: new Date().toISOString(), stageId: batch.currentStageId });
-  measurements._history = inputHistory;
-  
-  await storage.updateBatch(batchId, { measurements });
+  const entry = { key, value: timeValue, timestamp: now().toISOString(), stageId: batch.currentStageId };
+  await storage.mergeMeasurements(batchId, { [key]: timeValue }, [entry]);
+  await recordMeasurements(batchId, [entry], origin);
   
   await storage.logBatchAction({
     batchId,
     stageId: batch.currentStageId,
     action: "log_time",
-    details: { [key]: timeValue, timeType }
+    details: { [key]: timeValue, timeType },
+    event: { type: "measurement_recorded", at: entry.timestamp, stageId: batch.currentStageId, values: { [key]: timeValue } }
   });
   
   return { success: true, key, timeValue };
 }
 
 /**
- * Calculate maturation end date: 90 days from batch start date
+ * Calculate maturation end date: the recipe's process.maturation_target_days
+ * from the given start date
  * This is the SINGLE SOURCE OF TRUTH for this calculation
  */
-export function getMaturationEndDate(batchStartDate: Date): Date {
-  const maturationEndDate = new Date(batchStartDate);
-  maturationEndDate.setDate(maturationEndDate.getDate() + 90);
+export function getMaturationEndDate(startDate: Date, maturationDays: number): Date {
+  const maturationEndDate = new Date(startDate);
+  maturationEndDate.setDate(maturationEndDate.getDate() + maturationDays);
   return maturationEndDate;
 }
 
+// Lifecycle status of a lot in maturation, from its end date
+export function getMaturationStatus(maturationEndDate: Date, at: Date = now()): BatchLifecycleStatus {
+  return maturationEndDate <= at ? "READY_FOR_SALE" : "MATURING";
+}
+
 /**
  * Record chamber 2 entry date and calculate maturation end date
- * This is the centralized function for Stage 19 completion
+ * This is the centralized function for completing the recipe's chamber
+ * entry stage (19 in Nete), once per lot and only at that stage
  * Used by both REST API and Alexa webhook
  */
 export async function recordChamber2Entry(
   batchId: number, 
   entryDateValue: string,
-  options?: { unit?: string; notes?: string },
-  apiCtx?: any
+  options?: { unit?: string; notes?: string; origin?: MeasurementOrigin },
+  apiCtx?: ApiContext | null
 ): Promise<{
   success: boolean;
   error?: string;
@@ -816,19 +1296,40 @@ export async function recordChamber2Entry(
   chamber2EntryDate?: Date;
   maturationEndDate?: Date;
   maturationEndDateISO?: string;
+  maturationDays?: number;
 }> {
   const batch = await storage.getBatch(batchId);
   if (!batch) {
     return { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" };
   }
   
-  const expectedStage = 19;
-  if (batch.currentStageId !== expectedStage) {
-    console.warn(`recordChamber2Entry: Recording on stage ${batch.currentStageId}, expected stage ${expectedStage}`);
+  if (batch.chamber2EntryDate || (batch.batchStatus && batch.batchStatus !== "IN_PROGRESS")) {
+    return { success: false, error: "A entrada na câmara 2 já foi registrada para este lote.", code: "CHAMBER2_ALREADY_RECORDED" };
+  }
+  if (batch.status !== "active") {
+    return { success: false, error: `Lote não está ativo (${batch.status}).`, code: "BATCH_NOT_ACTIVE" };
+  }
+  
+  const entryStage = recipeManager.getStageForInput("chamber_2_entry_date", batch);
+  if (!entryStage) {
+    return { success: false, error: `A receita ${recipeManager.getRecipeName(batch)} não tem entrada na câmara 2.`, code: "INVALID_STAGE" };
+  }
+  if (batch.currentStageId !== entryStage.id) {
+    const currentStage = recipeManager.getStage(batch.currentStageId, batch);
+    return {
+      success: false,
+      error: `Não é possível registrar a entrada na câmara 2 nesta etapa. Estamos na etapa ${batch.currentStageId}: ${currentStage?.name || 'em andamento'}.`,
+      code: "WRONG_STAGE"
+    };
   }
   
   const entryDate = new Date(entryDateValue);
-  const maturationEndDate = getMaturationEndDate(new Date(batch.startedAt));
+  if (isNaN(entryDate.getTime())) {
+    return { success: false, error: `Data de entrada na câmara 2 inválida: ${entryDateValue}`, code: "INVALID_DATE" };
+  }
+  const { maturationTargetDays } = recipeManager.getProcessParameters(batch);
+  const maturationEndDate = getMaturationEndDate(entryDate, maturationTargetDays);
+  const batchStatus = getMaturationStatus(maturationEndDate);
   const maturationEndDateISO = maturationEndDate.toISOString();
   
   const measurements = (batch.measurements as any) || {};
@@ -838,7 +1339,7 @@ export async function recordChamber2Entry(
   const historyEntry: Record<string, any> = { 
     key: "chamber_2_entry_date", 
     value: entryDateValue, 
-    timestamp: new Date().toISOString(), 
+    timestamp: now().toISOString(), 
     stageId: batch.currentStageId 
   };
   if (options?.unit) historyEntry.unit = options.unit;
@@ -855,16 +1356,21 @@ export async function recordChamber2Entry(
     }
   }
 
-  await storage.updateBatch(batchId, { 
+  const completedAt = now();
+  const updated = await updateIfUnchanged(batch, { 
     measurements,
     chamber2EntryDate: entryDate,
     maturationEndDate: maturationEndDate,
     status: "completed",
-    completedAt: new Date(),
+    batchStatus,
+    completedAt,
     scheduledAlerts: {},
     activeTimers: [],
-    activeReminders: []
+    activeReminders: [buildTurningReminder(batch.currentStageId, now())]
   });
+  if (!updated) return VERSION_CONFLICT;
+
+  await recordMeasurements(batchId, [historyEntry], options?.origin ?? { source: "web" });
   
   await storage.logBatchAction({
     batchId,
@@ -873,6 +1379,14 @@ export async function recordChamber2Entry(
     details: { 
       chamber_2_entry_date: entryDateValue, 
       maturationEndDate: maturationEndDateISO 
+    },
+    event: {
+      type: "chamber2_entered",
+      at: completedAt.toISOString(),
+      chamber2EntryDate: entryDate.toISOString(),
+      maturationEndDate: maturationEndDateISO,
+      batchStatus,
+      values: { chamber_2_entry_date: entryDateValue }
     }
   });
 
@@ -882,7 +1396,8 @@ export async function recordChamber2Entry(
     action: "complete",
     details: { 
       reason: "chamber_2_entry_registered",
-      maturationEndDate: maturationEndDateISO
+      maturationEndDate: maturationEndDateISO,
+      batchStatus
     }
   });
   
@@ -890,7 +1405,8 @@ export async function recordChamber2Entry(
     success: true, 
     chamber2EntryDate: entryDate,
     maturationEndDate: maturationEndDate,
-    maturationEndDateISO: maturationEndDateISO
+    maturationEndDateISO: maturationEndDateISO,
+    maturationDays: maturationTargetDays
   };
 }
 
@@ -921,108 +1437,362 @@ export async function logDate(batchId: number, dateValue: string, dateType?: str
   };
 }
 
-export async function pauseBatch(batchId: number, reason?: string) {
+/**
+ * Move MATURING lots whose maturation end date has passed to READY_FOR_SALE.
+ * Run periodically by the maturation scheduler; returns the promoted batch ids.
+ */
+export async function promoteMaturedBatches(): Promise<number[]> {
+  const currentTime = now();
+  const promoted: number[] = [];
+
+  for (const batch of await storage.getBatchesByLifecycle(["MATURING"])) {
+    if (!batch.maturationEndDate || getMaturationStatus(new Date(batch.maturationEndDate), currentTime) !== "READY_FOR_SALE") {
+      continue;
+    }
+    const history = [
+      ...((batch.history as any[]) || []),
+      { stageId: batch.currentStageId, action: "ready_for_sale", timestamp: currentTime.toISOString() }
+    ];
+    // Lost to another write (e.g. a close or a parallel run): the next run re-reads it
+    if (!(await updateIfUnchanged(batch, { batchStatus: "READY_FOR_SALE", history }))) continue;
+    await storage.logBatchAction({
+      batchId: batch.id,
+      stageId: batch.currentStageId,
+      action: "ready_for_sale",
+      details: { maturationEndDate: new Date(batch.maturationEndDate).toISOString() },
+      event: { type: "ready_for_sale", at: currentTime.toISOString() }
+    });
+    promoted.push(batch.id);
+  }
+
+  return promoted;
+}
+
+/**
+ * Close a lot that finished maturation (sold or otherwise disposed of).
+ * Closed lots no longer accept measurement edits.
+ */
+export async function closeBatch(batchId: number, notes?: string): Promise<{
+  success: boolean;
+  error?: string;
+  code?: string;
+  closedAt?: Date;
+}> {
+  const batch = await storage.getBatch(batchId);
+  if (!batch) {
+    return { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" };
+  }
+
+  if (batch.batchStatus === "CLOSED") {
+    return { success: false, error: "Lote já encerrado.", code: "BATCH_CLOSED" };
+  }
+  if (batch.batchStatus !== "READY_FOR_SALE") {
+    const reason = batch.batchStatus === "MATURING"
+      ? "Lote ainda em maturação."
+      : "Lote ainda não entrou na câmara 2.";
+    return { success: false, error: `${reason} Só lotes prontos para venda podem ser encerrados.`, code: "BATCH_NOT_READY" };
+  }
+
+  const closedAt = now();
+  const history = [...((batch.history as any[]) || [])];
+  history.push({
+    stageId: batch.currentStageId,
+    action: "close",
+    timestamp: closedAt.toISOString(),
+    ...(notes && { notes })
+  });
+
+  // Closed lots leave chamber 2, so the daily turning reminder goes away
+  const activeReminders = ((batch.activeReminders as any[]) || []).filter(r => r.action !== "turn");
+
+  if (!(await updateIfUnchanged(batch, { batchStatus: "CLOSED", closedAt, history, activeReminders }))) {
+    return VERSION_CONFLICT;
+  }
+  await storage.logBatchAction({
+    batchId,
+    stageId: batch.currentStageId,
+    action: "close",
+    details: notes ? { notes } : {},
+    event: { type: "closed", at: closedAt.toISOString() }
+  });
+
+  return { success: true, closedAt };
+}
+
+// Lots in maturation, ready for sale or closed, for the maturation dashboard.
+// Training lots are left out: they aren't stock
+export async function getMaturationOverview(): Promise<MaturationEntry[]> {
+  const currentTime = now();
+  const batches = await storage.getBatchesByLifecycle(["MATURING", "READY_FOR_SALE", "CLOSED"]);
+
+  const today = toLocalDateKey(currentTime);
+
+  return batches.filter(batch => !batch.isTraining).map(batch => {
+    const endDate = batch.maturationEndDate ? new Date(batch.maturationEndDate) : null;
+    const turns = ((batch.maturationLog as MaturationCareEntry[]) || []).filter(e => e.action === "turn");
+    const daysRemaining = endDate
+      ? Math.max(0, Math.ceil((endDate.getTime() - currentTime.getTime()) / 86400000))
+      : 0;
+    return {
+      batchId: batch.id,
+      recipeId: batch.recipeId,
+      recipeName: recipeManager.getRecipeName(batch),
+      batchStatus: (batch.batchStatus ?? "IN_PROGRESS") as BatchLifecycleStatus,
+      startedAt: new Date(batch.startedAt).toISOString(),
+      isTraining: batch.isTraining,
+      chamber2EntryDate: batch.chamber2EntryDate ? new Date(batch.chamber2EntryDate).toISOString() : null,
+      maturationEndDate: endDate ? endDate.toISOString() : null,
+      closedAt: batch.closedAt ? new Date(batch.closedAt).toISOString() : null,
+      daysRemaining,
+      turnedToday: isTurnedOn(batch.maturationLog, today),
+      lastTurnedAt: turns.length > 0 ? turns[turns.length - 1].timestamp : null
+    };
+  });
+}
+
+// --- Maturation care (chamber 2) ---
+
+const TURNING_REMINDER_HOUR = 8; // Local time the daily turning reminder is due
+const BRT_OFFSET_MS = -3 * 60 * 60 * 1000;
+
+// Next TURNING_REMINDER_HOUR (Brasília time) strictly after `after`
+function getNextTurningTime(after: Date): Date {
+  const local = new Date(after.getTime() + BRT_OFFSET_MS);
+  const target = new Date(local);
+  target.setUTCHours(TURNING_REMINDER_HOUR, 0, 0, 0);
+  if (target <= local) target.setUTCDate(target.getUTCDate() + 1);
+  return new Date(target.getTime() - BRT_OFFSET_MS);
+}
+
+// Daily reminder to turn the cheeses, kept in activeReminders while the lot matures
+function buildTurningReminder(stageId: number, at: Date) {
+  return {
+    id: generateId(),
+    stageId,
+    type: "daily",
+    action: "turn",
+    intervalHours: 24,
+    nextTrigger: getNextTurningTime(at).toISOString(),
+    acknowledged: false,
+    description: "Virar os queijos na câmara 2"
+  };
+}
+
+/**
+ * Record a care action on a lot in chamber 2: the daily turning, a board
+ * change or a free-form observation. A turning also moves the daily turning
+ * reminder to the next day.
+ */
+export async function recordMaturationCare(
+  batchId: number,
+  action: MaturationCareAction,
+  options: { notes?: string; source?: MaturationCareEntry["source"] } = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+  code?: string;
+  entry?: MaturationCareEntry;
+}> {
+  const notes = options.notes?.trim();
+  if (action === "observation" && !notes) {
+    return { success: false, error: "Informe a observação.", code: "NOTES_REQUIRED" };
+  }
+
+  const currentTime = now();
+  const entry: MaturationCareEntry = {
+    date: toLocalDateKey(currentTime),
+    action,
+    ...(notes && { notes }),
+    timestamp: currentTime.toISOString(),
+    source: options.source || "web"
+  };
+
+  // Voice and web entries can arrive together; each attempt appends to the latest log
+  const result = await retryOnConflict<{ success: boolean; error?: string; code?: string; stageId?: number }>(batchId, batch => {
+    if (!batch) {
+      return { result: { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" } };
+    }
+    if (batch.batchStatus === "CLOSED") {
+      return { result: { success: false, error: "Lote encerrado.", code: "BATCH_CLOSED" } };
+    }
+    if (batch.batchStatus !== "MATURING" && batch.batchStatus !== "READY_FOR_SALE") {
+      return { result: { success: false, error: "Lote ainda não está na câmara 2.", code: "BATCH_NOT_MATURING" } };
+    }
+
+    const maturationLog = [...((batch.maturationLog as MaturationCareEntry[]) || []), entry];
+    let activeReminders = (batch.activeReminders as any[]) || [];
+    if (action === "turn") {
+      // Already turned today: the next reminder is tomorrow's
+      let nextTrigger = getNextTurningTime(currentTime);
+      if (toLocalDateKey(nextTrigger) === entry.date) {
+        nextTrigger = getNextTurningTime(nextTrigger);
+      }
+      activeReminders = activeReminders.map(r => r.action === "turn"
+        ? { ...r, lastAcknowledged: entry.timestamp, nextTrigger: nextTrigger.toISOString(), acknowledged: false }
+        : r);
+    }
+    return { updates: { maturationLog, activeReminders }, result: { success: true, stageId: batch.currentStageId } };
+  });
+  if (!result.success) return result;
+
+  await storage.logBatchAction({
+    batchId,
+    stageId: result.stageId!,
+    action: "maturation_care",
+    details: { action, ...(notes && { notes }), source: entry.source }
+  });
+
+  return { success: true, entry };
+}
+
+// Lots in chamber 2 that still need today's turning
+export async function getTurningDue(): Promise<MaturationEntry[]> {
+  const overview = await getMaturationOverview();
+  return overview.filter(e => e.batchStatus !== "CLOSED" && !e.turnedToday);
+}
+
+// Lots in chamber 2 whose batch code (DDMMYY) matches; training lots have no code
+export async function findMaturingBatchesByCode(code: string): Promise<ProductionBatch[]> {
+  const batches = await storage.getBatchesByLifecycle(["MATURING", "READY_FOR_SALE"]);
+  return batches.filter(b => !b.isTraining && formatBatchCode(b.startedAt) === code);
+}
+
+// Alexa reminders a pause/resume couldn't reach (no apiCtx) keep ringing
+// at their old time; see ScheduledAlert.stale
+function markAlertsStale(alerts: Record<string, ScheduledAlert>): Record<string, ScheduledAlert> {
+  return Object.fromEntries(Object.entries(alerts).map(([key, alert]) => [key, { ...alert, stale: true }]));
+}
+
+/**
+ * Pause freezes the batch clock: timers, reminders and the loop elapsed time
+ * stop counting until resumeBatch shifts them by the paused duration.
+ * Alexa reminders are cancelled when an apiCtx is available, else marked
+ * stale; their scheduledAlerts entries are kept so resume can schedule them again.
+ */
+export async function pauseBatch(batchId: number, reason?: string, apiCtx?: ApiContext | null) {
   const batch = await storage.getBatch(batchId);
-  if (!batch) return { success: false, error: "Batch not found" };
+  if (!batch) return { success: false, error: "Batch not found", code: "BATCH_NOT_FOUND" };
   
   if (batch.status !== "active") {
-    return { success: false, error: `Cannot pause batch with status: ${batch.status}` };
+    return { success: false, error: `Cannot pause batch with status: ${batch.status}`, code: "BATCH_NOT_ACTIVE" };
   }
+
+  const pausedAt = now();
+  const history = [...((batch.history as any[]) || [])];
+  history.push({
+    stageId: batch.currentStageId,
+    action: "pause",
+    timestamp: pausedAt.toISOString(),
+    ...(reason && { reason })
+  });
+
+  // Without the Alexa API context (web pause) the reminders keep ringing
+  const alerts = (batch.scheduledAlerts as Record<string, ScheduledAlert>) || {};
+  const scheduledAlerts = apiCtx ? alerts : markAlertsStale(alerts);
   
-  await storage.updateBatch(batchId, { 
+  const paused = await updateIfUnchanged(batch, { 
     status: "paused", 
-    pausedAt: new Date(),
-    pauseReason: reason || null
+    pausedAt,
+    pauseReason: reason || null,
+    scheduledAlerts,
+    history
   });
+  if (!paused) return VERSION_CONFLICT;
+
+  // Cancelled only once the pause is stored, so a lost write leaves them ringing
+  if (apiCtx && Object.keys(alerts).length > 0) {
+    await cancelAllBatchReminders(apiCtx, alerts);
+  }
   
   await storage.logBatchAction({
     batchId,
     stageId: batch.currentStageId,
     action: "pause",
-    details: { reason }
+    details: { reason },
+    event: { type: "paused", at: pausedAt.toISOString(), ...(reason && { reason }) }
   });
   
   return { success: true };
 }
 
-export async function resumeBatch(batchId: number) {
+export async function resumeBatch(batchId: number, apiCtx?: ApiContext | null) {
   const batch = await storage.getBatch(batchId);
-  if (!batch) return { success: false, error: "Batch not found" };
+  if (!batch) return { success: false, error: "Batch not found", code: "BATCH_NOT_FOUND" };
   
   if (batch.status !== "paused") {
-    return { success: false, error: `Cannot resume batch with status: ${batch.status}` };
+    return { success: false, error: `Cannot resume batch with status: ${batch.status}`, code: "BATCH_NOT_PAUSED" };
   }
+
+  const resumedAt = now();
+  const pausedMs = batch.pausedAt ? Math.max(0, resumedAt.getTime() - new Date(batch.pausedAt).getTime()) : 0;
+  const shift = (iso: string) => new Date(new Date(iso).getTime() + pausedMs).toISOString();
+
+  const activeTimers = ((batch.activeTimers as any[]) || []).map(t => ({
+    ...t,
+    startTime: shift(t.startTime),
+    endTime: shift(t.endTime)
+  }));
+  const activeReminders = ((batch.activeReminders as any[]) || []).map(r => ({
+    ...r,
+    nextTrigger: r.nextTrigger ? shift(r.nextTrigger) : r.nextTrigger
+  }));
+
+  // Alexa reminders can only be moved with the Alexa API token; without it
+  // they keep their due dates (still what rings) and are marked stale
+  const alerts = (batch.scheduledAlerts as Record<string, ScheduledAlert>) || {};
+  const scheduledAlerts: Record<string, ScheduledAlert> = {};
+  if (apiCtx) {
+    for (const [key, { stale, ...alert }] of Object.entries(alerts)) {
+      scheduledAlerts[key] = { ...alert, dueAtISO: shift(alert.dueAtISO) };
+    }
+  } else {
+    Object.assign(scheduledAlerts, markAlertsStale(alerts));
+  }
+
+  const history = [...((batch.history as any[]) || [])];
+  history.push({
+    stageId: batch.currentStageId,
+    action: "resume",
+    timestamp: resumedAt.toISOString(),
+    pausedMs
+  });
   
-  await storage.updateBatch(batchId, { 
+  const resumed = await updateIfUnchanged(batch, { 
     status: "active", 
     pausedAt: null,
-    pauseReason: null
+    pauseReason: null,
+    activeTimers,
+    activeReminders,
+    scheduledAlerts,
+    history
   });
+  if (!resumed) return VERSION_CONFLICT;
+
+  // Moved only once the resume is stored, so a lost write leaves no orphans
+  if (apiCtx) {
+    for (const [key, alert] of Object.entries(scheduledAlerts)) {
+      await cancelReminder(apiCtx, alert.reminderId);
+      const seconds = Math.round((new Date(alert.dueAtISO).getTime() - resumedAt.getTime()) / 1000);
+      const result = seconds > 0
+        ? await scheduleReminderForWait(
+            apiCtx,
+            { id: batchId, recipeId: batch.recipeId, recipeVersion: batch.recipeVersion },
+            alert.stageId,
+            seconds
+          )
+        : null;
+      await setScheduledAlert(batchId, key, result?.reminderId ? { ...alert, reminderId: result.reminderId } : null);
+    }
+  }
   
+  const pausedMinutes = Math.round(pausedMs / 60000);
   await storage.logBatchAction({
     batchId,
     stageId: batch.currentStageId,
     action: "resume",
-    details: {}
+    details: { pausedMinutes },
+    event: { type: "resumed", at: resumedAt.toISOString() }
   });
   
-  return { success: true };
-}
-
-/**
- * Build speech for a stage including instructions and calculated quantities
- * Used when advancing to provide complete guidance
- */
-export function buildStageSpeech(batch: any, stageId: number): string {
-  const stage = recipeManager.getStage(stageId);
-  if (!stage) return `Etapa ${stageId} não encontrada.`;
-  
-  const parts: string[] = [];
-  
-  // Stage name
-  parts.push(`Etapa ${stageId}: ${stage.name}.`);
-  
-  // Add calculated quantities for stages that use them
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  // Stage 3: Fermento KL
-  if (stageId === 3 && calculatedInputs.FERMENT_KL) {
-    parts.push(`Use ${calculatedInputs.FERMENT_KL} ml de fermento KL.`);
-  }
-  
-  // Stage 4: Fermentos LR e DX
-  if (stageId === 4) {
-    const lr = calculatedInputs.FERMENT_LR;
-    const dx = calculatedInputs.FERMENT_DX;
-    if (lr && dx) {
-      parts.push(`Use ${lr} ml de fermento LR e ${dx} ml de DX.`);
-    }
-  }
-  
-  // Stage 5: Coalho (Rennet)
-  if (stageId === 5 && calculatedInputs.RENNET) {
-    parts.push(`Use ${calculatedInputs.RENNET} ml de coalho.`);
-  }
-  
-  // Add instructions (first 2 if long)
-  if (stage.instructions && stage.instructions.length > 0) {
-    const instructionText = stage.instructions.slice(0, 2).join(' ');
-    parts.push(instructionText);
-  }
-  
-  // Add timer info if present
-  if (stage.timer) {
-    const durationMinutes = getTimerDurationMinutes(stage);
-    if (durationMinutes > 0) {
-      if (TEST_MODE) {
-        parts.push(`Timer de ${durationMinutes} minuto(s) iniciado (modo teste).`);
-      } else if (stage.timer.duration_hours) {
-        parts.push(`Timer de ${stage.timer.duration_hours} hora(s) iniciado.`);
-      } else {
-        parts.push(`Timer de ${durationMinutes} minutos iniciado.`);
-      }
-    }
-  }
-  
-  return parts.join(' ');
+  return { success: true, pausedMinutes };
 }
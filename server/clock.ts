@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Time source for batch logic. Outside a simulation `now()` is the process
+ * clock (the real time unless a dev clock was installed with setProcessClock);
+ * inside `runWithClock` it is the given clock, scoped to that async call chain
+ * so concurrent requests keep the process clock.
+ *
+ * Request durations, log retention and Alexa signature checks stay on the
+ * real time: they are about the machine, not the batch.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+// Manually driven clock used by the recipe simulator
+export class VirtualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): void {
+    if (ms > 0) this.current += ms;
+  }
+
+  // Move forward to `date`; never goes back
+  advanceTo(date: Date): void {
+    this.advance(date.getTime() - this.current);
+  }
+}
+
+// Real time shifted by an offset that only grows; the dev server's time travel
+export class OffsetClock implements Clock {
+  private offsetMs = 0;
+
+  now(): Date {
+    return new Date(Date.now() + this.offsetMs);
+  }
+
+  getOffsetMs(): number {
+    return this.offsetMs;
+  }
+
+  advance(ms: number): void {
+    if (ms > 0) this.offsetMs += ms;
+  }
+
+  advanceTo(date: Date): void {
+    this.advance(date.getTime() - this.now().getTime());
+  }
+
+  // Back to the real time; anything written in the future stays there
+  reset(): void {
+    this.offsetMs = 0;
+  }
+}
+
+const systemClock: Clock = { now: () => new Date() };
+let processClock: Clock = systemClock;
+const scopedClock = new AsyncLocalStorage<Clock>();
+
+export function now(): Date {
+  return (scopedClock.getStore() ?? processClock).now();
+}
+
+export function setProcessClock(clock: Clock | null): void {
+  processClock = clock ?? systemClock;
+}
+
+export function runWithClock<T>(clock: Clock, fn: () => T): T {
+  return scopedClock.run(clock, fn);
+}
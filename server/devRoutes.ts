@@ -0,0 +1,74 @@
+import type { Express } from "express";
+import { api } from "@shared/routes";
+import { type DevClockStatus } from "@shared/schema";
+import { OffsetClock, setProcessClock } from "./clock";
+import { checkScheduledJobs, toJobNotification } from "./jobScheduler";
+import { promoteMaturedBatches } from "./batchService";
+import { runConversation } from "./alexa/conversation";
+import { buildInteractionModel } from "./alexa/interactionModel";
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Time travel for the development server: installs an OffsetClock as the
+ * process clock and lets `npm run clock` (script/clock.ts) move it forward.
+ * After a move, due jobs fire and matured lots are promoted right away
+ * instead of on the schedulers' next tick. Also runs Alexa conversation
+ * files in memory for the /alexa/simulator page. Never registered in
+ * production.
+ */
+export function registerDevRoutes(app: Express): void {
+  const clock = new OffsetClock();
+  setProcessClock(clock);
+
+  const status = (extra: Partial<DevClockStatus> = {}): DevClockStatus => ({
+    now: clock.now().toISOString(),
+    offsetMs: clock.getOffsetMs(),
+    fired: [],
+    promoted: [],
+    ...extra
+  });
+
+  app.get(api.dev.clock.path, (_req, res) => {
+    res.json(status());
+  });
+
+  app.post(api.dev.advanceClock.path, async (req, res) => {
+    const parsed = api.dev.advanceClock.input.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    const { minutes = 0, hours = 0, days = 0, to } = parsed.data;
+    if (to) {
+      clock.advanceTo(to);
+    } else {
+      clock.advance((minutes + hours * 60 + days * 1440) * MINUTE_MS);
+    }
+
+    const promoted = await promoteMaturedBatches();
+    const fired = await checkScheduledJobs();
+    console.log(`[dev] Clock moved to ${clock.now().toISOString()}`);
+    res.json(status({ fired: fired.map(toJobNotification), promoted }));
+  });
+
+  app.post(api.dev.resetClock.path, (_req, res) => {
+    clock.reset();
+    console.log("[dev] Clock back to the real time");
+    res.json(status());
+  });
+
+  // Own storage, clock and offline LLM: the real lots are left alone
+  app.post(api.dev.alexaConversation.path, async (req, res) => {
+    const parsed = api.dev.alexaConversation.input.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    res.json(await runConversation(parsed.data));
+  });
+
+  app.get(api.dev.alexaModel.path, (_req, res) => {
+    res.json(buildInteractionModel());
+  });
+}
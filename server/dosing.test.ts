@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import assert from "node:assert/strict";
+import { calculateDose, toDisplayDose, type DosingSpec } from "./dosing";
+import { validateRecipe } from "./recipeSchema";
+
+test("a display unit keeps the precision of the input unit", () => {
+  const salt: DosingSpec = { mode: "percentage", value: 1.8, precision: 0, display_unit: "kg" };
+
+  // 1.8 % of 100 L × 1.032 kg/L = 1857.6 g
+  const grams = calculateDose(salt, 100, "g");
+  assert.equal(grams, 1858);
+  assert.deepEqual(toDisplayDose(grams!, "g", salt), { value: 1.858, unit: "kg" });
+  assert.deepEqual(toDisplayDose(1857.6, "g", salt), { value: 1.858, unit: "kg" });
+  assert.deepEqual(toDisplayDose(1857.6, "g", { ...salt, display_unit: undefined }), { value: 1858, unit: "g" });
+});
+
+test("percentage dosing needs a mass unit", () => {
+  assert.equal(calculateDose({ mode: "percentage", value: 1.8 }, 100, "ml"), null);
+
+  const recipe = yaml.load(fs.readFileSync(path.join(import.meta.dirname, "recipes", "queijo_lala.yml"), "utf8")) as any;
+  assert.deepEqual(validateRecipe(recipe), []);
+  recipe.inputs.push({ id: "SALT", name: "Sal", unit: "ml", dosing: { mode: "percentage", value: 1.8 } });
+  const issues = validateRecipe(recipe);
+  assert.equal(issues.length, 1);
+  assert.match(issues[0].message, /not a mass/);
+});
@@ -0,0 +1,136 @@
+/**
+ * Ingredient dosing declared per recipe input, e.g.:
+ *
+ *   dosing:
+ *     mode: "per_20_liters"     # value for every 20 L of milk
+ *     value: 8
+ *
+ *   dosing:
+ *     mode: "percentage"        # value % of milk mass, in the input unit
+ *     value: 1.8
+ *     min: 100
+ *     precision: 0
+ *     display_unit: "kg"
+ *
+ * Modes:
+ *   per_liter                   value × liters
+ *   per_<N>_liters              value × liters / N (per_2_liters, per_20_liters...)
+ *   fixed                       value, regardless of volume
+ *   percentage                  value % of milk mass (liters × milk_density_kg_l);
+ *                               the input unit must be a mass (mg/g/kg)
+ *   tiered                      amount of the first tier whose up_to_l >= liters;
+ *                               a tier without up_to_l covers any volume
+ *
+ * Optional for every mode: min / max clamps (input unit), precision (decimal
+ * places in the input unit, default 2) and display_unit for read-outs
+ * (ml/l, mg/g/kg).
+ */
+
+export interface DosingTier {
+  up_to_l?: number;
+  value: number;
+}
+
+export interface DosingSpec {
+  mode: string;
+  value?: number;
+  tiers?: DosingTier[];
+  milk_density_kg_l?: number;
+  min?: number;
+  max?: number;
+  precision?: number;
+  display_unit?: string;
+}
+
+export interface DisplayDose {
+  value: number;
+  unit: string;
+}
+
+const DEFAULT_PRECISION = 2;
+const DEFAULT_MILK_DENSITY_KG_L = 1.032;
+
+// Factors to a common base per dimension
+const UNIT_FACTORS: Record<string, { dimension: 'volume' | 'mass'; factor: number }> = {
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  mg: { dimension: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+};
+
+export function unitDimension(unit: string): 'volume' | 'mass' | null {
+  return UNIT_FACTORS[unit.toLowerCase()]?.dimension ?? null;
+}
+
+export function convertUnit(value: number, from: string, to: string): number | null {
+  const source = UNIT_FACTORS[from.toLowerCase()];
+  const target = UNIT_FACTORS[to.toLowerCase()];
+  if (!source || !target || source.dimension !== target.dimension) return null;
+  return value * source.factor / target.factor;
+}
+
+const FIXED_MODES = ['per_liter', 'fixed', 'percentage', 'tiered'];
+
+export function isKnownDosingMode(mode: string): boolean {
+  return FIXED_MODES.includes(mode) || /^per_(\d+(?:\.\d+)?)_liters$/.test(mode);
+}
+
+function round(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+function rawAmount(dosing: DosingSpec, milkVolumeL: number, unit: string): number | null {
+  const value = dosing.value ?? 0;
+
+  if (dosing.mode === 'per_liter') return milkVolumeL * value;
+  if (dosing.mode === 'fixed') return value;
+
+  const perLiters = dosing.mode.match(/^per_(\d+(?:\.\d+)?)_liters$/);
+  if (perLiters) return (milkVolumeL / parseFloat(perLiters[1])) * value;
+
+  if (dosing.mode === 'percentage') {
+    const massGrams = milkVolumeL * (dosing.milk_density_kg_l ?? DEFAULT_MILK_DENSITY_KG_L) * 1000;
+    const grams = massGrams * value / 100;
+    return convertUnit(grams, 'g', unit);
+  }
+
+  if (dosing.mode === 'tiered') {
+    const tier = (dosing.tiers || []).find(t => t.up_to_l === undefined || milkVolumeL <= t.up_to_l);
+    return tier ? tier.value : null;
+  }
+
+  return null;
+}
+
+/**
+ * Amount in the input's own unit, clamped and rounded. Null when the mode is
+ * unknown, no tier covers the volume or a percentage input isn't a mass.
+ */
+export function calculateDose(dosing: DosingSpec, milkVolumeL: number, unit: string): number | null {
+  let amount = rawAmount(dosing, milkVolumeL, unit);
+  if (amount === null) return null;
+
+  if (dosing.min !== undefined) amount = Math.max(amount, dosing.min);
+  if (dosing.max !== undefined) amount = Math.min(amount, dosing.max);
+
+  return round(amount, dosing.precision ?? DEFAULT_PRECISION);
+}
+
+/**
+ * Converts a stored amount to the input's display_unit for web and voice read-outs.
+ * Rounded to `precision` in the input unit first, so 1858 g reads as 1.858 kg.
+ */
+export function toDisplayDose(amount: number, unit: string, dosing?: DosingSpec): DisplayDose {
+  const rounded = round(amount, dosing?.precision ?? DEFAULT_PRECISION);
+  if (dosing?.display_unit && dosing.display_unit !== unit) {
+    const converted = convertUnit(rounded, unit, dosing.display_unit);
+    if (converted !== null) {
+      // Digits the conversion moved past the decimal point (g → kg: 3)
+      const shift = Math.max(0, Math.round(Math.log10(convertUnit(1, dosing.display_unit, unit)!)));
+      return { value: round(converted, (dosing.precision ?? DEFAULT_PRECISION) + shift), unit: dosing.display_unit };
+    }
+  }
+  return { value: rounded, unit };
+}
@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { interpretCommand } from "./interpreter";
+
+test("start batch: \"queijo\" before the cheese name is optional and never the cheese", async () => {
+  const cases: Array<[string, string | undefined]> = [
+    ["lote de queijo com 60 litros", undefined],
+    ["novo lote com 60 litros", undefined],
+    ["lote de queijo lala com 60 litros", "QUEIJO_LALA"],
+    ["novo lote da nina com 60 litros", "QUEIJO_NINA"],
+  ];
+  for (const [text, cheeseType] of cases) {
+    const command = await interpretCommand(text);
+    assert.equal(command.intent, "start_batch", text);
+    assert.equal(command.entities.volume, 60, text);
+    assert.equal(command.entities.cheese_type, cheeseType, text);
+  }
+});
@@ -1,7 +1,7 @@
-import OpenAI from "openai";
+import { llm } from "./llm";
 
 export interface InterpretedCommand {
-  intent: "status" | "start_batch" | "advance" | "log_time" | "log_date" | "log_number" | "pause" | "resume" | "instructions" | "help" | "goodbye" | "timer" | "query_input" | "repeat_doses" | "unknown";
+  intent: "status" | "start_batch" | "advance" | "log_time" | "log_date" | "log_number" | "pause" | "resume" | "revert" | "instructions" | "help" | "goodbye" | "timer" | "query_input" | "repeat_doses" | "unknown";
   confidence: number;
   entities: {
     volume?: number | null;
@@ -14,14 +14,11 @@ export interface InterpretedCommand {
     number_type?: "ph_value" | "pieces_quantity" | "milk_temperature" | null;
     number_value?: number | null;
     input_type?: "FERMENT_LR" | "FERMENT_DX" | "FERMENT_KL" | "RENNET" | null;
+    cheese_type?: string | null; // recipe_id, e.g. "QUEIJO_NINA"
+    training?: boolean | null; // "lote de treino"
   };
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
-
 const SYSTEM_PROMPT = `Você é um interpretador de comandos de voz para um sistema de produção de queijos artesanais.
 
 Sua única função é:
@@ -50,7 +47,7 @@ function buildUserPrompt(text: string): string {
 Retorne um JSON no seguinte formato:
 
 {
-  "intent": "status | start_batch | advance | log_time | log_date | log_number | pause | resume | instructions | help | goodbye | timer | query_input | unknown",
+  "intent": "status | start_batch | advance | log_time | log_date | log_number | pause | resume | revert | instructions | help | goodbye | timer | query_input | unknown",
   "confidence": 0.0,
   "entities": {
     "volume": number | null,
@@ -62,7 +59,9 @@ Retorne um JSON no seguinte formato:
     "date_value": string | null,
     "number_type": "ph_value" | "pieces_quantity" | "milk_temperature" | null,
     "number_value": number | null,
-    "input_type": "FERMENT_LR" | "FERMENT_DX" | "FERMENT_KL" | "RENNET" | null
+    "input_type": "FERMENT_LR" | "FERMENT_DX" | "FERMENT_KL" | "RENNET" | null,
+    "cheese_type": "QUEIJO_NETE" | "QUEIJO_NINA" | "QUEIJO_LALA" | null,
+    "training": true | null
   }
 }
 
@@ -90,7 +89,11 @@ REGRAS DE INTERPRETAÇÃO:
    - temperatura atual → number_type = "milk_temperature"
    - Extrair number_value como número
 
-5. QUERY_INPUT - Consulta de insumos calculados:
+5. REVERT - Voltar para a etapa anterior (avanço por engano):
+   - "voltar etapa", "etapa anterior", "desfazer", "avancei errado" → intent = "revert"
+   - NÃO confundir com "continuar"/"retomar" (resume) nem com "próxima etapa" (advance)
+
+6. QUERY_INPUT - Consulta de insumos calculados:
    - SEMPRE retornar query_input quando:
      - Perguntar por quantidade, proporção, valor, quanto, qual, me diga, deste lote
      - Mesmo que a frase seja curta ou informal
@@ -126,6 +129,10 @@ LOG_NUMBER (valores):
 "temperatura seis vírgula nove graus" → {"intent":"log_number","confidence":0.95,"entities":{"number_type":"milk_temperature","number_value":6.9}}
 "são vinte e quatro peças" → {"intent":"log_number","confidence":0.95,"entities":{"number_type":"pieces_quantity","number_value":24}}
 
+REVERT (voltar etapa):
+"volta para a etapa anterior" → {"intent":"revert","confidence":0.95,"entities":{}}
+"avancei por engano" → {"intent":"revert","confidence":0.95,"entities":{}}
+
 QUERY_INPUT (consulta insumos) - PRIORIDADE ALTA:
 "quanto de kl" → {"intent":"query_input","confidence":0.95,"entities":{"input_type":"FERMENT_KL"}}
 "qual a quantidade de coalho" → {"intent":"query_input","confidence":0.95,"entities":{"input_type":"RENNET"}}
@@ -158,6 +165,12 @@ NOTA: A temperatura pode ser decimal (ex: 6.9, 7.2). Se o ASR enviar "69", o bac
 "130 litros" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":130}}
 "lote com 130 litros temperatura 32 graus pH 6 ponto 5" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":130,"milk_temperature":32,"ph_value":6.5}}
 "novo lote com 80 litros temperatura 35 graus pH 6.5" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":80,"milk_temperature":35,"ph_value":6.5}}
+NOTA: Se o operador mencionar o queijo (Nete, Nina ou Lala), extraia cheese_type. Se não mencionar, deixe null.
+"novo lote de nina com 60 litros" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":60,"cheese_type":"QUEIJO_NINA"}}
+"lote de queijo lala com 40 litros" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":40,"cheese_type":"QUEIJO_LALA"}}
+NOTA: Se o operador disser que é um lote de treino (treino, treinamento), retorne training = true. Caso contrário, deixe null.
+"novo lote de treino com 50 litros" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":50,"training":true}}
+"lote de treino de nina com 30 litros" → {"intent":"start_batch","confidence":0.95,"entities":{"volume":30,"cheese_type":"QUEIJO_NINA","training":true}}
 
 Retorne APENAS o JSON, sem markdown, explicações ou texto adicional.`;
 }
@@ -222,6 +235,13 @@ const SIMPLE_COMMAND_MAP: Record<string, InterpretedCommand["intent"]> = {
   "resumir": "resume",
   "despausar": "resume",
   
+  // Revert - voltar para a etapa anterior (pede confirmação)
+  "voltar etapa": "revert",
+  "voltar uma etapa": "revert",
+  "etapa anterior": "revert",
+  "desfazer": "revert",
+  "avancei errado": "revert",
+  
   // Instructions - palavras que indicam pedido de instrução
   "instruções": "instructions",
   "instrucoes": "instructions",
@@ -292,33 +312,42 @@ const INPUT_TYPE_MAP: Record<string, InterpretedCommand["entities"]["input_type"
 const QUERY_INDICATORS = /\b(quanto|qual|quantidade|proporção|proporcao|dose|me diga|deste lote|qual é|qual e|quanto de|quanto do)\b/i;
 
 // High-priority pattern for start_batch
-// Matches: "lote com X litros", "novo lote com X litros"
-// Also extracts temperature and pH if present
+// Matches: "lote com X litros", "novo lote com X litros", "novo lote de nina com X litros"
+// Also extracts cheese name, temperature and pH if present; "de treino" anywhere
+// before "com" marks a training batch
 // Temperature can be: "32", "6,9", "6 ponto 9", "6 vírgula 9", "69" (ASR drops decimal)
 // pH can be: "6.5", "6,5", "6 ponto 5", "6 vírgula 5"
-const START_BATCH_PATTERN = /(?:novo\s+)?lote\s+com\s+(\d+)\s*litros?(?:.*?temperatura\s*(\d+\s*(?:ponto|virgula|vírgula)\s*\d+|\d+[.,]\d+|\d+)\s*graus?)?(?:.*?(?:ph|p\s*h)\s*(\d+\s*(?:ponto|virgula|vírgula)\s*\d+|\d+[.,]\d+|\d+))?/i;
+const TRAINING_PATTERN = /\s+(?:de\s+)?(?:treino|treinamento)\b/i;
+// "lote de queijo com 60 litros" names no cheese: "queijo" is only a literal
+const START_BATCH_PATTERN = /(?:novo\s+)?lote\s+(?:(?:de|do|da)\s+(?:queijo\s+)?(?:(?!com\b)([a-zà-ú]+)\s+)?)?com\s+(\d+)\s*litros?(?:.*?temperatura\s*(\d+\s*(?:ponto|virgula|vírgula)\s*\d+|\d+[.,]\d+|\d+)\s*graus?)?(?:.*?(?:ph|p\s*h)\s*(\d+\s*(?:ponto|virgula|vírgula)\s*\d+|\d+[.,]\d+|\d+))?/i;
 
 function tryStartBatchFallback(text: string): InterpretedCommand | null {
   const normalized = text.toLowerCase().trim();
-  const match = normalized.match(START_BATCH_PATTERN);
+  const training = TRAINING_PATTERN.test(normalized);
+  const match = normalized.replace(TRAINING_PATTERN, '').match(START_BATCH_PATTERN);
   
   if (match) {
-    const volume = parseInt(match[1], 10);
+    const volume = parseInt(match[2], 10);
     const entities: InterpretedCommand["entities"] = { volume };
+    if (training) entities.training = true;
     
-    if (match[2]) {
-      let tempStr = match[2].replace(/\s*(ponto|virgula|vírgula)\s*/gi, '.');
+    if (match[1]) {
+      entities.cheese_type = `QUEIJO_${match[1].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase()}`;
+    }
+    
+    if (match[3]) {
+      let tempStr = match[3].replace(/\s*(ponto|virgula|vírgula)\s*/gi, '.');
       tempStr = tempStr.replace(',', '.');
       entities.milk_temperature = parseFloat(tempStr);
     }
     
-    if (match[3]) {
-      let phStr = match[3].replace(/\s*(ponto|virgula|vírgula)\s*/gi, '.');
+    if (match[4]) {
+      let phStr = match[4].replace(/\s*(ponto|virgula|vírgula)\s*/gi, '.');
       phStr = phStr.replace(',', '.');
       entities.ph_value = parseFloat(phStr);
     }
     
-    console.log(`Start batch detected: volume=${volume}, temp=${entities.milk_temperature}, pH=${entities.ph_value} (from "${normalized}")`);
+    console.log(`Start batch detected: cheese=${entities.cheese_type ?? 'default'}${training ? ' (treino)' : ''}, volume=${volume}, temp=${entities.milk_temperature}, pH=${entities.ph_value} (from "${normalized}")`);
     return {
       intent: "start_batch",
       confidence: 0.95,
@@ -430,23 +459,11 @@ export async function interpretCommand(text: string): Promise<InterpretedCommand
 
   // Comandos complexos ou com entidades vão para o LLM
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT
-        },
-        {
-          role: "user",
-          content: buildUserPrompt(normalizedText)
-        }
-      ],
-      temperature: 0.0,
-      max_tokens: 200
-    });
-
-    const content = response.choices[0]?.message?.content?.trim();
+    const content = (await llm().complete({
+      system: SYSTEM_PROMPT,
+      user: buildUserPrompt(normalizedText),
+      maxTokens: 200
+    }))?.trim();
     if (!content) {
       return { intent: "unknown", confidence: 0.0, entities: {} };
     }
@@ -458,7 +475,7 @@ export async function interpretCommand(text: string): Promise<InterpretedCommand
 
     const parsed = JSON.parse(jsonContent) as InterpretedCommand;
     
-    const validIntents = ["status", "start_batch", "advance", "log_time", "log_date", "log_number", "pause", "resume", "instructions", "help", "goodbye", "timer", "query_input", "unknown"];
+    const validIntents = ["status", "start_batch", "advance", "log_time", "log_date", "log_number", "pause", "resume", "revert", "instructions", "help", "goodbye", "timer", "query_input", "unknown"];
     if (!parsed.intent || !validIntents.includes(parsed.intent)) {
       return { intent: "unknown", confidence: 0.0, entities: {} };
     }
@@ -483,6 +500,10 @@ export async function interpretCommand(text: string): Promise<InterpretedCommand
       if (parsed.entities.input_type && ["FERMENT_LR", "FERMENT_DX", "FERMENT_KL", "RENNET"].includes(parsed.entities.input_type)) {
         cleanEntities.input_type = parsed.entities.input_type;
       }
+      if (typeof parsed.entities.cheese_type === "string" && parsed.entities.cheese_type.startsWith("QUEIJO_")) {
+        cleanEntities.cheese_type = parsed.entities.cheese_type;
+      }
+      if (parsed.entities.training === true) cleanEntities.training = true;
     }
 
     return {
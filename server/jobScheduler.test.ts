@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductionBatch } from "@shared/schema";
+import { MemoryStorage } from "./memoryStorage";
+import { runWithStorage, storage } from "./storage";
+import { VirtualClock, runWithClock } from "./clock";
+import * as batchService from "./batchService";
+import { getBatchJobs, syncBatchJobs, runDueJobs, checkScheduledJobs } from "./jobScheduler";
+
+const MINUTE_MS = 60_000;
+
+function inMemory<T>(fn: (clock: VirtualClock) => Promise<T>): Promise<T> {
+  const clock = new VirtualClock(new Date("2026-04-15T08:00:00-03:00"));
+  return runWithStorage(new MemoryStorage(), () => runWithClock(clock, () => fn(clock)));
+}
+
+// At stage 4 (Nete), whose blocking timer ends in 30 minutes
+async function batchWithTimer(): Promise<ProductionBatch> {
+  const result = await batchService.startBatch({ milkVolumeL: 100, milkTemperatureC: 32, milkPh: 6.6 });
+  assert.ok(result.success, result.error);
+  const batch = (await storage.getBatch(result.batch.id))!;
+  assert.equal((batch.activeTimers as any[]).length, 1);
+  return batch;
+}
+
+async function firedTimerLogs(batchId: number) {
+  return (await storage.getBatchLogs(batchId)).filter(log => log.action === "timer_expired");
+}
+
+test("a due timer fires exactly once", () => inMemory(async clock => {
+  const batch = await batchWithTimer();
+
+  assert.deepEqual(await checkScheduledJobs(), []);
+  clock.advance(29 * MINUTE_MS);
+  assert.deepEqual(await checkScheduledJobs(), []);
+
+  clock.advance(2 * MINUTE_MS);
+  const fired = await checkScheduledJobs();
+  assert.equal(fired.length, 1);
+  assert.equal(fired[0].kind, "timer_expired");
+  assert.equal(fired[0].batchId, batch.id);
+
+  clock.advance(MINUTE_MS);
+  assert.deepEqual(await checkScheduledJobs(), []);
+  assert.equal((await firedTimerLogs(batch.id)).length, 1);
+}));
+
+test("a job is skipped when the batch was paused before it fired", () => inMemory(async clock => {
+  const batch = await batchWithTimer();
+  await syncBatchJobs(batch);
+
+  clock.advance(10 * MINUTE_MS);
+  assert.ok((await batchService.pauseBatch(batch.id)).success);
+  clock.advance(60 * MINUTE_MS);
+
+  // No sync in between: runJob itself finds the batch no longer calls for it
+  assert.deepEqual(await runDueJobs(), []);
+  assert.equal((await firedTimerLogs(batch.id)).length, 0);
+
+  // Resume moves the timer by the pause; it fires at the new end time
+  assert.ok((await batchService.resumeBatch(batch.id)).success);
+  clock.advance(19 * MINUTE_MS);
+  assert.deepEqual(await checkScheduledJobs(), []);
+  clock.advance(2 * MINUTE_MS);
+  assert.equal((await checkScheduledJobs()).length, 1);
+}));
+
+test("a job is skipped when the batch advanced before it fired", () => inMemory(async clock => {
+  const batch = await batchWithTimer();
+  await syncBatchJobs(batch);
+
+  clock.advance(30 * MINUTE_MS);
+  const advanced = await batchService.advanceBatch(batch.id);
+  assert.ok(advanced.success, advanced.error);
+
+  assert.deepEqual(await runDueJobs(), []);
+  assert.equal((await firedTimerLogs(batch.id)).length, 0);
+}));
+
+test("repeated syncs keep one job per key", () => inMemory(async clock => {
+  const batch = await batchWithTimer();
+  const expected = getBatchJobs(batch).map(job => job.key).sort();
+
+  for (let i = 0; i < 3; i++) {
+    await syncBatchJobs((await storage.getBatch(batch.id))!);
+  }
+
+  clock.advance(24 * 60 * MINUTE_MS);
+  const claimed = await storage.claimDueJobs(clock.now(), 100);
+  assert.deepEqual(claimed.map(job => job.key).sort(), expected);
+}));
@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import { recipeManager, getWaitSpecForStage, getStageStartTime, getPausedMs } from "./recipe";
+import { formatBatchLabel, type ProductionBatch, type InsertScheduledJob, type ScheduledJob, type JobNotification } from "@shared/schema";
+import { now } from "./clock";
+
+/**
+ * Durable scheduler for what is due in a batch: expired timers, due
+ * reminders and loop stages that ran out of time. The jobs live in
+ * scheduled_jobs, so a restart picks up where the last process stopped.
+ * Jobs are derived from the batch row and re-checked against it when they
+ * fire; a timer that moved or a batch that was paused is simply skipped.
+ */
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const CLAIM_LIMIT = 50;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 1000;
+
+// Jobs the batch calls for right now
+export function getBatchJobs(batch: ProductionBatch): InsertScheduledJob[] {
+  const code = formatBatchLabel(batch);
+  const maturing = batch.batchStatus === "MATURING" || batch.batchStatus === "READY_FOR_SALE";
+  const jobs: InsertScheduledJob[] = [];
+
+  if (batch.status === "active") {
+    for (const timer of (batch.activeTimers as any[]) || []) {
+      if (!timer.endTime) continue;
+      const stageName = recipeManager.getStage(timer.stageId, batch)?.name ?? `etapa ${timer.stageId}`;
+      jobs.push({
+        key: `timer:${batch.id}:${timer.id}:${timer.endTime}`,
+        batchId: batch.id,
+        stageId: timer.stageId,
+        kind: "timer_expired",
+        runAt: new Date(timer.endTime),
+        payload: { message: `Lote ${code}: o timer de ${stageName} terminou.`, timerId: timer.id }
+      });
+    }
+
+    const waitSpec = getWaitSpecForStage(batch.currentStageId, batch, batch.timeCompression);
+    const stageStart = getStageStartTime(batch, batch.currentStageId);
+    if (waitSpec?.kind === "loop_timeout" && stageStart) {
+      const runAt = new Date(stageStart.getTime() + waitSpec.seconds * 1000 + getPausedMs(batch, stageStart, now()));
+      jobs.push({
+        key: `loop:${batch.id}:${batch.currentStageId}:${stageStart.toISOString()}`,
+        batchId: batch.id,
+        stageId: batch.currentStageId,
+        kind: "loop_timeout",
+        runAt,
+        payload: { message: `Lote ${code}: o tempo máximo de ${waitSpec.stageName} foi atingido.` }
+      });
+    }
+  }
+
+  if (batch.status === "active" || maturing) {
+    for (const reminder of (batch.activeReminders as any[]) || []) {
+      if (!reminder.nextTrigger || reminder.acknowledged) continue;
+      // Only the turning reminder outlives production
+      if (batch.status !== "active" && reminder.action !== "turn") continue;
+      jobs.push({
+        key: `reminder:${batch.id}:${reminder.id}:${reminder.nextTrigger}`,
+        batchId: batch.id,
+        stageId: reminder.stageId,
+        kind: "reminder_due",
+        runAt: new Date(reminder.nextTrigger),
+        payload: { message: `Lote ${code}: ${reminder.description}`, reminderId: reminder.id }
+      });
+    }
+  }
+
+  return jobs;
+}
+
+// Schedule what the batch calls for and cancel pending jobs it no longer does
+export async function syncBatchJobs(batch: ProductionBatch): Promise<void> {
+  const jobs = getBatchJobs(batch);
+  await storage.scheduleJobs(jobs);
+  await storage.cancelPendingJobs(batch.id, jobs.map(job => job.key));
+}
+
+// Null when the batch no longer calls for the job
+async function runJob(job: ScheduledJob): Promise<ScheduledJob | null> {
+  const batch = await storage.getBatch(job.batchId);
+  const stillDue = batch ? getBatchJobs(batch).some(desired => desired.key === job.key) : false;
+  if (!stillDue) {
+    await storage.finishJob(job.id, { status: "cancelled" });
+    return null;
+  }
+
+  const firedAt = now();
+  await storage.logBatchAction({
+    batchId: job.batchId,
+    stageId: job.stageId,
+    action: job.kind,
+    details: { ...job.payload, jobId: job.id, runAt: job.runAt.toISOString(), firedAt: firedAt.toISOString() }
+  });
+  await storage.finishJob(job.id, { status: "done", firedAt, lastError: null });
+  return { ...job, status: "done", firedAt, lockedAt: null, lastError: null };
+}
+
+// Fire every job due by now(); returns the jobs that fired
+export async function runDueJobs(): Promise<ScheduledJob[]> {
+  const fired: ScheduledJob[] = [];
+  const due = await storage.claimDueJobs(now(), CLAIM_LIMIT);
+
+  for (const job of due) {
+    try {
+      const done = await runJob(job);
+      if (done) fired.push(done);
+    } catch (err) {
+      const lastError = err instanceof Error ? err.message : String(err);
+      console.error(`[jobs] Job ${job.key} failed (attempt ${job.attempts}):`, err);
+      await storage.finishJob(job.id, job.attempts >= MAX_ATTEMPTS
+        ? { status: "failed", lastError }
+        : { status: "pending", runAt: new Date(now().getTime() + RETRY_DELAY_MS), lastError });
+    }
+  }
+
+  return fired;
+}
+
+// Sync jobs for every batch that can have them, then fire what is due
+export async function checkScheduledJobs(): Promise<ScheduledJob[]> {
+  const batches = [
+    ...(await storage.getActiveBatches()),
+    ...(await storage.getBatchesByLifecycle(["MATURING", "READY_FOR_SALE"]))
+  ];
+  for (const batch of batches) {
+    await syncBatchJobs(batch);
+  }
+  return runDueJobs();
+}
+
+export function toJobNotification(job: ScheduledJob): JobNotification {
+  return {
+    id: job.id,
+    batchId: job.batchId,
+    stageId: job.stageId,
+    kind: job.kind,
+    message: job.payload.message,
+    firedAt: (job.firedAt ?? job.runAt).toISOString()
+  };
+}
+
+// Check now, every CHECK_INTERVAL_MS and right when the next job is due
+export function scheduleJobRunner() {
+  let running = false;
+  let wakeUp: NodeJS.Timeout | null = null;
+
+  async function check() {
+    if (running) return;
+    running = true;
+    try {
+      const fired = await checkScheduledJobs();
+      if (fired.length > 0) {
+        console.log(`[jobs] Fired: ${fired.map(job => job.key).join(", ")}`);
+      }
+      const next = await storage.getNextJobRunAt();
+      if (wakeUp) clearTimeout(wakeUp);
+      wakeUp = null;
+      const delay = next ? next.getTime() - now().getTime() : Infinity;
+      if (delay < CHECK_INTERVAL_MS) {
+        wakeUp = setTimeout(check, Math.max(delay, 0) + 100);
+      }
+    } catch (err) {
+      console.error("[jobs] Check failed:", err);
+    } finally {
+      running = false;
+    }
+  }
+
+  check();
+  setInterval(check, CHECK_INTERVAL_MS);
+  console.log(`[jobs] Job runner scheduled every ${CHECK_INTERVAL_MS / 1000} seconds`);
+}
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "async_hooks";
+import OpenAI from "openai";
+
+/**
+ * Chat model behind the voice interpreter and the speech renderer. Outside
+ * `runWithLlm` it is OpenAI (gpt-4o-mini, temperature 0); inside, the given
+ * model for that async call chain, like the clock and storage. Both callers
+ * have deterministic fallbacks for when the model gives no answer.
+ */
+export interface LlmRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+}
+
+export interface Llm {
+  // Reply text; undefined when the model gave none
+  complete(request: LlmRequest): Promise<string | undefined>;
+}
+
+// One model reply, as stored with the Alexa webhook log
+export interface LlmCall {
+  user: string;
+  reply: string | null;
+}
+
+let openai: OpenAI | undefined;
+
+const openaiLlm: Llm = {
+  async complete({ system, user, maxTokens }) {
+    openai ??= new OpenAI({
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    });
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user }
+      ],
+      temperature: 0.0,
+      max_tokens: maxTokens,
+    });
+    return response.choices[0]?.message?.content ?? undefined;
+  }
+};
+
+// Never answers, so only the fallbacks speak (conversation tests)
+export const offlineLlm: Llm = {
+  async complete() {
+    return undefined;
+  }
+};
+
+// Passes requests on to `model` and notes each reply in `calls`
+export function recordingLlm(model: Llm, calls: LlmCall[]): Llm {
+  return {
+    async complete(request) {
+      const reply = await model.complete(request);
+      calls.push({ user: request.user, reply: reply ?? null });
+      return reply;
+    }
+  };
+}
+
+// Gives back recorded replies, matched by prompt; `missed` gets the prompts
+// nothing was recorded for (the fallbacks answer those)
+export function replayingLlm(calls: LlmCall[], missed: string[] = []): Llm {
+  const remaining = [...calls];
+  return {
+    async complete({ user }) {
+      const index = remaining.findIndex(c => c.user === user);
+      if (index < 0) {
+        missed.push(user);
+        return undefined;
+      }
+      return remaining.splice(index, 1)[0].reply ?? undefined;
+    }
+  };
+}
+
+const scopedLlm = new AsyncLocalStorage<Llm>();
+
+export function llm(): Llm {
+  return scopedLlm.getStore() ?? openaiLlm;
+}
+
+export function runWithLlm<T>(model: Llm, fn: () => T): T {
+  return scopedLlm.run(model, fn);
+}
@@ -1,6 +1,7 @@
 import { db } from "./db";
-import { alexaWebhookLogs, webRequestLogs } from "@shared/schema";
-import { lt, desc, eq, and, gte, lte, like, sql } from "drizzle-orm";
+import { alexaWebhookLogs, webRequestLogs, type AlexaWebhookLog } from "@shared/schema";
+import { lt, desc, asc, eq, and, gte, lte, like, sql, inArray } from "drizzle-orm";
+import { type LlmCall } from "./llm";
 
 export async function logAlexaWebhook(data: {
   alexaUserId?: string;
@@ -13,6 +14,9 @@ export async function logAlexaWebhook(data: {
   responseSpeech?: string;
   durationMs?: number;
   error?: string;
+  sessionId?: string;
+  responseAttributes?: Record<string, any>;
+  llmCalls?: LlmCall[];
 }) {
   try {
     await db.insert(alexaWebhookLogs).values({
@@ -26,6 +30,9 @@ export async function logAlexaWebhook(data: {
       responseSpeech: data.responseSpeech ? data.responseSpeech.substring(0, 2000) : null,
       durationMs: data.durationMs || null,
       error: data.error || null,
+      sessionId: data.sessionId || null,
+      responseAttributes: data.responseAttributes || null,
+      llmCalls: data.llmCalls || null,
     });
   } catch (err) {
     console.error("[logService] Error inserting alexa webhook log:", err);
@@ -156,6 +163,22 @@ export async function queryAlexaLogs(filters: {
   return { logs, total: Number(countResult[0]?.count || 0), limit, offset };
 }
 
+// Requests to replay, oldest first
+export async function getAlexaLogsForReplay(filters: {
+  startDate?: Date;
+  endDate?: Date;
+  sessionId?: string;
+}): Promise<AlexaWebhookLog[]> {
+  const conditions = [inArray(alexaWebhookLogs.requestType, ["LaunchRequest", "IntentRequest", "SessionEndedRequest"])];
+  if (filters.sessionId) conditions.push(eq(alexaWebhookLogs.sessionId, filters.sessionId));
+  if (filters.startDate) conditions.push(gte(alexaWebhookLogs.timestamp, filters.startDate));
+  if (filters.endDate) conditions.push(lte(alexaWebhookLogs.timestamp, filters.endDate));
+
+  return await db.select().from(alexaWebhookLogs)
+    .where(and(...conditions))
+    .orderBy(asc(alexaWebhookLogs.timestamp), asc(alexaWebhookLogs.id));
+}
+
 export async function queryWebLogs(filters: {
   method?: string;
   path?: string;
@@ -0,0 +1,264 @@
+/**
+ * Expression language for recipe conditions: loop stage exit conditions
+ * (`loop_condition.until`) and stage transitions (`next[].when`).
+ *
+ *   until: "ph_value < 5.3"
+ *   until: "ph_value < target_final_ph"
+ *   until: "ph_value < 5.3 OR elapsed_hours >= max_loop_duration_hours"
+ *   until: "(ph_value <= 5.2 AND turning_cycles_count >= 3) OR elapsed_minutes > 120"
+ *
+ * Operands are numbers or identifiers. Identifiers resolve to batch
+ * measurements, to the recipe's process parameters (target_final_ph...) or to
+ * loop variables (elapsed_minutes, elapsed_hours, turning_cycles_count,
+ * max_loop_duration_hours). Comparisons: < <= > >= == !=.
+ * Logic: AND / OR / NOT (also && || !) and parentheses.
+ *
+ * Expressions are tokenized and parsed, never eval'd. A comparison against an
+ * unknown or non-numeric identifier is false.
+ */
+
+type Operator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type Operand = { kind: 'number'; value: number } | { kind: 'identifier'; name: string };
+
+type Node =
+  | { type: 'compare'; op: Operator; left: Operand; right: Operand }
+  | { type: 'and' | 'or'; left: Node; right: Node }
+  | { type: 'not'; operand: Node };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'operator'; op: Operator }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' };
+
+export class ConditionSyntaxError extends Error {
+  constructor(expression: string, detail: string) {
+    super(`Invalid condition "${expression}": ${detail}`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { and: 'and', or: 'or', not: 'not' };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+    const rest = expression.slice(i);
+
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(') { tokens.push({ kind: 'lparen' }); i++; continue; }
+    if (ch === ')') { tokens.push({ kind: 'rparen' }); i++; continue; }
+    if (rest.startsWith('&&')) { tokens.push({ kind: 'and' }); i += 2; continue; }
+    if (rest.startsWith('||')) { tokens.push({ kind: 'or' }); i += 2; continue; }
+
+    const op = rest.match(/^(<=|>=|==|!=|<|>)/);
+    if (op) { tokens.push({ kind: 'operator', op: op[1] as Operator }); i += op[1].length; continue; }
+    if (ch === '!') { tokens.push({ kind: 'not' }); i++; continue; }
+
+    const num = rest.match(/^-?\d+(?:\.\d+)?/);
+    if (num) { tokens.push({ kind: 'number', value: parseFloat(num[0]) }); i += num[0].length; continue; }
+
+    const ident = rest.match(/^[a-z_][a-z0-9_]*/i);
+    if (ident) {
+      const keyword = KEYWORDS[ident[0].toLowerCase()];
+      tokens.push(keyword ? { kind: keyword } : { kind: 'identifier', name: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    throw new ConditionSyntaxError(expression, `unexpected character '${ch}' at position ${i}`);
+  }
+
+  return tokens;
+}
+
+function parse(expression: string): Node {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const fail = (detail: string): never => { throw new ConditionSyntaxError(expression, detail); };
+
+  function parseOr(): Node {
+    let left = parseAnd();
+    while (peek()?.kind === 'or') {
+      pos++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): Node {
+    let left = parseNot();
+    while (peek()?.kind === 'and') {
+      pos++;
+      left = { type: 'and', left, right: parseNot() };
+    }
+    return left;
+  }
+
+  function parseNot(): Node {
+    if (peek()?.kind === 'not') {
+      pos++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  }
+
+  function parseOperand(): Operand {
+    const token = tokens[pos++];
+    if (token?.kind === 'number') return { kind: 'number', value: token.value };
+    if (token?.kind === 'identifier') return { kind: 'identifier', name: token.name };
+    return fail('expected a number or measurement name');
+  }
+
+  function parsePrimary(): Node {
+    if (peek()?.kind === 'lparen') {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos++]?.kind !== 'rparen') fail("missing ')'");
+      return inner;
+    }
+    const left = parseOperand();
+    const opToken = tokens[pos++];
+    if (opToken?.kind !== 'operator') return fail('expected a comparison operator');
+    const right = parseOperand();
+    return { type: 'compare', op: opToken.op, left, right };
+  }
+
+  const ast = parseOr();
+  if (pos < tokens.length) fail('unexpected trailing tokens');
+  return ast;
+}
+
+const parsedCache = new Map<string, Node>();
+
+function getAst(expression: string): Node {
+  let ast = parsedCache.get(expression);
+  if (!ast) {
+    ast = parse(expression);
+    parsedCache.set(expression, ast);
+  }
+  return ast;
+}
+
+function resolve(operand: Operand, variables: Record<string, any>): number | null {
+  if (operand.kind === 'number') return operand.value;
+  const raw = variables[operand.name];
+  if (raw === undefined || raw === null || raw === '') return null;
+  const value = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(',', '.'));
+  return isNaN(value) ? null : value;
+}
+
+function evaluateNode(node: Node, variables: Record<string, any>): boolean {
+  switch (node.type) {
+    case 'and': return evaluateNode(node.left, variables) && evaluateNode(node.right, variables);
+    case 'or': return evaluateNode(node.left, variables) || evaluateNode(node.right, variables);
+    case 'not': return !evaluateNode(node.operand, variables);
+    case 'compare': {
+      const left = resolve(node.left, variables);
+      const right = resolve(node.right, variables);
+      if (left === null || right === null) return false;
+      switch (node.op) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+    }
+  }
+}
+
+/**
+ * Throws ConditionSyntaxError if the expression can't be parsed.
+ */
+export function validateCondition(expression: string): void {
+  getAst(expression);
+}
+
+export function evaluateCondition(expression: string, variables: Record<string, any>): boolean {
+  return evaluateNode(getAst(expression), variables);
+}
+
+// Identifiers referenced by the expression (measurement keys and loop variables)
+export function getConditionIdentifiers(expression: string): string[] {
+  const names = new Set<string>();
+  const walk = (node: Node) => {
+    if (node.type === 'compare') {
+      if (node.left.kind === 'identifier') names.add(node.left.name);
+      if (node.right.kind === 'identifier') names.add(node.right.name);
+    } else if (node.type === 'not') {
+      walk(node.operand);
+    } else {
+      walk(node.left);
+      walk(node.right);
+    }
+  };
+  walk(getAst(expression));
+  return Array.from(names);
+}
+
+const IDENTIFIER_LABELS: Record<string, string> = {
+  ph_value: 'pH',
+  current_temperature: 'temperatura',
+  turning_cycles_count: 'número de viradas',
+  elapsed_minutes: 'minutos na etapa',
+  elapsed_hours: 'horas na etapa',
+  max_loop_duration_hours: 'tempo máximo da etapa',
+};
+
+const OPERATOR_TEXT: Record<Operator, string> = {
+  '<': 'abaixo de',
+  '<=': 'até',
+  '>': 'acima de',
+  '>=': 'a partir de',
+  '==': 'igual a',
+  '!=': 'diferente de',
+};
+
+export function getIdentifierLabel(name: string): string {
+  return IDENTIFIER_LABELS[name] || name.replace(/_/g, ' ');
+}
+
+function describeOperand(operand: Operand, constants: Record<string, number>): string {
+  if (operand.kind === 'number') return String(operand.value);
+  const constant = constants[operand.name];
+  return constant !== undefined ? String(constant) : getIdentifierLabel(operand.name);
+}
+
+function describeNode(node: Node, constants: Record<string, number>, parent?: Node['type']): string {
+  switch (node.type) {
+    case 'compare':
+      return `${describeOperand(node.left, constants)} ${OPERATOR_TEXT[node.op]} ${describeOperand(node.right, constants)}`;
+    case 'not':
+      return `não (${describeNode(node.operand, constants)})`;
+    case 'and':
+    case 'or': {
+      const text = `${describeNode(node.left, constants, node.type)} ${node.type === 'and' ? 'e' : 'ou'} ${describeNode(node.right, constants, node.type)}`;
+      return parent && parent !== node.type ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Portuguese description for speech/UI, e.g. "pH abaixo de 5.3".
+ * Identifiers in `constants` (process parameters) are read out as their value.
+ */
+export function describeCondition(expression: string, constants: Record<string, number> = {}): string {
+  return describeNode(getAst(expression), constants);
+}
+
+// e.g. "pH atual: 5.6" or "pH ainda não medido"
+export function describeCurrentValues(values: Record<string, any>): string {
+  return Object.entries(values)
+    .map(([name, value]) => value === undefined || value === null || value === ''
+      ? `${getIdentifierLabel(name)} ainda não medido`
+      : `${getIdentifierLabel(name)} atual: ${value}`)
+    .join(', ');
+}
@@ -0,0 +1,21 @@
+import { promoteMaturedBatches } from "./batchService";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Promote lots whose maturation ended to READY_FOR_SALE, now and every hour
+export function scheduleMaturationCheck() {
+  async function check() {
+    try {
+      const promoted = await promoteMaturedBatches();
+      if (promoted.length > 0) {
+        console.log(`[maturation] Lots ready for sale: ${promoted.join(", ")}`);
+      }
+    } catch (err) {
+      console.error("[maturation] Check failed:", err);
+    }
+  }
+
+  check();
+  setInterval(check, CHECK_INTERVAL_MS);
+  console.log(`[maturation] Maturation check scheduled every ${CHECK_INTERVAL_MS / 60000} minutes`);
+}
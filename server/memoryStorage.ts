@@ -0,0 +1,364 @@
+import {
+  type ProductionBatch, type InsertBatch,
+  type RecipeSnapshot, type InsertRecipeSnapshot,
+  type InsertLog, type Conversation, type Message, type BatchLifecycleStatus,
+  type BatchMeasurement, type InsertBatchMeasurement, type BatchEventRecord,
+  type ScheduledJob, type InsertScheduledJob,
+  type VoiceDialogStateRow, type InsertVoiceDialogState
+} from "@shared/schema";
+import { type IStorage, type MeasurementFilter, BatchVersionConflictError, JOB_LOCK_TIMEOUT_MS } from "./storage";
+import { now } from "./clock";
+
+/**
+ * In-process IStorage with the same defaults as the database tables. Used by
+ * the recipe simulator and the Alexa conversation simulator and replay;
+ * nothing is persisted.
+ */
+export class MemoryStorage implements IStorage {
+  private batches = new Map<number, ProductionBatch>();
+  private snapshots = new Map<string, RecipeSnapshot>();
+  private logs: Array<InsertLog & { id: number; timestamp: Date }> = [];
+  private measurements: BatchMeasurement[] = [];
+  private jobs: ScheduledJob[] = [];
+  private voiceDialogs = new Map<string, VoiceDialogStateRow>();
+  private lastActiveBatch = new Map<string, number>();
+  private conversations = new Map<number, Conversation>();
+  private messages: Message[] = [];
+  private nextId = 1;
+
+  // JSONB columns come back as fresh objects from the database; mimic that so
+  // callers mutating a batch in memory don't change the stored row
+  private copy<T>(value: T): T {
+    return structuredClone(value);
+  }
+
+  // A row and its events as they are, ids kept (the webhook replay seeds
+  // batches from the database this way)
+  seedBatch(batch: ProductionBatch, events: BatchEventRecord[] = []): void {
+    this.batches.set(batch.id, this.copy(batch));
+    for (const { id, batchId, stageId, timestamp, event } of events) {
+      this.logs.push({ id, batchId, stageId, action: event.type, details: {}, event: this.copy(event), timestamp });
+      this.nextId = Math.max(this.nextId, id + 1);
+    }
+    this.nextId = Math.max(this.nextId, batch.id + 1);
+  }
+
+  // --- Batch Operations ---
+  async getBatch(id: number): Promise<ProductionBatch | undefined> {
+    const batch = this.batches.get(id);
+    return batch && this.copy(batch);
+  }
+
+  async getActiveBatches(): Promise<ProductionBatch[]> {
+    return Array.from(this.batches.values())
+      .filter(b => b.status === "active")
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map(b => this.copy(b));
+  }
+
+  async getCompletedBatches(): Promise<ProductionBatch[]> {
+    return Array.from(this.batches.values())
+      .filter(b => b.status === "completed")
+      .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0))
+      .map(b => this.copy(b));
+  }
+
+  async getAllBatches(): Promise<ProductionBatch[]> {
+    return Array.from(this.batches.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map(b => this.copy(b));
+  }
+
+  async getBatchesByLifecycle(statuses: BatchLifecycleStatus[]): Promise<ProductionBatch[]> {
+    return Array.from(this.batches.values())
+      .filter(b => statuses.includes(b.batchStatus ?? "IN_PROGRESS"))
+      .sort((a, b) => (a.maturationEndDate?.getTime() ?? 0) - (b.maturationEndDate?.getTime() ?? 0))
+      .map(b => this.copy(b));
+  }
+
+  async createBatch(batch: InsertBatch): Promise<ProductionBatch> {
+    const timestamp = now();
+    const created: ProductionBatch = {
+      id: this.nextId++,
+      recipeId: batch.recipeId,
+      recipeVersion: batch.recipeVersion ?? null,
+      currentStageId: batch.currentStageId ?? 1,
+      milkVolumeL: batch.milkVolumeL,
+      status: batch.status ?? "active",
+      batchStatus: batch.batchStatus ?? "IN_PROGRESS",
+      calculatedInputs: batch.calculatedInputs ?? {},
+      measurements: batch.measurements ?? {},
+      activeTimers: batch.activeTimers ?? [],
+      activeReminders: batch.activeReminders ?? [],
+      scheduledAlerts: batch.scheduledAlerts ?? {},
+      history: batch.history ?? [],
+      turningCyclesCount: batch.turningCyclesCount ?? 0,
+      chamber2EntryDate: batch.chamber2EntryDate ?? null,
+      maturationEndDate: batch.maturationEndDate ?? null,
+      closedAt: batch.closedAt ?? null,
+      maturationLog: batch.maturationLog ?? [],
+      pausedAt: batch.pausedAt ?? null,
+      pauseReason: batch.pauseReason ?? null,
+      cancelledAt: batch.cancelledAt ?? null,
+      cancelReason: batch.cancelReason ?? null,
+      completedAt: batch.completedAt ?? null,
+      isTraining: batch.isTraining ?? false,
+      timeCompression: batch.timeCompression ?? 1,
+      version: 1,
+      startedAt: timestamp,
+      updatedAt: timestamp,
+    };
+    this.batches.set(created.id, this.copy(created));
+    return created;
+  }
+
+  async updateBatch(id: number, updates: Partial<ProductionBatch>, expectedVersion?: number): Promise<ProductionBatch> {
+    const existing = this.batches.get(id);
+    if (!existing) throw new Error(`Batch ${id} not found`);
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new BatchVersionConflictError(id, expectedVersion);
+    }
+    const updated = { ...existing, ...this.copy(updates), version: existing.version + 1, updatedAt: now() };
+    this.batches.set(id, updated);
+    return this.copy(updated);
+  }
+
+  async appendBatchHistory(id: number, entries: any[], updates: Partial<ProductionBatch> = {}): Promise<ProductionBatch> {
+    const existing = this.batches.get(id);
+    if (!existing) throw new Error(`Batch ${id} not found`);
+    const history = [...((existing.history as any[]) || []), ...this.copy(entries)];
+    return this.updateBatch(id, { ...updates, history });
+  }
+
+  async mergeMeasurements(id: number, values: Record<string, any>, historyEntries: any[] = []): Promise<ProductionBatch> {
+    const existing = this.batches.get(id);
+    if (!existing) throw new Error(`Batch ${id} not found`);
+    const measurements = { ...((existing.measurements as Record<string, any>) || {}) };
+    const _history = [...(measurements._history || []), ...this.copy(historyEntries)];
+    return this.updateBatch(id, { measurements: { ...measurements, ...this.copy(values), _history } });
+  }
+
+  // --- Recipe Snapshots ---
+  async saveRecipeSnapshot(snapshot: InsertRecipeSnapshot): Promise<void> {
+    if (this.snapshots.has(snapshot.version)) return;
+    this.snapshots.set(snapshot.version, { ...snapshot, createdAt: now() });
+  }
+
+  async getRecipeSnapshots(): Promise<RecipeSnapshot[]> {
+    return Array.from(this.snapshots.values());
+  }
+
+  // --- Logging ---
+  async logBatchAction(log: InsertLog): Promise<void> {
+    this.logs.push({ ...this.copy(log), id: this.nextId++, timestamp: now() });
+  }
+
+  async getBatchLogs(batchId: number): Promise<any[]> {
+    return this.logs
+      .filter(l => l.batchId === batchId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async getBatchEvents(batchId: number): Promise<BatchEventRecord[]> {
+    return this.logs
+      .filter(l => l.batchId === batchId && l.event)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id)
+      .map(l => this.copy({ id: l.id, batchId: l.batchId, stageId: l.stageId, timestamp: l.timestamp, event: l.event! }));
+  }
+
+  // --- Measurements ---
+  async addMeasurements(rows: InsertBatchMeasurement[]): Promise<BatchMeasurement[]> {
+    const created = rows.map(row => ({
+      numericValue: null,
+      textValue: null,
+      timestampValue: null,
+      unit: null,
+      notes: null,
+      source: "web" as const,
+      operator: null,
+      supersededBy: null,
+      revertedAt: null,
+      ...this.copy(row),
+      recordedAt: row.recordedAt ?? now(),
+      id: this.nextId++,
+    }));
+    this.measurements.push(...created);
+    return this.copy(created);
+  }
+
+  async getMeasurement(id: number): Promise<BatchMeasurement | undefined> {
+    const row = this.measurements.find(m => m.id === id);
+    return row && this.copy(row);
+  }
+
+  private currentMeasurements(match: (m: BatchMeasurement) => boolean): BatchMeasurement[] {
+    return this.measurements
+      .filter(m => m.supersededBy === null && m.revertedAt === null && match(m))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime() || a.id - b.id)
+      .map(m => this.copy(m));
+  }
+
+  async getBatchMeasurements(batchIds: number[]): Promise<BatchMeasurement[]> {
+    return this.currentMeasurements(m => batchIds.includes(m.batchId));
+  }
+
+  async findMeasurements(filter: MeasurementFilter): Promise<BatchMeasurement[]> {
+    return this.currentMeasurements(m =>
+      (!filter.key || m.key === filter.key) &&
+      (!filter.from || m.recordedAt >= filter.from) &&
+      (!filter.to || m.recordedAt <= filter.to) &&
+      this.batches.get(m.batchId)?.isTraining === false &&
+      (!filter.recipeId || this.batches.get(m.batchId)?.recipeId === filter.recipeId)
+    );
+  }
+
+  async supersedeMeasurement(id: number, replacement: InsertBatchMeasurement): Promise<BatchMeasurement> {
+    const [created] = await this.addMeasurements([replacement]);
+    const old = this.measurements.find(m => m.id === id);
+    if (old) old.supersededBy = created.id;
+    return created;
+  }
+
+  async markMeasurementsReverted(ids: number[], at: Date): Promise<void> {
+    for (const row of this.measurements) {
+      if (ids.includes(row.id)) row.revertedAt = at;
+    }
+  }
+
+  // --- Scheduled Jobs ---
+  async scheduleJobs(jobs: InsertScheduledJob[]): Promise<void> {
+    for (const job of jobs) {
+      const existing = this.jobs.find(j => j.key === job.key);
+      if (existing) {
+        if (existing.status === "cancelled") {
+          Object.assign(existing, { status: "pending", runAt: job.runAt, payload: this.copy(job.payload), attempts: 0, lastError: null });
+        }
+        continue;
+      }
+      this.jobs.push({
+        status: "pending",
+        attempts: 0,
+        lockedAt: null,
+        firedAt: null,
+        lastError: null,
+        ...this.copy(job),
+        id: this.nextId++,
+        createdAt: now(),
+      });
+    }
+  }
+
+  async cancelPendingJobs(batchId: number, keepKeys: string[]): Promise<number> {
+    let cancelled = 0;
+    for (const job of this.jobs) {
+      if (job.batchId === batchId && job.status === "pending" && !keepKeys.includes(job.key)) {
+        job.status = "cancelled";
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  async claimDueJobs(at: Date, limit: number): Promise<ScheduledJob[]> {
+    const staleBefore = at.getTime() - JOB_LOCK_TIMEOUT_MS;
+    const due = this.jobs
+      .filter(j =>
+        (j.status === "pending" && j.runAt <= at) ||
+        (j.status === "running" && (j.lockedAt?.getTime() ?? 0) < staleBefore))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+    for (const job of due) {
+      Object.assign(job, { status: "running", lockedAt: at, attempts: job.attempts + 1 });
+    }
+    return this.copy(due);
+  }
+
+  async finishJob(id: number, updates: Partial<ScheduledJob>): Promise<void> {
+    const job = this.jobs.find(j => j.id === id);
+    if (job) Object.assign(job, this.copy(updates), { lockedAt: null });
+  }
+
+  async getFiredJobs(since: Date): Promise<ScheduledJob[]> {
+    return this.jobs
+      .filter(j => j.status === "done" && j.firedAt && j.firedAt > since)
+      .sort((a, b) => a.firedAt!.getTime() - b.firedAt!.getTime())
+      .map(j => this.copy(j));
+  }
+
+  async getNextJobRunAt(): Promise<Date | null> {
+    const pending = this.jobs.filter(j => j.status === "pending");
+    if (pending.length === 0) return null;
+    return new Date(Math.min(...pending.map(j => j.runAt.getTime())));
+  }
+
+  async getLastActiveBatch(alexaUserId: string): Promise<number | null> {
+    return this.lastActiveBatch.get(alexaUserId) ?? null;
+  }
+
+  async setLastActiveBatch(alexaUserId: string, batchId: number): Promise<void> {
+    this.lastActiveBatch.set(alexaUserId, batchId);
+  }
+
+  async clearLastActiveBatch(alexaUserId: string): Promise<void> {
+    this.lastActiveBatch.delete(alexaUserId);
+  }
+
+  async getVoiceDialogState(sessionId: string, at: Date): Promise<VoiceDialogStateRow | undefined> {
+    const row = this.voiceDialogs.get(sessionId);
+    return row && row.expiresAt > at ? this.copy(row) : undefined;
+  }
+
+  async saveVoiceDialogState(state: InsertVoiceDialogState): Promise<void> {
+    this.voiceDialogs.set(state.sessionId, {
+      alexaUserId: null,
+      data: {},
+      ...state,
+      updatedAt: now()
+    } as VoiceDialogStateRow);
+  }
+
+  async deleteVoiceDialogState(sessionId: string): Promise<void> {
+    this.voiceDialogs.delete(sessionId);
+  }
+
+  async deleteExpiredVoiceDialogStates(at: Date): Promise<number> {
+    let deleted = 0;
+    for (const [sessionId, row] of Array.from(this.voiceDialogs.entries())) {
+      if (row.expiresAt <= at) {
+        this.voiceDialogs.delete(sessionId);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // --- Chat ---
+  async getConversation(id: number) {
+    return this.conversations.get(id);
+  }
+
+  async getAllConversations() {
+    return Array.from(this.conversations.values());
+  }
+
+  async createConversation(title: string) {
+    const conversation: Conversation = { id: this.nextId++, title, createdAt: now() };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async deleteConversation(id: number) {
+    this.conversations.delete(id);
+    this.messages = this.messages.filter(m => m.conversationId !== id);
+  }
+
+  async getMessagesByConversation(conversationId: number) {
+    return this.messages.filter(m => m.conversationId === conversationId);
+  }
+
+  async createMessage(conversationId: number, role: string, content: string) {
+    const message: Message = { id: this.nextId++, conversationId, role, content, createdAt: now() };
+    this.messages.push(message);
+    return message;
+  }
+}
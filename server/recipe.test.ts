@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductionBatch } from "@shared/schema";
+import { recipeManager } from "./recipe";
+
+const HOUR_MS = 60 * 60_000;
+
+// Nete's turning loop (stage 15) started at 10:00; its `until` only checks the pH
+function loopBatch(phValue: number): ProductionBatch {
+  return {
+    recipeId: "QUEIJO_NETE",
+    recipeVersion: null,
+    currentStageId: 15,
+    startedAt: new Date("2026-04-15T08:00:00.000Z"),
+    history: [{ stageId: 15, action: "start", timestamp: "2026-04-15T10:00:00.000Z" }],
+    measurements: { ph_value: phValue },
+    milkVolumeL: 100,
+    turningCyclesCount: 1,
+    timeCompression: 1,
+  } as unknown as ProductionBatch;
+}
+
+test("the loop times out at max_loop_duration_hours even when `until` doesn't mention it", () => {
+  const batch = loopBatch(5.6);
+  const enteredAt = new Date("2026-04-15T10:00:00.000Z").getTime();
+  const maxHours = recipeManager.getStage(15, batch)!.max_loop_duration_hours!;
+
+  const before = recipeManager.evaluateLoopExit(batch, undefined, new Date(enteredAt + maxHours * HOUR_MS - 60_000));
+  assert.equal(before.canExit, false);
+
+  const after = recipeManager.evaluateLoopExit(batch, undefined, new Date(enteredAt + maxHours * HOUR_MS));
+  assert.equal(after.canExit, true);
+  assert.equal(after.exitReason, "time_limit");
+
+  // A reading that meets the condition is still reported as such
+  const reached = recipeManager.evaluateLoopExit(loopBatch(5.2), undefined, new Date(enteredAt + maxHours * HOUR_MS));
+  assert.equal(reached.exitReason, "ph_reached");
+});
@@ -1,7 +1,14 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import yaml from 'js-yaml';
-import { ProductionBatch } from '@shared/schema';
+import { ProductionBatch, getPauseIntervals, type BatchDose, type BatchStagePath, type ProcessParameters } from '@shared/schema';
+import { evaluateStageValidations, formatRuleFailures } from './recipeRules';
+import { type StageHook } from './stageHooks';
+import { calculateDose, toDisplayDose, type DosingSpec } from './dosing';
+import { evaluateCondition, describeCondition, getConditionIdentifiers } from './loopConditions';
+import { validateRecipe, formatRecipeIssues } from './recipeSchema';
+import { now as currentTime } from './clock';
 
 // TEST_MODE: When enabled, all timers are reduced to 1 minute for faster testing
 const TEST_MODE = process.env.TEST_MODE === 'true';
@@ -16,6 +23,11 @@ export interface WaitSpec {
   stageName: string;
 }
 
+export interface StageTransition {
+  to: number;
+  when?: string; // condition over measurements, see loopConditions.ts
+}
+
 export interface RecipeStage {
   id: number;
   name: string;
@@ -42,16 +54,26 @@ export interface RecipeStage {
   expected_intent?: string;
   expected_time_type?: string;
   input_prompt?: string;
+  // Conditional transitions, first match wins; falls back to the next stage in file order
+  next?: StageTransition[];
+  on_enter?: StageHook[];
+  on_exit?: StageHook[];
+  store_as?: Record<string, string>;
 }
 
 interface RecipeInput {
   id: string;
   name: string;
   unit: string;
-  dosing: {
-    mode: string;
-    value: number;
-  };
+  dosing?: DosingSpec;
+}
+
+interface RecipeProcess {
+  target_temperature_c?: number;
+  temperature_tolerance_c?: number;
+  target_final_ph?: number;
+  maturation_target_days?: number;
+  ph_check_interval_min?: number;
 }
 
 interface Recipe {
@@ -59,54 +81,295 @@ interface Recipe {
   recipe_id: string;
   name: string;
   description?: string;
+  process?: RecipeProcess;
   stages: RecipeStage[];
   inputs: RecipeInput[];
 }
 
+export interface LoopExitStatus {
+  canExit: boolean;
+  exitReason?: 'ph_reached' | 'condition_met' | 'time_limit';
+  // Portuguese rendering of loop_condition.until, e.g. "pH abaixo de 5.3"
+  description: string;
+  // Measurement keys referenced by the condition and their current values
+  currentValues: Record<string, any>;
+}
+
+// Variables computed for loop conditions (not measurements)
+const LOOP_VARIABLES = ['elapsed_minutes', 'elapsed_hours', 'turning_cycles_count', 'max_loop_duration_hours'];
+
+// Recipe used when a batch has no recipeId (legacy rows)
+export const DEFAULT_RECIPE_ID = 'QUEIJO_NETE';
+
+// A recipe id that matches no loaded recipe file
+export class UnknownRecipeError extends Error {
+  constructor(public recipeId: string) {
+    super(`Unknown recipe ${recipeId}`);
+    this.name = 'UnknownRecipeError';
+  }
+}
+
+// A recipe id, or a batch pinned to a recipe snapshot via recipeVersion
+export type RecipeRef = string | { recipeId: string; recipeVersion?: string | null } | null | undefined;
+
+// Version label: schema_version plus a hash of the parsed content, so
+// whitespace/comment edits in the YAML don't create a new version
+function computeRecipeVersion(recipe: Recipe): string {
+  const hash = crypto.createHash('sha256').update(JSON.stringify(recipe)).digest('hex');
+  return `${recipe.schema_version || '1.0'}-${hash.slice(0, 10)}`;
+}
+
 export class RecipeManager {
-  private recipe: Recipe;
+  // Registry of loaded recipes keyed by recipe_id
+  private recipes: Map<string, Recipe> = new Map();
+  // Every known recipe content keyed by version (current files + stored snapshots)
+  private versions: Map<string, Recipe> = new Map();
+  private versionOf: Map<Recipe, string> = new Map();
 
   constructor() {
     try {
-      const recipePath = path.join(process.cwd(), 'server', 'recipe.yml');
-      const fileContents = fs.readFileSync(recipePath, 'utf8');
-      this.recipe = yaml.load(fileContents) as Recipe;
-      console.log(`Loaded recipe: ${this.recipe.name} with ${this.recipe.stages.length} stages`);
+      const recipesDir = path.join(process.cwd(), 'server', 'recipes');
+      const files = fs.readdirSync(recipesDir)
+        .filter(f => f.endsWith('.yml') || f.endsWith('.yaml'))
+        .sort();
+
+      for (const file of files) {
+        const fileContents = fs.readFileSync(path.join(recipesDir, file), 'utf8');
+        const raw = yaml.load(fileContents);
+        const issues = validateRecipe(raw);
+        if (issues.length > 0) {
+          throw new Error(`Invalid recipe ${file}:\n${formatRecipeIssues(file, issues)}`);
+        }
+        const recipe = raw as Recipe;
+        if (this.recipes.has(recipe.recipe_id)) {
+          throw new Error(`Duplicate recipe_id ${recipe.recipe_id} in ${file}`);
+        }
+        this.recipes.set(recipe.recipe_id, recipe);
+        this.registerVersion(computeRecipeVersion(recipe), recipe);
+        console.log(`Loaded recipe: ${recipe.name} (${recipe.recipe_id}) with ${recipe.stages.length} stages`);
+      }
     } catch (e) {
-      console.error("Failed to load recipe:", e);
+      console.error("Failed to load recipes:", e);
       throw new Error("Recipe loading failed");
     }
+
+    if (!this.recipes.has(DEFAULT_RECIPE_ID)) {
+      throw new Error(`Recipe loading failed: default recipe ${DEFAULT_RECIPE_ID} not found`);
+    }
   }
 
-  getRecipeName(): string {
-    return this.recipe.name;
+  private registerVersion(version: string, recipe: Recipe): void {
+    if (this.versions.has(version)) return;
+    this.versions.set(version, recipe);
+    this.versionOf.set(recipe, version);
   }
 
-  getStage(stageId: number): RecipeStage | undefined {
-    return this.recipe.stages.find(s => s.id === stageId);
+  // Resolve a batch to its pinned snapshot, or a recipe id to the current file.
+  // No ref means the default recipe; an unknown id throws UnknownRecipeError
+  // (callers taking an id from outside check hasRecipe first).
+  private getRecipe(ref?: RecipeRef): Recipe {
+    if (ref && typeof ref === 'object') {
+      if (ref.recipeVersion) {
+        const pinned = this.versions.get(ref.recipeVersion);
+        if (pinned) return pinned;
+        console.warn(`[RECIPE] Snapshot ${ref.recipeVersion} not loaded, using current ${ref.recipeId}`);
+      }
+      return this.getRecipe(ref.recipeId);
+    }
+    if (ref) {
+      const recipe = this.recipes.get(ref.toUpperCase());
+      if (recipe) return recipe;
+      throw new UnknownRecipeError(ref);
+    }
+    return this.recipes.get(DEFAULT_RECIPE_ID)!;
   }
 
-  getNextStage(currentStageId: number): RecipeStage | undefined {
-    return this.recipe.stages.find(s => s.id === currentStageId + 1);
+  // Make stored snapshots resolvable (called once at startup)
+  loadSnapshots(snapshots: Array<{ version: string; content: unknown }>): void {
+    for (const snapshot of snapshots) {
+      this.registerVersion(snapshot.version, snapshot.content as Recipe);
+    }
+    console.log(`Loaded ${snapshots.length} recipe snapshot(s)`);
+  }
+
+  // Current version of a recipe file, stored on the batch at start
+  getRecipeVersion(recipeId: string): string {
+    return this.versionOf.get(this.getRecipe(recipeId))!;
+  }
+
+  // Snapshot row to persist when a batch starts with this recipe
+  getRecipeSnapshot(recipeId: string) {
+    const recipe = this.getRecipe(recipeId);
+    return {
+      version: this.versionOf.get(recipe)!,
+      recipeId: recipe.recipe_id,
+      name: recipe.name,
+      content: recipe
+    };
+  }
+
+  hasRecipe(recipeId: string): boolean {
+    return this.recipes.has(recipeId.toUpperCase());
+  }
+
+  getRecipeIds(): string[] {
+    return Array.from(this.recipes.keys());
+  }
+
+  getRecipeName(ref?: RecipeRef): string {
+    return this.getRecipe(ref).name;
+  }
+
+  getStage(stageId: number, ref?: RecipeRef): RecipeStage | undefined {
+    return this.getRecipe(ref).stages.find(s => s.id === stageId);
+  }
+
+  getProcessParameters(ref?: RecipeRef): ProcessParameters {
+    const process = this.getRecipe(ref).process || {};
+    return {
+      targetTemperatureC: process.target_temperature_c,
+      temperatureToleranceC: process.temperature_tolerance_c,
+      targetFinalPh: process.target_final_ph,
+      maturationTargetDays: process.maturation_target_days ?? 0,
+      phCheckIntervalMin: process.ph_check_interval_min,
+    };
+  }
+
+  // Process parameters under their YAML names, usable in conditions
+  // (e.g. "ph_value < target_final_ph") and timer hooks
+  getProcessVariables(ref?: RecipeRef): Record<string, number> {
+    const variables: Record<string, number> = {};
+    for (const [key, value] of Object.entries(this.getRecipe(ref).process || {})) {
+      if (typeof value === 'number') variables[key] = value;
+    }
+    return variables;
+  }
+
+  // Recipe files always have stages (checked by server/recipeSchema.ts)
+  getFirstStage(ref?: RecipeRef): RecipeStage {
+    return this.getRecipe(ref).stages[0];
+  }
+
+  // Next stage in file order (the default transition)
+  getNextStage(currentStageId: number, ref?: RecipeRef): RecipeStage | undefined {
+    const stages = this.getRecipe(ref).stages;
+    const index = stages.findIndex(s => s.id === currentStageId);
+    return index >= 0 ? stages[index + 1] : undefined;
+  }
+
+  // Follow the stage's `next` transitions against the batch variables.
+  // `condition` is set when a conditional transition was taken.
+  resolveNextStage(currentStageId: number, ref: RecipeRef, variables: Record<string, any>): { stage?: RecipeStage; condition?: string } {
+    const recipe = this.getRecipe(ref);
+    const current = recipe.stages.find(s => s.id === currentStageId);
+
+    for (const transition of current?.next || []) {
+      if (transition.when) {
+        try {
+          if (!evaluateCondition(transition.when, variables)) continue;
+        } catch (e) {
+          console.error(`[TRANSITION] Stage ${currentStageId} of ${recipe.recipe_id}:`, (e as Error).message);
+          continue;
+        }
+      }
+      const target = recipe.stages.find(s => s.id === transition.to);
+      if (!target) {
+        console.error(`[TRANSITION] Stage ${currentStageId} of ${recipe.recipe_id}: unknown target stage ${transition.to}`);
+        continue;
+      }
+      return { stage: target, condition: transition.when };
+    }
+
+    return { stage: this.getNextStage(currentStageId, ref) };
+  }
+
+  // Stages a batch may be on right after start (stage 2's transitions, and
+  // past the heating it may skip); start_batch already read their doses out
+  getStartStageIds(ref?: RecipeRef): Set<number> {
+    const stages = this.getRecipe(ref).stages;
+    const ids = new Set<number>();
+    const successors = (stage: RecipeStage) => [
+      this.getNextStage(stage.id, ref),
+      ...(stage.next || []).map(t => stages.find(s => s.id === t.to))
+    ];
+    const visit = (stage?: RecipeStage) => {
+      if (!stage || ids.has(stage.id)) return;
+      ids.add(stage.id);
+      if (stage.type === 'heat') successors(stage).forEach(visit);
+    };
+    const calculation = stages.find(s => s.id === 2);
+    if (calculation) successors(calculation).forEach(visit);
+    return ids;
+  }
+
+  // Variables stage conditions can read: process parameters, measurements and batch columns
+  getConditionVariables(batch: Pick<ProductionBatch, 'recipeId' | 'recipeVersion' | 'measurements' | 'milkVolumeL' | 'turningCyclesCount'>): Record<string, any> {
+    const variables: Record<string, any> = {
+      ...this.getProcessVariables(batch),
+      ...((batch.measurements as Record<string, any>) || {})
+    };
+    if (variables.milk_volume_l === undefined && batch.milkVolumeL) {
+      variables.milk_volume_l = Number(batch.milkVolumeL);
+    }
+    if (variables.turning_cycles_count === undefined) {
+      variables.turning_cycles_count = batch.turningCyclesCount;
+    }
+    return variables;
+  }
+
+  // Stages the batch went through (from history, in order), plus the stages
+  // still ahead if the transitions were taken with the current measurements
+  getStagePath(batch: ProductionBatch): BatchStagePath {
+    const visited: number[] = [];
+    for (const entry of (batch.history as any[]) || []) {
+      if (entry?.reverted) continue;
+      if (typeof entry?.stageId === 'number' && !visited.includes(entry.stageId)) {
+        visited.push(entry.stageId);
+      }
+    }
+    if (!visited.includes(batch.currentStageId)) visited.push(batch.currentStageId);
+
+    const remaining: number[] = [];
+    if (batch.status !== 'completed' && batch.status !== 'cancelled') {
+      const variables = this.getConditionVariables(batch);
+      const maxSteps = this.getStageCount(batch);
+      let stageId = batch.currentStageId;
+      for (let i = 0; i < maxSteps; i++) {
+        const next = this.resolveNextStage(stageId, batch, variables).stage;
+        if (!next || visited.includes(next.id) || remaining.includes(next.id)) break;
+        remaining.push(next.id);
+        stageId = next.id;
+      }
+    }
+
+    return { visited, current: batch.currentStageId, remaining };
+  }
+
+  getStageCount(ref?: RecipeRef): number {
+    return this.getRecipe(ref).stages.length;
   }
 
   // New methods for expanded API
 
-  getRecipeSummary() {
+  getRecipeSummary(ref?: RecipeRef) {
+    const recipe = this.getRecipe(ref);
     return {
-      recipeId: this.recipe.recipe_id,
-      name: this.recipe.name,
-      schemaVersion: this.recipe.schema_version || "1.0",
-      stageCount: this.recipe.stages.length
+      recipeId: recipe.recipe_id,
+      name: recipe.name,
+      schemaVersion: recipe.schema_version || "1.0",
+      version: this.versionOf.get(recipe)!,
+      stageCount: recipe.stages.length
     };
   }
 
-  getRecipeDetail() {
+  getRecipeDetail(ref?: RecipeRef) {
+    const recipe = this.getRecipe(ref);
     return {
-      ...this.getRecipeSummary(),
-      description: this.recipe.description,
-      stages: this.recipe.stages.map(s => this.formatStageDetail(s)),
-      inputs: this.recipe.inputs.map(i => ({
+      ...this.getRecipeSummary(ref),
+      description: recipe.description,
+      process: this.getProcessParameters(ref),
+      stages: recipe.stages.map(s => this.formatStageDetail(s, ref)),
+      inputs: recipe.inputs.map(i => ({
         id: i.id,
         name: i.name,
         unit: i.unit,
@@ -115,7 +378,7 @@ export class RecipeManager {
     };
   }
 
-  formatStageDetail(stage: RecipeStage) {
+  formatStageDetail(stage: RecipeStage, ref?: RecipeRef) {
     return {
       stageId: stage.id,
       name: stage.name,
@@ -132,7 +395,8 @@ export class RecipeManager {
       } : undefined,
       reminder: stage.reminder,
       loopCondition: stage.loop_condition ? {
-        until: stage.loop_condition.until
+        until: stage.loop_condition.until,
+        description: safeDescribeCondition(stage.loop_condition.until, this.getProcessVariables(ref))
       } : undefined,
       loopActions: stage.loop_actions,
       llmGuidance: stage.llm_guidance,
@@ -141,23 +405,39 @@ export class RecipeManager {
   }
 
   getAllRecipes() {
-    // For MVP, we only have one recipe
-    return [this.getRecipeSummary()];
+    return this.getRecipeIds().map(id => this.getRecipeSummary(id));
   }
 
-  getExpectedInputsForStage(stageId: number): string[] {
-    const stage = this.getStage(stageId);
+  getExpectedInputsForStage(stageId: number, ref?: RecipeRef): string[] {
+    const stage = this.getStage(stageId, ref);
     return stage?.operator_input_required || [];
   }
 
-  isValidInputForStage(stageId: number, key: string): boolean {
-    const expectedInputs = this.getExpectedInputsForStage(stageId);
+  isValidInputForStage(stageId: number, key: string, ref?: RecipeRef): boolean {
+    const expectedInputs = this.getExpectedInputsForStage(stageId, ref);
     return expectedInputs.includes(key);
   }
 
+  // Stage asking the operator for `key` (directly or through store_as);
+  // undefined when the recipe never asks for it
+  getStageForInput(key: string, ref?: RecipeRef): RecipeStage | undefined {
+    return this.getRecipe(ref).stages.find(s =>
+      s.operator_input_required?.includes(key) || Object.values(s.store_as || {}).includes(key));
+  }
+
+  // Stage of the guided pH + pieces dialog (13 in Nete): asks for the piece count
+  isPhAndPiecesStage(stageId: number, ref?: RecipeRef): boolean {
+    return this.isValidInputForStage(stageId, 'pieces_quantity', ref);
+  }
+
+  // Turning loop that takes a pH reading each round (15 in Nete)
+  isPhLoopStage(stageId: number, ref?: RecipeRef): boolean {
+    return this.isLoopStage(stageId, ref) && this.isValidInputForStage(stageId, 'ph_value', ref);
+  }
+
   // Stage input lock: returns expected intent and prompt if stage requires structured input
-  getStageInputLock(stageId: number): { locked: boolean; expectedIntent?: string; expectedTimeType?: string; inputPrompt?: string } {
-    const stage = this.getStage(stageId);
+  getStageInputLock(stageId: number, ref?: RecipeRef): { locked: boolean; expectedIntent?: string; expectedTimeType?: string; inputPrompt?: string } {
+    const stage = this.getStage(stageId, ref);
     if (!stage?.operator_input_required || stage.operator_input_required.length === 0) {
       return { locked: false };
     }
@@ -171,98 +451,125 @@ export class RecipeManager {
   }
 
   // Check if intent matches stage expectation
-  isExpectedIntentForStage(stageId: number, intentName: string): boolean {
-    const lock = this.getStageInputLock(stageId);
+  isExpectedIntentForStage(stageId: number, intentName: string, ref?: RecipeRef): boolean {
+    const lock = this.getStageInputLock(stageId, ref);
     if (!lock.locked) return true; // No lock, any intent allowed
     if (!lock.expectedIntent) return true; // No specific intent required
     return lock.expectedIntent === intentName;
   }
 
   // Check if stage has a loop condition
-  isLoopStage(stageId: number): boolean {
-    const stage = this.getStage(stageId);
+  isLoopStage(stageId: number, ref?: RecipeRef): boolean {
+    const stage = this.getStage(stageId, ref);
     return stage?.type === 'loop' && !!stage.loop_condition;
   }
 
-  // Check if loop exit condition is met
-  checkLoopExitCondition(stageId: number, measurements: Record<string, any>): boolean {
-    const stage = this.getStage(stageId);
-    if (!stage?.loop_condition) return true;
-    
-    // Parse the condition (e.g., "ph_value < 5.3")
-    const condition = stage.loop_condition.until;
-    if (condition.includes('ph_value')) {
-      const match = condition.match(/ph_value\s*(<=|<|>=|>|==)\s*([\d.]+)/);
-      if (match) {
-        const operator = match[1];
-        const targetValue = parseFloat(match[2]);
-        const currentPh = measurements.ph_value;
-        
-        if (currentPh === undefined) return false;
-        
-        switch (operator) {
-          case '<=': return currentPh <= targetValue;
-          case '<': return currentPh < targetValue;
-          case '>=': return currentPh >= targetValue;
-          case '>': return currentPh > targetValue;
-          case '==': return currentPh === targetValue;
-          default: return false;
+  // Evaluate the loop exit of the batch's current stage. `until` may use any
+  // measurement key plus elapsed_minutes, elapsed_hours, turning_cycles_count
+  // and max_loop_duration_hours (e.g. "ph_value < 5.3 OR elapsed_hours >= 6");
+  // the stage's max_loop_duration_hours ends the loop (time_limit) regardless.
+  // `measurements` overrides the batch's (e.g. a value being registered).
+  evaluateLoopExit(batch: ProductionBatch, measurements?: Record<string, any>, now: Date = getTimerReferenceTime(batch)): LoopExitStatus {
+    const stage = this.getStage(batch.currentStageId, batch);
+    const condition = stage?.loop_condition?.until;
+    if (!stage || !condition) {
+      return { canExit: true, description: '', currentValues: {} };
+    }
+
+    const startedAt = getStageStartTime(batch, stage.id) || new Date(batch.startedAt);
+    const activeMs = now.getTime() - startedAt.getTime() - getPausedMs(batch, startedAt, now);
+    // Training batches age `timeCompression` times faster
+    const elapsedMinutes = Math.max(0, activeMs / 60000) * (batch.timeCompression || 1);
+    const variables: Record<string, any> = {
+      ...this.getConditionVariables(batch),
+      ...(measurements || {}),
+      elapsed_minutes: elapsedMinutes,
+      elapsed_hours: elapsedMinutes / 60,
+      max_loop_duration_hours: stage.max_loop_duration_hours,
+    };
+
+    let canExit = false;
+    let description = condition;
+    let identifiers: string[] = [];
+    let exitReason: LoopExitStatus['exitReason'];
+    const processVariables = this.getProcessVariables(batch);
+    try {
+      canExit = evaluateCondition(condition, variables);
+      description = describeCondition(condition, processVariables);
+      identifiers = getConditionIdentifiers(condition);
+      if (canExit) {
+        // Met only because of the clock: the measurements alone don't satisfy it
+        const withoutTime = { ...variables, elapsed_minutes: undefined, elapsed_hours: undefined };
+        if (!evaluateCondition(condition, withoutTime)) {
+          exitReason = 'time_limit';
+        } else {
+          exitReason = identifiers.includes('ph_value') ? 'ph_reached' : 'condition_met';
         }
       }
+    } catch (e) {
+      console.error(`[LOOP] Stage ${stage.id} of ${this.getRecipe(batch).recipe_id}:`, (e as Error).message);
     }
-    return false;
+    // The loop timeout holds whether or not `until` mentions it
+    if (!canExit && stage.max_loop_duration_hours !== undefined && elapsedMinutes >= stage.max_loop_duration_hours * 60) {
+      canExit = true;
+      exitReason = 'time_limit';
+    }
+
+    const currentValues: Record<string, any> = {};
+    for (const name of identifiers) {
+      if (!LOOP_VARIABLES.includes(name) && !(name in processVariables)) currentValues[name] = variables[name];
+    }
+
+    return { canExit, exitReason, description, currentValues };
   }
 
   // Check if stage has an interval timer (for loops)
-  hasIntervalTimer(stageId: number): boolean {
-    const stage = this.getStage(stageId);
+  hasIntervalTimer(stageId: number, ref?: RecipeRef): boolean {
+    const stage = this.getStage(stageId, ref);
     return !!(stage?.timer?.interval_hours);
   }
 
   // Check if stage has a reminder
-  hasReminder(stageId: number): boolean {
-    const stage = this.getStage(stageId);
+  hasReminder(stageId: number, ref?: RecipeRef): boolean {
+    const stage = this.getStage(stageId, ref);
     return !!stage?.reminder;
   }
 
-  calculateInputs(milkVolumeL: number): Record<string, number> {
+  // Doses in each input's own unit (what batches store in calculatedInputs)
+  calculateInputs(milkVolumeL: number, ref?: RecipeRef): Record<string, number> {
     const calculated: Record<string, number> = {};
     
-    this.recipe.inputs.forEach(input => {
+    this.getRecipe(ref).inputs.forEach(input => {
       if (!input.dosing) return;
       
-      let amount = 0;
-      if (input.dosing.mode === 'per_2_liters') {
-        amount = (milkVolumeL / 2) * input.dosing.value;
-      } else if (input.dosing.mode === 'per_20_liters') {
-        amount = (milkVolumeL / 20) * input.dosing.value;
+      const amount = calculateDose(input.dosing, milkVolumeL, input.unit);
+      if (amount === null) {
+        console.error(`[DOSING] ${input.id}: cannot dose mode "${input.dosing.mode}" for ${milkVolumeL} L`);
+        return;
       }
-      
-      // Round to 2 decimal places
-      calculated[input.id] = Math.round(amount * 100) / 100;
+      calculated[input.id] = amount;
     });
 
     return calculated;
   }
 
-  validateAdvance(batch: ProductionBatch, currentStage: RecipeStage): { allowed: boolean; reason?: string; missingInputs?: string[]; blockingTimer?: boolean } {
+  // Calculated doses converted to each input's display unit, in recipe order
+  getBatchDoses(calculatedInputs: Record<string, number> | null | undefined, ref?: RecipeRef): BatchDose[] {
+    if (!calculatedInputs) return [];
+    const doses: BatchDose[] = [];
+    for (const input of this.getRecipe(ref).inputs) {
+      const amount = calculatedInputs[input.id];
+      if (typeof amount !== 'number') continue;
+      doses.push({ id: input.id, name: input.name, ...toDisplayDose(amount, input.unit, input.dosing) });
+    }
+    return doses;
+  }
+
+  validateAdvance(batch: ProductionBatch, currentStage: RecipeStage): { allowed: boolean; reason?: string; missingInputs?: string[]; blockingTimer?: boolean; failedRules?: string[] } {
     // 1. Check required inputs
     if (currentStage.operator_input_required) {
       const measurements = batch.measurements as Record<string, any>;
       
-      // Map expected measurement keys to what's actually stored
-      const keyMapping: Record<string, string> = {
-        'ph_value': currentStage.id === 13 ? 'initial_ph' : 'ph_value',
-        'flocculation_time': 'flocculation_time',
-        'cut_point_time': 'cut_point_time',
-        'press_start_time': 'press_start_time',
-        'chamber_2_entry_date': 'chamber_2_entry_date',
-        'pieces_quantity': 'pieces_quantity',
-        'milk_volume_l': 'milk_volume_l',
-        'milk_temperature_c': 'milk_temperature_c',
-        'milk_ph': 'milk_ph'
-      };
-      
       const missingInputs = currentStage.operator_input_required.filter(key => {
         if (key === 'milk_volume_l') {
           return !batch.milkVolumeL;
@@ -270,12 +577,12 @@ export class RecipeManager {
         if (key === 'chamber_2_entry_date') {
           return !(batch as any).chamber2EntryDate;
         }
-        const storedKey = keyMapping[key] || key;
+        const storedKey = getStoredInputKey(currentStage, key);
         return !measurements || measurements[storedKey] === undefined;
       });
       
       if (missingInputs.length > 0) {
-        const friendlyMessages = this.getFriendlyInputMessages(currentStage.id, missingInputs);
+        const friendlyMessages = this.getFriendlyInputMessages(currentStage.id, missingInputs, batch);
         return { 
           allowed: false, 
           reason: friendlyMessages,
@@ -284,13 +591,25 @@ export class RecipeManager {
       }
     }
 
-    // 2. Check blocking timers
+    // 2. Check stage validation rules (e.g. temperature_between(31,33))
+    if (currentStage.validations && currentStage.validations.length > 0) {
+      const evaluation = evaluateStageValidations(currentStage.validations, (batch.measurements as Record<string, any>) || {});
+      if (!evaluation.valid) {
+        return {
+          allowed: false,
+          reason: formatRuleFailures(evaluation),
+          failedRules: evaluation.failures.map(f => f.rule)
+        };
+      }
+    }
+
+    // 3. Check blocking timers
     if (currentStage.timer && currentStage.timer.blocking) {
       const activeTimers = (batch.activeTimers as any[]) || [];
       const stageTimer = activeTimers.find(t => t.stageId === currentStage.id);
       
       if (stageTimer) {
-        const now = new Date();
+        const now = getTimerReferenceTime(batch);
         const endTime = new Date(stageTimer.endTime);
         
         if (now < endTime) {
@@ -304,7 +623,7 @@ export class RecipeManager {
       }
     }
 
-    // 3. Loop conditions (e.g. pH check) - handled in batchService
+    // 4. Loop conditions (e.g. pH check) - handled in batchService
     if (currentStage.type === 'loop' && currentStage.loop_condition) {
        // Logic is handled in batchService.advanceBatch
     }
@@ -314,7 +633,7 @@ export class RecipeManager {
   
   // Generate friendly messages based on stage and missing inputs
   // Messages aligned with Alexa interactionModel samples
-  getFriendlyInputMessages(stageId: number, missingInputs: string[]): string {
+  getFriendlyInputMessages(stageId: number, missingInputs: string[], ref?: RecipeRef): string {
     const messages: string[] = [];
     
     for (const input of missingInputs) {
@@ -326,7 +645,7 @@ export class RecipeManager {
           messages.push("Registre o horário do ponto de corte. Diga: 'hora do corte às quinze e trinta'");
           break;
         case 'ph_value':
-          if (stageId === 13) {
+          if (this.isPhAndPiecesStage(stageId, ref)) {
             messages.push("Registre o pH inicial. Diga: 'pH cinco vírgula dois'");
           } else {
             messages.push("Registre o pH atual. Diga: 'pH cinco vírgula dois'");
@@ -357,7 +676,7 @@ export class RecipeManager {
   }
   
   // Get the intent hint for a missing input
-  // Intent names must match exactly the Alexa interactionModel
+  // Intent names must match the generated Alexa interaction model (npm run alexa:check)
   getIntentHintForInput(stageId: number, inputKey: string): string {
     switch (inputKey) {
       case 'flocculation_time':
@@ -386,8 +705,12 @@ export const recipeManager = new RecipeManager();
 // Export TEST_MODE for use in routes
 export { TEST_MODE };
 
-// Helper function to get timer duration in minutes, respecting TEST_MODE
-export function getTimerDurationMinutes(stage: RecipeStage | undefined): number {
+// How many times faster timers run in a training batch (stored on the batch at creation)
+export const TRAINING_TIME_COMPRESSION = Math.max(1, Number(process.env.TRAINING_TIME_COMPRESSION) || 10);
+
+// Helper function to get timer duration in minutes, respecting TEST_MODE and
+// the batch's time compression
+export function getTimerDurationMinutes(stage: RecipeStage | undefined, compression: number = 1): number {
   if (!stage?.timer) return 0;
   
   // In TEST_MODE, all timers are 1 minute
@@ -397,25 +720,66 @@ export function getTimerDurationMinutes(stage: RecipeStage | undefined): number
   const durationMin = stage.timer.duration_min || 0;
   const durationHours = stage.timer.duration_hours || 0;
   
-  return durationMin + (durationHours * 60);
+  return (durationMin + (durationHours * 60)) / compression;
 }
 
 // Helper function to get interval duration in minutes, respecting TEST_MODE
-export function getIntervalDurationMinutes(stage: RecipeStage | undefined): number {
+export function getIntervalDurationMinutes(stage: RecipeStage | undefined, compression: number = 1): number {
   if (!stage?.timer?.interval_hours) return 0;
   
   // In TEST_MODE, all intervals are 1 minute
   if (TEST_MODE) return 1;
   
-  return stage.timer.interval_hours * 60;
+  return stage.timer.interval_hours * 60 / compression;
+}
+
+// Measurement key an input is stored under at this stage (store_as mapping)
+export function getStoredInputKey(stage: RecipeStage | undefined, key: string): string {
+  return stage?.store_as?.[key] || key;
+}
+
+function safeDescribeCondition(expression: string, constants?: Record<string, number>): string {
+  try {
+    return describeCondition(expression, constants);
+  } catch {
+    return expression;
+  }
+}
+
+// Timers and the loop clock stand still while a batch is paused
+export function getTimerReferenceTime(batch: Pick<ProductionBatch, 'status' | 'pausedAt'>): Date {
+  return batch.status === 'paused' && batch.pausedAt ? new Date(batch.pausedAt) : currentTime();
+}
+
+// Time the batch spent paused between `since` and `until`
+export function getPausedMs(batch: ProductionBatch, since: Date, until: Date): number {
+  let total = 0;
+  for (const interval of getPauseIntervals(batch.history)) {
+    const start = Math.max(new Date(interval.start).getTime(), since.getTime());
+    const end = Math.min(interval.end ? new Date(interval.end).getTime() : until.getTime(), until.getTime());
+    if (end > start) total += end - start;
+  }
+  return total;
+}
+
+// When the batch last entered a stage, from batch.history
+export function getStageStartTime(batch: ProductionBatch, stageId: number): Date | null {
+  const history = (batch.history as any[]) || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const entry = history[i];
+    if (entry?.stageId === stageId && entry.action === 'start' && entry.timestamp && !entry.reverted) {
+      return new Date(entry.timestamp);
+    }
+  }
+  return null;
 }
 
-export function getWaitSpecForStage(stageId: number): WaitSpec | null {
-  const stage = recipeManager.getStage(stageId);
+export function getWaitSpecForStage(stageId: number, ref?: RecipeRef, compression: number = 1): WaitSpec | null {
+  const stage = recipeManager.getStage(stageId, ref);
   if (!stage) return null;
 
   if (stage.timer && (stage.timer.duration_min || stage.timer.duration_hours)) {
-    const minutes = getTimerDurationMinutes(stage);
+    const minutes = getTimerDurationMinutes(stage, compression);
     if (minutes > 0) {
       return { seconds: minutes * 60, kind: 'timer', stageName: stage.name };
     }
@@ -423,7 +787,7 @@ export function getWaitSpecForStage(stageId: number): WaitSpec | null {
 
   if (stage.type === 'loop' && stage.max_loop_duration_hours) {
     const hours = stage.max_loop_duration_hours;
-    const seconds = TEST_MODE ? 120 : hours * 3600;
+    const seconds = TEST_MODE ? 120 : hours * 3600 / compression;
     return { seconds, kind: 'loop_timeout', stageName: stage.name };
   }
 
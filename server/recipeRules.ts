@@ -0,0 +1,196 @@
+/**
+ * Stage validation rules declared in recipe YAML, e.g.:
+ *
+ *   validations:
+ *     - rule: "temperature_between(31,33)"
+ *
+ * Rules are parsed (never eval'd) into a function name plus literal arguments.
+ * Supported functions:
+ *   temperature_between(min, max)  current_temperature within [min, max]
+ *   ph_between(min, max)           ph_value within [min, max]
+ *   min(key, value)                measurements[key] >= value
+ *   max(key, value)                measurements[key] <= value
+ *   required(key)                  measurements[key] is present
+ *
+ * Range rules only check values that were registered; use required(key)
+ * to make a measurement mandatory before advancing.
+ */
+
+type RuleArg = number | string;
+
+interface ParsedRule {
+  fn: string;
+  args: RuleArg[];
+}
+
+export interface RuleFailure {
+  rule: string;
+  reason: string;
+}
+
+export interface RuleEvaluation {
+  valid: boolean;
+  failures: RuleFailure[];
+}
+
+const RULE_PATTERN = /^\s*([a-z_]+)\s*\((.*)\)\s*$/i;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+// Speech-friendly subject for each measurement key
+const MEASUREMENT_LABELS: Record<string, string> = {
+  current_temperature: "a temperatura",
+  milk_temperature_c: "a temperatura do leite",
+  milk_ph: "o pH do leite",
+  ph_value: "o pH",
+  initial_ph: "o pH inicial",
+  pieces_quantity: "a quantidade de peças",
+  milk_volume_l: "o volume de leite",
+  flocculation_time: "o horário de floculação",
+  cut_point_time: "o horário do ponto de corte",
+  press_start_time: "o horário da prensa",
+  chamber_2_entry_date: "a data de entrada na câmara dois",
+};
+
+interface RuleDefinition {
+  arity: number;
+  // Measurement key the rule reads, used to match rules to a single input
+  key: (args: RuleArg[]) => string;
+  check: (value: any, args: RuleArg[]) => string | null;
+}
+
+function label(key: string): string {
+  return MEASUREMENT_LABELS[key] || `o valor ${key.replace(/_/g, ' ')}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+const RULES: Record<string, RuleDefinition> = {
+  temperature_between: {
+    arity: 2,
+    key: () => 'current_temperature',
+    check: (value, [min, max]) => {
+      if (isMissing(value)) return null;
+      const v = Number(value);
+      if (v >= Number(min) && v <= Number(max)) return null;
+      return `A temperatura está em ${v} graus, mas deve estar entre ${min} e ${max} graus.`;
+    },
+  },
+  ph_between: {
+    arity: 2,
+    key: () => 'ph_value',
+    check: (value, [min, max]) => {
+      if (isMissing(value)) return null;
+      const v = Number(value);
+      if (v >= Number(min) && v <= Number(max)) return null;
+      return `O pH está em ${v}, mas deve estar entre ${min} e ${max}.`;
+    },
+  },
+  min: {
+    arity: 2,
+    key: ([key]) => String(key),
+    check: (value, [key, min]) => {
+      if (isMissing(value)) return null;
+      if (Number(value) >= Number(min)) return null;
+      return `${capitalize(label(String(key)))} está em ${value}, mas deve ser no mínimo ${min}.`;
+    },
+  },
+  max: {
+    arity: 2,
+    key: ([key]) => String(key),
+    check: (value, [key, max]) => {
+      if (isMissing(value)) return null;
+      if (Number(value) <= Number(max)) return null;
+      return `${capitalize(label(String(key)))} está em ${value}, mas deve ser no máximo ${max}.`;
+    },
+  },
+  required: {
+    arity: 1,
+    key: ([key]) => String(key),
+    check: (value, [key]) => {
+      if (!isMissing(value)) return null;
+      return `Registre ${label(String(key))} antes de continuar.`;
+    },
+  },
+};
+
+export function parseRule(rule: string): ParsedRule | null {
+  const match = rule.match(RULE_PATTERN);
+  if (!match) return null;
+
+  const fn = match[1].toLowerCase();
+  const definition = RULES[fn];
+  if (!definition) return null;
+
+  const rawArgs = match[2].trim() === '' ? [] : match[2].split(',').map(a => a.trim());
+  const args: RuleArg[] = [];
+  for (const raw of rawArgs) {
+    if (NUMBER_PATTERN.test(raw)) {
+      args.push(parseFloat(raw));
+    } else if (IDENTIFIER_PATTERN.test(raw)) {
+      args.push(raw);
+    } else {
+      return null;
+    }
+  }
+
+  if (args.length !== definition.arity) return null;
+  return { fn, args };
+}
+
+function evaluateRules(
+  rules: Array<{ rule: string }>,
+  measurements: Record<string, any>,
+  onlyKey?: string
+): RuleEvaluation {
+  const failures: RuleFailure[] = [];
+
+  for (const { rule } of rules) {
+    const parsed = parseRule(rule);
+    if (!parsed) {
+      console.error(`[RULES] Invalid validation rule ignored: "${rule}"`);
+      continue;
+    }
+    const definition = RULES[parsed.fn];
+    const key = definition.key(parsed.args);
+    if (onlyKey && key !== onlyKey) continue;
+
+    const reason = definition.check(measurements[key], parsed.args);
+    if (reason) failures.push({ rule, reason });
+  }
+
+  return { valid: failures.length === 0, failures };
+}
+
+/**
+ * Evaluate all stage validations against the batch measurements (on advance).
+ */
+export function evaluateStageValidations(
+  validations: Array<{ rule: string }> | undefined,
+  measurements: Record<string, any>
+): RuleEvaluation {
+  return evaluateRules(validations || [], measurements || {});
+}
+
+/**
+ * Evaluate only the validations that read `key`, as if `value` had just been
+ * registered (on input).
+ */
+export function evaluateInputValidations(
+  validations: Array<{ rule: string }> | undefined,
+  key: string,
+  value: any,
+  measurements: Record<string, any>
+): RuleEvaluation {
+  return evaluateRules(validations || [], { ...(measurements || {}), [key]: value }, key);
+}
+
+export function formatRuleFailures(evaluation: RuleEvaluation): string {
+  return evaluation.failures.map(f => f.reason).join(' ');
+}
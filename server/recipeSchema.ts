@@ -0,0 +1,251 @@
+/**
+ * Recipe YAML validation, run by RecipeManager at startup and by
+ * `npm run lint:recipes` (script/lint-recipe.ts) before deploying.
+ *
+ * Shape is checked with zod; then the cross-field rules:
+ *   - stage ids unique and contiguous from 1, in file order
+ *   - stage `type` is a known type
+ *   - `expected_intent` is handled by the Alexa webhook
+ *   - every `operator_input_required` key is stored (stored_values / store_as)
+ *   - dosing modes, timers and stage hooks are well formed
+ *   - conditions (`loop_condition.until`, `next[].when`) and validation rules parse
+ *
+ * Issues carry a path into the YAML, e.g. "stages[14].timer.duration_min".
+ */
+
+import { z } from "zod";
+import { isKnownDosingMode, unitDimension } from "./dosing";
+import { validateCondition } from "./loopConditions";
+import { parseRule } from "./recipeRules";
+
+export interface RecipeIssue {
+  path: string;
+  message: string;
+}
+
+export const STAGE_TYPES = [
+  'add', 'brine', 'cut', 'drain', 'dry', 'heat', 'input', 'loop', 'measure',
+  'mold', 'observe', 'press', 'rest', 'stir', 'store', 'system', 'transfer',
+];
+
+// Custom intents the Alexa webhook handles (server/alexa/registry.ts); a stage can only
+// wait for one of these
+export const WEBHOOK_INTENTS = [
+  'AdvanceStageIntent',
+  'ChangeBatchIntent',
+  'ContinueIntent',
+  'LogTimeIntent',
+  'LogTurningIntent',
+  'ProcessCommandIntent',
+  'RegisterChamberEntryDateIntent',
+  'RegisterMilkPHIntent',
+  'RegisterMilkTemperatureIntent',
+  'RegisterPHAndPiecesIntent',
+  'SelectBatchIntent',
+];
+
+// Inputs the backend stores in a collection instead of under their own key
+const COLLECTION_STORAGE: Record<string, string> = {
+  ph_value: 'ph_measurements[]',
+};
+
+const HOOK_ACTIONS = ['record_timestamp', 'start_timer', 'stop_timers'] as const;
+
+const positive = z.number().positive();
+
+const hookSchema = z.object({
+  action: z.enum(HOOK_ACTIONS),
+  key: z.string().optional(),
+  overwrite: z.boolean().optional(),
+  duration_min: positive.optional(),
+  duration_hours: positive.optional(),
+  duration_param: z.string().optional(),
+  description: z.string().optional(),
+  blocking: z.boolean().optional(),
+});
+
+const dosingSchema = z.object({
+  mode: z.string(),
+  value: z.number().optional(),
+  tiers: z.array(z.object({ up_to_l: positive.optional(), value: z.number() })).optional(),
+  milk_density_kg_l: positive.optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  precision: z.number().int().min(0).optional(),
+  display_unit: z.string().optional(),
+});
+
+const stageSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().min(1),
+  type: z.string(),
+  operator_input_required: z.array(z.string()).optional(),
+  stored_values: z.array(z.string()).optional(),
+  system_actions: z.array(z.string()).optional(),
+  instructions: z.array(z.string()).optional(),
+  timer: z.object({
+    duration_min: positive.optional(),
+    duration_hours: positive.optional(),
+    blocking: z.boolean().optional(),
+    interval_hours: positive.optional(),
+  }).strict().optional(),
+  reminder: z.object({ frequency: z.string() }).optional(),
+  validations: z.array(z.object({ rule: z.string() })).optional(),
+  loop_condition: z.object({ until: z.string() }).optional(),
+  max_loop_duration_hours: positive.optional(),
+  loop_actions: z.array(z.string()).optional(),
+  expected_intent: z.string().optional(),
+  expected_time_type: z.string().optional(),
+  input_prompt: z.string().optional(),
+  next: z.array(z.object({ to: z.number().int(), when: z.string().optional() })).optional(),
+  on_enter: z.array(hookSchema).optional(),
+  on_exit: z.array(hookSchema).optional(),
+  store_as: z.record(z.string()).optional(),
+}).passthrough();
+
+const recipeSchema = z.object({
+  schema_version: z.string(),
+  recipe_id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  process: z.object({
+    target_temperature_c: z.number().optional(),
+    temperature_tolerance_c: z.number().min(0).optional(),
+    target_final_ph: z.number().optional(),
+    maturation_target_days: z.number().int().min(0).optional(),
+    ph_check_interval_min: positive.optional(),
+  }).passthrough().optional(),
+  inputs: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    unit: z.string().min(1),
+    dosing: dosingSchema.optional(),
+  }).passthrough()),
+  stages: z.array(stageSchema).min(1),
+}).passthrough();
+
+type ParsedRecipe = z.infer<typeof recipeSchema>;
+type ParsedStage = z.infer<typeof stageSchema>;
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, part) =>
+    typeof part === 'number' ? `${acc}[${part}]` : (acc ? `${acc}.${part}` : part), '');
+}
+
+function checkStages(recipe: ParsedRecipe, issues: RecipeIssue[]): void {
+  const add = (path: Array<string | number>, message: string) => issues.push({ path: formatPath(path), message });
+  const ids = new Set(recipe.stages.map(s => s.id));
+  const processParams = Object.keys(recipe.process || {});
+
+  recipe.stages.forEach((stage: ParsedStage, i) => {
+    const at = (...rest: Array<string | number>) => ['stages', i, ...rest];
+
+    if (stage.id !== i + 1) {
+      const duplicate = recipe.stages.findIndex(s => s.id === stage.id) !== i;
+      add(at('id'), duplicate
+        ? `duplicate stage id ${stage.id}`
+        : `stage ids must be contiguous from 1: expected ${i + 1}, found ${stage.id}`);
+    }
+
+    if (!STAGE_TYPES.includes(stage.type)) {
+      add(at('type'), `unknown stage type "${stage.type}" (expected one of: ${STAGE_TYPES.join(', ')})`);
+    }
+
+    if (stage.expected_intent && !WEBHOOK_INTENTS.includes(stage.expected_intent)) {
+      add(at('expected_intent'), `intent "${stage.expected_intent}" is not handled by the webhook`);
+    }
+
+    const stored = stage.stored_values || [];
+    (stage.operator_input_required || []).forEach((key, k) => {
+      const storedKey = stage.store_as?.[key] || key;
+      if (!stored.includes(storedKey) && !stored.includes(COLLECTION_STORAGE[key])) {
+        add(at('operator_input_required', k), `input "${key}" has no storage mapping (add "${storedKey}" to stored_values or map it with store_as)`);
+      }
+    });
+
+    if (stage.timer) {
+      const { duration_min, duration_hours, interval_hours } = stage.timer;
+      if (duration_min === undefined && duration_hours === undefined && interval_hours === undefined) {
+        add(at('timer'), 'timer needs duration_min, duration_hours or interval_hours');
+      }
+    }
+
+    for (const hookList of ['on_enter', 'on_exit'] as const) {
+      (stage[hookList] || []).forEach((hook, h) => {
+        if (hook.action === 'record_timestamp' && !hook.key) {
+          add(at(hookList, h, 'key'), 'record_timestamp needs a key');
+        }
+        if (hook.action === 'start_timer') {
+          if (hook.duration_param) {
+            if (!processParams.includes(hook.duration_param)) {
+              add(at(hookList, h, 'duration_param'), `"${hook.duration_param}" is not declared in process`);
+            }
+          } else if (hook.duration_min === undefined && hook.duration_hours === undefined) {
+            add(at(hookList, h), 'start_timer needs duration_min, duration_hours or duration_param');
+          }
+        }
+      });
+    }
+
+    const conditions: Array<[Array<string | number>, string | undefined]> = [
+      [at('loop_condition', 'until'), stage.loop_condition?.until],
+      ...(stage.next || []).map((t, n): [Array<string | number>, string | undefined] => [at('next', n, 'when'), t.when]),
+    ];
+    for (const [path, condition] of conditions) {
+      if (!condition) continue;
+      try {
+        validateCondition(condition);
+      } catch (e) {
+        add(path, (e as Error).message);
+      }
+    }
+
+    (stage.next || []).forEach((t, n) => {
+      if (!ids.has(t.to)) add(at('next', n, 'to'), `transition to unknown stage ${t.to}`);
+    });
+
+    (stage.validations || []).forEach((v, r) => {
+      if (!parseRule(v.rule)) add(at('validations', r, 'rule'), `invalid validation rule "${v.rule}"`);
+    });
+  });
+}
+
+function checkInputs(recipe: ParsedRecipe, issues: RecipeIssue[]): void {
+  recipe.inputs.forEach((input, i) => {
+    const dosing = input.dosing;
+    if (!dosing) return;
+    const path = formatPath(['inputs', i, 'dosing']);
+    if (!isKnownDosingMode(dosing.mode)) {
+      issues.push({ path: `${path}.mode`, message: `unknown dosing mode "${dosing.mode}"` });
+    } else if (dosing.mode === 'tiered') {
+      if (!dosing.tiers?.length) issues.push({ path: `${path}.tiers`, message: 'tiered dosing needs at least one tier' });
+    } else if (dosing.value === undefined) {
+      issues.push({ path: `${path}.value`, message: `dosing mode "${dosing.mode}" needs a value` });
+    }
+    if (dosing.mode === 'percentage' && unitDimension(input.unit) !== 'mass') {
+      issues.push({ path, message: `percentage dosing is a share of the milk mass; unit "${input.unit}" is not a mass (mg, g, kg)` });
+    }
+    if (dosing.min !== undefined && dosing.max !== undefined && dosing.min > dosing.max) {
+      issues.push({ path, message: `min (${dosing.min}) is greater than max (${dosing.max})` });
+    }
+  });
+}
+
+/**
+ * Validates a parsed recipe file. Returns every issue found (empty when valid).
+ */
+export function validateRecipe(raw: unknown): RecipeIssue[] {
+  const parsed = recipeSchema.safeParse(raw);
+  if (!parsed.success) {
+    return parsed.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+  }
+
+  const issues: RecipeIssue[] = [];
+  checkStages(parsed.data, issues);
+  checkInputs(parsed.data, issues);
+  return issues;
+}
+
+export function formatRecipeIssues(source: string, issues: RecipeIssue[]): string {
+  return issues.map(issue => `${source}: ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+}
@@ -1,28 +1,51 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
-import { CHEESE_TYPES, getCheeseTypeName } from "@shared/schema";
-import { recipeManager, getTimerDurationMinutes, getIntervalDurationMinutes, TEST_MODE } from "./recipe";
+import { CHEESE_TYPES, getCheeseTypeName, toMeasurementHistoryEntry, type MeasurementOrigin, type BatchEvent } from "@shared/schema";
+import { recipeManager, getTimerDurationMinutes, getIntervalDurationMinutes, getStoredInputKey, getTimerReferenceTime } from "./recipe";
 import { registerChatRoutes } from "./replit_integrations/chat";
 import { registerImageRoutes } from "./replit_integrations/image";
 import * as batchService from "./batchService";
-import * as speechRenderer from "./speechRenderer";
-import { getApiContext as extractApiContext, cancelAllBatchReminders, scheduleReminderForWait, cancelReminder, type ApiContext, type ScheduledAlert } from "./alexaReminders";
+import { cancelAllBatchReminders } from "./alexaReminders";
 import { z } from "zod";
 import { randomBytes } from "crypto";
-import { logAlexaWebhook, logWebRequest, queryAlexaLogs, queryWebLogs, scheduleDailyPurge, purgeOldLogs } from "./logService";
+import { logWebRequest, queryAlexaLogs, queryWebLogs, scheduleDailyPurge, purgeOldLogs } from "./logService";
 import { findUserByUsername, verifyPassword, createUser, getAllUsers, deleteUser } from "./auth";
-import { verifyAlexaRequest } from "./alexaVerifier";
+import { runSimulation, simulationScriptSchema } from "./simulator";
+import { scheduleMaturationCheck } from "./maturationScheduler";
+import { scheduleJobRunner, toJobNotification } from "./jobScheduler";
+import { now as currentTime } from "./clock";
+import { registerDevRoutes } from "./devRoutes";
+import { scheduleVoiceDialogCleanup } from "./voiceDialog";
+import { scalarValues, changedValues, getBatchStateAt, checkBatchConsistency } from "./batchEvents";
+import { loopExitMessage } from "./alexa/voiceHelpers";
+import { createAlexaWebhook } from "./alexa/webhook";
 
 // Helper to generate unique IDs
 const generateId = () => randomBytes(8).toString('hex');
 
+// Another write changed the batch between our read and write
+function sendVersionConflict(res: Response) {
+  return res.status(409).json({ message: batchService.VERSION_CONFLICT.error, code: batchService.VERSION_CONFLICT.code });
+}
+
+function webOrigin(req: Request): MeasurementOrigin {
+  return { source: "web", operator: req.session?.username ?? null };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   
+  // Make recipe snapshots pinned by existing batches resolvable
+  try {
+    recipeManager.loadSnapshots(await storage.getRecipeSnapshots());
+  } catch (error) {
+    console.error("Failed to load recipe snapshots:", error);
+  }
+
   // Register AI Integrations
   registerChatRoutes(app);
   registerImageRoutes(app);
@@ -108,24 +131,40 @@ export async function registerRoutes(
 
   app.get("/api/recipes/:recipeId", async (req, res) => {
     const { recipeId } = req.params;
-    if (recipeId !== "QUEIJO_NETE") {
+    if (!recipeManager.hasRecipe(recipeId)) {
       return res.status(404).json({ message: "Recipe not found" });
     }
-    const recipe = recipeManager.getRecipeDetail();
+    const recipe = recipeManager.getRecipeDetail(recipeId);
     res.json(recipe);
   });
 
+  // Dry-run a batch through the recipe: in-memory store and virtual clock, nothing is saved
+  app.post("/api/recipes/:recipeId/simulate", async (req, res) => {
+    const { recipeId } = req.params;
+    if (!recipeManager.hasRecipe(recipeId)) {
+      return res.status(404).json({ message: "Recipe not found" });
+    }
+    const parsed = simulationScriptSchema.safeParse({ ...req.body, recipeId });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    res.json(await runSimulation(parsed.data));
+  });
+
   // --- Batch Routes ---
 
   app.post(api.batches.start.path, async (req, res) => {
     try {
-      const { milkVolumeL, milkTemperatureC, milkPh, recipeId } = api.batches.start.input.parse(req.body);
+      const { milkVolumeL, milkTemperatureC, milkPh, recipeId, isTraining } = api.batches.start.input.parse(req.body);
       
       const result = await batchService.startBatch({
         milkVolumeL,
         milkTemperatureC,
         milkPh,
-        recipeId
+        recipeId,
+        isTraining,
+        origin: webOrigin(req)
       });
       
       if (!result.success) {
@@ -143,12 +182,18 @@ export async function registerRoutes(
 
   app.get(api.batches.list.path, async (req, res) => {
     const batches = await storage.getActiveBatches();
-    res.json(batches);
+    res.json(batches.map(b => ({ ...b, stagePath: recipeManager.getStagePath(b) })));
   });
 
-  app.get("/api/batches/completed", async (req, res) => {
-    const batches = await storage.getCompletedBatches();
-    res.json(batches);
+  // Production records only: training batches stay out of reports and exports
+  app.get(api.batches.completed.path, async (req, res) => {
+    const batches = (await storage.getCompletedBatches()).filter(b => !b.isTraining);
+    const rows = await storage.getBatchMeasurements(batches.map(b => b.id));
+    res.json(batches.map(b => ({
+      ...b,
+      stagePath: recipeManager.getStagePath(b),
+      measurementHistory: rows.filter(row => row.batchId === b.id).map(toMeasurementHistoryEntry)
+    })));
   });
 
   app.get("/api/batches/active", async (req, res) => {
@@ -162,7 +207,7 @@ export async function registerRoutes(
     if (!batch) return res.status(404).json({ message: "Batch not found" });
     
     // Enrich timer data with isComplete flag for consistency with /status
-    const now = new Date();
+    const now = getTimerReferenceTime(batch);
     const activeTimers = ((batch.activeTimers as any[]) || []).map(t => ({
       ...t,
       isComplete: new Date(t.endTime) <= now
@@ -170,19 +215,73 @@ export async function registerRoutes(
     
     res.json({
       ...batch,
-      activeTimers
+      activeTimers,
+      stagePath: recipeManager.getStagePath(batch),
+      revertTarget: batchService.getRevertTarget(batch)
     });
   });
 
+  app.get(api.batches.measurements.path, async (req, res) => {
+    const batchId = Number(req.params.id);
+    if (!(await storage.getBatch(batchId))) return res.status(404).json({ message: "Batch not found" });
+    const rows = await storage.getBatchMeasurements([batchId]);
+    res.json(rows.map(toMeasurementHistoryEntry));
+  });
+
+  app.get(api.batches.events.path, async (req, res) => {
+    const batchId = Number(req.params.id);
+    if (!(await storage.getBatch(batchId))) return res.status(404).json({ message: "Batch not found" });
+    res.json(await storage.getBatchEvents(batchId));
+  });
+
+  app.get(api.batches.state.path, async (req, res) => {
+    const parsed = api.batches.state.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    const state = await getBatchStateAt(Number(req.params.id), parsed.data.at);
+    if (!state) return res.status(404).json({ message: "Lote sem eventos até esse momento" });
+    res.json(state);
+  });
+
+  app.get(api.batches.consistency.path, async (req, res) => {
+    const batch = await storage.getBatch(Number(req.params.id));
+    if (!batch) return res.status(404).json({ message: "Batch not found" });
+    res.json(await checkBatchConsistency(batch));
+  });
+
+  app.get(api.measurements.query.path, async (req, res) => {
+    const parsed = api.measurements.query.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    const rows = await storage.findMeasurements(parsed.data);
+    res.json(rows.map(toMeasurementHistoryEntry));
+  });
+
+  // Without `since`, what fired in the last hour
+  app.get(api.notifications.list.path, async (req, res) => {
+    const parsed = api.notifications.list.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join(".") });
+    }
+    const since = parsed.data.since ?? new Date(currentTime().getTime() - 60 * 60 * 1000);
+    const jobs = await storage.getFiredJobs(since);
+    res.json(jobs.map(toJobNotification));
+  });
+
   app.get(api.batches.status.path, async (req, res) => {
     const batch = await storage.getBatch(Number(req.params.id));
     if (!batch) return res.status(404).json({ message: "Batch not found" });
 
-    const stage = recipeManager.getStage(batch.currentStageId);
+    const stage = recipeManager.getStage(batch.currentStageId, batch);
     const activeTimers = (batch.activeTimers as any[]) || [];
     
     // Mark timers as complete but don't remove them (removal happens on advance)
-    const now = new Date();
+    const now = getTimerReferenceTime(batch);
     const timersWithStatus = activeTimers.map(t => ({
       ...t,
       isComplete: new Date(t.endTime) <= now
@@ -202,15 +301,31 @@ export async function registerRoutes(
     });
   });
 
+  // Recipe snapshot the batch was started with
+  app.get("/api/batches/:id/recipe", async (req, res) => {
+    const batch = await storage.getBatch(Number(req.params.id));
+    if (!batch) return res.status(404).json({ message: "Batch not found" });
+
+    res.json(recipeManager.getRecipeDetail(batch));
+  });
+
+  // Calculated doses in each ingredient's display unit
+  app.get("/api/batches/:id/doses", async (req, res) => {
+    const batch = await storage.getBatch(Number(req.params.id));
+    if (!batch) return res.status(404).json({ message: "Batch not found" });
+
+    res.json(recipeManager.getBatchDoses(batch.calculatedInputs as Record<string, number>, batch));
+  });
+
   // Get current stage details
   app.get("/api/batches/:id/stage", async (req, res) => {
     const batch = await storage.getBatch(Number(req.params.id));
     if (!batch) return res.status(404).json({ message: "Batch not found" });
 
-    const stage = recipeManager.getStage(batch.currentStageId);
+    const stage = recipeManager.getStage(batch.currentStageId, batch);
     if (!stage) return res.status(500).json({ message: "Invalid stage" });
 
-    res.json(recipeManager.formatStageDetail(stage));
+    res.json(recipeManager.formatStageDetail(stage, batch));
   });
 
   // --- Operational State Endpoints ---
@@ -219,11 +334,13 @@ export async function registerRoutes(
     const batchId = Number(req.params.id);
     const { reason } = req.body || {};
     
+    // No Alexa API context here: the batch's reminders are marked stale
     const result = await batchService.pauseBatch(batchId, reason);
     
     if (!result.success) {
-      const statusCode = result.error?.includes("not found") ? 404 : 400;
-      return res.status(statusCode).json({ message: result.error });
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
     }
 
     const batch = await storage.getBatch(batchId);
@@ -236,8 +353,9 @@ export async function registerRoutes(
     const result = await batchService.resumeBatch(batchId);
     
     if (!result.success) {
-      const statusCode = result.error?.includes("not found") ? 404 : 400;
-      return res.status(statusCode).json({ message: result.error });
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
     }
 
     const batch = await storage.getBatch(batchId);
@@ -254,17 +372,20 @@ export async function registerRoutes(
       return res.status(400).json({ message: `Batch already ${batch.status}` });
     }
 
-    const updatedBatch = await storage.updateBatch(batchId, {
+    const completedAt = currentTime();
+    const updatedBatch = await batchService.updateIfUnchanged(batch, {
       status: "completed",
-      completedAt: new Date(),
+      completedAt,
       scheduledAlerts: {}
     });
+    if (!updatedBatch) return sendVersionConflict(res);
 
     await storage.logBatchAction({
       batchId,
       stageId: batch.currentStageId,
       action: "complete",
-      details: { completedAt: new Date().toISOString() }
+      details: { completedAt: completedAt.toISOString() },
+      event: { type: "completed", at: completedAt.toISOString() }
     });
 
     res.json(updatedBatch);
@@ -285,30 +406,102 @@ export async function registerRoutes(
       return res.status(400).json({ message: `Cannot cancel batch with status: ${batch.status}` });
     }
 
-    const updatedBatch = await storage.updateBatch(batchId, {
+    const cancelledAt = currentTime();
+    const updatedBatch = await batchService.updateIfUnchanged(batch, {
       status: "cancelled",
-      cancelledAt: new Date(),
+      cancelledAt,
       cancelReason: reason,
       scheduledAlerts: {}
     });
+    if (!updatedBatch) return sendVersionConflict(res);
 
     await storage.logBatchAction({
       batchId,
       stageId: batch.currentStageId,
       action: "cancel",
-      details: { reason }
+      details: { reason },
+      event: { type: "cancelled", at: cancelledAt.toISOString(), reason }
     });
 
     res.json(updatedBatch);
   });
 
+  app.post(api.batches.close.path, async (req, res) => {
+    const batchId = Number(req.params.id);
+    const parsed = api.batches.close.input.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const result = await batchService.closeBatch(batchId, parsed.data.notes);
+    if (!result.success) {
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
+    }
+
+    const batch = await storage.getBatch(batchId);
+    res.json(batch);
+  });
+
+  app.post(api.batches.revert.path, async (req, res) => {
+    const batchId = Number(req.params.id);
+    const parsed = api.batches.revert.input.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const result = await batchService.revertBatchStage(batchId, parsed.data.reason);
+    if (!result.success) {
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
+    }
+
+    res.json(result.batch);
+  });
+
+  // --- Maturation Endpoints ---
+
+  app.get(api.maturation.list.path, async (_req, res) => {
+    res.json(await batchService.getMaturationOverview());
+  });
+
+  app.get(api.maturation.turningDue.path, async (_req, res) => {
+    res.json(await batchService.getTurningDue());
+  });
+
+  app.get(api.maturation.log.path, async (req, res) => {
+    const batch = await storage.getBatch(Number(req.params.id));
+    if (!batch) return res.status(404).json({ message: "Lote não encontrado" });
+    res.json((batch.maturationLog as any[]) || []);
+  });
+
+  app.post(api.maturation.record.path, async (req, res) => {
+    const parsed = api.maturation.record.input.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message, code: "VALIDATION_ERROR" });
+    }
+
+    const result = await batchService.recordMaturationCare(Number(req.params.id), parsed.data.action, {
+      notes: parsed.data.notes,
+      source: "web"
+    });
+    if (!result.success) {
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
+    }
+    res.status(201).json(result.entry);
+  });
+
   // --- Timer and Reminder Endpoints ---
 
   app.get("/api/batches/:id/timers", async (req, res) => {
     const batch = await storage.getBatch(Number(req.params.id));
     if (!batch) return res.status(404).json({ message: "Batch not found" });
 
-    const now = new Date();
+    const now = getTimerReferenceTime(batch);
     const activeTimers = ((batch.activeTimers as any[]) || []).map(t => {
       const endTime = new Date(t.endTime);
       const remainingMs = Math.max(0, endTime.getTime() - now.getTime());
@@ -344,20 +537,33 @@ export async function registerRoutes(
       return res.status(404).json({ message: "Reminder not found" });
     }
 
-    // Mark as acknowledged and calculate next trigger
+    // Acknowledging the daily turning reminder records the turning itself
     const reminder = activeReminders[reminderIndex];
+    if (reminder.action === "turn") {
+      const result = await batchService.recordMaturationCare(batchId, "turn", { source: "web" });
+      if (!result.success) {
+        if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+        return res.status(400).json({ message: result.error, code: result.code });
+      }
+      const updated = await storage.getBatch(batchId);
+      return res.json(((updated?.activeReminders as any[]) || []).find((r: any) => r.id === reminderId));
+    }
+
+    // Mark as acknowledged and calculate next trigger
     reminder.acknowledged = true;
-    reminder.lastAcknowledged = new Date().toISOString();
+    reminder.lastAcknowledged = currentTime().toISOString();
     
     // For interval reminders, calculate next trigger
     if (reminder.intervalHours) {
-      reminder.nextTrigger = new Date(Date.now() + reminder.intervalHours * 3600000).toISOString();
+      reminder.nextTrigger = new Date(currentTime().getTime() + reminder.intervalHours * 3600000).toISOString();
       reminder.acknowledged = false; // Reset for next cycle
     }
 
     activeReminders[reminderIndex] = reminder;
     
-    await storage.updateBatch(batchId, { activeReminders });
+    if (!(await batchService.updateIfUnchanged(batch, { activeReminders }))) {
+      return sendVersionConflict(res);
+    }
     
     await storage.logBatchAction({
       batchId,
@@ -378,7 +584,9 @@ export async function registerRoutes(
     if (!batch) return res.status(404).json({ message: "Batch not found" });
 
     const measurements = (batch.measurements as any) || {};
-    const timestamp = new Date().toISOString();
+    const valuesBefore = scalarValues(measurements);
+    const timestamp = currentTime().toISOString();
+    const entries: any[] = [];
 
     // Store based on type
     if (type === 'ph') {
@@ -390,8 +598,10 @@ export async function registerRoutes(
         
         // Also sync to _history and ph_measurements for consistency
         const inputHistory = measurements._history || [];
-        inputHistory.push({ key: 'ph_value', value, timestamp, stageId: batch.currentStageId });
+        const entry = { key: 'ph_value', value, timestamp, stageId: batch.currentStageId };
+        inputHistory.push(entry);
         measurements._history = inputHistory;
+        entries.push({ ...entry, notes });
         
         const phMeasurements = measurements.ph_measurements || [];
         phMeasurements.push({ value, timestamp, stageId: batch.currentStageId });
@@ -400,23 +610,31 @@ export async function registerRoutes(
         // e.g. flocculation time
         // We need to know WHICH time it is. 
         // For MVP, we'll map the current stage to the expected input
-        const stage = recipeManager.getStage(batch.currentStageId);
-        if (stage?.stored_values?.includes('flocculation_time')) {
-            measurements.flocculation_time = value; // assuming value is string/time
-        } else if (stage?.stored_values?.includes('cut_point_time')) {
-            measurements.cut_point_time = value;
-        } else if (stage?.stored_values?.includes('press_start_time')) {
-            measurements.press_start_time = value;
+        const stage = recipeManager.getStage(batch.currentStageId, batch);
+        const timeKey = ['flocculation_time', 'cut_point_time', 'press_start_time']
+          .find(k => stage?.stored_values?.includes(k));
+        if (timeKey) {
+            measurements[timeKey] = value; // assuming value is string/time
+            entries.push({ key: timeKey, value, notes, timestamp, stageId: batch.currentStageId });
         }
     }
 
-    await storage.updateBatch(batchId, { measurements });
+    if (!(await batchService.updateIfUnchanged(batch, { measurements }))) {
+      return sendVersionConflict(res);
+    }
+    await batchService.recordMeasurements(batchId, entries, webOrigin(req));
     
     await storage.logBatchAction({
         batchId,
         stageId: batch.currentStageId,
         action: "input",
-        details: { type, value, notes }
+        details: { type, value, notes },
+        event: {
+          type: "measurement_recorded",
+          at: timestamp,
+          stageId: batch.currentStageId,
+          values: changedValues(valuesBefore, scalarValues(measurements)).values
+        }
     });
 
     res.json(await storage.getBatch(batchId));
@@ -463,7 +681,7 @@ export async function registerRoutes(
     }
 
     // Validate that the key is expected for current stage
-    const expectedInputs = recipeManager.getExpectedInputsForStage(batch.currentStageId);
+    const expectedInputs = recipeManager.getExpectedInputsForStage(batch.currentStageId, batch);
     if (expectedInputs.length > 0 && !expectedInputs.includes(key)) {
       return res.status(400).json({ 
         message: "Key não esperado para esta etapa",
@@ -474,8 +692,12 @@ export async function registerRoutes(
       });
     }
 
+    // Out-of-range values are stored, but reported back with the rule's reason
+    const validationWarnings = batchService.getInputValidationWarnings(batch, key, value);
+
     const measurements = (batch.measurements as any) || {};
-    const timestamp = new Date().toISOString();
+    const valuesBefore = scalarValues(measurements);
+    const timestamp = currentTime().toISOString();
     const updates: any = {};
 
     // Store the canonical value
@@ -483,14 +705,16 @@ export async function registerRoutes(
     
     // Also store in history array for tracking
     const inputHistory = measurements._history || [];
-    inputHistory.push({ key, value, unit, notes, timestamp, stageId: batch.currentStageId });
+    const historyEntry = { key, value, unit, notes, timestamp, stageId: batch.currentStageId };
+    inputHistory.push(historyEntry);
     measurements._history = inputHistory;
 
-    // Stage 15 pH: delegate to centralized logPh for timer management
-    if (key === 'ph_value' && batch.currentStageId === 15) {
-      const result = await batchService.logPh(batchId, value);
+    // Loop stage pH: delegate to centralized logPh for timer management
+    if (key === 'ph_value' && recipeManager.isLoopStage(batch.currentStageId, batch)) {
+      const result = await batchService.logPh(batchId, value, undefined, webOrigin(req));
       if (!result.success) {
-        return res.status(400).json({ message: result.error, code: "LOG_PH_FAILED" });
+        if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
+        return res.status(400).json({ message: result.error, code: result.code ?? "LOG_PH_FAILED" });
       }
       await storage.logBatchAction({
         batchId,
@@ -499,12 +723,12 @@ export async function registerRoutes(
         details: { key, value, unit, notes }
       });
       const updatedBatch = await storage.getBatch(batchId);
-      const response: any = { ...updatedBatch };
+      const response: any = { ...updatedBatch, validationWarnings };
       response.turning_cycles_count = (updatedBatch as any).turningCyclesCount || 0;
       response.ph_measurements = (updatedBatch?.measurements as any)?.ph_measurements || [];
-      response.next_action = value < 5.3
-        ? "pH abaixo de 5.3 — ideal atingido! Pode avançar para próxima etapa."
-        : "pH ainda acima de 5.3. Continue monitorando.";
+      response.next_action = result.shouldExitLoop
+        ? `${loopExitMessage(result.exitReason)} Pode avançar para próxima etapa.`
+        : `Condição de saída ainda não atingida (${result.exitCondition}). Continue monitorando.`;
       return res.json(response);
     }
 
@@ -520,15 +744,17 @@ export async function registerRoutes(
       measurements.pieces_quantity = value;
     }
 
-    // Store initial_ph (Stage 13)
-    if (key === 'ph_value' && batch.currentStageId === 13) {
-      measurements.initial_ph = value;
+    // Store initial_ph (Stage 13) per the stage's store_as mapping
+    const storedKey = getStoredInputKey(recipeManager.getStage(batch.currentStageId, batch), key);
+    if (storedKey !== key) {
+      measurements[storedKey] = value;
     }
 
     // Handle chamber_2_entry_date (Stage 19) - use centralized function
     if (key === 'chamber_2_entry_date') {
-      const result = await batchService.recordChamber2Entry(batchId, value, { unit, notes });
+      const result = await batchService.recordChamber2Entry(batchId, value, { unit, notes, origin: webOrigin(req) });
       if (!result.success) {
+        if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
         return res.status(400).json({ message: result.error, code: result.code });
       }
       await storage.logBatchAction({
@@ -542,76 +768,121 @@ export async function registerRoutes(
     }
 
     updates.measurements = measurements;
-    await storage.updateBatch(batchId, updates);
+    if (!(await batchService.updateIfUnchanged(batch, updates))) {
+      return sendVersionConflict(res);
+    }
+    await batchService.recordMeasurements(batchId, [historyEntry], webOrigin(req));
     
     await storage.logBatchAction({
       batchId,
       stageId: batch.currentStageId,
       action: "canonical_input",
-      details: { key, value, unit, notes }
+      details: { key, value, unit, notes },
+      event: {
+        type: "measurement_recorded",
+        at: timestamp,
+        stageId: batch.currentStageId,
+        values: changedValues(valuesBefore, scalarValues(measurements)).values
+      }
     });
 
     const updatedBatch = await storage.getBatch(batchId);
-    res.json(updatedBatch);
+    res.json({ ...updatedBatch, validationWarnings });
   });
 
   app.put("/api/batches/:id/measurements", async (req, res) => {
     const batchId = Number(req.params.id);
-    const { key, value, historyIndex, stageId } = req.body;
+    const { key, value, historyIndex, stageId, measurementId } = req.body;
 
     if (!key || value === undefined) {
       return res.status(400).json({ message: "key e value são obrigatórios" });
     }
 
-    const batch = await storage.getBatch(batchId);
-    if (!batch) return res.status(404).json({ message: "Lote não encontrado" });
-
-    const measurements = (batch.measurements as any) || {};
-    const oldValue = measurements[key];
-
-    if (key === "turning_cycles_count") {
-      const numVal = parseInt(value, 10);
-      if (isNaN(numVal) || numVal < 0) {
-        return res.status(400).json({ message: "Valor inválido para quantidade de viradas" });
-      }
-      await storage.updateBatch(batchId, { turningCyclesCount: numVal });
-
-      if (measurements._history) {
-        const history = measurements._history as Array<{ key: string; value: any; stageId: number; timestamp: string }>;
-        const existingIdx = history.findIndex(h => h.key === 'turning_cycles_count');
-        if (existingIdx >= 0) {
-          history[existingIdx].value = numVal;
-          history[existingIdx].timestamp = new Date().toISOString();
-        }
-        await storage.updateBatch(batchId, { measurements });
+    // Edits may name the batch_measurements row instead of the `_history` position
+    const row = measurementId !== undefined ? await storage.getMeasurement(Number(measurementId)) : undefined;
+    if (measurementId !== undefined && (!row || row.batchId !== batchId || row.key !== key)) {
+      return res.status(404).json({ message: "Medição não encontrada", code: "MEASUREMENT_NOT_FOUND" });
+    }
+    let previousTimestamp: string | undefined;
+    let correction: BatchEvent | undefined;
+
+    // The edit is recomputed on the latest row if a voice reading lands meanwhile
+    // (history is append-only, so historyIndex still points at the same entry)
+    const result = await batchService.retryOnConflict<{
+      success: boolean; error?: string; code?: string; oldValue?: any; newValue?: any; currentStageId?: number
+    }>(batchId, (batch) => {
+      if (!batch) return { result: { success: false, error: "Lote não encontrado", code: "BATCH_NOT_FOUND" } };
+      if (batch.batchStatus === "CLOSED") {
+        return { result: { success: false, error: "Lote encerrado não pode ser editado", code: "BATCH_CLOSED" } };
+      }
+
+      const measurements = (batch.measurements as any) || {};
+      const valuesBefore = scalarValues(measurements);
+      const editedAt = currentTime().toISOString();
+      const edited = { success: true, oldValue: measurements[key], newValue: value, currentStageId: batch.currentStageId };
+      const history = (measurements._history || []) as Array<{ key: string; value: any; stageId: number; timestamp: string }>;
+      const editIndex = historyIndex ?? (row
+        ? history.findIndex(h => h.key === key && h.stageId === row.stageId && h.timestamp === row.recordedAt.toISOString())
+        : undefined);
+
+      if (key === "turning_cycles_count") {
+        const numVal = parseInt(value, 10);
+        if (isNaN(numVal) || numVal < 0) {
+          return { result: { success: false, error: "Valor inválido para quantidade de viradas", code: "INVALID_VALUE" } };
+        }
+        const updates: Record<string, any> = { turningCyclesCount: numVal };
+        if (measurements._history) {
+          const existingIdx = history.findIndex(h => h.key === 'turning_cycles_count');
+          if (existingIdx >= 0) {
+            previousTimestamp = history[existingIdx].timestamp;
+            history[existingIdx].value = numVal;
+            history[existingIdx].timestamp = editedAt;
+          }
+          updates.measurements = measurements;
+        }
+        correction = { type: "measurement_corrected", at: editedAt, key, turningCyclesCount: numVal };
+        return { updates, result: { ...edited, oldValue: edited.oldValue ?? batch.turningCyclesCount, newValue: numVal } };
+      }
+
+      if (key === "chamber_2_entry_date") {
+        const entryDate = new Date(value);
+        if (isNaN(entryDate.getTime())) {
+          return { result: { success: false, error: "Data inválida", code: "INVALID_VALUE" } };
+        }
+        const { maturationTargetDays } = recipeManager.getProcessParameters(batch);
+        const matEnd = batchService.getMaturationEndDate(entryDate, maturationTargetDays);
+        // A corrected entry date can move an open lot back to (or out of) maturation
+        const reopensMaturation = batch.batchStatus === "MATURING" || batch.batchStatus === "READY_FOR_SALE";
+        correction = {
+          type: "measurement_corrected",
+          at: editedAt,
+          key,
+          chamber2EntryDate: entryDate.toISOString(),
+          maturationEndDate: matEnd.toISOString(),
+          ...(reopensMaturation && { batchStatus: batchService.getMaturationStatus(matEnd) })
+        };
+        return {
+          updates: {
+            chamber2EntryDate: entryDate,
+            maturationEndDate: matEnd,
+            ...(reopensMaturation && { batchStatus: batchService.getMaturationStatus(matEnd) }),
+          },
+          result: edited
+        };
       }
 
-      await storage.logBatchAction({ batchId, stageId: batch.currentStageId, action: 'edit_measurement', details: { key, oldValue: oldValue ?? batch.turningCyclesCount, newValue: numVal } });
-      const updated = await storage.getBatch(batchId);
-      return res.json(updated);
-    } else if (key === "chamber_2_entry_date") {
-      const entryDate = new Date(value);
-      if (isNaN(entryDate.getTime())) {
-        return res.status(400).json({ message: "Data inválida" });
-      }
-      const matEnd = new Date(entryDate);
-      matEnd.setDate(matEnd.getDate() + 90);
-      await storage.updateBatch(batchId, {
-        chamber2EntryDate: entryDate,
-        maturationEndDate: matEnd,
-      });
-    } else {
-      if (historyIndex !== undefined && measurements._history) {
-        const history = measurements._history as Array<{ key: string; value: any; stageId: number; timestamp: string }>;
-        if (historyIndex >= 0 && historyIndex < history.length && history[historyIndex].key === key) {
-          history[historyIndex].value = value;
-          history[historyIndex].timestamp = new Date().toISOString();
+      if (editIndex !== undefined && measurements._history) {
+        if (editIndex >= 0 && editIndex < history.length && history[editIndex].key === key) {
+          previousTimestamp = history[editIndex].timestamp;
+          history[editIndex].value = value;
+          history[editIndex].timestamp = editedAt;
         }
       }
 
       if (key === "ph_value" || key === "initial_ph") {
-        if (stageId === 13) {
-          measurements.initial_ph = value;
+        const phKey = getStoredInputKey(recipeManager.getStage(stageId, batch), 'ph_value');
+        if (phKey !== 'ph_value') {
+          measurements[phKey] = value;
         }
         measurements[key] = value;
         if (measurements.ph_measurements && stageId) {
@@ -623,15 +894,34 @@ export async function registerRoutes(
         measurements[key] = value;
       }
 
-      await storage.updateBatch(batchId, { measurements });
+      correction = { type: "measurement_corrected", at: editedAt, key, values: changedValues(valuesBefore, scalarValues(measurements)).values };
+      return { updates: { measurements }, result: edited };
+    });
+
+    if (!result.success) {
+      const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : result.code === "VERSION_CONFLICT" ? 409 : 400;
+      return res.status(statusCode).json({ message: result.error, code: result.code });
     }
 
-    await storage.logBatchAction({
-      batchId,
-      stageId: stageId || batch.currentStageId,
-      action: "measurement_edit",
-      details: { key, oldValue, newValue: value, historyIndex },
-    });
+    await batchService.recordMeasurementEdit(batchId, {
+      key,
+      value: result.newValue,
+      stageId: stageId ?? row?.stageId,
+      measurementId: row?.id,
+      previousTimestamp
+    }, webOrigin(req));
+
+    if (key === "turning_cycles_count") {
+      await storage.logBatchAction({ batchId, stageId: result.currentStageId!, action: 'edit_measurement', details: { key, oldValue: result.oldValue, newValue: result.newValue }, event: correction });
+    } else {
+      await storage.logBatchAction({
+        batchId,
+        stageId: stageId || result.currentStageId!,
+        action: "measurement_edit",
+        details: { key, oldValue: result.oldValue, newValue: value, historyIndex },
+        event: correction,
+      });
+    }
 
     const updated = await storage.getBatch(batchId);
     res.json(updated);
@@ -644,6 +934,7 @@ export async function registerRoutes(
     const result = await batchService.advanceBatch(batchId);
     
     if (!result.success) {
+      if (result.code === "VERSION_CONFLICT") return sendVersionConflict(res);
       const statusCode = result.code === "BATCH_NOT_FOUND" ? 404 : 400;
       return res.status(statusCode).json({ 
         message: result.error, 
@@ -655,2275 +946,7 @@ export async function registerRoutes(
   });
   
   // --- Alexa Webhook (ASK-Compliant) ---
-  // This webhook accepts ONLY:
-  // - LaunchRequest: skill opening
-  // - SessionEndedRequest: skill closing
-  // - IntentRequest with ProcessCommandIntent: free-form voice command
-  // The backend interprets the utterance and executes actions - Alexa is just a voice adapter.
-  
-  // Utility function to build Alexa-compliant responses
-  // CRITICAL: NEVER returns empty outputSpeech.text - always has fallback
-  const DEFAULT_FALLBACK_SPEECH = "Tudo bem. Até logo.";
-  const DEFAULT_SESSION_OPEN_FALLBACK = "Não entendi o comando. Pode repetir?";
-  const DEFAULT_REPROMPT = "O que mais posso ajudar?";
-  
-  function buildAlexaResponse(
-    speechText: string, 
-    shouldEndSession: boolean = false, 
-    repromptText?: string,
-    sessionAttributes?: Record<string, any>,
-    card?: any
-  ) {
-    let finalSpeech = speechText?.trim();
-    if (!finalSpeech) {
-      finalSpeech = shouldEndSession ? DEFAULT_FALLBACK_SPEECH : DEFAULT_SESSION_OPEN_FALLBACK;
-    }
-    
-    const response: any = {
-      version: "1.0",
-      response: {
-        outputSpeech: {
-          type: "PlainText",
-          text: finalSpeech
-        },
-        shouldEndSession
-      }
-    };
-    
-    if (card) {
-      response.response.card = card;
-    }
-    
-    if (sessionAttributes && Object.keys(sessionAttributes).length > 0) {
-      response.sessionAttributes = sessionAttributes;
-    }
-    
-    if (!shouldEndSession) {
-      const finalReprompt = repromptText?.trim() || DEFAULT_REPROMPT;
-      response.response.reprompt = {
-        outputSpeech: {
-          type: "PlainText",
-          text: finalReprompt
-        }
-      };
-    }
-    
-    return response;
-  }
-  
-  // Build Alexa Dialog.ElicitSlot response for slot elicitation
-  function buildAlexaElicitSlotResponse(
-    slotToElicit: string,
-    intentName: string,
-    speechText: string,
-    repromptText?: string,
-    currentSlots?: Record<string, any>,
-    sessionAttributes?: Record<string, any>
-  ) {
-    const response: any = {
-      version: "1.0",
-      response: {
-        outputSpeech: {
-          type: "PlainText",
-          text: speechText
-        },
-        shouldEndSession: false,
-        directives: [
-          {
-            type: "Dialog.ElicitSlot",
-            slotToElicit: slotToElicit,
-            updatedIntent: {
-              name: intentName,
-              confirmationStatus: "NONE",
-              slots: {}
-            }
-          }
-        ],
-        reprompt: {
-          outputSpeech: {
-            type: "PlainText",
-            text: repromptText || speechText
-          }
-        }
-      }
-    };
-    
-    if (sessionAttributes && Object.keys(sessionAttributes).length > 0) {
-      response.sessionAttributes = sessionAttributes;
-    }
-    
-    if (currentSlots) {
-      for (const [key, value] of Object.entries(currentSlots)) {
-        response.response.directives[0].updatedIntent.slots[key] = {
-          name: key,
-          value: value?.value,
-          confirmationStatus: "NONE"
-        };
-      }
-    }
-    
-    return response;
-  }
-  
-  // normalizePHValue is now centralized in batchService.ts
-  
-  // Import LLM-based command interpreter
-  const { interpretCommand } = await import("./interpreter.js");
-  
-  // --- Conversational State for Pending Inputs ---
-  // Simple in-memory state keyed by Alexa session ID
-  interface PendingInput {
-    type: "time" | "date" | "number";
-    subType?: string; // flocculation, cut_point, press_start, etc.
-    createdAt: number;
-  }
-  const pendingInputs = new Map<string, PendingInput>();
-  
-  // Clean up old pending inputs (older than 5 minutes)
-  function cleanupPendingInputs() {
-    const now = Date.now();
-    const entries = Array.from(pendingInputs.entries());
-    for (const [sessionId, pending] of entries) {
-      if (now - pending.createdAt > 5 * 60 * 1000) {
-        pendingInputs.delete(sessionId);
-      }
-    }
-  }
-  
-  // --- Deterministic Time Parsing ---
-  // Parses spoken time formats to HH:MM
-  const TIME_WORDS: Record<string, number> = {
-    "zero": 0, "uma": 1, "um": 1, "duas": 2, "dois": 2, "três": 3, "tres": 3,
-    "quatro": 4, "cinco": 5, "seis": 6, "sete": 7, "oito": 8, "nove": 9,
-    "dez": 10, "onze": 11, "doze": 12, "treze": 13, "catorze": 14, "quatorze": 14,
-    "quinze": 15, "dezesseis": 16, "dezessete": 17, "dezoito": 18, "dezenove": 19,
-    "vinte": 20, "trinta": 30, "quarenta": 40, "cinquenta": 50,
-    "meia": 30
-  };
-  
-  function parseSpokenTime(text: string): string | null {
-    const normalized = text.toLowerCase().trim();
-    
-    // Handle "agora" - current time in Brasília timezone (America/Sao_Paulo)
-    if (normalized === "agora") {
-      const now = new Date();
-      const brasiliaTime = now.toLocaleString('pt-BR', { 
-        timeZone: 'America/Sao_Paulo',
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false
-      });
-      return brasiliaTime;
-    }
-    
-    // Handle "15:30" or "15 30" format
-    const numericMatch = normalized.match(/^(\d{1,2})[:\s](\d{2})$/);
-    if (numericMatch) {
-      const hours = parseInt(numericMatch[1], 10);
-      const minutes = parseInt(numericMatch[2], 10);
-      if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
-        return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-      }
-    }
-    
-    // Handle just "15" or "quinze" (assume :00)
-    const singleHourNum = normalized.match(/^(\d{1,2})$/);
-    if (singleHourNum) {
-      const hours = parseInt(singleHourNum[1], 10);
-      if (hours >= 0 && hours <= 23) {
-        return `${String(hours).padStart(2, '0')}:00`;
-      }
-    }
-    
-    // Handle spoken format "quinze trinta", "quinze e trinta", "quinze e meia"
-    const words = normalized.replace(/\s+e\s+/g, ' ').split(/\s+/);
-    let hours = -1;
-    let minutes = 0;
-    
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
-      const value = TIME_WORDS[word];
-      
-      if (value !== undefined) {
-        if (hours === -1) {
-          // First number is hours
-          hours = value;
-          // Check for compound like "vinte e uma"
-          if (i + 1 < words.length && TIME_WORDS[words[i + 1]] !== undefined && TIME_WORDS[words[i + 1]] < 10) {
-            hours += TIME_WORDS[words[i + 1]];
-            i++;
-          }
-        } else {
-          // Second number is minutes
-          minutes = value;
-          // Check for compound like "trinta e cinco"
-          if (i + 1 < words.length && TIME_WORDS[words[i + 1]] !== undefined && TIME_WORDS[words[i + 1]] < 10) {
-            minutes += TIME_WORDS[words[i + 1]];
-          }
-          break;
-        }
-      }
-    }
-    
-    // If we only got hours, check for single word
-    if (hours === -1 && words.length === 1 && TIME_WORDS[words[0]] !== undefined) {
-      hours = TIME_WORDS[words[0]];
-    }
-    
-    if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
-      return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-    }
-    
-    return null;
-  }
-  
-  // Get human-readable time type label
-  function getTimeTypeLabel(timeType: string | undefined): string {
-    switch (timeType) {
-      case 'flocculation': return 'da floculação';
-      case 'cut_point': return 'do ponto de corte';
-      case 'press_start': return 'de início de prensa';
-      default: return 'do evento';
-    }
-  }
-  
-  // Get Portuguese month name
-  function getMonthName(month: number): string {
-    const months = ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 
-                    'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
-    return months[month - 1] || 'mês desconhecido';
-  }
-  
-  // Execute action based on interpreted intent - backend is SOVEREIGN
-  // LLM only interprets, backend decides and executes
-  // IMPORTANT: Uses batchService for ALL operations to ensure consistency with REST API
-  async function executeIntent(
-    command: Awaited<ReturnType<typeof interpretCommand>>,
-    pendingInputReminder?: string,
-    resolvedBatch?: any,
-    apiCtxParam?: ApiContext | null,
-    alexaUserId?: string | null
-  ): Promise<{ speech: string; shouldEndSession: boolean; card?: any }> {
-    
-    const activeBatch = resolvedBatch || await batchService.getActiveBatch();
-    
-    switch (command.intent) {
-      case "start_batch": {
-        const milkVolume = command.entities.volume;
-        const milkTemperature = command.entities.milk_temperature;
-        const milkPh = command.entities.ph_value;
-        
-        if (milkVolume === undefined || milkVolume === null) {
-          return {
-            speech: "Para iniciar um novo lote, diga a quantidade de leite em litros. Por exemplo: 'novo lote com 130 litros'.",
-            shouldEndSession: false
-          };
-        }
-        
-        if (milkTemperature !== undefined && milkTemperature !== null &&
-            milkPh !== undefined && milkPh !== null) {
-          // All 3 provided in one utterance - proceed directly
-        } else {
-          // Multi-turn: volume provided, need temp and/or pH
-          // Return session attributes to trigger guided flow
-          return {
-            speech: `_GUIDED_START_BATCH_`,
-            shouldEndSession: false,
-            guidedDraft: { milk_volume_l: milkVolume, milk_temperature_c: milkTemperature ?? undefined, milk_ph: milkPh ?? undefined }
-          } as any;
-        }
-        
-        const result = await batchService.startBatch({
-          milkVolumeL: milkVolume!,
-          milkTemperatureC: milkTemperature!,
-          milkPh: milkPh!,
-          recipeId: "QUEIJO_NETE"
-        });
-        
-        if (!result.success) {
-          const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
-          const speech = await speechRenderer.renderSpeech(payload);
-          return { speech, shouldEndSession: false };
-        }
-        
-        if (alexaUserId && result.batch?.id) {
-          await storage.setLastActiveBatch(alexaUserId, result.batch.id);
-          console.log(`[start_batch] Persisted activeBatch=${result.batch.id} for user`);
-        }
-        const currentStage = recipeManager.getStage(result.batch.currentStageId || 3);
-        const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "status": {
-        if (!activeBatch) {
-          const payload = speechRenderer.buildErrorPayload(
-            "Não há lote ativo no momento.",
-            undefined
-          );
-          payload.allowedUtterances = ["novo lote com 130 litros"];
-          const speech = await speechRenderer.renderSpeech(payload);
-          return { speech, shouldEndSession: false };
-        }
-        const status = await batchService.getBatchStatus(activeBatch.id);
-        if (!status) {
-          return { speech: "Erro ao obter status.", shouldEndSession: false };
-        }
-        const stage = recipeManager.getStage(status.currentStageId);
-        const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "status", pendingInputReminder);
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "advance": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para avançar.", shouldEndSession: false };
-        }
-
-        if (activeBatch.currentStageId === 13) {
-          const s13 = getStage13EntryPrompt(activeBatch, {});
-          if (s13) {
-            const stage = recipeManager.getStage(13);
-            const speech = `Etapa 13: ${stage?.name || 'Medir pH inicial e registrar quantidade de peças'}.${s13.prompt}`;
-            console.log(`[advance] Already on stage 13, starting guided entry: pending=${s13.newAttrs.pending}`);
-            return { speech, shouldEndSession: false, sessionAttrsOverride: s13.newAttrs };
-          }
-        }
-        
-        const result = await batchService.advanceBatch(activeBatch.id, apiCtxParam);
-        
-        if (!result.success) {
-          const stage = recipeManager.getStage(activeBatch.currentStageId);
-          const payload = speechRenderer.buildErrorPayload(result.error || "Não é possível avançar agora.", stage);
-          const speech = await speechRenderer.renderSpeech(payload);
-          return { speech, shouldEndSession: false };
-        }
-        
-        if (result.completed) {
-          if (alexaUserId) {
-            await storage.clearLastActiveBatch(alexaUserId);
-            console.log(`[advance] Batch completed, cleared persisted activeBatch for user`);
-          }
-          const payload = speechRenderer.buildAdvancePayload(activeBatch, null, true);
-          const speech = await speechRenderer.renderSpeech(payload);
-          return { speech, shouldEndSession: false };
-        }
-        
-        const updatedBatch = result.batch || activeBatch;
-        const nextStage = recipeManager.getStage(result.nextStage?.id || 0);
-
-        if (nextStage?.id === 13) {
-          const s13 = getStage13EntryPrompt(updatedBatch, {});
-          if (s13) {
-            const speech = `Etapa 13: ${nextStage.name}.${s13.prompt}`;
-            console.log(`[advance] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
-            return { speech, shouldEndSession: false, sessionAttrsOverride: s13.newAttrs };
-          }
-        }
-
-        const payload = speechRenderer.buildAdvancePayload(updatedBatch, nextStage, false);
-        let speech = await speechRenderer.renderSpeech(payload);
-        
-        if (result.reminderScheduled && result.waitDurationText) {
-          speech += ` Vou te avisar em ${result.waitDurationText}.`;
-        } else if (result.needsReminderPermission && result.waitDurationText) {
-          speech += ` Esta etapa dura ${result.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-        } else if (result.needsReminderPermission) {
-          speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-        }
-        
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "log_time": {
-        // Time registration is now handled exclusively by LogTimeIntent with AMAZON.TIME slot
-        // Redirect user to use proper time format for reliable recognition
-        return { 
-          speech: "Para registrar horários, diga: 'hora da floculação às quinze e trinta' ou 'hora do corte às 16 horas'. Use o formato com 'às' seguido do horário.", 
-          shouldEndSession: false 
-        };
-      }
-      
-      case "log_date": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para registrar data.", shouldEndSession: false };
-        }
-        const dateValue = command.entities.date_value;
-        const dateType = command.entities.date_type;
-        if (!dateValue) {
-          return { speech: "Não entendi a data. Diga algo como 'coloquei na câmara dois agora'.", shouldEndSession: false };
-        }
-        
-        if (dateType === "chamber_2_entry") {
-          const result = await batchService.recordChamber2Entry(activeBatch.id, dateValue);
-          if (!result.success) {
-            return { speech: result.error || "Erro ao registrar data.", shouldEndSession: false };
-          }
-          return { speech: `Data de entrada na câmara dois ${dateValue} registrada. Maturação termina em 90 dias.`, shouldEndSession: false };
-        }
-        
-        return { speech: "Tipo de data não reconhecido.", shouldEndSession: false };
-      }
-      
-      case "log_number": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para registrar valor.", shouldEndSession: false };
-        }
-        const numberValue = command.entities.number_value;
-        const numberType = command.entities.number_type;
-        if (numberValue === undefined || numberValue === null) {
-          return { speech: "Não entendi o valor. Diga algo como 'o pH é cinco ponto dois' ou 'tem doze peças'.", shouldEndSession: false };
-        }
-        
-        if (numberType === "ph_value") {
-          if (activeBatch.currentStageId === 15) {
-            console.log(`[log_number] Redirecting pH registration at stage 15`);
-            return { speech: "Na etapa de viradas, diga: 'pH cinco vírgula dois'.", shouldEndSession: false };
-          }
-          const result = await batchService.logPh(activeBatch.id, numberValue);
-          if (!result.success) {
-            return { speech: result.error || "Erro ao registrar pH.", shouldEndSession: false };
-          }
-          return { speech: `pH ${numberValue} registrado com sucesso.`, shouldEndSession: false };
-        }
-        
-        if (numberType === "pieces_quantity") {
-          const measurements = (activeBatch.measurements as Record<string, any>) || {};
-          measurements["pieces_quantity"] = numberValue;
-          await storage.updateBatch(activeBatch.id, { measurements });
-          return { speech: `Quantidade de ${numberValue} peças registrada.`, shouldEndSession: false };
-        }
-        
-        if (numberType === "milk_temperature") {
-          const normalizedTemp = batchService.normalizeTemperatureValue(numberValue);
-          if (normalizedTemp === null) {
-            return { speech: `Temperatura ${numberValue} não parece válida. Diga um valor entre 0 e 50 graus.`, shouldEndSession: false };
-          }
-          const measurements = (activeBatch.measurements as Record<string, any>) || {};
-          measurements["current_temperature"] = normalizedTemp;
-          await storage.updateBatch(activeBatch.id, { measurements });
-          return { speech: `Temperatura ${normalizedTemp} graus registrada.`, shouldEndSession: false };
-        }
-        
-        return { speech: "Tipo de valor não reconhecido.", shouldEndSession: false };
-      }
-      
-      case "pause": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para pausar.", shouldEndSession: false };
-        }
-        
-        // FIXED: Now uses batchService for consistent state management
-        const result = await batchService.pauseBatch(activeBatch.id);
-        if (!result.success) {
-          return { speech: result.error || "Erro ao pausar lote.", shouldEndSession: false };
-        }
-        return { speech: "Lote pausado. Diga 'quero retomar' quando quiser continuar.", shouldEndSession: false };
-      }
-      
-      case "resume": {
-        if (!activeBatch) {
-          return { speech: "Não há lote para retomar.", shouldEndSession: false };
-        }
-        
-        // FIXED: Now uses batchService for consistent state management
-        const result = await batchService.resumeBatch(activeBatch.id);
-        if (!result.success) {
-          return { speech: result.error || "Erro ao retomar lote.", shouldEndSession: false };
-        }
-        return { speech: "Lote retomado. Continuando de onde paramos.", shouldEndSession: false };
-      }
-      
-      case "instructions": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo.", shouldEndSession: false };
-        }
-        const stage = recipeManager.getStage(activeBatch.currentStageId);
-        if (!stage) {
-          return { speech: "Etapa não encontrada.", shouldEndSession: false };
-        }
-        const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "instructions", pendingInputReminder);
-        if (stage.llm_guidance) {
-          payload.notes = payload.notes 
-            ? `${payload.notes} Dica: ${stage.llm_guidance}` 
-            : `Dica: ${stage.llm_guidance}`;
-        }
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "timer": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo.", shouldEndSession: false };
-        }
-        
-        // FIXED: Now reads timers from batchService which are created by advance
-        const status = await batchService.getBatchStatus(activeBatch.id);
-        if (!status) {
-          return { speech: "Erro ao obter status.", shouldEndSession: false };
-        }
-        
-        const activeTimer = status.activeTimers.find(t => !t.isComplete);
-        if (!activeTimer) {
-          return { speech: "Não há timer ativo no momento.", shouldEndSession: false };
-        }
-        
-        const remaining = Math.ceil(activeTimer.remainingSeconds / 60);
-        if (remaining > 60) {
-          const hours = Math.floor(remaining / 60);
-          const mins = remaining % 60;
-          return { speech: `Faltam ${hours} horas e ${mins} minutos no timer.`, shouldEndSession: false };
-        }
-        return { speech: `Faltam ${remaining} minutos no timer.`, shouldEndSession: false };
-      }
-      
-      case "query_input": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para consultar insumos.", shouldEndSession: false };
-        }
-        
-        const inputType = command.entities.input_type;
-        if (!inputType) {
-          return { speech: "Qual insumo você quer consultar? LR, DX, KL ou coalho?", shouldEndSession: false };
-        }
-        
-        const calculatedInputs = activeBatch.calculatedInputs as Record<string, number> | null;
-        if (!calculatedInputs) {
-          return { speech: "Os insumos ainda não foram calculados para este lote.", shouldEndSession: false };
-        }
-        
-        const value = calculatedInputs[inputType];
-        if (value === undefined) {
-          const inputNames: Record<string, string> = {
-            "FERMENT_LR": "fermento LR",
-            "FERMENT_DX": "fermento DX",
-            "FERMENT_KL": "fermento KL",
-            "RENNET": "coalho"
-          };
-          return { speech: `O insumo ${inputNames[inputType] || inputType} não foi encontrado.`, shouldEndSession: false };
-        }
-        
-        const payload = speechRenderer.buildQueryInputPayload(inputType, value);
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "repeat_doses": {
-        if (!activeBatch) {
-          return { speech: "Não há lote ativo para consultar as doses.", shouldEndSession: false };
-        }
-        const payload = speechRenderer.buildRepeatDosesPayload(activeBatch);
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "help": {
-        const stage = activeBatch ? recipeManager.getStage(activeBatch.currentStageId) : undefined;
-        const payload = speechRenderer.buildHelpPayload(stage, activeBatch);
-        const speech = await speechRenderer.renderSpeech(payload);
-        return { speech, shouldEndSession: false };
-      }
-      
-      case "goodbye": {
-        return { speech: "Até logo! Bom trabalho na queijaria.", shouldEndSession: true };
-      }
-      
-      case "unknown":
-      default: {
-        return {
-          speech: "Não entendi o comando. Diga 'ajuda' para ver as opções disponíveis.",
-          shouldEndSession: false
-        };
-      }
-    }
-  }
-
-  function formatDatePtBr(isoDateStr: string): string {
-    try {
-      const date = new Date(isoDateStr);
-      const day = date.getUTCDate();
-      const month = date.getUTCMonth() + 1;
-      return `${day} de ${getMonthName(month)}`;
-    } catch {
-      return isoDateStr;
-    }
-  }
-
-  async function getActiveBatchForUser(userId: string) {
-    const lastId = await storage.getLastActiveBatch(userId);
-    if (!lastId) return null;
-    const batch = await batchService.getBatch(lastId);
-    if (!batch) return null;
-    if (batch.status !== "active" && (batch.status as string) !== "in_progress") {
-      await storage.clearLastActiveBatch(userId);
-      return null;
-    }
-    return batch;
-  }
-
-  async function resolveActiveBatch(userId: string | null, sessionActiveBatchId?: number | null) {
-    if (sessionActiveBatchId) {
-      const batch = await batchService.getBatch(sessionActiveBatchId);
-      if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
-        console.log(`[resolveActiveBatch] Using session activeBatchId=${batch.id} stage=${batch.currentStageId}`);
-        return batch;
-      }
-    }
-    if (userId) {
-      const lastBatchId = await storage.getLastActiveBatch(userId);
-      if (lastBatchId) {
-        const batch = await batchService.getBatch(lastBatchId);
-        if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
-          console.log(`[resolveActiveBatch] Using persisted batch id=${batch.id} stage=${batch.currentStageId} for user=${userId.substring(0, 20)}...`);
-          return batch;
-        }
-        console.log(`[resolveActiveBatch] Persisted batch id=${lastBatchId} not active, clearing for user=${userId.substring(0, 20)}...`);
-        await storage.clearLastActiveBatch(userId);
-      }
-    }
-    const batch = await batchService.getActiveBatch();
-    if (batch) {
-      console.log(`[resolveActiveBatch] Fallback to first active batch id=${batch.id} stage=${batch.currentStageId}`);
-    }
-    return batch;
-  }
-
-  function getStage13EntryPrompt(batch: any, sessionAttrs: Record<string, any>): { prompt: string; reprompt: string; newAttrs: Record<string, any> } | null {
-    if (batch.currentStageId !== 13) return null;
-    const measurements = (batch.measurements as any) || {};
-    const existingPh = measurements.initial_ph;
-    const existingPieces = measurements.pieces_quantity;
-
-    if (existingPh === undefined) {
-      return {
-        prompt: " Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.",
-        reprompt: "Qual o pH inicial?",
-        newAttrs: { ...sessionAttrs, pending: "STAGE13_PH" },
-      };
-    }
-    if (existingPieces === undefined) {
-      return {
-        prompt: ` pH ${existingPh} já registrado. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
-        reprompt: "Quantas peças?",
-        newAttrs: { ...sessionAttrs, pending: "STAGE13_PIECES" },
-      };
-    }
-    return null;
-  }
-
-  function buildStage15Context(batch: any): string {
-    if (batch.currentStageId !== 15) return '';
-    
-    const parts: string[] = [];
-    const turningCycles = (batch as any).turningCyclesCount || 0;
-    const measurements = (batch.measurements as any) || {};
-    const phMeasurements = measurements.ph_measurements || [];
-    const lastPh = phMeasurements.length > 0 ? phMeasurements[phMeasurements.length - 1].value : null;
-    
-    if (turningCycles > 0) {
-      parts.push(`${turningCycles} virada${turningCycles > 1 ? 's' : ''} feita${turningCycles > 1 ? 's' : ''}`);
-    }
-    if (lastPh !== null) {
-      parts.push(`último pH: ${lastPh}`);
-    }
-    
-    const activeTimers = (batch.activeTimers as any[]) || [];
-    const stage15Timer = activeTimers.find((t: any) => t.stageId === 15);
-    if (stage15Timer?.endTime) {
-      const remainingMs = new Date(stage15Timer.endTime).getTime() - Date.now();
-      if (remainingMs > 0) {
-        const remainingMin = Math.ceil(remainingMs / 60000);
-        if (remainingMin >= 60) {
-          const hours = Math.floor(remainingMin / 60);
-          const mins = remainingMin % 60;
-          parts.push(mins > 0 ? `faltam ${hours} hora${hours > 1 ? 's' : ''} e ${mins} minutos para medir o pH` : `falta ${hours} hora${hours > 1 ? 's' : ''} para medir o pH`);
-        } else {
-          parts.push(`faltam ${remainingMin} minuto${remainingMin > 1 ? 's' : ''} para medir o pH`);
-        }
-      } else {
-        parts.push('já passou o tempo de medir o pH');
-      }
-    }
-    
-    let context = '';
-    if (parts.length > 0) {
-      context = ' ' + parts.join(', ') + '.';
-    }
-    context += " Informe o pH dizendo: 'pH é X ponto X'.";
-    return context;
-  }
-
-  async function buildBatchSelectionMenu(sessionAttrs: Record<string, any>): Promise<{ speechText: string; repromptText: string; newSessionAttrs: Record<string, any> }> {
-    const batches = await batchService.listInProgressBatches();
-    console.log(`[BATCH_MENU] count=${batches.length}`);
-
-    if (batches.length === 0) {
-      return {
-        speechText: "Olá, não temos lotes em andamento. Para iniciar um novo lote, diga apenas a quantidade de leite. Por exemplo: 'novo lote com 130 litros'. Eu vou perguntar a temperatura e o pH depois.",
-        repromptText: "Diga 'novo lote com 130 litros' para começar.",
-        newSessionAttrs: { ...sessionAttrs, activeBatchId: undefined, state: undefined, batchChoices: undefined },
-      };
-    }
-
-    if (batches.length === 1) {
-      const b = batches[0];
-      const dateStr = formatDatePtBr(b.startedAt);
-      let stageCtx = '';
-      let baseAttrs: Record<string, any> = { ...sessionAttrs, activeBatchId: b.batchId, state: undefined, batchChoices: undefined };
-      let reprompt = "O que deseja fazer?";
-
-      if (b.currentStageId === 15) {
-        const fullBatch = await batchService.getBatch(b.batchId);
-        if (fullBatch) stageCtx = buildStage15Context(fullBatch);
-        reprompt = "Informe o pH ou diga 'qual é o status'.";
-      } else if (b.currentStageId === 13) {
-        const fullBatch = await batchService.getBatch(b.batchId);
-        if (fullBatch) {
-          const s13 = getStage13EntryPrompt(fullBatch, baseAttrs);
-          if (s13) {
-            stageCtx = s13.prompt;
-            baseAttrs = s13.newAttrs;
-            reprompt = s13.reprompt;
-            console.log(`[BATCH_MENU] Single batch stage 13 guided entry: pending=${s13.newAttrs.pending}`);
-          }
-        }
-      }
-
-      return {
-        speechText: `Beleza, vamos continuar o lote do ${b.recipeName} iniciado em ${dateStr}. Você está na etapa ${b.currentStageId}: ${b.currentStageName}.${stageCtx}`,
-        repromptText: reprompt,
-        newSessionAttrs: baseAttrs,
-      };
-    }
-
-    const batchChoices = batches.map((b, idx) => ({
-      optionNumber: idx + 1,
-      batchId: b.batchId,
-      recipeName: b.recipeName,
-      startedAt: b.startedAt,
-      currentStageId: b.currentStageId,
-      currentStageName: b.currentStageName,
-    }));
-
-    const optionsList = batchChoices.map(c => {
-      const dateStr = formatDatePtBr(c.startedAt);
-      return `Opção ${c.optionNumber}: ${c.recipeName}, iniciado em ${dateStr}, etapa ${c.currentStageId}: ${c.currentStageName}.`;
-    }).join(' ');
-
-    const repromptOptions = batchChoices.map(c => `'opção ${c.optionNumber}'`).join(', ');
-
-    return {
-      speechText: `Olá, temos ${batches.length} lotes em andamento. ${optionsList} Qual opção você quer continuar?`,
-      repromptText: `Diga ${repromptOptions}.`,
-      newSessionAttrs: { ...sessionAttrs, state: "AWAITING_BATCH_SELECTION", batchChoices },
-    };
-  }
-
-  app.post("/api/alexa/webhook", async (req, res) => {
-    const webhookStartTime = Date.now();
-
-    const verification = await verifyAlexaRequest(
-      req.headers["signaturecertchainurl"] as string | undefined,
-      (req.headers["signature-256"] || req.headers["signature"]) as string | undefined,
-      req.rawBody as Buffer,
-      req.body,
-      process.env.ALEXA_SKILL_ID
-    );
-    if (!verification.valid) {
-      console.log(`[ALEXA_VERIFY] Rejected: ${verification.reason}`);
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    const origJson = res.json.bind(res);
-    let capturedSpeech: string | undefined;
-    let errorLogged = false;
-    res.json = function(body: any) {
-      capturedSpeech = body?.response?.outputSpeech?.ssml || body?.response?.outputSpeech?.text;
-      return origJson(body);
-    } as any;
-    try {
-      const alexaRequest = req.body;
-      const requestType = alexaRequest?.request?.type;
-      const sessionAttributes: Record<string, any> = alexaRequest?.session?.attributes || {};
-      const apiCtx = extractApiContext(alexaRequest);
-      const userId: string | null = alexaRequest?.context?.System?.user?.userId || null;
-      console.log(`[ALEXA_REQ] type=${requestType} apiCtx=${apiCtx ? 'present' : 'NULL'} userId=${userId ? userId.substring(0, 20) + '...' : 'NULL'}`);
-      
-      const intentName = alexaRequest?.request?.intent?.name || requestType;
-      const slots = alexaRequest?.request?.intent?.slots || {};
-      const batchIdForLog = sessionAttributes.activeBatchId || null;
-      const stageIdForLog = sessionAttributes.currentStageId || null;
-      
-      res.on("finish", () => {
-        if (errorLogged) return;
-        logAlexaWebhook({
-          alexaUserId: userId || undefined,
-          intentName,
-          stageId: stageIdForLog,
-          batchId: batchIdForLog,
-          requestType,
-          slots,
-          sessionAttributes,
-          responseSpeech: capturedSpeech,
-          durationMs: Date.now() - webhookStartTime,
-        });
-      });
-      
-      // --- LaunchRequest: Intelligent skill opening ---
-      if (requestType === "LaunchRequest") {
-        if (userId) {
-          const lastBatchId = await storage.getLastActiveBatch(userId);
-          if (lastBatchId) {
-            const batch = await batchService.getBatch(lastBatchId);
-            if (batch && (batch.status === "active" || (batch.status as string) === "in_progress")) {
-              const stage = recipeManager.getStage(batch.currentStageId);
-              const recipeName = recipeManager.getRecipeName();
-              const stage15Ctx = buildStage15Context(batch);
-              let stageHint = '';
-              if (batch.currentStageId === 13) {
-                const measurements = (batch.measurements as any) || {};
-                if (measurements.initial_ph === undefined) {
-                  stageHint = ' Ao continuar, vou pedir o pH inicial.';
-                } else if (measurements.pieces_quantity === undefined) {
-                  stageHint = ` pH ${measurements.initial_ph} já registrado. Ao continuar, vou pedir a quantidade de peças.`;
-                }
-              }
-              const speechText = `Etapa ${batch.currentStageId} do ${recipeName}: ${stage?.name || 'em andamento'}.${stage15Ctx}${stageHint} Continuar ou trocar de lote?`;
-              console.log(`[LaunchRequest] Resuming persisted batch=${batch.id} stage=${batch.currentStageId} for user=${userId.substring(0, 20)}...`);
-              let launchReprompt = "Diga 'continuar' ou 'trocar lote'.";
-              if (batch.currentStageId === 15) launchReprompt = "Informe o pH ou diga 'continuar' ou 'trocar lote'.";
-              else if (batch.currentStageId === 13) launchReprompt = "Diga 'continuar' para informar o pH, ou 'trocar lote'.";
-              return res.status(200).json(buildAlexaResponse(
-                speechText,
-                false,
-                launchReprompt,
-                { activeBatchId: batch.id, state: "CONFIRM_CONTINUE_OR_SWITCH" }
-              ));
-            } else {
-              await storage.clearLastActiveBatch(userId);
-              console.log(`[LaunchRequest] Persisted batch=${lastBatchId} no longer active, cleared.`);
-            }
-          }
-        }
-        const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
-        console.log(`[LaunchRequest] No persisted batch, showing menu. activeBatchId=${newSessionAttrs.activeBatchId || 'none'} state=${newSessionAttrs.state || 'none'}`);
-        if (userId && newSessionAttrs.activeBatchId) {
-          await storage.setLastActiveBatch(userId, newSessionAttrs.activeBatchId);
-        }
-        return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
-      }
-      
-      // --- SessionEndedRequest: Skill closing ---
-      // Session already ended by Alexa - return minimal response without speech
-      // This happens when: user is silent, timeout, error, or external close
-      if (requestType === "SessionEndedRequest") {
-        return res.status(200).json({
-          version: "1.0",
-          response: {}
-        });
-      }
-      
-      // --- IntentRequest: Process voice command ---
-      if (requestType === "IntentRequest") {
-        const intent = alexaRequest?.request?.intent;
-        const intentName = intent?.name;
-        const slots = intent?.slots || {};
-        const dialogState = alexaRequest?.request?.dialogState || 'N/A';
-        
-        const sessionBatchId = sessionAttributes?.activeBatchId ? Number(sessionAttributes.activeBatchId) : null;
-        const activeBatchResolved = await resolveActiveBatch(userId, sessionBatchId);
-        const stageForLog = activeBatchResolved?.currentStageId || 'no-batch';
-        if (activeBatchResolved) {
-          console.log(`[ACTIVE_BATCH] activeBatchId=${activeBatchResolved.id} stage=${stageForLog}`);
-        }
-        
-        console.log(`[ALEXA_REQ] intent=${intentName} stage=${stageForLog} activeBatchId=${activeBatchResolved?.id || 'none'} dialogState=${dialogState} slots=${JSON.stringify(Object.fromEntries(Object.entries(slots).map(([k, v]: [string, any]) => [k, v?.value || '?'])))}`);
-        
-        // --- ContinueIntent / AMAZON.YesIntent: Continue with active batch ---
-        if (intentName === "ContinueIntent" || intentName === "AMAZON.YesIntent") {
-          const activeBatch = userId ? await getActiveBatchForUser(userId) : activeBatchResolved;
-          if (activeBatch) {
-            console.log(`[${intentName}] Continuing with batch=${activeBatch.id} stage=${activeBatch.currentStageId}`);
-            const baseAttrs = { ...sessionAttributes, activeBatchId: activeBatch.id, state: undefined };
-
-            if (activeBatch.currentStageId === 13) {
-              const s13 = getStage13EntryPrompt(activeBatch, baseAttrs);
-              if (s13) {
-                const recipeName = recipeManager.getRecipeName();
-                const stage = recipeManager.getStage(activeBatch.currentStageId);
-                const speech = `Continuando o lote. Etapa 13: ${stage?.name || 'Medir pH inicial e registrar quantidade de peças'}.${s13.prompt}`;
-                console.log(`[${intentName}] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
-                return res.status(200).json(buildAlexaResponse(speech, false, s13.reprompt, s13.newAttrs));
-              }
-            }
-
-            const stage = recipeManager.getStage(activeBatch.currentStageId);
-            const payload = speechRenderer.buildStatusPayload(activeBatch, stage, "status");
-            const speech = await speechRenderer.renderSpeech(payload);
-            return res.status(200).json(buildAlexaResponse(
-              speech,
-              false,
-              "O que deseja fazer?",
-              baseAttrs
-            ));
-          }
-          console.log(`[${intentName}] No active batch found, showing menu`);
-          const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
-          return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
-        }
-
-        // --- ChangeBatchIntent / AMAZON.NoIntent: Switch to different batch ---
-        if (intentName === "ChangeBatchIntent" || intentName === "AMAZON.NoIntent") {
-          console.log(`[${intentName}] Showing batch selection menu`);
-          const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
-          return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
-        }
-
-        // --- SelectBatchIntent: Batch selection from multi-batch list ---
-        if (intentName === "SelectBatchIntent") {
-          const optionSlot = slots.option_number?.value || slots.optionNumber?.value;
-          const optionNumber = optionSlot ? parseInt(optionSlot, 10) : NaN;
-          
-          console.log(`[SelectBatchIntent] optionNumber=${optionNumber} state=${sessionAttributes?.state || 'none'}`);
-          
-          if (sessionAttributes?.state !== "AWAITING_BATCH_SELECTION" || !sessionAttributes?.batchChoices) {
-            return res.status(200).json(buildAlexaResponse(
-              "Para trocar de lote, diga 'trocar lote'.",
-              false,
-              "Diga 'trocar lote' para ver os lotes disponíveis.",
-              sessionAttributes
-            ));
-          }
-          
-          const choices = sessionAttributes.batchChoices as Array<{ optionNumber: number; batchId: number; recipeName: string; startedAt: string; currentStageId: number; currentStageName: string }>;
-          
-          if (isNaN(optionNumber) || optionNumber < 1 || optionNumber > choices.length) {
-            const validRange = choices.map(c => `'opção ${c.optionNumber}'`).join(', ');
-            return res.status(200).json(buildAlexaResponse(
-              `Opção inválida. Escolha entre: ${validRange}.`,
-              false,
-              `Diga ${validRange}.`,
-              sessionAttributes
-            ));
-          }
-          
-          const selected = choices.find(c => c.optionNumber === optionNumber)!;
-          const dateStr = formatDatePtBr(selected.startedAt);
-          
-          if (userId) {
-            await storage.setLastActiveBatch(userId, selected.batchId);
-            console.log(`[SelectBatchIntent] Persisted activeBatch=${selected.batchId} for user=${userId.substring(0, 20)}...`);
-          }
-          
-          const newSessionAttrs = { ...sessionAttributes, activeBatchId: selected.batchId, state: undefined, batchChoices: undefined };
-          
-          let stageCtx = '';
-          let finalAttrs = newSessionAttrs;
-          let repromptText = "O que deseja fazer?";
-
-          if (selected.currentStageId === 15) {
-            const fullBatch = await batchService.getBatch(selected.batchId);
-            if (fullBatch) stageCtx = buildStage15Context(fullBatch);
-            repromptText = "Informe o pH ou diga 'qual é o status'.";
-          } else if (selected.currentStageId === 13) {
-            const fullBatch = await batchService.getBatch(selected.batchId);
-            if (fullBatch) {
-              const s13 = getStage13EntryPrompt(fullBatch, newSessionAttrs);
-              if (s13) {
-                stageCtx = s13.prompt;
-                finalAttrs = s13.newAttrs;
-                repromptText = s13.reprompt;
-                console.log(`[BATCH_SELECT] Stage 13 guided entry: pending=${s13.newAttrs.pending}`);
-              }
-            }
-          }
-          
-          const speech = `Beleza, vamos continuar o lote do ${selected.recipeName} iniciado em ${dateStr}. Você está na etapa ${selected.currentStageId}: ${selected.currentStageName}.${stageCtx}`;
-          console.log(`[BATCH_SELECT] option=${optionNumber} batchId=${selected.batchId}`);
-          
-          return res.status(200).json(buildAlexaResponse(
-            speech,
-            false,
-            repromptText,
-            finalAttrs
-          ));
-        }
-        
-        // Handle Amazon built-in intents
-        if (intentName === "AMAZON.CancelIntent" || intentName === "AMAZON.StopIntent") {
-          return res.status(200).json(buildAlexaResponse("Até logo! Bom trabalho na queijaria.", true));
-        }
-        
-        if (intentName === "AMAZON.HelpIntent") {
-          const activeBatch = activeBatchResolved;
-          const stage = activeBatch ? recipeManager.getStage(activeBatch.currentStageId) : undefined;
-          const payload = speechRenderer.buildHelpPayload(stage, activeBatch);
-          const speech = await speechRenderer.renderSpeech(payload);
-          return res.status(200).json(buildAlexaResponse(speech, false, "Diga um comando.", sessionAttributes));
-        }
-        
-        if (intentName === "AMAZON.FallbackIntent") {
-          // Handle guided start batch pending states
-          if (sessionAttributes?.pending === "START_BATCH_TEMP") {
-            console.log(`[FallbackIntent] In START_BATCH_TEMP state, re-prompting for temperature`);
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi. Diga a temperatura do leite em graus. Por exemplo: '32 graus'.",
-              false,
-              "Qual a temperatura do leite?",
-              sessionAttributes
-            ));
-          }
-          if (sessionAttributes?.pending === "START_BATCH_PH") {
-            console.log(`[FallbackIntent] In START_BATCH_PH state, re-prompting for pH`);
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi. Diga o pH do leite. Por exemplo: 'pH seis vírgula cinco'.",
-              false,
-              "Qual o pH do leite?",
-              sessionAttributes
-            ));
-          }
-          if (sessionAttributes?.pending === "STAGE13_PH") {
-            console.log(`[FallbackIntent] In STAGE13_PH state, re-prompting for pH`);
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi. Diga o pH inicial. Por exemplo: 'pH cinco vírgula dois'.",
-              false,
-              "Qual o pH inicial?",
-              sessionAttributes
-            ));
-          }
-          if (sessionAttributes?.pending === "STAGE13_PIECES") {
-            console.log(`[FallbackIntent] In STAGE13_PIECES state, re-prompting for pieces`);
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
-              false,
-              "Quantas peças?",
-              sessionAttributes
-            ));
-          }
-          if (sessionAttributes?.state === "CONFIRM_CONTINUE_OR_SWITCH") {
-            console.log(`[FallbackIntent] In CONFIRM_CONTINUE_OR_SWITCH state, prompting user`);
-            return res.status(200).json(buildAlexaResponse(
-              "Diga 'continuar' para seguir com o lote atual, ou 'trocar lote' para ver outros lotes.",
-              false,
-              "Diga 'continuar' ou 'trocar lote'.",
-              sessionAttributes
-            ));
-          }
-          if (sessionAttributes?.state === "AWAITING_BATCH_SELECTION") {
-            const choices = sessionAttributes.batchChoices as Array<{ optionNumber: number }> | undefined;
-            const validRange = choices?.map(c => `'opção ${c.optionNumber}'`).join(', ') || "'opção 1'";
-            return res.status(200).json(buildAlexaResponse(
-              `Não entendi. Diga ${validRange}.`,
-              false,
-              `Diga ${validRange}.`,
-              sessionAttributes
-            ));
-          }
-          const payload = speechRenderer.buildErrorPayload("Não entendi o comando.");
-          payload.allowedUtterances = ["ajuda"];
-          const speech = await speechRenderer.renderSpeech(payload);
-          return res.status(200).json(buildAlexaResponse(speech, false, "Diga 'ajuda' para ver os comandos.", sessionAttributes));
-        }
-        
-        // === GUIDED PENDING STATE GUARD ===
-        // During multi-turn flows, block all intents except the expected one
-        const pendingState = sessionAttributes?.pending;
-        if (pendingState === "START_BATCH_TEMP" || pendingState === "START_BATCH_PH" || pendingState === "STAGE13_PH" || pendingState === "STAGE13_PIECES") {
-          const pendingConfig: Record<string, { expected: string; alternates: string[]; prompt: string; reprompt: string }> = {
-            "START_BATCH_TEMP": {
-              expected: "RegisterMilkTemperatureIntent",
-              alternates: [],
-              prompt: "Estamos iniciando um novo lote. Diga a temperatura do leite. Por exemplo: '32 graus'.",
-              reprompt: "Qual a temperatura do leite?"
-            },
-            "START_BATCH_PH": {
-              expected: "RegisterMilkPHIntent",
-              alternates: ["RegisterPHAndPiecesIntent"],
-              prompt: "Estamos iniciando um novo lote. Diga o pH do leite. Por exemplo: 'pH seis vírgula cinco'.",
-              reprompt: "Qual o pH do leite?"
-            },
-            "STAGE13_PH": {
-              expected: "RegisterPHAndPiecesIntent",
-              alternates: ["ProcessCommandIntent"],
-              prompt: "Estamos registrando dados da etapa 13. Diga o pH inicial. Por exemplo: 'pH cinco vírgula dois'.",
-              reprompt: "Qual o pH inicial?"
-            },
-            "STAGE13_PIECES": {
-              expected: "RegisterPHAndPiecesIntent",
-              alternates: ["ProcessCommandIntent"],
-              prompt: "Estamos registrando dados da etapa 13. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
-              reprompt: "Quantas peças?"
-            }
-          };
-          const cfg = pendingConfig[pendingState];
-          const systemIntents = ['AMAZON.HelpIntent', 'AMAZON.StopIntent', 'AMAZON.CancelIntent', 'AMAZON.FallbackIntent'];
-          
-          if (cfg && intentName !== cfg.expected && !systemIntents.includes(intentName || '') && !cfg.alternates.includes(intentName || '')) {
-            console.log(`[GUIDED_GUARD] Blocked intent=${intentName} during pending=${pendingState}. Expected=${cfg.expected}`);
-            return res.status(200).json(buildAlexaResponse(cfg.prompt, false, cfg.reprompt, sessionAttributes));
-          }
-        }
-        
-        // === STAGE-AWARE INTENT GATING ===
-        const activeBatchForGating = activeBatchResolved;
-        let pendingInputReminder: string | undefined;
-        
-        if (activeBatchForGating) {
-          const stageLock = recipeManager.getStageInputLock(activeBatchForGating.currentStageId);
-          
-          if (stageLock.locked && stageLock.expectedIntent) {
-            const currentStageForGating = recipeManager.getStage(activeBatchForGating.currentStageId);
-            const pendingInputs = speechRenderer.getPendingInputs(
-              activeBatchForGating, 
-              activeBatchForGating.currentStageId,
-              currentStageForGating
-            );
-            
-            const inputsSatisfied = pendingInputs.length === 0;
-            
-            // Build friendly reminder about pending input
-            if (!inputsSatisfied && pendingInputs.length > 0) {
-              const inputLabels: Record<string, string> = {
-                'flocculation_time': 'registrar horário de floculação',
-                'cut_point_time': 'registrar horário do ponto de corte',
-                'press_start_time': 'registrar horário da prensa',
-                'ph_value': 'registrar pH',
-                'initial_ph': 'registrar pH',
-                'pieces_quantity': 'registrar quantidade de peças',
-                'chamber_2_entry_date': 'registrar data de entrada na câmara 2'
-              };
-              pendingInputReminder = `Falta ${inputLabels[pendingInputs[0]] || pendingInputs[0]}.`;
-              
-              console.log(`[GATING] stage=${activeBatchForGating.currentStageId} intent=${intentName} pendingInputs=${pendingInputs.join(',')} expected=${stageLock.expectedIntent}`);
-            }
-            
-            // If inputs NOT satisfied and intent is NOT the expected one
-            if (!inputsSatisfied && intentName !== stageLock.expectedIntent) {
-              // Allow read-only intents: HelpIntent, StopIntent, CancelIntent
-              const systemIntents = ['AMAZON.HelpIntent', 'AMAZON.StopIntent', 'AMAZON.CancelIntent'];
-              
-              // ProcessCommandIntent is allowed for status/instructions/help queries
-              // We'll let it through but add pendingInputReminder to the payload
-              if (intentName === 'ProcessCommandIntent') {
-                // Let it through - we'll add notes with the reminder below
-                console.log(`[GATING] Allowing ProcessCommandIntent for read-only query at stage ${activeBatchForGating.currentStageId}`);
-              } else if (!systemIntents.includes(intentName || '')) {
-                // Block other intents
-                console.log(`[GATING] Blocked intent ${intentName} at stage ${activeBatchForGating.currentStageId}. Expected: ${stageLock.expectedIntent}`);
-                const stage = recipeManager.getStage(activeBatchForGating.currentStageId);
-                const payload = speechRenderer.buildErrorPayload(
-                  stageLock.inputPrompt || `Esta etapa requer input específico.`,
-                  stage
-                );
-                payload.notes = pendingInputReminder;
-                payload.allowedUtterances = speechRenderer.getContextualUtterances(stage, activeBatchForGating);
-                const speech = await speechRenderer.renderSpeech(payload);
-                return res.status(200).json(buildAlexaResponse(speech, false, `Use o comando apropriado para esta etapa.`, sessionAttributes));
-              }
-            }
-          }
-        }
-        
-        // --- AdvanceStageIntent: Deterministic stage advancement (no LLM) ---
-        if (intentName === "AdvanceStageIntent") {
-          const activeBatch = activeBatchResolved || (userId ? await getActiveBatchForUser(userId) : null);
-          if (!activeBatch) {
-            console.log(`[AdvanceStageIntent] No active batch, showing menu`);
-            const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
-            return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
-          }
-
-          console.log(`[AdvanceStageIntent] Advancing batch=${activeBatch.id} from stage=${activeBatch.currentStageId}`);
-          const result = await batchService.advanceBatch(activeBatch.id, apiCtx);
-
-          if (!result.success) {
-            const stage = recipeManager.getStage(activeBatch.currentStageId);
-            const payload = speechRenderer.buildErrorPayload(result.error || "Não é possível avançar agora.", stage);
-            const speech = await speechRenderer.renderSpeech(payload);
-            return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-          }
-
-          if (result.completed) {
-            if (userId) {
-              await storage.clearLastActiveBatch(userId);
-              console.log(`[AdvanceStageIntent] Batch completed, cleared persisted activeBatch`);
-            }
-            const payload = speechRenderer.buildAdvancePayload(activeBatch, null, true);
-            const speech = await speechRenderer.renderSpeech(payload);
-            return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-          }
-
-          const updatedBatch = result.batch || activeBatch;
-          const nextStage = recipeManager.getStage(result.nextStage?.id || 0);
-          const payload = speechRenderer.buildAdvancePayload(updatedBatch, nextStage, false);
-          let speech = await speechRenderer.renderSpeech(payload);
-          if (result.reminderScheduled && result.waitDurationText) {
-            speech += ` Vou te avisar em ${result.waitDurationText}.`;
-          } else if (result.needsReminderPermission && result.waitDurationText) {
-            speech += ` Esta etapa dura ${result.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-          } else if (result.needsReminderPermission) {
-            speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-          }
-
-          return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", { ...sessionAttributes, activeBatchId: updatedBatch.id, state: undefined }));
-        }
-
-        // --- LogTimeIntent: Structured time registration with AMAZON.TIME slot ---
-        // This intent uses native Alexa time recognition for reliable parsing
-        if (intentName === "LogTimeIntent") {
-          console.log("LogTimeIntent received:", JSON.stringify(slots, null, 2));
-          
-          const activeBatch = activeBatchResolved;
-          if (!activeBatch) {
-            return res.status(200).json(buildAlexaResponse(
-              "Não há lote ativo para registrar horário.",
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          // Extract time type from custom slot
-          const timeTypeSlot = slots.timeType?.value || slots.time_type?.value;
-          
-          // Map slot values to internal time types and expected stages
-          // timeType → stageId mapping ensures intent is only used at correct stage
-          const timeTypeMapping: Record<string, { timeType: string; expectedStage: number; label: string }> = {
-            'flocculation': { timeType: 'flocculation', expectedStage: 6, label: 'floculação' },
-            'cut_point': { timeType: 'cut_point', expectedStage: 7, label: 'ponto de corte' },
-            'press_start': { timeType: 'press_start', expectedStage: 14, label: 'início de prensa' }
-          };
-          
-          let timeType: string | undefined;
-          let expectedStage: number | undefined;
-          
-          if (timeTypeSlot) {
-            const normalizedType = timeTypeSlot.toLowerCase();
-            if (normalizedType.includes("floc") || normalizedType === "floculação" || normalizedType === "floculacao") {
-              timeType = "flocculation";
-              expectedStage = 6;
-            } else if (normalizedType.includes("corte") || normalizedType === "ponto") {
-              timeType = "cut_point";
-              expectedStage = 7;
-            } else if (normalizedType.includes("prensa") || normalizedType.includes("moldagem")) {
-              timeType = "press_start";
-              expectedStage = 14;
-            }
-          }
-          
-          // STAGE VALIDATION: Reject if not at the expected stage
-          if (expectedStage && activeBatch.currentStageId !== expectedStage) {
-            const currentStage = recipeManager.getStage(activeBatch.currentStageId);
-            const typeInfo = timeType ? timeTypeMapping[timeType] : null;
-            return res.status(200).json(buildAlexaResponse(
-              `Não é possível registrar horário de ${typeInfo?.label || 'evento'} nesta etapa. Estamos na etapa ${activeBatch.currentStageId}: ${currentStage?.name || 'em andamento'}.`,
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          // Extract time from AMAZON.TIME slot
-          // AMAZON.TIME formats: "15:30", "T15:30", "2026-01-08T15:30", "now", "MO", "AF", "EV", "NI"
-          let timeSlot = slots.time?.value;
-          
-          // Normalize AMAZON.TIME value to HH:MM format
-          // AMAZON.TIME can return: "15:30", "T15:30", "T15:30:00", "2026-01-08T15:30:00", "17", "now", "MO", "AF", "EV", "NI"
-          let timeValue: string | null = null;
-          if (timeSlot) {
-            // Handle special values
-            if (timeSlot === "now" || timeSlot === "agora") {
-              timeValue = parseSpokenTime("agora");
-            }
-            // Handle period values (MO=morning, AF=afternoon, EV=evening, NI=night)
-            else if (timeSlot === "MO" || timeSlot === "AF" || timeSlot === "EV" || timeSlot === "NI") {
-              // Use current Brasília time for period-based inputs
-              timeValue = parseSpokenTime("agora");
-            }
-            // Handle ISO format with T prefix: T15:30, T15:30:00, 2026-01-08T15:30:00+00:00
-            else if (timeSlot.includes("T")) {
-              const timeMatch = timeSlot.match(/T(\d{1,2}):(\d{2})/);
-              if (timeMatch) {
-                timeValue = `${timeMatch[1].padStart(2, '0')}:${timeMatch[2]}`;
-              }
-            }
-            // Handle HH:MM or HH:MM:SS format directly
-            else if (/^\d{1,2}:\d{2}(:\d{2})?$/.test(timeSlot)) {
-              const parts = timeSlot.split(":");
-              timeValue = `${parts[0].padStart(2, '0')}:${parts[1]}`;
-            }
-            // Handle bare hour (e.g., "17" for 5 PM)
-            else if (/^\d{1,2}$/.test(timeSlot)) {
-              const hour = parseInt(timeSlot, 10);
-              if (hour >= 0 && hour <= 23) {
-                timeValue = `${String(hour).padStart(2, '0')}:00`;
-              }
-            }
-          }
-          
-          // If no valid time, ask for it with correct example for the time type
-          if (!timeValue) {
-            const typeLabel = getTimeTypeLabel(timeType);
-            // Provide correct example based on time type
-            const examples: Record<string, string> = {
-              'flocculation': 'hora da floculação às vinte e três e nove',
-              'cut_point': 'hora do corte às quinze e trinta',
-              'press_start': 'hora da prensa às dezesseis e dez'
-            };
-            const example = examples[timeType || ''] || 'hora da floculação às vinte e três e nove';
-            console.log(`[LogTimeIntent] Missing time for ${timeType}, suggesting example: ${example}`);
-            return res.status(200).json(buildAlexaResponse(
-              `Por favor, diga o horário ${typeLabel}. Por exemplo: '${example}'.`,
-              false,
-              `Qual foi a hora ${typeLabel}?`,
-              sessionAttributes
-            ));
-          }
-          
-          // Log the time - pass raw slot as fallback so batchService can try broader normalization
-          const logResult = await batchService.logTime(activeBatch.id, timeValue, timeType || timeTypeSlot);
-          if (!logResult.success) {
-            return res.status(200).json(buildAlexaResponse(
-              logResult.error || "Erro ao registrar horário.",
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          const typeLabel = getTimeTypeLabel(timeType);
-          const confirmationMsg = `Hora ${typeLabel} registrada às ${timeValue}.`;
-          
-          const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
-          if (advanceResult.success && advanceResult.nextStage) {
-            const nextStage = recipeManager.getStage(advanceResult.nextStage.id);
-            const updatedBatch = await batchService.getBatch(activeBatch.id);
-            console.log(`[LogTimeIntent] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
-            
-            if (nextStage && updatedBatch) {
-              const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
-              let speech = await speechRenderer.renderSpeech(payload);
-              if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
-                speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
-              } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
-                speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-              } else if (advanceResult.needsReminderPermission) {
-                speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-              }
-              return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-            }
-          }
-          
-          // Fallback if advance failed or no next stage
-          return res.status(200).json(buildAlexaResponse(
-            confirmationMsg,
-            false,
-            "O que mais posso ajudar?",
-            sessionAttributes
-          ));
-        }
-        
-        // --- RegisterPHAndPiecesIntent: Stage-aware pH registration ---
-        // Stage 13: pH + pieces (multi-turn dialog)
-        // Stage 15: pH only (loop control with turning cycles)
-        // CRITICAL: Decision based on stageId, NOT intent name alone
-        if (intentName === "RegisterPHAndPiecesIntent") {
-          console.log("RegisterPHAndPiecesIntent received:", JSON.stringify(slots, null, 2));
-          
-          // === GUIDED START BATCH REDIRECT ===
-          // During START_BATCH_PH, Alexa often routes pH utterances here instead of RegisterMilkPHIntent
-          if (sessionAttributes?.pending === "START_BATCH_PH") {
-            const phSlotForBatch = slots.ph_value?.value || slots.phValue?.value;
-            console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] Redirecting pH=${phSlotForBatch} to batch creation`);
-            
-            const draft = sessionAttributes.startBatchDraft || {};
-            
-            if (!phSlotForBatch || phSlotForBatch === '?') {
-              return res.status(200).json(buildAlexaResponse(
-                "Não entendi o pH. Diga por exemplo: 'pH seis vírgula cinco'.",
-                false,
-                "Qual o pH do leite?",
-                sessionAttributes
-              ));
-            }
-            
-            const normalizedPh = batchService.normalizePHValue(phSlotForBatch);
-            if (normalizedPh === null) {
-              return res.status(200).json(buildAlexaResponse(
-                "pH inválido. Diga um valor entre 3,5 e 8,0. Por exemplo: 'pH seis vírgula cinco'.",
-                false,
-                "Qual o pH do leite?",
-                sessionAttributes
-              ));
-            }
-            
-            draft.milk_ph = normalizedPh;
-            
-            console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] pH=${normalizedPh}. Creating batch: volume=${draft.milk_volume_l}, temp=${draft.milk_temperature_c}, pH=${draft.milk_ph}`);
-            
-            const result = await batchService.startBatch({
-              milkVolumeL: draft.milk_volume_l,
-              milkTemperatureC: draft.milk_temperature_c,
-              milkPh: draft.milk_ph,
-              recipeId: "QUEIJO_NETE"
-            });
-            
-            if (!result.success) {
-              const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
-              const speech = await speechRenderer.renderSpeech(payload);
-              return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-            }
-            
-            if (userId && result.batch?.id) {
-              await storage.setLastActiveBatch(userId, result.batch.id);
-              console.log(`[RegisterPHAndPiecesIntent→START_BATCH_PH] Persisted activeBatch=${result.batch.id} for user`);
-            }
-            
-            const newAttrs = { ...sessionAttributes, startBatchDraft: undefined, pending: undefined, activeBatchId: result.batch?.id };
-            const currentStage = recipeManager.getStage(result.batch.currentStageId || 3);
-            const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
-            const speech = await speechRenderer.renderSpeech(payload);
-            return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs));
-          }
-          
-          // Extract pH value from slot with normalization (54 -> 5.4)
-          const phSlot = slots.ph_value?.value || slots.phValue?.value;
-          const piecesSlot = slots.pieces_quantity?.value || slots.piecesQuantity?.value || slots.pieces?.value;
-          
-          // === INTENT MISROUTE GUARD ===
-          // If BOTH ph_value AND pieces_quantity are absent/undefined/"?", this is likely a misroute
-          // EXCEPT at stages 13/15 where empty slots trigger the multi-turn guided flow
-          const phEmpty = !phSlot || phSlot === '?';
-          const piecesEmpty = !piecesSlot || piecesSlot === '?';
-          
-          if (phEmpty && piecesEmpty) {
-            const activeBatch = activeBatchResolved;
-            const stageId = activeBatch?.currentStageId || 0;
-            
-            // At stage 13, let empty slots fall through to start multi-turn guided flow
-            // Stage 15 keeps misroute guard (its handler already elicits pH via ElicitSlot)
-            if (stageId !== 13) {
-              const currentStage = recipeManager.getStage(stageId);
-              
-              console.log(`[MISROUTE] intent=RegisterPHAndPiecesIntent stage=${stageId} missingSlots=ph_value,pieces_quantity dialogState=${alexaRequest?.request?.dialogState || 'N/A'}`);
-              
-              let helpMessage: string;
-              if (activeBatch && currentStage) {
-                const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
-                const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
-                helpMessage = `Estamos na etapa ${stageId}: ${currentStage.name}. Você pode dizer ${examples}.`;
-              } else {
-                helpMessage = "Não há lote ativo. Diga 'qual é o status' para verificar.";
-              }
-              
-              return res.status(200).json(buildAlexaResponse(
-                helpMessage,
-                false,
-                "O que mais posso ajudar?",
-                sessionAttributes
-              ));
-            }
-          }
-          
-          const activeBatch = activeBatchResolved;
-          if (!activeBatch) {
-            return res.status(200).json(buildAlexaResponse(
-              "Não há lote ativo para registrar pH.",
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          const stageId = activeBatch.currentStageId;
-          const currentStage = recipeManager.getStage(stageId);
-          
-          console.log(`[Stage ${stageId}] Slots received - pH: ${phSlot}, pieces: ${piecesSlot}`);
-          
-          // Normalize pH value using centralized function
-          let phValue: number | undefined;
-          let phError: string | undefined;
-          if (phSlot && phSlot !== '?') {
-            const normalized = batchService.normalizePHValue(phSlot);
-            if (normalized !== null) {
-              phValue = normalized;
-            } else {
-              phError = "pH inválido";
-            }
-          }
-          
-          // ============================================
-          // STAGE 13: pH inicial + quantidade de peças
-          // Multi-turn guided flow using pending states
-          // ============================================
-          if (stageId === 13) {
-            console.log(`[Stage 13] Processing pH and pieces registration. pending=${sessionAttributes?.pending}`);
-            
-            const measurements = (activeBatch.measurements as Record<string, any>) || {};
-            const existingPh = measurements["initial_ph"];
-            const existingPieces = measurements["pieces_quantity"];
-            
-            console.log(`[Stage 13] Existing values - pH: ${existingPh}, pieces: ${existingPieces}`);
-            
-            // Parse pieces quantity
-            let piecesQuantity: number | undefined;
-            if (piecesSlot && piecesSlot !== "?") {
-              const parsed = parseInt(piecesSlot, 10);
-              if (!isNaN(parsed) && parsed > 0) {
-                piecesQuantity = parsed;
-              }
-            }
-            
-            console.log(`[Stage 13] Parsed values - pH: ${phValue}, pieces: ${piecesQuantity}`);
-            
-            // === MULTI-TURN STAGE 13: PIECES STEP ===
-            if (sessionAttributes?.pending === "STAGE13_PIECES") {
-              if (piecesQuantity === undefined && phValue !== undefined) {
-                // User said pH again instead of pieces - accept it as update, re-ask pieces
-                measurements["initial_ph"] = phValue;
-                await storage.updateBatch(activeBatch.id, { measurements });
-                console.log(`[Stage 13] pH updated to ${phValue} during STAGE13_PIECES. Re-asking pieces.`);
-                return res.status(200).json(buildAlexaResponse(
-                  `pH atualizado para ${phValue}. Agora, quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
-                  false,
-                  "Quantas peças?",
-                  sessionAttributes
-                ));
-              }
-              if (piecesQuantity === undefined) {
-                console.log(`[Stage 13] STAGE13_PIECES: no pieces parsed. Re-prompting.`);
-                return res.status(200).json(buildAlexaResponse(
-                  "Não entendi a quantidade. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.",
-                  false,
-                  "Quantas peças?",
-                  sessionAttributes
-                ));
-              }
-              // Got pieces - complete the registration
-              const effectivePh = phValue ?? existingPh;
-              const newAttrs = { ...sessionAttributes, pending: undefined };
-              if (effectivePh === undefined) {
-                console.log(`[Stage 13] STAGE13_PIECES: pH missing from measurements. Restarting flow.`);
-                const restartAttrs = { ...sessionAttributes, pending: "STAGE13_PH" };
-                return res.status(200).json(buildAlexaResponse(
-                  "Antes de registrar as peças, preciso do pH. Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.",
-                  false,
-                  "Qual o pH inicial?",
-                  restartAttrs
-                ));
-              }
-              const result = await batchService.logPh(activeBatch.id, effectivePh, piecesQuantity);
-              if (!result.success) {
-                return res.status(200).json(buildAlexaResponse(
-                  result.error || "Erro ao registrar valores.",
-                  false,
-                  "Tente novamente.",
-                  newAttrs
-                ));
-              }
-              console.log(`[Stage 13] Complete: pH ${effectivePh}, ${piecesQuantity} pieces saved. Clearing pending.`);
-              const confirmationMsg = `${piecesQuantity} peças registradas. pH ${effectivePh} e ${piecesQuantity} peças confirmados.`;
-              const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
-              if (advanceResult.success && advanceResult.nextStage) {
-                const nextStage = recipeManager.getStage(advanceResult.nextStage.id);
-                const updatedBatch = await batchService.getBatch(activeBatch.id);
-                console.log(`[Stage 13] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
-                if (nextStage && updatedBatch) {
-                  const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
-                  let speech = await speechRenderer.renderSpeech(payload);
-                  if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
-                    speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
-                  } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
-                    speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-                  } else if (advanceResult.needsReminderPermission) {
-                    speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-                  }
-                  return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs));
-                }
-              }
-              return res.status(200).json(buildAlexaResponse(
-                `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
-                false,
-                "Diga 'avançar etapa' para continuar.",
-                newAttrs
-              ));
-            }
-            
-            // === MULTI-TURN STAGE 13: pH STEP (or first entry) ===
-            if (sessionAttributes?.pending === "STAGE13_PH" || (existingPh === undefined && phValue === undefined)) {
-              if (phValue !== undefined) {
-                // Got pH - save it and move to pieces step
-                measurements["initial_ph"] = phValue;
-                await storage.updateBatch(activeBatch.id, { measurements });
-                const newAttrs = { ...sessionAttributes, pending: "STAGE13_PIECES" };
-                console.log(`[Stage 13] pH ${phValue} saved. Moving to STAGE13_PIECES.`);
-                return res.status(200).json(buildAlexaResponse(
-                  `pH ${phValue} registrado. Agora, quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
-                  false,
-                  "Quantas peças?",
-                  newAttrs
-                ));
-              }
-              // No pH yet - ask for it
-              const newAttrs = { ...sessionAttributes, pending: "STAGE13_PH" };
-              const prompt = phError 
-                ? `${phError}. Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.`
-                : "Qual é o pH inicial? Diga, por exemplo: 'pH cinco vírgula dois'.";
-              console.log(`[Stage 13] No pH yet. Setting STAGE13_PH.`);
-              return res.status(200).json(buildAlexaResponse(prompt, false, "Qual o pH inicial?", newAttrs));
-            }
-            
-            // === pH already exists, pieces missing - ask for pieces ===
-            if (existingPieces === undefined) {
-              if (phValue !== undefined) {
-                measurements["initial_ph"] = phValue;
-                await storage.updateBatch(activeBatch.id, { measurements });
-                console.log(`[Stage 13] pH updated to ${phValue}.`);
-              }
-              const savedPh = phValue ?? existingPh;
-              const newAttrs = { ...sessionAttributes, pending: "STAGE13_PIECES" };
-              console.log(`[Stage 13] pH exists (${savedPh}). Moving to STAGE13_PIECES.`);
-              return res.status(200).json(buildAlexaResponse(
-                `pH ${savedPh} registrado. Quantas peças foram enformadas? Diga, por exemplo: 'doze peças'.`,
-                false,
-                "Quantas peças?",
-                newAttrs
-              ));
-            }
-            
-            // === Both already exist (re-registration) - use centralized logPh ===
-            const effectivePh = phValue ?? existingPh;
-            const effectivePieces = piecesQuantity ?? existingPieces;
-            const result = await batchService.logPh(activeBatch.id, effectivePh, effectivePieces);
-            
-            if (!result.success) {
-              return res.status(200).json(buildAlexaResponse(
-                result.error || "Erro ao registrar valores.",
-                false,
-                "Tente novamente.",
-                sessionAttributes
-              ));
-            }
-            
-            console.log(`[Stage 13] Complete: pH ${effectivePh}, ${effectivePieces} pieces saved via batchService.`);
-            
-            const confirmationMsg = `pH ${effectivePh} e ${effectivePieces} peças registrados.`;
-            
-            const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
-            if (advanceResult.success && advanceResult.nextStage) {
-              const nextStage = recipeManager.getStage(advanceResult.nextStage.id);
-              const updatedBatch = await batchService.getBatch(activeBatch.id);
-              console.log(`[Stage 13] Auto-advancing to stage ${advanceResult.nextStage.id}.`);
-              
-              if (nextStage && updatedBatch) {
-                const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
-                let speech = await speechRenderer.renderSpeech(payload);
-                if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
-                  speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
-                } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
-                  speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-                } else if (advanceResult.needsReminderPermission) {
-                  speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-                }
-                return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-              }
-            }
-            
-            // Fallback if advance failed - confirm registration only
-            return res.status(200).json(buildAlexaResponse(
-              `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
-              false,
-              "Diga 'avançar etapa' para continuar.",
-              sessionAttributes
-            ));
-          }
-          
-          // ============================================
-          // STAGE 15: Loop de viradas - só pH (ignora peças)
-          // Uses centralized batchService.logPh()
-          // ============================================
-          if (stageId === 15) {
-            console.log(`[Stage 15] Processing pH for turning loop`);
-            
-            // Step 1: If no pH provided, elicit it
-            if (phValue === undefined) {
-              const prompt = phError 
-                ? `${phError}. Informe o pH atual dos queijos. Diga, por exemplo: 'pH cinco vírgula dois'.`
-                : "Informe o pH atual dos queijos. Diga, por exemplo: 'pH cinco vírgula dois'.";
-              console.log(`[Stage 15] Eliciting pH`);
-              return res.status(200).json(buildAlexaElicitSlotResponse(
-                "ph_value",
-                "RegisterPHAndPiecesIntent",
-                prompt,
-                "Qual o pH atual?",
-                slots,
-                sessionAttributes
-              ));
-            }
-            
-            // Use centralized logPh function
-            const result = await batchService.logPh(activeBatch.id, phValue);
-            
-            if (!result.success) {
-              return res.status(200).json(buildAlexaResponse(
-                result.error || "Erro ao registrar pH.",
-                false,
-                "Tente novamente.",
-                sessionAttributes
-              ));
-            }
-            
-            if (result.isDuplicate) {
-              console.log(`[Stage 15] Duplicate pH ${phValue} detected. Returning existing state.`);
-              const turningCycles = result.turningCyclesCount || 1;
-              if (result.shouldExitLoop) {
-                return res.status(200).json(buildAlexaResponse(
-                  `pH ${phValue} já registrado. Valor ideal atingido! Diga 'avançar etapa' para continuar.`,
-                  false,
-                  "Diga 'avançar etapa' para continuar.",
-                  sessionAttributes
-                ));
-              }
-              return res.status(200).json(buildAlexaResponse(
-                `pH ${phValue} já registrado. Queijos virados ${turningCycles} vez${turningCycles > 1 ? 'es' : ''}. Continue monitorando ou informe novo pH.`,
-                false,
-                "Informe o próximo pH ou diga 'qual é o status'.",
-                sessionAttributes
-              ));
-            }
-            
-            const turningCycles = result.turningCyclesCount || 1;
-            console.log(`[Stage 15] pH ${phValue} recorded. Turning cycles: ${turningCycles}`);
-            
-            if (result.shouldExitLoop) {
-              // pH reached target - advance to next stage and vocalize it
-              const confirmationMsg = `pH ${phValue} registrado. Valor ideal atingido! Queijos virados ${turningCycles} vezes.`;
-              
-              const advanceResult = await batchService.advanceBatch(activeBatch.id, apiCtx);
-              if (advanceResult.success && advanceResult.nextStage) {
-                const nextStage = recipeManager.getStage(advanceResult.nextStage.id);
-                const updatedBatch = await batchService.getBatch(activeBatch.id);
-                console.log(`[Stage 15] pH ${phValue} reached target. Loop complete. Auto-advancing to stage ${advanceResult.nextStage.id}.`);
-                
-                if (nextStage && updatedBatch) {
-                  const payload = speechRenderer.buildAutoAdvancePayload(confirmationMsg, updatedBatch, nextStage);
-                  let speech = await speechRenderer.renderSpeech(payload);
-                  if (advanceResult.reminderScheduled && advanceResult.waitDurationText) {
-                    speech += ` Vou te avisar em ${advanceResult.waitDurationText}.`;
-                  } else if (advanceResult.needsReminderPermission && advanceResult.waitDurationText) {
-                    speech += ` Esta etapa dura ${advanceResult.waitDurationText}. Para eu avisar quando terminar, habilite as permissões de lembrete no app da Alexa.`;
-                  } else if (advanceResult.needsReminderPermission) {
-                    speech += ' Para eu avisar quando o tempo acabar, abra o app da Alexa e habilite as permissões de lembrete para esta skill.';
-                  }
-                  return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-                }
-              }
-              
-              // Fallback if advance failed
-              return res.status(200).json(buildAlexaResponse(
-                `${confirmationMsg} Diga 'avançar etapa' para continuar.`,
-                false,
-                "Diga 'avançar etapa' para continuar.",
-                sessionAttributes
-              ));
-            } else {
-              // pH still above target - continue loop, schedule new 1h30 reminder
-              console.log(`[Stage 15] pH ${phValue} above target. Continue monitoring.`);
-              
-              let reminderMsg = '';
-              if (apiCtx) {
-                try {
-                  const updatedBatchForReminder = await batchService.getBatch(activeBatch.id);
-                  const loopStage = recipeManager.getStage(15);
-                  const maxHours = loopStage?.max_loop_duration_hours || 1.5;
-                  const reminderSeconds = TEST_MODE ? 2 * 60 : maxHours * 60 * 60;
-                  
-                  const scheduledAlerts = ((updatedBatchForReminder as any)?.scheduledAlerts || {}) as Record<string, ScheduledAlert>;
-                  const alertKey = 'stage_15';
-                  if (scheduledAlerts[alertKey]) {
-                    await cancelReminder(apiCtx, scheduledAlerts[alertKey].reminderId);
-                    delete scheduledAlerts[alertKey];
-                    await storage.updateBatch(activeBatch.id, { scheduledAlerts });
-                  }
-                  const reminderResult = await scheduleReminderForWait(
-                    apiCtx,
-                    { id: activeBatch.id, recipeId: (updatedBatchForReminder as any).recipeId },
-                    15,
-                    reminderSeconds
-                  );
-                  if (reminderResult.reminderId) {
-                    scheduledAlerts[alertKey] = {
-                      reminderId: reminderResult.reminderId,
-                      stageId: 15,
-                      dueAtISO: new Date(Date.now() + reminderSeconds * 1000).toISOString(),
-                      kind: 'ph_check_reminder'
-                    };
-                    await storage.updateBatch(activeBatch.id, { scheduledAlerts });
-                    const reminderMin = Math.round(reminderSeconds / 60);
-                    reminderMsg = ` Vou te lembrar em ${reminderMin} minuto${reminderMin !== 1 ? 's' : ''} para medir o pH novamente.`;
-                    console.log(`[Stage 15] Reminder scheduled for ${reminderSeconds}s (${reminderMin}min) for next pH check`);
-                  } else if (reminderResult.permissionDenied) {
-                    console.log(`[Stage 15] Reminder permission denied after pH log`);
-                    reminderMsg = ' Para eu lembrar de medir o pH, habilite as permissões de lembrete no app da Alexa.';
-                  }
-                } catch (err) {
-                  console.log(`[Stage 15] Error scheduling reminder after pH: ${err}`);
-                }
-              }
-              
-              return res.status(200).json(buildAlexaResponse(
-                `pH ${phValue} registrado. Queijos virados ${turningCycles} vez${turningCycles > 1 ? 'es' : ''}.${reminderMsg} Continue monitorando ou informe novo pH.`,
-                false,
-                "Informe o próximo pH ou diga 'qual é o status' para ver o progresso.",
-                sessionAttributes
-              ));
-            }
-          }
-          
-          // ============================================
-          // OTHER STAGES: Intent not valid here
-          // ============================================
-          return res.status(200).json(buildAlexaResponse(
-            `Esta etapa não aceita registro de pH. Estamos na etapa ${stageId}: ${currentStage?.name || 'em andamento'}.`,
-            false,
-            "O que mais posso ajudar?",
-            sessionAttributes
-          ));
-        }
-        
-        // --- RegisterChamberEntryDateIntent: Structured date registration (Stage 19) ---
-        if (intentName === "RegisterChamberEntryDateIntent") {
-          console.log("RegisterChamberEntryDateIntent received:", JSON.stringify(slots, null, 2));
-          
-          // Extract date from AMAZON.DATE slot
-          // AMAZON.DATE returns formats like: "2026-01-15", "2026-01", "2026-W03", "2026-01-15" for specific dates
-          const dateSlot = slots.entry_date?.value || slots.entryDate?.value || slots.date?.value;
-          
-          // === INTENT MISROUTE GUARD ===
-          // If entry_date is absent/undefined/"?", this is likely a misroute
-          const dateEmpty = !dateSlot || dateSlot === '?';
-          
-          if (dateEmpty) {
-            const activeBatch = activeBatchResolved;
-            const stageId = activeBatch?.currentStageId || 0;
-            const currentStage = recipeManager.getStage(stageId);
-            
-            console.log(`[MISROUTE] intent=RegisterChamberEntryDateIntent stage=${stageId} missingSlots=entry_date dialogState=${alexaRequest?.request?.dialogState || 'N/A'}`);
-            
-            // Build contextual help based on current stage
-            let helpMessage: string;
-            if (activeBatch && currentStage) {
-              if (stageId === 19) {
-                helpMessage = `Estamos na etapa ${stageId}: Transferir para Câmara 2. Quando transferir, diga: "coloquei na câmara dois agora". Ou diga "qual é o status".`;
-              } else {
-                // Stage doesn't require date - suggest what IS valid
-                const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
-                const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
-                helpMessage = `Estamos na etapa ${stageId}: ${currentStage.name}. Você pode dizer ${examples}.`;
-              }
-            } else {
-              helpMessage = "Não há lote ativo. Diga 'qual é o status' para verificar.";
-            }
-            
-            return res.status(200).json(buildAlexaResponse(
-              helpMessage,
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          const activeBatch = activeBatchResolved;
-          if (!activeBatch) {
-            return res.status(200).json(buildAlexaResponse(
-              "Não há lote ativo para registrar data de entrada na câmara.",
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          // Check if we're at the correct stage (19)
-          const currentStage = recipeManager.getStage(activeBatch.currentStageId);
-          if (activeBatch.currentStageId !== 19) {
-            const utterances = speechRenderer.getContextualUtterances(currentStage, activeBatch);
-            const examples = utterances.slice(0, 2).map(u => `"${u}"`).join(' ou ');
-            return res.status(200).json(buildAlexaResponse(
-              `Estamos na etapa ${activeBatch.currentStageId}: ${currentStage?.name || 'em andamento'}. Você pode dizer ${examples}.`,
-              false,
-              "O que mais posso ajudar?",
-              sessionAttributes
-            ));
-          }
-          
-          let dateValue: string | null = null;
-          
-          if (dateSlot) {
-            // Handle "today" equivalent (Alexa returns current date in YYYY-MM-DD format)
-            if (/^\d{4}-\d{2}-\d{2}$/.test(dateSlot)) {
-              dateValue = dateSlot;
-            }
-            // Handle relative dates that Alexa might resolve
-            else if (dateSlot.toLowerCase() === "today" || dateSlot === "hoje") {
-              const now = new Date();
-              // Adjust to Brasília timezone
-              const brasiliaOffset = -3 * 60; // UTC-3 in minutes
-              const localTime = new Date(now.getTime() + (brasiliaOffset - now.getTimezoneOffset()) * 60000);
-              dateValue = localTime.toISOString().split('T')[0];
-            }
-          }
-          
-          if (!dateValue) {
-            return res.status(200).json(buildAlexaResponse(
-              "Por favor, informe a data de entrada na câmara 2. Diga: 'coloquei na câmara dois agora'.",
-              false,
-              "Qual a data de entrada na câmara 2?",
-              sessionAttributes
-            ));
-          }
-          
-          console.log(`[Stage 19] chamber2EntryDate BEFORE: ${(activeBatch as any).chamber2EntryDate || 'null'}`);
-          
-          const result = await batchService.recordChamber2Entry(activeBatch.id, dateValue, undefined, apiCtx);
-          
-          console.log(`[Stage 19] chamber2EntryDate AFTER: dateValue=${dateValue} success=${result.success}`);
-          
-          if (!result.success) {
-            return res.status(200).json(buildAlexaResponse(
-              result.error || "Erro ao registrar data.",
-              false,
-              "Tente novamente.",
-              sessionAttributes
-            ));
-          }
-          
-          const maturationEndDate = result.maturationEndDateISO!.split('T')[0];
-          console.log(`[Stage 19] Chamber 2 entry date registered: ${dateValue}, maturation ends: ${maturationEndDate}. Batch completed.`);
-          
-          const dateParts = dateValue.split('-');
-          const formattedDate = `${parseInt(dateParts[2])} de ${getMonthName(parseInt(dateParts[1]))} de ${dateParts[0]}`;
-          const matDateParts = maturationEndDate.split('-');
-          const formattedMatDate = `${parseInt(matDateParts[2])} de ${getMonthName(parseInt(matDateParts[1]))} de ${matDateParts[0]}`;
-          
-          const speech = `Lote concluído. Data de entrada na câmara dois: ${formattedDate}. Fim da maturação: ${formattedMatDate}. Até o próximo queijo!`;
-          
-          return res.status(200).json(buildAlexaResponse(
-            speech,
-            true,
-            undefined,
-            sessionAttributes
-          ));
-        }
-        
-        // --- RegisterMilkTemperatureIntent: Guided start batch - temperature step ---
-        if (intentName === "RegisterMilkTemperatureIntent") {
-          const tempSlot = slots.temp_value?.value || slots.tempValue?.value;
-          console.log(`[RegisterMilkTemperatureIntent] pending=${sessionAttributes?.pending} tempSlot=${tempSlot}`);
-          
-          if (sessionAttributes?.pending !== "START_BATCH_TEMP") {
-            return res.status(200).json(buildAlexaResponse(
-              "Para registrar a temperatura, primeiro inicie um novo lote dizendo a quantidade de leite. Por exemplo: 'novo lote com 130 litros'.",
-              false,
-              "Diga 'novo lote com 130 litros' para começar.",
-              sessionAttributes
-            ));
-          }
-          
-          const draft = sessionAttributes.startBatchDraft || {};
-          
-          if (!tempSlot || tempSlot === '?') {
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi a temperatura. Diga por exemplo: '32 graus'.",
-              false,
-              "Qual a temperatura do leite?",
-              sessionAttributes
-            ));
-          }
-          
-          let tempValue = parseFloat(String(tempSlot).replace(',', '.'));
-          if (isNaN(tempValue)) {
-            return res.status(200).json(buildAlexaResponse(
-              "Temperatura inválida. Diga por exemplo: '32 graus'.",
-              false,
-              "Qual a temperatura do leite?",
-              sessionAttributes
-            ));
-          }
-          
-          // Normalize ASR-mangled temperature values
-          // "6,69" → ASR sends 669 → divide by 100 → 6.69
-          // "6,5" → ASR sends 65 → divide by 10 → 6.5
-          // "32" → valid as-is
-          if (tempValue > 60) {
-            if (tempValue >= 100 && tempValue < 10000) {
-              const divided100 = tempValue / 100;
-              if (divided100 >= 1 && divided100 <= 60) {
-                console.log(`[normalizeTemp] ${tempValue} -> ${divided100} (divided by 100)`);
-                tempValue = divided100;
-              }
-            }
-            if (tempValue > 60 && tempValue >= 10 && tempValue < 100) {
-              const divided10 = tempValue / 10;
-              if (divided10 >= 1 && divided10 <= 60) {
-                console.log(`[normalizeTemp] ${tempValue} -> ${divided10} (divided by 10)`);
-                tempValue = divided10;
-              }
-            }
-          }
-          
-          if (tempValue <= 0 || tempValue > 60) {
-            return res.status(200).json(buildAlexaResponse(
-              `Temperatura ${tempValue} graus não parece válida. Diga um valor entre 1 e 60 graus.`,
-              false,
-              "Qual a temperatura do leite?",
-              sessionAttributes
-            ));
-          }
-          
-          draft.milk_temperature_c = tempValue;
-          const newAttrs = { ...sessionAttributes, startBatchDraft: draft, pending: "START_BATCH_PH" };
-          console.log(`[RegisterMilkTemperatureIntent] Temperature=${tempValue} saved. Asking for pH.`);
-          
-          return res.status(200).json(buildAlexaResponse(
-            `Temperatura ${tempValue} graus registrada. Qual o pH do leite?`,
-            false,
-            "Diga o pH, por exemplo: 'pH seis vírgula cinco'.",
-            newAttrs
-          ));
-        }
-        
-        // --- RegisterMilkPHIntent: Guided start batch - pH step (creates the batch) ---
-        if (intentName === "RegisterMilkPHIntent") {
-          const phSlot = slots.ph_value?.value || slots.phValue?.value;
-          console.log(`[RegisterMilkPHIntent] pending=${sessionAttributes?.pending} phSlot=${phSlot}`);
-          
-          if (sessionAttributes?.pending !== "START_BATCH_PH") {
-            return res.status(200).json(buildAlexaResponse(
-              "Para registrar o pH, primeiro inicie um novo lote dizendo a quantidade de leite. Por exemplo: 'novo lote com 130 litros'.",
-              false,
-              "Diga 'novo lote com 130 litros' para começar.",
-              sessionAttributes
-            ));
-          }
-          
-          const draft = sessionAttributes.startBatchDraft || {};
-          
-          if (!phSlot || phSlot === '?') {
-            return res.status(200).json(buildAlexaResponse(
-              "Não entendi o pH. Diga por exemplo: 'pH seis vírgula cinco'.",
-              false,
-              "Qual o pH do leite?",
-              sessionAttributes
-            ));
-          }
-          
-          const normalizedPh = batchService.normalizePHValue(phSlot);
-          if (normalizedPh === null) {
-            return res.status(200).json(buildAlexaResponse(
-              "pH inválido. Diga um valor entre 3,5 e 8,0. Por exemplo: 'pH seis vírgula cinco'.",
-              false,
-              "Qual o pH do leite?",
-              sessionAttributes
-            ));
-          }
-          
-          draft.milk_ph = normalizedPh;
-          
-          // All 3 values collected - create the batch
-          console.log(`[RegisterMilkPHIntent] pH=${normalizedPh}. Creating batch: volume=${draft.milk_volume_l}, temp=${draft.milk_temperature_c}, pH=${draft.milk_ph}`);
-          
-          const result = await batchService.startBatch({
-            milkVolumeL: draft.milk_volume_l,
-            milkTemperatureC: draft.milk_temperature_c,
-            milkPh: draft.milk_ph,
-            recipeId: "QUEIJO_NETE"
-          });
-          
-          if (!result.success) {
-            const payload = speechRenderer.buildErrorPayload(result.error || "Erro ao iniciar lote.");
-            const speech = await speechRenderer.renderSpeech(payload);
-            return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-          }
-          
-          // Persist active batch for user
-          if (userId && result.batch?.id) {
-            await storage.setLastActiveBatch(userId, result.batch.id);
-            console.log(`[RegisterMilkPHIntent] Persisted activeBatch=${result.batch.id} for user`);
-          }
-          
-          // Clear guided flow state
-          const newAttrs = { ...sessionAttributes, startBatchDraft: undefined, pending: undefined, activeBatchId: result.batch?.id };
-          
-          const currentStage = recipeManager.getStage(result.batch.currentStageId || 3);
-          const payload = speechRenderer.buildStartBatchPayload(result.batch, currentStage);
-          const speech = await speechRenderer.renderSpeech(payload);
-          return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", newAttrs));
-        }
-        
-        // --- ProcessCommandIntent: Main voice command processing ---
-        // This is the ONLY custom intent - all voice commands come through here
-        if (intentName === "ProcessCommandIntent") {
-          // Log the full slots structure for debugging
-          console.log("Alexa slots received:", JSON.stringify(slots, null, 2));
-          
-          // Note: Stage input lock is now handled by executeIntent blocking log_time when LogTimeIntent should be used
-          // ProcessCommandIntent is allowed for status/help/advance commands even at locked stages
-          
-          // Extract utterance from multiple possible slot formats
-          // Alexa can send the value in different ways depending on slot type
-          let utterance = "";
-          const utteranceSlot = slots.utterance || slots.command || slots.query || Object.values(slots)[0];
-          
-          if (utteranceSlot) {
-            // Try direct value first
-            if (typeof utteranceSlot.value === "string") {
-              utterance = utteranceSlot.value;
-            }
-            // Try slotValue.value (for some slot types)
-            else if (utteranceSlot.slotValue?.value) {
-              utterance = utteranceSlot.slotValue.value;
-            }
-            // Try resolutions (for slots with entity resolution)
-            else if (utteranceSlot.resolutions?.resolutionsPerAuthority?.[0]?.values?.[0]?.value?.name) {
-              utterance = utteranceSlot.resolutions.resolutionsPerAuthority[0].values[0].value.name;
-            }
-          }
-          
-          console.log("Extracted utterance:", utterance);
-          
-          // Note: Time registration now uses LogTimeIntent exclusively
-          
-          // GUARDA-CORPO: Se slot vazio, pedir clarificação amigável
-          // Samples sem slot (ex: "status" sozinho) invocam o intent mas slot fica vazio
-          // A Alexa não informa qual sample foi usado, então precisamos pedir mais contexto
-          let textToInterpret = utterance.trim();
-          if (!textToInterpret) {
-            console.log("Slot vazio - pedindo clarificação");
-            return res.status(200).json(buildAlexaResponse(
-              "Entendi! Pode dar mais detalhes? Por exemplo: 'qual o status', 'quero avançar', ou 'preciso de ajuda'.",
-              false,
-              "Diga um comando completo como 'qual é o status' ou 'avançar etapa'.",
-              sessionAttributes
-            ));
-          }
-          
-          const lowerText = textToInterpret.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-          
-          // --- "trocar lote" handling: show full batch list ---
-          if (lowerText.includes("trocar") && lowerText.includes("lote")) {
-            console.log(`[ProcessCommandIntent] "trocar lote" detected, showing batch list`);
-            const { speechText, repromptText, newSessionAttrs } = await buildBatchSelectionMenu(sessionAttributes);
-            return res.status(200).json(buildAlexaResponse(speechText, false, repromptText, newSessionAttrs));
-          }
-          
-          // --- "continuar"/"sim"/"prosseguir" handling: resume active batch ---
-          const continueWords = ["continuar", "sim", "seguir", "prosseguir", "continue"];
-          if (continueWords.some(w => lowerText === w || lowerText.startsWith(w + " "))) {
-            const activeBatch = activeBatchResolved;
-            if (activeBatch) {
-              const stage = recipeManager.getStage(activeBatch.currentStageId);
-              if (stage) {
-                const payload = speechRenderer.buildStatusPayload(activeBatch, stage);
-                const speech = await speechRenderer.renderSpeech(payload);
-                console.log(`[ProcessCommandIntent] "continuar" → rendering status for batch=${activeBatch.id} stage=${stage.id}`);
-                return res.status(200).json(buildAlexaResponse(speech, false, "O que mais posso ajudar?", sessionAttributes));
-              }
-            }
-          }
-          
-          // LLM interprets the command, backend executes
-          const command = await interpretCommand(textToInterpret);
-          console.log("LLM interpreted command:", JSON.stringify(command));
-          // Pass pendingInputReminder from GATING to status/instructions handlers
-          const result = await executeIntent(command, pendingInputReminder, activeBatchResolved || undefined, apiCtx, userId) as any;
-          
-          if (result.sessionAttrsOverride) {
-            const mergedAttrs = { ...sessionAttributes, ...result.sessionAttrsOverride };
-            return res.status(200).json(buildAlexaResponse(
-              result.speech,
-              result.shouldEndSession,
-              result.sessionAttrsOverride.pending === "STAGE13_PH" ? "Qual o pH inicial?" :
-              result.sessionAttrsOverride.pending === "STAGE13_PIECES" ? "Quantas peças?" :
-              "O que deseja fazer?",
-              mergedAttrs,
-              result.card
-            ));
-          }
-
-          // Handle guided start_batch multi-turn flow
-          if (result.speech === '_GUIDED_START_BATCH_' && result.guidedDraft) {
-            const draft = result.guidedDraft;
-            const newAttrs = { ...sessionAttributes, startBatchDraft: draft };
-            
-            if (draft.milk_temperature_c === undefined) {
-              newAttrs.pending = "START_BATCH_TEMP";
-              console.log(`[GUIDED_START] Volume=${draft.milk_volume_l}L captured. Asking for temperature.`);
-              return res.status(200).json(buildAlexaResponse(
-                `Perfeito, ${draft.milk_volume_l} litros. Qual a temperatura do leite?`,
-                false,
-                "Diga a temperatura, por exemplo: '32 graus'.",
-                newAttrs
-              ));
-            }
-            if (draft.milk_ph === undefined) {
-              newAttrs.pending = "START_BATCH_PH";
-              console.log(`[GUIDED_START] Volume=${draft.milk_volume_l}L, Temp=${draft.milk_temperature_c}. Asking for pH.`);
-              return res.status(200).json(buildAlexaResponse(
-                `Temperatura ${draft.milk_temperature_c} graus registrada. Qual o pH do leite?`,
-                false,
-                "Diga o pH, por exemplo: 'pH seis vírgula cinco'.",
-                newAttrs
-              ));
-            }
-          }
-          
-          return res.status(200).json(buildAlexaResponse(
-            result.speech,
-            result.shouldEndSession,
-            result.shouldEndSession ? undefined : "O que mais posso ajudar?",
-            sessionAttributes,
-            result.card
-          ));
-        }
-        
-        // Unknown intent - treat as fallback
-        return res.status(200).json(buildAlexaResponse(
-          "Comando não reconhecido. Diga 'ajuda' para ver as opções.",
-          false,
-          "Diga 'ajuda' para ver os comandos.",
-          sessionAttributes
-        ));
-      }
-      
-      // Fallback for unknown request types
-      return res.status(200).json(buildAlexaResponse(
-        "Desculpe, não consegui processar sua solicitação.",
-        false,
-        "Diga 'ajuda' para ver os comandos.",
-        sessionAttributes
-      ));
-      
-    } catch (error) {
-      console.error("Alexa webhook error:", error);
-      errorLogged = true;
-      const catchSessionAttrs = req.body?.session?.attributes || {};
-      logAlexaWebhook({
-        alexaUserId: req.body?.context?.System?.user?.userId || undefined,
-        intentName: req.body?.request?.intent?.name || req.body?.request?.type,
-        requestType: req.body?.request?.type,
-        batchId: catchSessionAttrs.activeBatchId || undefined,
-        durationMs: Date.now() - webhookStartTime,
-        error: String(error),
-      });
-      return res.status(200).json(buildAlexaResponse(
-        "Ocorreu um erro. Tente novamente.",
-        false,
-        "Diga 'ajuda' para ver os comandos.",
-        catchSessionAttrs
-      ));
-    }
-  });
+  app.post("/api/alexa/webhook", createAlexaWebhook());
   
   // === LOG QUERY ENDPOINTS ===
   
@@ -2974,6 +997,18 @@ export async function registerRoutes(
   // Start daily log purge scheduler (3:00 AM BRT)
   scheduleDailyPurge();
 
+  // Move lots whose maturation ended to READY_FOR_SALE
+  scheduleMaturationCheck();
+
+  // Virtual time for trying out long stages and maturation locally
+  if (process.env.NODE_ENV === "development") {
+    registerDevRoutes(app);
+  }
+
+  // Fire timers, reminders and loop timeouts from scheduled_jobs
+  scheduleJobRunner();
+  scheduleVoiceDialogCleanup();
+
   // Basic Seed
   const existingBatches = await storage.getActiveBatches();
   if (existingBatches.length === 0) {
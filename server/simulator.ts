@@ -0,0 +1,372 @@
+/**
+ * Headless recipe dry-run: runs one batch through startBatch, advanceBatch,
+ * logPh, logTime and recordChamber2Entry against a MemoryStorage and a
+ * VirtualClock, without Alexa or the LLM. Used by `npm run simulate`
+ * (script/simulate-recipe.ts) and POST /api/recipes/:recipeId/simulate.
+ *
+ *   {
+ *     "recipeId": "QUEIJO_NETE",
+ *     "milkVolumeL": 50, "milkTemperatureC": 32, "milkPh": 6.6,
+ *     "steps": [
+ *       { "action": "advance" },                        // waits out blocking timers first
+ *       { "action": "log_time", "value": "09:40", "type": "floculação" },
+ *       { "action": "wait", "minutes": 90 },
+ *       { "action": "log_ph", "value": 5.2 },
+ *       { "action": "input", "key": "current_temperature", "value": 32 },
+ *       { "action": "chamber_entry" },                  // date defaults to the virtual now
+ *       { "action": "care", "care": "turn" },           // maturation care, as in the chamber 2 log
+ *       { "action": "wait", "days": 90 },               // promotes the lot when maturation ends
+ *       { "action": "close" }
+ *     ]
+ *   }
+ *
+ * Timer durations follow the server's TEST_MODE like real batches do.
+ */
+
+import { z } from "zod";
+import * as batchService from "./batchService";
+import { recipeManager } from "./recipe";
+import { runWithStorage, storage } from "./storage";
+import { MemoryStorage } from "./memoryStorage";
+import { VirtualClock, runWithClock } from "./clock";
+import { MATURATION_CARE_ACTIONS, MATURATION_CARE_LABELS, type BatchDose, type BatchStagePath, type ProductionBatch } from "@shared/schema";
+
+const stepSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("advance"), wait: z.boolean().optional() }),
+  z.object({
+    action: z.literal("wait"),
+    minutes: z.number().min(0).optional(),
+    hours: z.number().min(0).optional(),
+    days: z.number().min(0).optional(),
+    until: z.literal("next_timer").optional(),
+  }),
+  z.object({ action: z.literal("log_ph"), value: z.number(), pieces: z.number().int().optional() }),
+  z.object({ action: z.literal("log_time"), value: z.string(), type: z.string().optional() }),
+  z.object({ action: z.literal("input"), key: z.string(), value: z.union([z.number(), z.string()]) }),
+  z.object({ action: z.literal("chamber_entry"), date: z.string().optional() }),
+  z.object({ action: z.literal("care"), care: z.enum(MATURATION_CARE_ACTIONS), notes: z.string().optional() }),
+  z.object({ action: z.literal("close"), notes: z.string().optional() }),
+]);
+
+// Steps that still apply once the lot left production for chamber 2
+const MATURATION_STEPS: SimulationStep['action'][] = ['wait', 'care', 'close'];
+
+export const simulationScriptSchema = z.object({
+  recipeId: z.string(),
+  milkVolumeL: z.number().positive(),
+  milkTemperatureC: z.number(),
+  milkPh: z.number(),
+  startAt: z.string().datetime().optional(),
+  steps: z.array(stepSchema),
+});
+
+export type SimulationScript = z.infer<typeof simulationScriptSchema>;
+export type SimulationStep = z.infer<typeof stepSchema>;
+
+export interface SimulationEvent {
+  at: string; // virtual time
+  stageId: number;
+  type: 'started' | 'advanced' | 'completed' | 'input' | 'warning' | 'timer_started'
+    | 'timer_fired' | 'timer_cancelled' | 'reminder_due' | 'care' | 'ready_for_sale' | 'closed'
+    | 'blocked' | 'error';
+  message: string;
+  step?: number; // index in script.steps
+}
+
+export interface SimulatedTimer {
+  stageId: number;
+  description: string;
+  durationMinutes: number;
+  blocking: boolean;
+  startTime: string;
+  endTime: string;
+  outcome: 'fired' | 'cancelled' | 'pending';
+}
+
+export interface SimulationBlock {
+  step: number;
+  stageId: number;
+  at: string;
+  code?: string;
+  message: string;
+}
+
+export interface SimulationReport {
+  success: boolean; // no step was blocked or failed
+  recipeId: string;
+  recipeVersion: string | null;
+  milkVolumeL: number;
+  startedAt: string;
+  finishedAt: string;
+  finalStageId: number;
+  status: string;
+  batchStatus: string;
+  doses: BatchDose[];
+  stagePath: BatchStagePath;
+  timers: SimulatedTimer[];
+  blocks: SimulationBlock[];
+  events: SimulationEvent[];
+}
+
+const MINUTE_MS = 60_000;
+
+function describeStage(stageId: number, batch: ProductionBatch): string {
+  return `Etapa ${stageId} (${recipeManager.getStage(stageId, batch)?.name ?? '?'})`;
+}
+
+class Simulation {
+  readonly events: SimulationEvent[] = [];
+  readonly blocks: SimulationBlock[] = [];
+  private timers = new Map<string, SimulatedTimer>();
+  private remindersDue = new Set<string>();
+  private batch!: ProductionBatch;
+
+  constructor(private script: SimulationScript, private clock: VirtualClock) {}
+
+  private record(type: SimulationEvent['type'], message: string, step?: number, at: Date = this.clock.now()) {
+    this.events.push({ at: at.toISOString(), stageId: this.batch?.currentStageId ?? 1, type, message, step });
+  }
+
+  private block(step: number, message: string, code?: string) {
+    this.blocks.push({ step, stageId: this.batch.currentStageId, at: this.clock.now().toISOString(), code, message });
+    this.record('blocked', message, step);
+  }
+
+  private async reload() {
+    this.batch = (await storage.getBatch(this.batch.id))!;
+  }
+
+  // Track timers started or dropped by the last operation
+  private syncTimers(step?: number) {
+    const active = (this.batch.activeTimers as any[]) || [];
+    const activeIds = new Set(active.map(t => t.id));
+    for (const t of active) {
+      if (this.timers.has(t.id)) continue;
+      this.timers.set(t.id, {
+        stageId: t.stageId,
+        description: t.description,
+        durationMinutes: t.durationMinutes,
+        blocking: t.blocking === true,
+        startTime: t.startTime,
+        endTime: t.endTime,
+        outcome: 'pending'
+      });
+      this.record('timer_started', `Timer ${t.blocking ? 'bloqueante ' : ''}de ${t.description} (etapa ${t.stageId})`, step);
+    }
+    for (const [id, timer] of Array.from(this.timers.entries())) {
+      if (timer.outcome === 'pending' && !activeIds.has(id)) {
+        timer.outcome = 'cancelled';
+        this.record('timer_cancelled', `Timer de ${timer.description} (etapa ${timer.stageId}) cancelado`, step);
+      }
+    }
+  }
+
+  // Move the virtual clock, reporting timers and reminders that come due on the way
+  private advanceClock(to: Date, step: number) {
+    this.clock.advanceTo(to);
+    const current = this.clock.now().getTime();
+
+    const fired = Array.from(this.timers.values())
+      .filter(t => t.outcome === 'pending' && new Date(t.endTime).getTime() <= current)
+      .sort((a, b) => a.endTime.localeCompare(b.endTime));
+    for (const timer of fired) {
+      timer.outcome = 'fired';
+      this.record('timer_fired', `Timer de ${timer.description} (etapa ${timer.stageId}) terminou`, step, new Date(timer.endTime));
+    }
+
+    for (const reminder of (this.batch.activeReminders as any[]) || []) {
+      // The turning reminder keeps its id and moves to the next day when done
+      const due = `${reminder.id}:${reminder.nextTrigger}`;
+      if (this.remindersDue.has(due) || new Date(reminder.nextTrigger).getTime() > current) continue;
+      this.remindersDue.add(due);
+      this.record('reminder_due', reminder.description, step, new Date(reminder.nextTrigger));
+    }
+  }
+
+  private pendingTimers(filter: (t: SimulatedTimer) => boolean = () => true): SimulatedTimer[] {
+    return Array.from(this.timers.values()).filter(t => t.outcome === 'pending' && filter(t));
+  }
+
+  async start(): Promise<boolean> {
+    const { recipeId, milkVolumeL, milkTemperatureC, milkPh } = this.script;
+    const result = await batchService.startBatch({ recipeId, milkVolumeL, milkTemperatureC, milkPh });
+    if (!result.success) {
+      this.events.push({ at: this.clock.now().toISOString(), stageId: 1, type: 'error', message: result.error || 'Falha ao iniciar lote' });
+      return false;
+    }
+    this.batch = result.batch;
+    this.record('started', `Lote iniciado em ${describeStage(this.batch.currentStageId, this.batch)}`);
+    this.syncTimers();
+    return true;
+  }
+
+  async run(step: SimulationStep, index: number): Promise<void> {
+    const maturing = this.batch.batchStatus === 'MATURING' || this.batch.batchStatus === 'READY_FOR_SALE';
+    if (this.batch.status === 'completed' && !(maturing && MATURATION_STEPS.includes(step.action))) {
+      this.record('error', `Passo "${step.action}" ignorado: lote já concluído`, index);
+      return;
+    }
+
+    switch (step.action) {
+      case 'wait': {
+        let target = this.clock.now().getTime()
+          + ((step.minutes || 0) + (step.hours || 0) * 60 + (step.days || 0) * 1440) * MINUTE_MS;
+        if (step.until === 'next_timer') {
+          const next = this.pendingTimers().map(t => new Date(t.endTime).getTime()).sort((a, b) => a - b)[0];
+          if (next !== undefined) target = Math.max(target, next);
+        }
+        // Promote at the end of maturation, like the hourly check would
+        const maturationEnd = this.batch.maturationEndDate ? new Date(this.batch.maturationEndDate).getTime() : null;
+        if (this.batch.batchStatus === 'MATURING' && maturationEnd !== null && maturationEnd <= target) {
+          this.advanceClock(new Date(maturationEnd), index);
+          if ((await batchService.promoteMaturedBatches()).includes(this.batch.id)) {
+            await this.reload();
+            this.record('ready_for_sale', 'Maturação concluída: lote pronto para venda', index);
+          }
+        }
+        this.advanceClock(new Date(target), index);
+        return;
+      }
+
+      case 'advance': {
+        if (step.wait !== false) {
+          const stageId = this.batch.currentStageId;
+          const blockingEnds = this.pendingTimers(t => t.blocking && t.stageId === stageId).map(t => new Date(t.endTime).getTime());
+          if (blockingEnds.length > 0) this.advanceClock(new Date(Math.max(...blockingEnds)), index);
+        }
+        const from = this.batch.currentStageId;
+        const result = await batchService.advanceBatch(this.batch.id);
+        if (!result.success) {
+          this.block(index, result.error || 'Não foi possível avançar', result.code);
+          return;
+        }
+        await this.reload();
+        if (result.completed) {
+          this.record('completed', `Lote concluído na ${describeStage(from, this.batch)}`, index);
+        } else {
+          const entry = ((this.batch.history as any[]) || []).slice(-1)[0];
+          const condition = entry?.condition ? ` (${entry.condition})` : '';
+          this.record('advanced', `${describeStage(from, this.batch)} → ${describeStage(this.batch.currentStageId, this.batch)}${condition}`, index);
+        }
+        break;
+      }
+
+      case 'log_ph': {
+        const result = await batchService.logPh(this.batch.id, step.value, step.pieces);
+        if (!result.success) {
+          this.block(index, result.error || 'Falha ao registrar pH');
+          return;
+        }
+        await this.reload();
+        let message = `pH ${step.value} registrado`;
+        if (result.exitCondition) {
+          message += result.shouldExitLoop
+            ? `; condição de saída atingida (${result.exitReason})`
+            : `; condição de saída ainda não atingida (${result.exitCondition})`;
+        }
+        this.record('input', message, index);
+        break;
+      }
+
+      case 'log_time': {
+        const result = await batchService.logTime(this.batch.id, step.value, step.type);
+        if (!result.success) {
+          this.block(index, result.error || 'Falha ao registrar horário', (result as any).code);
+          return;
+        }
+        await this.reload();
+        this.record('input', `${result.key} = ${step.value}`, index);
+        break;
+      }
+
+      case 'input': {
+        // Same storage as POST /api/batches/:id/input/canonical
+        const warnings = batchService.getInputValidationWarnings(this.batch, step.key, step.value);
+        const timestamp = this.clock.now().toISOString();
+        this.batch = await storage.mergeMeasurements(this.batch.id, { [step.key]: step.value }, [
+          { key: step.key, value: step.value, timestamp, stageId: this.batch.currentStageId }
+        ]);
+        await storage.logBatchAction({
+          batchId: this.batch.id,
+          stageId: this.batch.currentStageId,
+          action: 'canonical_input',
+          details: { key: step.key, value: step.value },
+          event: { type: 'measurement_recorded', at: timestamp, stageId: this.batch.currentStageId, values: { [step.key]: step.value } }
+        });
+        this.record('input', `${step.key} = ${step.value}`, index);
+        for (const warning of warnings) this.record('warning', warning, index);
+        break;
+      }
+
+      case 'chamber_entry': {
+        const date = step.date || this.clock.now().toISOString();
+        const result = await batchService.recordChamber2Entry(this.batch.id, date);
+        if (!result.success) {
+          this.block(index, result.error || 'Falha ao registrar entrada na câmara 2', result.code);
+          return;
+        }
+        await this.reload();
+        this.record('completed', `Entrada na câmara 2 em ${date}; maturação até ${result.maturationEndDateISO}`, index);
+        break;
+      }
+
+      case 'care': {
+        const result = await batchService.recordMaturationCare(this.batch.id, step.care, { notes: step.notes });
+        if (!result.success) {
+          this.block(index, result.error || 'Falha ao registrar o cuidado na câmara 2', result.code);
+          return;
+        }
+        await this.reload();
+        this.record('care', MATURATION_CARE_LABELS[step.care] + (step.notes ? `: ${step.notes}` : ''), index);
+        break;
+      }
+
+      case 'close': {
+        const result = await batchService.closeBatch(this.batch.id, step.notes);
+        if (!result.success) {
+          this.block(index, result.error || 'Falha ao encerrar o lote', result.code);
+          return;
+        }
+        await this.reload();
+        this.record('closed', 'Lote encerrado', index);
+        break;
+      }
+    }
+
+    this.syncTimers(index);
+  }
+
+  report(success: boolean, startedAt: Date): SimulationReport {
+    const batch = this.batch;
+    return {
+      success: success && this.blocks.length === 0 && !this.events.some(e => e.type === 'error'),
+      recipeId: this.script.recipeId.toUpperCase(),
+      recipeVersion: batch?.recipeVersion ?? null,
+      milkVolumeL: this.script.milkVolumeL,
+      startedAt: startedAt.toISOString(),
+      finishedAt: this.clock.now().toISOString(),
+      finalStageId: batch?.currentStageId ?? 1,
+      status: batch?.status ?? 'not_started',
+      batchStatus: batch?.batchStatus ?? 'IN_PROGRESS',
+      doses: batch ? recipeManager.getBatchDoses(batch.calculatedInputs as Record<string, number>, batch) : [],
+      stagePath: batch ? recipeManager.getStagePath(batch) : { visited: [], current: 1, remaining: [] },
+      timers: Array.from(this.timers.values()),
+      blocks: this.blocks,
+      events: this.events,
+    };
+  }
+}
+
+export async function runSimulation(script: SimulationScript): Promise<SimulationReport> {
+  const startedAt = script.startAt ? new Date(script.startAt) : new Date();
+  const clock = new VirtualClock(startedAt);
+  const simulation = new Simulation(script, clock);
+
+  return runWithStorage(new MemoryStorage(), () => runWithClock(clock, async () => {
+    if (!(await simulation.start())) return simulation.report(false, startedAt);
+    for (let index = 0; index < script.steps.length; index++) {
+      await simulation.run(script.steps[index], index);
+    }
+    return simulation.report(true, startedAt);
+  }));
+}
@@ -6,12 +6,8 @@
  * All decisions are made by the backend before calling this module.
  */
 
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+import { recipeManager, getTimerReferenceTime } from "./recipe";
+import { llm } from "./llm";
 
 export type SpeechContext = 
   | "status" 
@@ -30,6 +26,7 @@ export type SpeechContext =
 export interface DoseInfo {
   value: number;
   unit: string;
+  name?: string; // recipe input name, e.g. "Cloreto de cálcio"
 }
 
 export interface TimerInfo {
@@ -193,17 +190,13 @@ export async function renderSpeech(payload: SpeechRenderPayload): Promise<string
   let usedGuardrail = false;
   
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: SPEECH_RENDERER_PROMPT },
-        { role: "user", content: payloadJson }
-      ],
-      temperature: 0.0,
-      max_tokens: 180,
+    const reply = await llm().complete({
+      system: SPEECH_RENDERER_PROMPT,
+      user: payloadJson,
+      maxTokens: 180
     });
     
-    let speech = response.choices[0]?.message?.content?.trim() || getFallbackSpeech(payload);
+    let speech = reply?.trim() || getFallbackSpeech(payload);
     
     if (payload.allowedUtterances && payload.allowedUtterances.length > 0) {
       const violation = checkForViolation(speech, payload.allowedUtterances);
@@ -243,7 +236,7 @@ function getFallbackSpeech(payload: SpeechRenderPayload): string {
   
   if (payload.context === 'repeat_doses' && payload.doses) {
     const doseTexts = Object.entries(payload.doses)
-      .map(([name, info]) => `${info.value} ${info.unit} de ${formatDoseName(name)}`)
+      .map(([name, info]) => `${info.value} ${info.unit} de ${formatDoseName(name, info)}`)
       .join(', ');
     return `As doses deste lote são: ${doseTexts}.`;
   }
@@ -274,7 +267,7 @@ function getFallbackSpeech(payload: SpeechRenderPayload): string {
   
   if (payload.doses) {
     const doseTexts = Object.entries(payload.doses)
-      .map(([name, info]) => `${info.value} ${info.unit} de ${formatDoseName(name)}`)
+      .map(([name, info]) => `${info.value} ${info.unit} de ${formatDoseName(name, info)}`)
       .join(', ');
     if (doseTexts) parts.push(`Doses: ${doseTexts}.`);
   }
@@ -320,7 +313,7 @@ function getFallbackSpeech(payload: SpeechRenderPayload): string {
   return parts.join(' ') || "Não foi possível processar sua solicitação.";
 }
 
-function formatDoseName(name: string): string {
+function formatDoseName(name: string, info?: DoseInfo): string {
   const nameMap: Record<string, string> = {
     "FERMENT_LR": "fermento L R",
     "FERMENT_DX": "fermento D X", 
@@ -328,7 +321,7 @@ function formatDoseName(name: string): string {
     "RENNET": "coalho",
     "SALT": "sal"
   };
-  return nameMap[name] || name;
+  return nameMap[name] || info?.name?.toLowerCase() || name;
 }
 
 /**
@@ -392,14 +385,13 @@ export function buildStatusPayload(
       allowedUtterances: ["qual é o status", "ajuda"]
     };
   }
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  const doses = getRelevantDosesForStage(stage, calculatedInputs);
+  const doses = getRelevantDosesForStage(stage, batch);
   
   const timers: TimerInfo[] = [];
   const activeTimers = batch.activeTimers || [];
+  const reference = getTimerReferenceTime(batch).getTime();
   for (const timer of activeTimers) {
-    const remaining = timer.endTime ? Math.max(0, Math.ceil((new Date(timer.endTime).getTime() - Date.now()) / 60000)) : 0;
+    const remaining = timer.endTime ? Math.max(0, Math.ceil((new Date(timer.endTime).getTime() - reference) / 60000)) : 0;
     const desc = timer.description || (timer.durationMinutes && !isNaN(timer.durationMinutes) ? `${timer.durationMinutes} minutos` : undefined);
     if (desc && !desc.includes('NaN')) {
       timers.push({
@@ -463,9 +455,10 @@ export function buildAdvancePayload(
   completed: boolean = false
 ): SpeechRenderPayload {
   if (completed) {
+    const lastStage = recipeManager.getStage(batch.currentStageId, batch);
     return {
       context: "advance",
-      stage: { id: 19, name: "Transferir para Câmara 2" },
+      stage: { id: batch.currentStageId, name: lastStage?.name || `Etapa ${batch.currentStageId}` },
       notes: "Lote finalizado com sucesso! Todas as etapas foram concluídas.",
       allowedUtterances: ["qual é o status", "novo lote com 130 litros"]
     };
@@ -479,9 +472,7 @@ export function buildAdvancePayload(
     };
   }
 
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  const doses = getRelevantDosesForStage(nextStage, calculatedInputs);
+  const doses = getRelevantDosesForStage(nextStage, batch);
   
   const timers: TimerInfo[] = [];
   if (nextStage.timer) {
@@ -494,7 +485,8 @@ export function buildAdvancePayload(
     }
   }
   
-  const instructions = nextStage.id === 19 ? [] : (nextStage.instructions || []);
+  // The chamber entry stage asks for the date instead of reading its steps
+  const instructions = nextStage.operator_input_required?.includes('chamber_2_entry_date') ? [] : (nextStage.instructions || []);
   
   return {
     context: "advance",
@@ -514,10 +506,9 @@ export function buildAdvancePayload(
  */
 export function buildQueryInputPayload(
   inputType: string,
-  value: number
+  value: number,
+  unit: string = "ml"
 ): SpeechRenderPayload {
-  const unit = "ml";
-  
   return {
     context: "query_input",
     queryResult: {
@@ -529,13 +520,15 @@ export function buildQueryInputPayload(
 }
 
 export function buildCompletionPayload(
+  batch: any,
   batchCode: string,
   formattedEntryDate: string,
   formattedMaturationDate: string
 ): SpeechRenderPayload {
+  const entryStage = recipeManager.getStageForInput("chamber_2_entry_date", batch);
   return {
     context: "advance",
-    stage: { id: 19, name: "Transferir para Câmara 2" },
+    stage: entryStage ? { id: entryStage.id, name: entryStage.name } : undefined,
     notes: `Lote ${batchCode} concluído. Data de entrada na câmara dois: ${formattedEntryDate}. Fim da maturação: ${formattedMaturationDate}. Até o próximo queijo!`,
     allowedUtterances: ["qual é o status", "novo lote com 130 litros"]
   };
@@ -586,13 +579,7 @@ export function buildStartBatchPayload(
   batch: any,
   currentStage: any
 ): SpeechRenderPayload {
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  const doses: Record<string, DoseInfo> = {};
-  if (calculatedInputs.FERMENT_LR) doses["FERMENT_LR"] = { value: calculatedInputs.FERMENT_LR, unit: "ml" };
-  if (calculatedInputs.FERMENT_DX) doses["FERMENT_DX"] = { value: calculatedInputs.FERMENT_DX, unit: "ml" };
-  if (calculatedInputs.FERMENT_KL) doses["FERMENT_KL"] = { value: calculatedInputs.FERMENT_KL, unit: "ml" };
-  if (calculatedInputs.RENNET) doses["RENNET"] = { value: calculatedInputs.RENNET, unit: "ml" };
+  const doses = getBatchDoseInfo(batch);
   
   let instructions = currentStage.instructions || [];
   if (instructions.length === 0 && currentStage.type === 'heat' && currentStage.parameters?.target_temp_c) {
@@ -612,7 +599,10 @@ export function buildStartBatchPayload(
     instructions,
     doses: Object.keys(doses).length > 0 ? doses : undefined,
     allowedUtterances: getContextualUtterances(currentStage, batch),
-    notes: `Lote iniciado. A primeira etapa operacional é a Etapa ${currentStage.id}: ${currentStage.name}.`
+    notes: (batch.isTraining
+      ? `Lote de treino iniciado: os timers correm ${batch.timeCompression} vezes mais rápido e o lote não entra nos relatórios. `
+      : "Lote iniciado. ") +
+      `A primeira etapa operacional é a Etapa ${currentStage.id}: ${currentStage.name}.`
   };
 }
 
@@ -623,13 +613,7 @@ export function buildStartBatchPayload(
 export function buildRepeatDosesPayload(
   batch: any
 ): SpeechRenderPayload {
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  const doses: Record<string, DoseInfo> = {};
-  if (calculatedInputs.FERMENT_LR) doses["FERMENT_LR"] = { value: calculatedInputs.FERMENT_LR, unit: "ml" };
-  if (calculatedInputs.FERMENT_DX) doses["FERMENT_DX"] = { value: calculatedInputs.FERMENT_DX, unit: "ml" };
-  if (calculatedInputs.FERMENT_KL) doses["FERMENT_KL"] = { value: calculatedInputs.FERMENT_KL, unit: "ml" };
-  if (calculatedInputs.RENNET) doses["RENNET"] = { value: calculatedInputs.RENNET, unit: "ml" };
+  const doses = getBatchDoseInfo(batch);
   
   return {
     context: "repeat_doses",
@@ -696,9 +680,7 @@ export function buildAutoAdvancePayload(
       allowedUtterances: ["qual é o status", "ajuda"]
     };
   }
-  const calculatedInputs = batch.calculatedInputs || {};
-  
-  const doses = getRelevantDosesForStage(nextStage, calculatedInputs);
+  const doses = getRelevantDosesForStage(nextStage, batch);
   
   const timers: TimerInfo[] = [];
   if (nextStage.timer) {
@@ -711,7 +693,8 @@ export function buildAutoAdvancePayload(
     }
   }
   
-  const instructions = nextStage.id === 19 ? [] : (nextStage.instructions || []);
+  // The chamber entry stage asks for the date instead of reading its steps
+  const instructions = nextStage.operator_input_required?.includes('chamber_2_entry_date') ? [] : (nextStage.instructions || []);
   return {
     context: "auto_advance",
     confirmation: confirmationMessage,
@@ -823,40 +806,43 @@ export function getPendingInputs(batch: any, stageId: number, stage: any): strin
   return pending;
 }
 
+/**
+ * All calculated doses of the batch keyed by input id, in each input's
+ * display unit as declared in the batch recipe
+ */
+function getBatchDoseInfo(batch: any): Record<string, DoseInfo> {
+  const doses: Record<string, DoseInfo> = {};
+  for (const dose of recipeManager.getBatchDoses(batch.calculatedInputs, batch)) {
+    if (!dose.value) continue;
+    doses[dose.id] = { value: dose.value, unit: dose.unit, name: dose.name };
+  }
+  return doses;
+}
+
 /**
  * Get relevant doses for a stage based on stage name and instructions keywords
- * Instead of hardcoding by stage.id, uses keyword matching
- * Stages 3 and 4 never show doses (doses are announced in etapa 2 at start_batch)
+ * Instead of hardcoding by stage.id, matches recipe input names in the stage text
+ * The stages a batch starts on never show doses (start_batch announced them)
  */
 export function getRelevantDosesForStage(
   stage: any, 
-  calculatedInputs: Record<string, number>
+  batch: any
 ): Record<string, DoseInfo> {
   const doses: Record<string, DoseInfo> = {};
   
-  if (!stage || !calculatedInputs) return doses;
+  if (!stage || !batch?.calculatedInputs) return doses;
   
-  if (stage.id === 3 || stage.id === 4) return doses;
+  if (recipeManager.getStartStageIds(batch).has(stage.id)) return doses;
   
   const stageText = [
     stage.name || '',
     ...(stage.instructions || [])
   ].join(' ').toLowerCase();
   
-  if (stageText.includes('lr') && calculatedInputs.FERMENT_LR) {
-    doses["FERMENT_LR"] = { value: calculatedInputs.FERMENT_LR, unit: "ml" };
-  }
-  if (stageText.includes('dx') && calculatedInputs.FERMENT_DX) {
-    doses["FERMENT_DX"] = { value: calculatedInputs.FERMENT_DX, unit: "ml" };
-  }
-  if (stageText.includes('kl') && calculatedInputs.FERMENT_KL) {
-    doses["FERMENT_KL"] = { value: calculatedInputs.FERMENT_KL, unit: "ml" };
-  }
-  if (stageText.includes('coalho') && calculatedInputs.RENNET) {
-    doses["RENNET"] = { value: calculatedInputs.RENNET, unit: "ml" };
-  }
-  if (stageText.includes('sal') && calculatedInputs.SALT) {
-    doses["SALT"] = { value: calculatedInputs.SALT, unit: "g" };
+  for (const [id, info] of Object.entries(getBatchDoseInfo(batch))) {
+    if (info.name && stageText.includes(info.name.toLowerCase())) {
+      doses[id] = info;
+    }
   }
   
   return doses;
@@ -0,0 +1,128 @@
+/**
+ * Stage side-effects declared in recipe YAML and run by advanceBatch:
+ *
+ *   on_enter:
+ *     - action: "record_timestamp"   # measurements[key] = now (once, unless overwrite: true)
+ *       key: "ferment_lr_dx_add_time_iso"
+ *     - action: "start_timer"        # non-blocking timer unless blocking: true
+ *       duration_min: 90
+ *       description: "1 hora e 30 minutos"
+ *     - action: "start_timer"        # duration read from the recipe's process block
+ *       duration_param: "ph_check_interval_min"
+ *   on_exit:
+ *     - action: "stop_timers"        # drop every timer of the stage
+ *
+ * Input key mappings live next to the hooks:
+ *
+ *   store_as:
+ *     ph_value: "initial_ph"         # a ph_value registered at this stage is stored as initial_ph
+ */
+
+import { randomBytes } from "crypto";
+import { now as currentTime } from "./clock";
+
+export interface StageHook {
+  action: 'record_timestamp' | 'start_timer' | 'stop_timers';
+  key?: string;
+  overwrite?: boolean;
+  duration_min?: number;
+  duration_hours?: number;
+  duration_param?: string;
+  description?: string;
+  blocking?: boolean;
+}
+
+// Batch state the hooks may change; mutated in place
+export interface HookState {
+  measurements: Record<string, any>;
+  activeTimers: any[];
+}
+
+export interface HookResult {
+  measurementsChanged: boolean;
+  timersChanged: boolean;
+}
+
+const generateId = () => randomBytes(8).toString('hex');
+
+// `parameters` are the recipe's process values (minutes for duration_param)
+export function getHookTimerMinutes(hook: StageHook, testMode: boolean, parameters: Record<string, number> = {}, compression: number = 1): number {
+  if (testMode) return 2;
+  if (hook.duration_param) return (parameters[hook.duration_param] || 0) / compression;
+  return ((hook.duration_min || 0) + (hook.duration_hours || 0) * 60) / compression;
+}
+
+function describeMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m} minutos`;
+  const hours = `${h} hora${h > 1 ? 's' : ''}`;
+  return m > 0 ? `${hours} e ${m} minutos` : hours;
+}
+
+export function buildHookTimer(
+  hook: StageHook,
+  stageId: number,
+  testMode: boolean,
+  now: Date = currentTime(),
+  parameters: Record<string, number> = {},
+  compression: number = 1
+) {
+  const durationMinutes = getHookTimerMinutes(hook, testMode, parameters, compression);
+  const description = hook.description || describeMinutes(durationMinutes * compression);
+  return {
+    id: generateId(),
+    stageId,
+    durationMinutes,
+    startTime: now.toISOString(),
+    endTime: new Date(now.getTime() + durationMinutes * 60000).toISOString(),
+    description: testMode
+      ? `${durationMinutes} minuto(s) (TESTE)`
+      : compression > 1
+        ? `${description} (treino: ${describeMinutes(Math.max(1, Math.round(durationMinutes)))})`
+        : description,
+    blocking: hook.blocking === true
+  };
+}
+
+export function runStageHooks(
+  hooks: StageHook[] | undefined,
+  stageId: number,
+  state: HookState,
+  options: { testMode: boolean; now?: Date; parameters?: Record<string, number>; timeCompression?: number }
+): HookResult {
+  const result: HookResult = { measurementsChanged: false, timersChanged: false };
+  const now = options.now || currentTime();
+  const nowIso = now.toISOString();
+
+  for (const hook of hooks || []) {
+    switch (hook.action) {
+      case 'record_timestamp': {
+        if (!hook.key) break;
+        if (state.measurements[hook.key] && !hook.overwrite) break;
+        state.measurements[hook.key] = nowIso;
+        const history = state.measurements._history || [];
+        history.push({ key: hook.key, value: nowIso, stageId, timestamp: nowIso });
+        state.measurements._history = history;
+        result.measurementsChanged = true;
+        break;
+      }
+      case 'start_timer': {
+        if (getHookTimerMinutes(hook, options.testMode, options.parameters) <= 0) break;
+        state.activeTimers.push(buildHookTimer(hook, stageId, options.testMode, now, options.parameters, options.timeCompression));
+        result.timersChanged = true;
+        break;
+      }
+      case 'stop_timers': {
+        const before = state.activeTimers.length;
+        state.activeTimers = state.activeTimers.filter(t => t.stageId !== stageId);
+        if (state.activeTimers.length !== before) result.timersChanged = true;
+        break;
+      }
+      default:
+        console.error(`[HOOKS] Stage ${stageId}: unknown hook action "${(hook as any).action}" ignored`);
+    }
+  }
+
+  return result;
+}
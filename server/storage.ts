@@ -1,11 +1,35 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { db } from "./db";
 import { 
-  productionBatches, batchLogs, alexaUserState,
+  productionBatches, batchLogs, alexaUserState, recipeSnapshots, batchMeasurements, scheduledJobs, voiceDialogState,
   type ProductionBatch, type InsertBatch,
-  type InsertLog 
+  type RecipeSnapshot, type InsertRecipeSnapshot,
+  type InsertLog, type BatchLifecycleStatus,
+  type BatchMeasurement, type InsertBatchMeasurement, type BatchEventRecord, type BatchEvent,
+  type ScheduledJob, type InsertScheduledJob,
+  type VoiceDialogStateRow, type InsertVoiceDialogState
 } from "@shared/schema";
-import { eq, desc, inArray } from "drizzle-orm";
+import { eq, desc, asc, inArray, notInArray, and, or, sql, isNull, isNotNull, gt, gte, lt, lte } from "drizzle-orm";
 import { chatStorage, type IChatStorage } from "./replit_integrations/chat/storage";
+import { now } from "./clock";
+
+// The batch changed since it was read; the caller should re-read and redo its change
+export class BatchVersionConflictError extends Error {
+  constructor(public batchId: number, public expectedVersion: number) {
+    super(`Batch ${batchId} was modified concurrently (expected version ${expectedVersion})`);
+    this.name = "BatchVersionConflictError";
+  }
+}
+
+// A running job whose worker died is picked up again after this long
+export const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type MeasurementFilter = {
+  key?: string;
+  recipeId?: string;
+  from?: Date;
+  to?: Date;
+};
 
 export interface IStorage extends IChatStorage {
   // Batch Operations
@@ -13,17 +37,53 @@ export interface IStorage extends IChatStorage {
   getActiveBatches(): Promise<ProductionBatch[]>;
   getCompletedBatches(): Promise<ProductionBatch[]>;
   getAllBatches(): Promise<ProductionBatch[]>;
+  getBatchesByLifecycle(statuses: BatchLifecycleStatus[]): Promise<ProductionBatch[]>;
   createBatch(batch: InsertBatch): Promise<ProductionBatch>;
-  updateBatch(id: number, updates: Partial<ProductionBatch>): Promise<ProductionBatch>;
+  // With expectedVersion, writes only if the row is still at that version and
+  // throws BatchVersionConflictError otherwise
+  updateBatch(id: number, updates: Partial<ProductionBatch>, expectedVersion?: number): Promise<ProductionBatch>;
+  // Atomic appends: no read-modify-write, so concurrent writers never drop entries
+  appendBatchHistory(id: number, entries: any[], updates?: Partial<ProductionBatch>): Promise<ProductionBatch>;
+  mergeMeasurements(id: number, values: Record<string, any>, historyEntries?: any[]): Promise<ProductionBatch>;
   
+  // Recipe Snapshots
+  saveRecipeSnapshot(snapshot: InsertRecipeSnapshot): Promise<void>;
+  getRecipeSnapshots(): Promise<RecipeSnapshot[]>;
+
   // Logging
   logBatchAction(log: InsertLog): Promise<void>;
   getBatchLogs(batchId: number): Promise<any[]>;
+  // Log entries carrying a state event, in the order they happened
+  getBatchEvents(batchId: number): Promise<BatchEventRecord[]>;
+
+  // Measurements: only current rows (not superseded or reverted) are returned, oldest first;
+  // findMeasurements searches production batches only, never training ones
+  addMeasurements(rows: InsertBatchMeasurement[]): Promise<BatchMeasurement[]>;
+  getMeasurement(id: number): Promise<BatchMeasurement | undefined>;
+  getBatchMeasurements(batchIds: number[]): Promise<BatchMeasurement[]>;
+  findMeasurements(filter: MeasurementFilter): Promise<BatchMeasurement[]>;
+  supersedeMeasurement(id: number, replacement: InsertBatchMeasurement): Promise<BatchMeasurement>;
+  markMeasurementsReverted(ids: number[], at: Date): Promise<void>;
+
+  // Scheduled jobs: keys are unique, scheduling an existing key only revives it if cancelled
+  scheduleJobs(jobs: InsertScheduledJob[]): Promise<void>;
+  cancelPendingJobs(batchId: number, keepKeys: string[]): Promise<number>;
+  // Mark due jobs (and running ones whose lock went stale) as running for this worker
+  claimDueJobs(at: Date, limit: number): Promise<ScheduledJob[]>;
+  finishJob(id: number, updates: Partial<ScheduledJob>): Promise<void>;
+  getFiredJobs(since: Date): Promise<ScheduledJob[]>;
+  getNextJobRunAt(): Promise<Date | null>;
 
   // Alexa User State
   getLastActiveBatch(alexaUserId: string): Promise<number | null>;
   setLastActiveBatch(alexaUserId: string, batchId: number): Promise<void>;
   clearLastActiveBatch(alexaUserId: string): Promise<void>;
+
+  // Alexa guided dialogs: one open step per session, ignored once expired
+  getVoiceDialogState(sessionId: string, at: Date): Promise<VoiceDialogStateRow | undefined>;
+  saveVoiceDialogState(state: InsertVoiceDialogState): Promise<void>;
+  deleteVoiceDialogState(sessionId: string): Promise<void>;
+  deleteExpiredVoiceDialogStates(at: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -61,22 +121,73 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(productionBatches.startedAt));
   }
 
+  async getBatchesByLifecycle(statuses: BatchLifecycleStatus[]): Promise<ProductionBatch[]> {
+    return await db.select()
+      .from(productionBatches)
+      .where(inArray(productionBatches.batchStatus, statuses))
+      .orderBy(productionBatches.maturationEndDate);
+  }
+
   async createBatch(batch: InsertBatch): Promise<ProductionBatch> {
-    const [newBatch] = await db.insert(productionBatches).values(batch).returning();
+    const timestamp = now();
+    const [newBatch] = await db.insert(productionBatches).values({ ...batch, startedAt: timestamp, updatedAt: timestamp }).returning();
     return newBatch;
   }
 
-  async updateBatch(id: number, updates: Partial<ProductionBatch>): Promise<ProductionBatch> {
+  async updateBatch(id: number, updates: Partial<ProductionBatch>, expectedVersion?: number): Promise<ProductionBatch> {
+    const { version: _ignored, ...changes } = updates;
+    const [updated] = await db.update(productionBatches)
+      .set({ ...changes, version: sql`${productionBatches.version} + 1`, updatedAt: now() })
+      .where(expectedVersion === undefined
+        ? eq(productionBatches.id, id)
+        : and(eq(productionBatches.id, id), eq(productionBatches.version, expectedVersion)))
+      .returning();
+    if (!updated && expectedVersion !== undefined) {
+      throw new BatchVersionConflictError(id, expectedVersion);
+    }
+    return updated;
+  }
+
+  async appendBatchHistory(id: number, entries: any[], updates: Partial<ProductionBatch> = {}): Promise<ProductionBatch> {
+    const { version: _ignored, history: _history, ...changes } = updates;
     const [updated] = await db.update(productionBatches)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({
+        ...changes,
+        history: sql`coalesce(${productionBatches.history}, '[]'::jsonb) || ${JSON.stringify(entries)}::jsonb`,
+        version: sql`${productionBatches.version} + 1`,
+        updatedAt: now()
+      })
       .where(eq(productionBatches.id, id))
       .returning();
     return updated;
   }
 
+  async mergeMeasurements(id: number, values: Record<string, any>, historyEntries: any[] = []): Promise<ProductionBatch> {
+    const measurements = sql`coalesce(${productionBatches.measurements}, '{}'::jsonb)`;
+    const [updated] = await db.update(productionBatches)
+      .set({
+        measurements: sql`${measurements} || ${JSON.stringify(values)}::jsonb || jsonb_build_object('_history', coalesce(${measurements} -> '_history', '[]'::jsonb) || ${JSON.stringify(historyEntries)}::jsonb)`,
+        version: sql`${productionBatches.version} + 1`,
+        updatedAt: now()
+      })
+      .where(eq(productionBatches.id, id))
+      .returning();
+    return updated;
+  }
+
+  // --- Recipe Snapshots ---
+  // Snapshots are immutable: the version is a content hash, so an existing row is kept as is
+  async saveRecipeSnapshot(snapshot: InsertRecipeSnapshot): Promise<void> {
+    await db.insert(recipeSnapshots).values({ ...snapshot, createdAt: now() }).onConflictDoNothing();
+  }
+
+  async getRecipeSnapshots(): Promise<RecipeSnapshot[]> {
+    return await db.select().from(recipeSnapshots);
+  }
+
   // --- Logging ---
   async logBatchAction(log: InsertLog): Promise<void> {
-    await db.insert(batchLogs).values(log);
+    await db.insert(batchLogs).values({ ...log, timestamp: now() });
   }
 
   async getBatchLogs(batchId: number): Promise<any[]> {
@@ -86,6 +197,131 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(batchLogs.timestamp));
   }
 
+  async getBatchEvents(batchId: number): Promise<BatchEventRecord[]> {
+    const rows = await db.select()
+      .from(batchLogs)
+      .where(and(eq(batchLogs.batchId, batchId), isNotNull(batchLogs.event)))
+      .orderBy(asc(batchLogs.timestamp), asc(batchLogs.id));
+    return rows.map(row => ({ ...row, event: row.event as BatchEvent }));
+  }
+
+  // --- Measurements ---
+  async addMeasurements(rows: InsertBatchMeasurement[]): Promise<BatchMeasurement[]> {
+    if (rows.length === 0) return [];
+    const recordedAt = now();
+    return await db.insert(batchMeasurements).values(rows.map(row => ({ ...row, recordedAt: row.recordedAt ?? recordedAt }))).returning();
+  }
+
+  async getMeasurement(id: number): Promise<BatchMeasurement | undefined> {
+    const [row] = await db.select().from(batchMeasurements).where(eq(batchMeasurements.id, id));
+    return row;
+  }
+
+  async getBatchMeasurements(batchIds: number[]): Promise<BatchMeasurement[]> {
+    if (batchIds.length === 0) return [];
+    return await db.select()
+      .from(batchMeasurements)
+      .where(and(
+        inArray(batchMeasurements.batchId, batchIds),
+        isNull(batchMeasurements.supersededBy),
+        isNull(batchMeasurements.revertedAt)
+      ))
+      .orderBy(asc(batchMeasurements.recordedAt), asc(batchMeasurements.id));
+  }
+
+  async findMeasurements(filter: MeasurementFilter): Promise<BatchMeasurement[]> {
+    return await db.select()
+      .from(batchMeasurements)
+      .where(and(
+        isNull(batchMeasurements.supersededBy),
+        isNull(batchMeasurements.revertedAt),
+        filter.key ? eq(batchMeasurements.key, filter.key) : undefined,
+        filter.from ? gte(batchMeasurements.recordedAt, filter.from) : undefined,
+        filter.to ? lte(batchMeasurements.recordedAt, filter.to) : undefined,
+        inArray(batchMeasurements.batchId, db.select({ id: productionBatches.id }).from(productionBatches).where(and(
+          eq(productionBatches.isTraining, false),
+          filter.recipeId ? eq(productionBatches.recipeId, filter.recipeId) : undefined
+        )))
+      ))
+      .orderBy(asc(batchMeasurements.recordedAt), asc(batchMeasurements.id));
+  }
+
+  async supersedeMeasurement(id: number, replacement: InsertBatchMeasurement): Promise<BatchMeasurement> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(batchMeasurements).values(replacement).returning();
+      await tx.update(batchMeasurements).set({ supersededBy: created.id }).where(eq(batchMeasurements.id, id));
+      return created;
+    });
+  }
+
+  async markMeasurementsReverted(ids: number[], at: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(batchMeasurements).set({ revertedAt: at }).where(inArray(batchMeasurements.id, ids));
+  }
+
+  // --- Scheduled Jobs ---
+  async scheduleJobs(jobs: InsertScheduledJob[]): Promise<void> {
+    if (jobs.length === 0) return;
+    const createdAt = now();
+    await db.insert(scheduledJobs).values(jobs.map(job => ({ ...job, createdAt }))).onConflictDoUpdate({
+      target: scheduledJobs.key,
+      set: { status: "pending", runAt: sql`excluded.run_at`, payload: sql`excluded.payload`, attempts: 0, lastError: null },
+      setWhere: eq(scheduledJobs.status, "cancelled")
+    });
+  }
+
+  async cancelPendingJobs(batchId: number, keepKeys: string[]): Promise<number> {
+    const cancelled = await db.update(scheduledJobs)
+      .set({ status: "cancelled" })
+      .where(and(
+        eq(scheduledJobs.batchId, batchId),
+        eq(scheduledJobs.status, "pending"),
+        keepKeys.length > 0 ? notInArray(scheduledJobs.key, keepKeys) : undefined
+      ))
+      .returning({ id: scheduledJobs.id });
+    return cancelled.length;
+  }
+
+  async claimDueJobs(at: Date, limit: number): Promise<ScheduledJob[]> {
+    const staleBefore = new Date(at.getTime() - JOB_LOCK_TIMEOUT_MS);
+    return await db.transaction(async (tx) => {
+      const due = await tx.select({ id: scheduledJobs.id })
+        .from(scheduledJobs)
+        .where(or(
+          and(eq(scheduledJobs.status, "pending"), lte(scheduledJobs.runAt, at)),
+          and(eq(scheduledJobs.status, "running"), lt(scheduledJobs.lockedAt, staleBefore))
+        ))
+        .orderBy(asc(scheduledJobs.runAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+      return await tx.update(scheduledJobs)
+        .set({ status: "running", lockedAt: at, attempts: sql`${scheduledJobs.attempts} + 1` })
+        .where(inArray(scheduledJobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async finishJob(id: number, updates: Partial<ScheduledJob>): Promise<void> {
+    await db.update(scheduledJobs).set({ ...updates, lockedAt: null }).where(eq(scheduledJobs.id, id));
+  }
+
+  async getFiredJobs(since: Date): Promise<ScheduledJob[]> {
+    return await db.select()
+      .from(scheduledJobs)
+      .where(and(eq(scheduledJobs.status, "done"), gt(scheduledJobs.firedAt, since)))
+      .orderBy(asc(scheduledJobs.firedAt));
+  }
+
+  async getNextJobRunAt(): Promise<Date | null> {
+    const [next] = await db.select({ runAt: scheduledJobs.runAt })
+      .from(scheduledJobs)
+      .where(eq(scheduledJobs.status, "pending"))
+      .orderBy(asc(scheduledJobs.runAt))
+      .limit(1);
+    return next?.runAt ?? null;
+  }
+
   async getLastActiveBatch(alexaUserId: string): Promise<number | null> {
     const [row] = await db.select()
       .from(alexaUserState)
@@ -95,10 +331,10 @@ export class DatabaseStorage implements IStorage {
 
   async setLastActiveBatch(alexaUserId: string, batchId: number): Promise<void> {
     await db.insert(alexaUserState)
-      .values({ alexaUserId, activeBatchId: batchId, updatedAt: new Date() })
+      .values({ alexaUserId, activeBatchId: batchId, updatedAt: now() })
       .onConflictDoUpdate({
         target: alexaUserState.alexaUserId,
-        set: { activeBatchId: batchId, updatedAt: new Date() },
+        set: { activeBatchId: batchId, updatedAt: now() },
       });
   }
 
@@ -106,6 +342,50 @@ export class DatabaseStorage implements IStorage {
     await db.delete(alexaUserState)
       .where(eq(alexaUserState.alexaUserId, alexaUserId));
   }
+
+  async getVoiceDialogState(sessionId: string, at: Date): Promise<VoiceDialogStateRow | undefined> {
+    const [row] = await db.select()
+      .from(voiceDialogState)
+      .where(and(eq(voiceDialogState.sessionId, sessionId), gt(voiceDialogState.expiresAt, at)));
+    return row;
+  }
+
+  async saveVoiceDialogState(state: InsertVoiceDialogState): Promise<void> {
+    const { sessionId, ...rest } = state;
+    await db.insert(voiceDialogState)
+      .values({ ...state, updatedAt: now() })
+      .onConflictDoUpdate({
+        target: voiceDialogState.sessionId,
+        set: { ...rest, updatedAt: now() },
+      });
+  }
+
+  async deleteVoiceDialogState(sessionId: string): Promise<void> {
+    await db.delete(voiceDialogState)
+      .where(eq(voiceDialogState.sessionId, sessionId));
+  }
+
+  async deleteExpiredVoiceDialogStates(at: Date): Promise<number> {
+    const deleted = await db.delete(voiceDialogState)
+      .where(lte(voiceDialogState.expiresAt, at))
+      .returning({ sessionId: voiceDialogState.sessionId });
+    return deleted.length;
+  }
 }
 
-export const storage = new DatabaseStorage();
+const scopedStorage = new AsyncLocalStorage<IStorage>();
+const databaseStorage = new DatabaseStorage();
+
+// Database storage, or the store given to runWithStorage for the current async
+// call chain (the recipe simulator runs batchService against a MemoryStorage)
+export const storage: IStorage = new Proxy(databaseStorage, {
+  get(target, prop) {
+    const active = scopedStorage.getStore() ?? target;
+    const value = (active as any)[prop];
+    return typeof value === "function" ? value.bind(active) : value;
+  },
+});
+
+export function runWithStorage<T>(store: IStorage, fn: () => T): T {
+  return scopedStorage.run(store, fn);
+}
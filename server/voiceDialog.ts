@@ -0,0 +1,175 @@
+import { storage } from "./storage";
+import { now } from "./clock";
+import { type VoiceDialogStateRow, type InsertVoiceDialogState } from "@shared/schema";
+
+/**
+ * Guided Alexa dialogs (start batch temperature → pH, stage 13 pH → pieces,
+ * time capture, "voltar etapa?" confirmation) as a state machine. The open step travels in the session
+ * attributes as `pending`, with what the flow collected so far, and is kept in
+ * voice_dialog_state so the answer to "qual a temperatura do leite?" still
+ * lands after a restart or on another instance.
+ */
+
+export const VOICE_DIALOG_TTL_MS = 5 * 60 * 1000;
+
+export type StartBatchDraft = {
+  recipe_id?: string;
+  milk_volume_l?: number;
+  milk_temperature_c?: number;
+  milk_ph?: number;
+  training?: boolean;
+};
+
+export type VoiceDialog =
+  | { flow: "start_batch"; step: "temperature" | "ph"; draft: StartBatchDraft }
+  | { flow: "stage13"; step: "ph" | "pieces" }
+  | { flow: "log_time"; step: "time"; timeType?: string }
+  | { flow: "revert"; step: "confirm"; fromStageId: number };
+
+// Session `pending` value of each step
+const STEP_PENDING = {
+  "start_batch.temperature": "START_BATCH_TEMP",
+  "start_batch.ph": "START_BATCH_PH",
+  "stage13.ph": "STAGE13_PH",
+  "stage13.pieces": "STAGE13_PIECES",
+  "log_time.time": "LOG_TIME",
+  "revert.confirm": "CONFIRM_REVERT",
+} as const;
+
+type DialogStep = keyof typeof STEP_PENDING;
+export type VoiceDialogPending = typeof STEP_PENDING[DialogStep];
+
+const ALL_STEPS = Object.keys(STEP_PENDING) as DialogStep[];
+
+// Where each step may go next; "idle" ends the dialog
+const TRANSITIONS: Record<DialogStep | "idle", Array<DialogStep | "idle">> = {
+  "idle": [...ALL_STEPS, "idle"],
+  "start_batch.temperature": ["start_batch.temperature", "start_batch.ph", "idle"],
+  "start_batch.ph": ["start_batch.ph", "idle"],
+  "stage13.ph": ["stage13.ph", "stage13.pieces", "idle"],
+  "stage13.pieces": ["stage13.pieces", "stage13.ph", "idle"],
+  // Time capture doesn't hold the session; any other command may take over
+  "log_time.time": [...ALL_STEPS, "idle"],
+  // Neither does the revert question: an answer that isn't yes/no drops it
+  "revert.confirm": [...ALL_STEPS, "idle"],
+};
+
+function stepOf(dialog: VoiceDialog | null): DialogStep | "idle" {
+  return dialog ? `${dialog.flow}.${dialog.step}` as DialogStep : "idle";
+}
+
+export function canTransition(from: VoiceDialog | null, to: VoiceDialog | null): boolean {
+  return TRANSITIONS[stepOf(from)].includes(stepOf(to));
+}
+
+// Open step in the session attributes; null when idle
+export function readVoiceDialog(attrs: Record<string, any> | null | undefined): VoiceDialog | null {
+  switch (attrs?.pending) {
+    case "START_BATCH_TEMP":
+      return { flow: "start_batch", step: "temperature", draft: attrs.startBatchDraft || {} };
+    case "START_BATCH_PH":
+      return { flow: "start_batch", step: "ph", draft: attrs.startBatchDraft || {} };
+    case "STAGE13_PH":
+      return { flow: "stage13", step: "ph" };
+    case "STAGE13_PIECES":
+      return { flow: "stage13", step: "pieces" };
+    case "LOG_TIME":
+      return { flow: "log_time", step: "time", timeType: attrs.pendingTimeType };
+    case "CONFIRM_REVERT":
+      return { flow: "revert", step: "confirm", fromStageId: attrs.revertFromStageId };
+    default:
+      return null;
+  }
+}
+
+// Copy of the session attributes with `dialog` as the open step (null ends it)
+export function writeVoiceDialog(attrs: Record<string, any>, dialog: VoiceDialog | null): Record<string, any> {
+  const next = { ...attrs };
+  if (readVoiceDialog(attrs)) delete next.pending;
+  delete next.startBatchDraft;
+  delete next.pendingTimeType;
+  delete next.revertFromStageId;
+  if (!dialog) return next;
+
+  next.pending = STEP_PENDING[stepOf(dialog) as DialogStep];
+  if (dialog.flow === "start_batch") next.startBatchDraft = dialog.draft;
+  if (dialog.flow === "log_time" && dialog.timeType) next.pendingTimeType = dialog.timeType;
+  if (dialog.flow === "revert") next.revertFromStageId = dialog.fromStageId;
+  return next;
+}
+
+function toRow(sessionId: string, alexaUserId: string | null, dialog: VoiceDialog): InsertVoiceDialogState {
+  const { flow, step, ...data } = dialog;
+  return {
+    sessionId,
+    alexaUserId,
+    flow,
+    step,
+    data,
+    expiresAt: new Date(now().getTime() + VOICE_DIALOG_TTL_MS)
+  };
+}
+
+function fromRow(row: VoiceDialogStateRow): VoiceDialog | null {
+  const key = `${row.flow}.${row.step}`;
+  if (!(key in STEP_PENDING)) return null;
+  return { ...(row.data || {}), flow: row.flow, step: row.step } as VoiceDialog;
+}
+
+/**
+ * Open step for this turn. Attributes Alexa sent back with a `pending` win;
+ * without one, the stored step (if not expired) is merged into `attrs`.
+ */
+export async function restoreVoiceDialog(sessionId: string | undefined, attrs: Record<string, any>): Promise<VoiceDialog | null> {
+  if (sessionId && attrs.pending === undefined) {
+    try {
+      const row = await storage.getVoiceDialogState(sessionId, now());
+      const dialog = row ? fromRow(row) : null;
+      if (dialog) {
+        Object.assign(attrs, writeVoiceDialog(attrs, dialog));
+        console.log(`[VOICE_DIALOG] Restored ${stepOf(dialog)} for session ...${sessionId.slice(-8)}`);
+      }
+    } catch (err) {
+      console.error("[VOICE_DIALOG] Restore failed:", err);
+    }
+  }
+  return readVoiceDialog(attrs);
+}
+
+/**
+ * Store the step a response leaves the dialog in. A move the state machine
+ * doesn't allow ends the dialog instead; the returned attributes (sent to
+ * Alexa) say so too.
+ */
+export async function saveVoiceDialog(
+  sessionId: string,
+  alexaUserId: string | null,
+  previous: VoiceDialog | null,
+  attrs: Record<string, any>
+): Promise<Record<string, any>> {
+  let dialog = readVoiceDialog(attrs);
+  if (!canTransition(previous, dialog)) {
+    console.warn(`[VOICE_DIALOG] Invalid transition ${stepOf(previous)} -> ${stepOf(dialog)}; ending the dialog`);
+    attrs = writeVoiceDialog(attrs, null);
+    dialog = null;
+  }
+
+  if (dialog) {
+    await storage.saveVoiceDialogState(toRow(sessionId, alexaUserId, dialog));
+  } else if (previous) {
+    await storage.deleteVoiceDialogState(sessionId);
+  }
+  return attrs;
+}
+
+// Drop expired rows every TTL; reads already ignore them
+export function scheduleVoiceDialogCleanup() {
+  setInterval(async () => {
+    try {
+      const deleted = await storage.deleteExpiredVoiceDialogStates(now());
+      if (deleted > 0) console.log(`[VOICE_DIALOG] Removed ${deleted} expired dialog(s)`);
+    } catch (err) {
+      console.error("[VOICE_DIALOG] Cleanup failed:", err);
+    }
+  }, VOICE_DIALOG_TTL_MS);
+}
@@ -0,0 +1,145 @@
+/**
+ * Alexa request envelopes as the skill receives them, for the conversation
+ * simulator (server/alexa/conversation.ts, `npm run alexa:sim` and the
+ * /alexa/simulator page). Only the fields the webhook reads are filled in;
+ * there is no apiAccessToken, so no Alexa reminders are scheduled.
+ */
+
+import { z } from "zod";
+
+export const SIMULATOR_APPLICATION_ID = "amzn1.ask.skill.simulator";
+export const SIMULATOR_USER_ID = "amzn1.ask.account.SIMULATOR";
+
+// One Alexa session: attributes come back with each response and go out with
+// the next request
+export interface SimulatedSession {
+  sessionId: string;
+  userId: string;
+  attributes: Record<string, any>;
+  isNew: boolean;
+}
+
+export function newSimulatedSession(userId: string = SIMULATOR_USER_ID): SimulatedSession {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  return { sessionId: `amzn1.echo-api.session.sim-${suffix}`, userId, attributes: {}, isNew: true };
+}
+
+function envelope(session: SimulatedSession, request: Record<string, any>, timestamp: Date) {
+  const application = { applicationId: SIMULATOR_APPLICATION_ID };
+  const user = { userId: session.userId };
+  return {
+    version: "1.0",
+    session: { new: session.isNew, sessionId: session.sessionId, application, attributes: session.attributes, user },
+    context: { System: { application, user, device: { deviceId: "amzn1.ask.device.SIMULATOR" } } },
+    request: {
+      requestId: `amzn1.echo-api.request.sim-${Math.random().toString(36).slice(2, 10)}`,
+      timestamp: timestamp.toISOString().replace(/\.\d{3}Z$/, "Z"),
+      locale: "pt-BR",
+      ...request
+    }
+  };
+}
+
+export function buildLaunchRequest(session: SimulatedSession, timestamp: Date = new Date()) {
+  return envelope(session, { type: "LaunchRequest" }, timestamp);
+}
+
+// `slots` by name, e.g. { temp_value: "32" }; empty values are left unfilled
+export function buildIntentRequest(session: SimulatedSession, intentName: string, slots: Record<string, string> = {}, timestamp: Date = new Date()) {
+  const slotEntries = Object.entries(slots).map(([name, value]) =>
+    [name, value === "" ? { name, confirmationStatus: "NONE" } : { name, value, confirmationStatus: "NONE" }]);
+  return envelope(session, {
+    type: "IntentRequest",
+    dialogState: "STARTED",
+    intent: { name: intentName, confirmationStatus: "NONE", slots: Object.fromEntries(slotEntries) }
+  }, timestamp);
+}
+
+export function buildSessionEndedRequest(session: SimulatedSession, reason: "USER_INITIATED" | "EXCEEDED_MAX_REPROMPTS" | "ERROR" = "USER_INITIATED", timestamp: Date = new Date()) {
+  return envelope(session, { type: "SessionEndedRequest", reason }, timestamp);
+}
+
+// What a response tells the simulator
+export interface SimulatedReply {
+  speech: string;
+  reprompt?: string;
+  shouldEndSession: boolean;
+  attributes: Record<string, any>;
+}
+
+export function readAlexaReply(body: any): SimulatedReply {
+  const speechOf = (output: any) => output?.text ?? output?.ssml?.replace(/<[^>]+>/g, "") ?? "";
+  return {
+    speech: speechOf(body?.response?.outputSpeech),
+    reprompt: body?.response?.reprompt ? speechOf(body.response.reprompt.outputSpeech) : undefined,
+    shouldEndSession: body?.response?.shouldEndSession === true,
+    attributes: body?.sessionAttributes || {}
+  };
+}
+
+// Session after a reply: attributes carried over, closed when the skill ends it
+export function applyAlexaReply(session: SimulatedSession, reply: SimulatedReply): SimulatedSession {
+  return reply.shouldEndSession
+    ? newSimulatedSession(session.userId)
+    : { ...session, attributes: reply.attributes, isNew: false };
+}
+
+// The skill's interaction model (server/alexa/interactionModel.ts)
+export type SlotTypeValue = { name: { value: string; synonyms?: string[] } };
+
+export type InteractionModel = {
+  interactionModel: {
+    languageModel: {
+      invocationName: string;
+      intents: Array<{ name: string; slots?: Array<{ name: string; type: string }>; samples: string[] }>;
+      types: Array<{ name: string; values: SlotTypeValue[] }>;
+    };
+  };
+};
+
+// Conversation files (format in server/alexa/conversation.ts)
+const expectations = {
+  // Substrings the speech must contain (case-insensitive)
+  expect: z.union([z.string(), z.array(z.string())]).optional(),
+  expectEnd: z.boolean().optional(),
+  // Session attributes the reply must carry; null means absent
+  expectAttributes: z.record(z.any()).optional(),
+};
+
+export const conversationTurnSchema = z.discriminatedUnion("request", [
+  z.object({ request: z.literal("launch"), ...expectations }),
+  z.object({ request: z.literal("intent"), intent: z.string(), slots: z.record(z.string()).optional(), ...expectations }),
+  z.object({ request: z.literal("say"), utterance: z.string().min(1), ...expectations }),
+  z.object({ request: z.literal("end"), reason: z.enum(["USER_INITIATED", "EXCEEDED_MAX_REPROMPTS", "ERROR"]).optional() }),
+  z.object({
+    request: z.literal("wait"),
+    minutes: z.number().min(0).optional(),
+    hours: z.number().min(0).optional(),
+    days: z.number().min(0).optional(),
+  }),
+  z.object({ request: z.literal("restart") }),
+]);
+
+export const conversationScriptSchema = z.object({
+  name: z.string().optional(),
+  userId: z.string().optional(),
+  startAt: z.string().datetime().optional(),
+  turns: z.array(conversationTurnSchema).min(1),
+});
+
+export type ConversationScript = z.infer<typeof conversationScriptSchema>;
+export type ConversationTurn = z.infer<typeof conversationTurnSchema>;
+
+export interface ConversationTurnResult {
+  turn: number; // index in script.turns
+  request: string;
+  at: string;
+  reply?: SimulatedReply;
+  failures: string[];
+}
+
+export interface ConversationReport {
+  name?: string;
+  success: boolean; // every expectation held
+  turns: ConversationTurnResult[];
+}
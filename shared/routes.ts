@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { insertBatchSchema, productionBatches, batchLogs } from './schema';
+import { conversationScriptSchema, type ConversationReport, type InteractionModel } from './alexaEnvelope';
+import { insertBatchSchema, productionBatches, batchLogs, MATURATION_CARE_ACTIONS, type BatchStagePath, type RevertTarget, type MaturationEntry, type MaturationCareEntry, type MeasurementHistoryEntry, type BatchEventRecord, type BatchProjection, type BatchConsistency, type JobNotification, type DevClockStatus } from './schema';
 
 // ============================================
 // SHARED ERROR SCHEMAS
@@ -30,14 +31,22 @@ export const api = {
       method: 'GET' as const,
       path: '/api/batches',
       responses: {
-        200: z.array(z.custom<typeof productionBatches.$inferSelect>()),
+        200: z.array(z.custom<typeof productionBatches.$inferSelect & { stagePath?: BatchStagePath }>()),
+      },
+    },
+    // Completed batches with their current measurements for the reports
+    completed: {
+      method: 'GET' as const,
+      path: '/api/batches/completed',
+      responses: {
+        200: z.array(z.custom<typeof productionBatches.$inferSelect & { stagePath?: BatchStagePath; measurementHistory?: MeasurementHistoryEntry[] }>()),
       },
     },
     get: {
       method: 'GET' as const,
       path: '/api/batches/:id',
       responses: {
-        200: z.custom<typeof productionBatches.$inferSelect>(),
+        200: z.custom<typeof productionBatches.$inferSelect & { stagePath?: BatchStagePath; revertTarget?: RevertTarget | null }>(),
         404: errorSchemas.notFound,
       },
     },
@@ -60,6 +69,7 @@ export const api = {
           message: "pH must be between 3.5 and 8.0"
         }),
         recipeId: z.string().optional().default("QUEIJO_NETE"),
+        isTraining: z.boolean().optional().default(false),
       }),
       responses: {
         201: z.custom<typeof productionBatches.$inferSelect>(),
@@ -155,6 +165,187 @@ export const api = {
         400: errorSchemas.businessRule,
         404: errorSchemas.notFound,
       },
+    },
+    close: {
+      method: 'POST' as const,
+      path: '/api/batches/:id/close',
+      input: z.object({
+        notes: z.string().optional(),
+      }),
+      responses: {
+        200: z.custom<typeof productionBatches.$inferSelect>(),
+        400: errorSchemas.businessRule,
+        404: errorSchemas.notFound,
+      },
+    },
+    revert: {
+      method: 'POST' as const,
+      path: '/api/batches/:id/revert',
+      input: z.object({
+        reason: z.string().trim().min(1, "Informe o motivo para voltar a etapa."),
+      }),
+      responses: {
+        200: z.custom<typeof productionBatches.$inferSelect>(),
+        400: errorSchemas.businessRule,
+        404: errorSchemas.notFound,
+      },
+    },
+    measurements: {
+      method: 'GET' as const,
+      path: '/api/batches/:id/measurements',
+      responses: {
+        200: z.array(z.custom<MeasurementHistoryEntry>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    events: {
+      method: 'GET' as const,
+      path: '/api/batches/:id/events',
+      responses: {
+        200: z.array(z.custom<BatchEventRecord>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    // The batch replayed from its events, optionally as it was at `at`
+    state: {
+      method: 'GET' as const,
+      path: '/api/batches/:id/state',
+      input: z.object({
+        at: z.coerce.date().optional(),
+      }),
+      responses: {
+        200: z.custom<BatchProjection>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    consistency: {
+      method: 'GET' as const,
+      path: '/api/batches/:id/consistency',
+      responses: {
+        200: z.custom<BatchConsistency>(),
+        404: errorSchemas.notFound,
+      },
+    }
+  },
+  // Current measurements across batches, e.g. every initial_ph of a quarter
+  measurements: {
+    query: {
+      method: 'GET' as const,
+      path: '/api/measurements',
+      input: z.object({
+        key: z.string().optional(),
+        recipeId: z.string().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }),
+      responses: {
+        200: z.array(z.custom<MeasurementHistoryEntry>()),
+        400: errorSchemas.validation,
+      },
+    }
+  },
+  // Development server only: move the server clock forward, try the Alexa skill
+  dev: {
+    clock: {
+      method: 'GET' as const,
+      path: '/api/dev/clock',
+      responses: {
+        200: z.custom<DevClockStatus>(),
+      },
+    },
+    advanceClock: {
+      method: 'POST' as const,
+      path: '/api/dev/clock/advance',
+      input: z.object({
+        minutes: z.number().nonnegative().optional(),
+        hours: z.number().nonnegative().optional(),
+        days: z.number().nonnegative().optional(),
+        to: z.coerce.date().optional(),
+      }).refine(body => body.minutes || body.hours || body.days || body.to, {
+        message: "Informe minutes, hours, days ou to",
+      }),
+      responses: {
+        200: z.custom<DevClockStatus>(),
+        400: errorSchemas.validation,
+      },
+    },
+    resetClock: {
+      method: 'POST' as const,
+      path: '/api/dev/clock/reset',
+      responses: {
+        200: z.custom<DevClockStatus>(),
+      },
+    },
+    // Runs a conversation file against an in-memory webhook (server/alexa/conversation.ts)
+    alexaConversation: {
+      method: 'POST' as const,
+      path: '/api/dev/alexa/conversations',
+      input: conversationScriptSchema,
+      responses: {
+        200: z.custom<ConversationReport>(),
+        400: errorSchemas.validation,
+      },
+    },
+    alexaModel: {
+      method: 'GET' as const,
+      path: '/api/dev/alexa/model',
+      responses: {
+        200: z.custom<InteractionModel>(),
+      },
+    },
+  },
+  // Timers, reminders and loop timeouts fired by the job scheduler
+  notifications: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/notifications',
+      input: z.object({
+        since: z.coerce.date().optional(),
+      }),
+      responses: {
+        200: z.array(z.custom<JobNotification>()),
+        400: errorSchemas.validation,
+      },
+    }
+  },
+  // Post-production lifecycle
+  maturation: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/maturation',
+      responses: {
+        200: z.array(z.custom<MaturationEntry>()),
+      },
+    },
+    // Lots in chamber 2 not turned yet today
+    turningDue: {
+      method: 'GET' as const,
+      path: '/api/maturation/turning-due',
+      responses: {
+        200: z.array(z.custom<MaturationEntry>()),
+      },
+    },
+    log: {
+      method: 'GET' as const,
+      path: '/api/batches/:id/maturation-log',
+      responses: {
+        200: z.array(z.custom<MaturationCareEntry>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    record: {
+      method: 'POST' as const,
+      path: '/api/batches/:id/maturation-log',
+      input: z.object({
+        action: z.enum(MATURATION_CARE_ACTIONS),
+        notes: z.string().optional(),
+      }),
+      responses: {
+        201: z.custom<MaturationCareEntry>(),
+        400: errorSchemas.businessRule,
+        404: errorSchemas.notFound,
+      },
     }
   },
   // Alexa Integration Webhook
@@ -1,20 +1,33 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, numeric, doublePrecision, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
 // === TABLE DEFINITIONS ===
 
+// Post-production lifecycle: chamber 2 entry starts MATURING, the maturation
+// scheduler moves lots to READY_FOR_SALE and closing them sets CLOSED
+export const BATCH_LIFECYCLE_STATUSES = ["IN_PROGRESS", "MATURING", "READY_FOR_SALE", "CLOSED"] as const;
+export type BatchLifecycleStatus = typeof BATCH_LIFECYCLE_STATUSES[number];
+
+export const BATCH_LIFECYCLE_LABELS: Record<BatchLifecycleStatus, string> = {
+  IN_PROGRESS: "Em produção",
+  MATURING: "Em maturação",
+  READY_FOR_SALE: "Pronto para venda",
+  CLOSED: "Encerrado",
+};
+
 export const productionBatches = pgTable("production_batches", {
   id: serial("id").primaryKey(),
   recipeId: text("recipe_id").notNull(),
+  recipeVersion: text("recipe_version"), // Snapshot the batch was started with (see recipe_snapshots)
   currentStageId: integer("current_stage_id").notNull().default(1),
   milkVolumeL: numeric("milk_volume_l").notNull(),
   status: text("status", { enum: ["active", "paused", "completed", "cancelled"] }).notNull().default("active"),
   
   // New: Extended batch status for maturation lifecycle
   batchStatus: text("batch_status", { 
-    enum: ["IN_PROGRESS", "MATURING", "READY_FOR_SALE", "CLOSED"] 
+    enum: BATCH_LIFECYCLE_STATUSES
   }).default("IN_PROGRESS"),
   
   // JSONB storage for complex state
@@ -31,6 +44,8 @@ export const productionBatches = pgTable("production_batches", {
   // New: Maturation control (Stage 19/20)
   chamber2EntryDate: timestamp("chamber_2_entry_date"),
   maturationEndDate: timestamp("maturation_end_date"),
+  closedAt: timestamp("closed_at"),
+  maturationLog: jsonb("maturation_log").default([]), // Daily care in chamber 2 (MaturationCareEntry[])
   
   // Operational state
   pausedAt: timestamp("paused_at"),
@@ -38,7 +53,14 @@ export const productionBatches = pgTable("production_batches", {
   cancelledAt: timestamp("cancelled_at"),
   cancelReason: text("cancel_reason"),
   completedAt: timestamp("completed_at"),
+
+  // Training ("treino") batches: timers run `timeCompression` times faster and
+  // the batch stays out of reports, lot codes and exports
+  isTraining: boolean("is_training").notNull().default(false),
+  timeCompression: integer("time_compression").notNull().default(1),
   
+  // Bumped on every write; updates computed from a read pass it back (optimistic concurrency)
+  version: integer("version").notNull().default(1),
   startedAt: timestamp("started_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -49,15 +71,103 @@ export const alexaUserState = pgTable("alexa_user_state", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Open step of an Alexa guided dialog, keyed by session, so the next turn finds
+// it on another instance or after a restart (see server/voiceDialog.ts)
+export const VOICE_DIALOG_FLOWS = ["start_batch", "stage13", "log_time", "revert"] as const;
+export type VoiceDialogFlow = typeof VOICE_DIALOG_FLOWS[number];
+
+export const voiceDialogState = pgTable("voice_dialog_state", {
+  sessionId: text("session_id").primaryKey(),
+  alexaUserId: text("alexa_user_id"),
+  flow: text("flow", { enum: VOICE_DIALOG_FLOWS }).notNull(),
+  step: text("step").notNull(),
+  data: jsonb("data").$type<Record<string, any>>().notNull().default({}),
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("voice_dialog_state_expires_idx").on(table.expiresAt),
+]);
+
+// Immutable copy of a recipe as loaded when a batch started.
+// Batches keep following their snapshot even if the YAML is edited later.
+export const recipeSnapshots = pgTable("recipe_snapshots", {
+  version: text("version").primaryKey(), // "<schema_version>-<content hash>"
+  recipeId: text("recipe_id").notNull(),
+  name: text("name").notNull(),
+  content: jsonb("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const batchLogs = pgTable("batch_logs", {
   id: serial("id").primaryKey(),
   batchId: integer("batch_id").notNull().references(() => productionBatches.id),
   stageId: integer("stage_id").notNull(),
   action: text("action").notNull(), // 'start', 'complete', 'input', 'alert'
   details: jsonb("details").default({}),
+  // Set on entries that changed the batch state; the stream the batch is replayed from
+  event: jsonb("event").$type<BatchEvent>(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Where a measurement came from; "system" covers recipe hooks and loop exits
+export const MEASUREMENT_SOURCES = ["web", "voice", "system", "backfill"] as const;
+export type MeasurementSource = typeof MEASUREMENT_SOURCES[number];
+
+// One row per recorded value. An edit inserts a new row and points the old one
+// at it (superseded_by); a reverted stage marks its rows with reverted_at.
+// The batch's `measurements` JSONB keeps the latest values for the live flow.
+export const batchMeasurements = pgTable("batch_measurements", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => productionBatches.id),
+  stageId: integer("stage_id").notNull(),
+  key: text("key").notNull(),
+  numericValue: doublePrecision("numeric_value"),
+  textValue: text("text_value"),
+  timestampValue: timestamp("timestamp_value"),
+  unit: text("unit"),
+  notes: text("notes"),
+  source: text("source", { enum: MEASUREMENT_SOURCES }).notNull().default("web"),
+  operator: text("operator"),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  supersededBy: integer("superseded_by"),
+  revertedAt: timestamp("reverted_at"),
+}, (table) => [
+  index("batch_measurements_batch_idx").on(table.batchId),
+  index("batch_measurements_key_idx").on(table.key, table.recordedAt),
+]);
+
+// Things due at a moment in a batch (see server/jobScheduler.ts). `key`
+// identifies what is due, e.g. a timer and its end time, so scheduling the
+// same thing twice is a no-op and a moved timer gets a new job.
+export const JOB_KINDS = ["timer_expired", "reminder_due", "loop_timeout"] as const;
+export type JobKind = typeof JOB_KINDS[number];
+export const JOB_STATUSES = ["pending", "running", "done", "cancelled", "failed"] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export type JobPayload = {
+  message: string; // Notification text in Portuguese
+  timerId?: string;
+  reminderId?: string;
+};
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  batchId: integer("batch_id").notNull().references(() => productionBatches.id),
+  stageId: integer("stage_id").notNull(),
+  kind: text("kind", { enum: JOB_KINDS }).notNull(),
+  runAt: timestamp("run_at").notNull(),
+  status: text("status", { enum: JOB_STATUSES }).notNull().default("pending"),
+  payload: jsonb("payload").$type<JobPayload>().notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  lockedAt: timestamp("locked_at"),
+  firedAt: timestamp("fired_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("scheduled_jobs_due_idx").on(table.status, table.runAt),
+]);
+
 // === USERS TABLE ===
 
 export const users = pgTable("users", {
@@ -89,10 +199,14 @@ export const alexaWebhookLogs = pgTable("alexa_webhook_logs", {
   batchId: integer("batch_id"),
   requestType: text("request_type"),
   slots: jsonb("slots").default({}),
-  sessionAttributes: jsonb("session_attributes").default({}),
+  sessionAttributes: jsonb("session_attributes").default({}), // As Alexa sent them
   responseSpeech: text("response_speech"),
   durationMs: integer("duration_ms"),
   error: text("error"),
+  // For replaying the request (server/alexa/replay.ts); null on older rows
+  sessionId: text("session_id"),
+  responseAttributes: jsonb("response_attributes"),
+  llmCalls: jsonb("llm_calls"), // LlmCall[]: model replies the turn used
 });
 
 export const webRequestLogs = pgTable("web_request_logs", {
@@ -110,6 +224,14 @@ export const webRequestLogs = pgTable("web_request_logs", {
 // === RELATIONS ===
 export const batchRelations = relations(productionBatches, ({ many }) => ({
   logs: many(batchLogs),
+  measurementRecords: many(batchMeasurements),
+}));
+
+export const measurementRelations = relations(batchMeasurements, ({ one }) => ({
+  batch: one(productionBatches, {
+    fields: [batchMeasurements.batchId],
+    references: [productionBatches.id],
+  }),
 }));
 
 export const logRelations = relations(batchLogs, ({ one }) => ({
@@ -122,48 +244,71 @@ export const logRelations = relations(batchLogs, ({ one }) => ({
 // === BASE SCHEMAS ===
 export const insertBatchSchema = createInsertSchema(productionBatches).omit({ 
   id: true, 
+  version: true,
   startedAt: true, 
   updatedAt: true
 });
 
+export const insertRecipeSnapshotSchema = createInsertSchema(recipeSnapshots).omit({
+  createdAt: true
+});
+
 export const insertLogSchema = createInsertSchema(batchLogs).omit({ 
   id: true, 
   timestamp: true 
 });
 
+export const insertBatchMeasurementSchema = createInsertSchema(batchMeasurements).omit({
+  id: true
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertVoiceDialogStateSchema = createInsertSchema(voiceDialogState).omit({
+  updatedAt: true
+});
+
 // === CHEESE TYPES ===
 
+// Catalog of cheese names shown in the UI. Whether a cheese can be produced
+// depends on its recipe being loaded by the server (see /api/recipes).
 export const CHEESE_TYPES = {
   QUEIJO_NETE: {
     id: "QUEIJO_NETE",
     name: "Nete",
-    description: "Queijo artesanal tradicional da Matuh",
-    available: true
+    description: "Queijo artesanal tradicional da Matuh"
   },
   QUEIJO_NINA: {
     id: "QUEIJO_NINA",
     name: "Nina",
-    description: "Queijo maturado especial",
-    available: false
+    description: "Queijo maturado especial"
   },
   QUEIJO_LALA: {
     id: "QUEIJO_LALA",
     name: "Lala",
-    description: "Queijo fresco suave",
-    available: false
+    description: "Queijo fresco suave"
   }
 } as const;
 
 export type CheeseTypeId = keyof typeof CHEESE_TYPES;
 export type CheeseType = typeof CHEESE_TYPES[CheeseTypeId];
+export type CheeseTypeWithAvailability = CheeseType & { available: boolean };
 
 export function getCheeseTypeName(recipeId: string): string {
   const cheese = Object.values(CHEESE_TYPES).find(c => c.id === recipeId);
   return cheese?.name || recipeId.replace("QUEIJO_", "");
 }
 
-export function getAvailableCheeseTypes(): CheeseType[] {
-  return Object.values(CHEESE_TYPES).filter(c => c.available);
+// Mark each cheese type as available when its recipe is loaded
+export function getCheeseTypesWithAvailability(loadedRecipeIds: string[]): CheeseTypeWithAvailability[] {
+  return Object.values(CHEESE_TYPES).map(c => ({ ...c, available: loadedRecipeIds.includes(c.id) }));
+}
+
+export function getAvailableCheeseTypes(loadedRecipeIds: string[]): CheeseType[] {
+  return Object.values(CHEESE_TYPES).filter(c => loadedRecipeIds.includes(c.id));
 }
 
 export function getAllCheeseTypes(): CheeseType[] {
@@ -179,18 +324,118 @@ export function formatBatchCode(startedAt: Date | string): string {
   return `${day}${month}${year}`;
 }
 
+// Lot code shown for a batch; training batches don't take a production lot number
+export function formatBatchLabel(batch: { startedAt: Date | string; isTraining?: boolean | null }): string {
+  return batch.isTraining ? "TREINO" : formatBatchCode(batch.startedAt);
+}
+
 // === EXPLICIT API CONTRACT TYPES ===
 
 // Batch Types
 export type ProductionBatch = typeof productionBatches.$inferSelect;
 export type InsertBatch = z.infer<typeof insertBatchSchema>;
 
+export type RecipeSnapshot = typeof recipeSnapshots.$inferSelect;
+export type InsertRecipeSnapshot = z.infer<typeof insertRecipeSnapshotSchema>;
+export type InsertLog = z.infer<typeof insertLogSchema>;
+
+export type BatchMeasurement = typeof batchMeasurements.$inferSelect;
+export type InsertBatchMeasurement = z.infer<typeof insertBatchMeasurementSchema>;
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+
+export type VoiceDialogStateRow = typeof voiceDialogState.$inferSelect;
+export type InsertVoiceDialogState = z.infer<typeof insertVoiceDialogStateSchema>;
+
+export type AlexaWebhookLog = typeof alexaWebhookLogs.$inferSelect;
+
+// A fired job as shown to the operators
+export type JobNotification = {
+  id: number;
+  batchId: number;
+  stageId: number;
+  kind: JobKind;
+  message: string;
+  firedAt: string;
+};
+
+// Server clock of the development server; `fired` and `promoted` are what
+// came due after the last advance
+export type DevClockStatus = {
+  now: string;
+  offsetMs: number;
+  fired: JobNotification[];
+  promoted: number[];
+};
+
+// Who recorded a value; web requests carry the logged-in username
+export type MeasurementOrigin = {
+  source: MeasurementSource;
+  operator?: string | null;
+};
+
+// Keys holding instants (ISO strings). Clock times ("14:30") and calendar
+// dates ("2026-01-08") stay text so they read back exactly as recorded.
+function isTimestampKey(key: string): boolean {
+  return key.endsWith("_iso");
+}
+
+// Typed columns for a value as it appears in the measurements JSONB
+export function toMeasurementColumns(key: string, value: unknown): Pick<BatchMeasurement, "numericValue" | "textValue" | "timestampValue"> {
+  const empty = { numericValue: null, textValue: null, timestampValue: null };
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return { ...empty, numericValue: value };
+  }
+  if (isTimestampKey(key) && typeof value === "string" && !isNaN(new Date(value).getTime())) {
+    return { ...empty, timestampValue: new Date(value) };
+  }
+  return { ...empty, textValue: value === undefined || value === null ? null : String(value) };
+}
+
+// The value back in its JSONB form (number, or string; instants as ISO strings)
+export function getMeasurementValue(row: Pick<BatchMeasurement, "numericValue" | "textValue" | "timestampValue">): number | string | null {
+  if (row.numericValue !== null && row.numericValue !== undefined) return row.numericValue;
+  if (row.timestampValue) return new Date(row.timestampValue).toISOString();
+  return row.textValue ?? null;
+}
+
+// A current measurement in the `_history` entry shape the batch screens and reports use
+export type MeasurementHistoryEntry = {
+  id: number;
+  batchId: number;
+  stageId: number;
+  key: string;
+  value: number | string | null;
+  timestamp: string;
+  unit: string | null;
+  notes: string | null;
+  source: MeasurementSource;
+  operator: string | null;
+};
+
+export function toMeasurementHistoryEntry(row: BatchMeasurement): MeasurementHistoryEntry {
+  return {
+    id: row.id,
+    batchId: row.batchId,
+    stageId: row.stageId,
+    key: row.key,
+    value: getMeasurementValue(row),
+    timestamp: new Date(row.recordedAt).toISOString(),
+    unit: row.unit,
+    notes: row.notes,
+    source: row.source,
+    operator: row.operator
+  };
+}
+
 // Request Types
 export type StartBatchRequest = {
   milkVolumeL: number;
   milkTemperatureC: number; // Initial milk temperature in Celsius (required)
   milkPh: number; // Initial milk pH value (required)
   recipeId?: string; // Cheese type ID (defaults to QUEIJO_NETE)
+  isTraining?: boolean; // Training batch ("treino"), see productionBatches.isTraining
 };
 
 export type AdvanceStageRequest = {
@@ -221,6 +466,10 @@ export type CancelBatchRequest = {
   reason: string;
 };
 
+export type CloseBatchRequest = {
+  notes?: string;
+};
+
 // Timer/Reminder types
 export type TimerInfo = {
   stageId: number;
@@ -236,6 +485,7 @@ export type ReminderInfo = {
   id: string;
   stageId: number;
   type: "interval" | "daily";
+  action?: MaturationCareAction; // Set on the daily turning reminder of maturing lots
   intervalHours?: number;
   nextTrigger: string;
   acknowledged: boolean;
@@ -262,6 +512,7 @@ export type StageDetailResponse = {
   };
   loopCondition?: {
     until: string;
+    description?: string; // e.g. "pH abaixo de 5.3"
   };
   llmGuidance?: string;
 };
@@ -271,11 +522,22 @@ export type RecipeSummary = {
   recipeId: string;
   name: string;
   schemaVersion: string;
+  version: string;
   stageCount: number;
 };
 
+// Recipe `process` block (targets shared by all stages)
+export type ProcessParameters = {
+  targetTemperatureC?: number;
+  temperatureToleranceC?: number;
+  targetFinalPh?: number;
+  maturationTargetDays: number; // 0 for fresh cheeses
+  phCheckIntervalMin?: number;  // loop stages: minutes between pH readings
+};
+
 export type RecipeDetail = RecipeSummary & {
   description?: string;
+  process: ProcessParameters;
   stages: StageDetailResponse[];
   inputs: Array<{
     id: string;
@@ -283,11 +545,61 @@ export type RecipeDetail = RecipeSummary & {
     unit: string;
     dosing?: {
       mode: string;
-      value: number;
+      value?: number;
+      tiers?: Array<{ up_to_l?: number; value: number }>;
+      min?: number;
+      max?: number;
+      precision?: number;
+      display_unit?: string;
     };
   }>;
 };
 
+// Stages a batch went through and the ones expected ahead (conditional transitions)
+export type BatchStagePath = {
+  visited: number[]; // in order, ending with the current stage
+  current: number;
+  remaining: number[];
+};
+
+// A pause recorded in batch.history (pause/resume entries); `end` is null
+// while the batch is still paused
+export type PauseInterval = {
+  stageId: number;
+  start: string;
+  end: string | null;
+  reason?: string;
+};
+
+export function getPauseIntervals(history: unknown): PauseInterval[] {
+  const intervals: PauseInterval[] = [];
+  for (const entry of Array.isArray(history) ? history : []) {
+    if (entry?.action === "pause") {
+      intervals.push({ stageId: entry.stageId, start: entry.timestamp, end: null, reason: entry.reason });
+    } else if (entry?.action === "resume") {
+      const open = intervals[intervals.length - 1];
+      if (open && open.end === null) open.end = entry.timestamp;
+    }
+  }
+  return intervals;
+}
+
+// Position of the current stage along the batch path, for progress bars.
+// Falls back to the stage id over the recipe length when no path is known.
+export function getStagePathProgress(path: BatchStagePath | undefined, currentStageId: number, stageCount: number): { position: number; total: number } {
+  if (!path) return { position: currentStageId, total: stageCount };
+  const position = path.visited.length;
+  return { position, total: position + path.remaining.length };
+}
+
+// A calculated ingredient dose in its display unit
+export type BatchDose = {
+  id: string;
+  name: string;
+  value: number;
+  unit: string;
+};
+
 // Response Types
 export type BatchResponse = ProductionBatch & {
   recipeName?: string;
@@ -304,5 +616,133 @@ export type BatchStatusResponse = {
   guidance?: string; // LLM guidance
 };
 
+// The stage a batch would go back to when its last advance is reverted
+export type RevertTarget = {
+  fromStageId: number;
+  toStageId: number;
+  toStageName: string;
+};
+
+// A lot past chamber 2 entry, as listed on the maturation dashboard
+export type MaturationEntry = {
+  batchId: number;
+  recipeId: string;
+  recipeName: string;
+  batchStatus: BatchLifecycleStatus;
+  startedAt: string;
+  isTraining: boolean;
+  chamber2EntryDate: string | null;
+  maturationEndDate: string | null;
+  closedAt: string | null;
+  daysRemaining: number; // 0 once the maturation end date has passed
+  turnedToday: boolean;
+  lastTurnedAt: string | null;
+};
+
+// Daily care of a maturing lot in chamber 2
+export const MATURATION_CARE_ACTIONS = ["turn", "board_change", "observation"] as const;
+export type MaturationCareAction = typeof MATURATION_CARE_ACTIONS[number];
+
+export const MATURATION_CARE_LABELS: Record<MaturationCareAction, string> = {
+  turn: "Virada",
+  board_change: "Troca de tábua",
+  observation: "Observação",
+};
+
+export type MaturationCareEntry = {
+  date: string; // Local production day (YYYY-MM-DD), see toLocalDateKey
+  action: MaturationCareAction;
+  notes?: string;
+  timestamp: string;
+  source: "web" | "voice";
+};
+
+// --- Batch events ---
+// Every change to the state of a batch is stored with its batch_logs entry;
+// replaying them gives the batch as it should be (see server/batchEvents.ts).
+// Timers, reminders and `_history` are not part of the replayed state.
+
+export type MeasurementScalar = number | string | boolean | null;
+
+type BatchEventFields = {
+  at: string; // When the change was written (ISO)
+  values?: Record<string, MeasurementScalar>; // Measurement keys set
+  removed?: string[]; // Measurement keys deleted
+};
+
+export type BatchEvent = BatchEventFields & (
+  | { type: "started"; recipeId: string; recipeVersion: string | null; milkVolumeL: string; stageId: number }
+  | { type: "advanced"; from: number; to: number; condition?: string }
+  | { type: "reverted"; from: number; to: number; reason: string }
+  | { type: "measurement_recorded"; stageId: number; turningCyclesCount?: number }
+  | {
+      type: "measurement_corrected";
+      key: string;
+      turningCyclesCount?: number;
+      chamber2EntryDate?: string;
+      maturationEndDate?: string;
+      batchStatus?: BatchLifecycleStatus;
+    }
+  | { type: "paused"; reason?: string }
+  | { type: "resumed" }
+  | { type: "completed" }
+  | { type: "cancelled"; reason: string }
+  | { type: "chamber2_entered"; chamber2EntryDate: string; maturationEndDate: string; batchStatus: BatchLifecycleStatus }
+  | { type: "ready_for_sale" }
+  | { type: "closed" }
+);
+export type BatchEventType = BatchEvent["type"];
+
+export type BatchEventRecord = {
+  id: number;
+  batchId: number;
+  stageId: number;
+  timestamp: Date;
+  event: BatchEvent;
+};
+
+// A batch as its events describe it; dates as ISO strings
+export type BatchProjection = {
+  batchId: number;
+  recipeId: string;
+  recipeVersion: string | null;
+  milkVolumeL: string;
+  currentStageId: number;
+  status: ProductionBatch["status"];
+  batchStatus: BatchLifecycleStatus;
+  turningCyclesCount: number;
+  pausedAt: string | null;
+  pauseReason: string | null;
+  completedAt: string | null;
+  cancelledAt: string | null;
+  cancelReason: string | null;
+  chamber2EntryDate: string | null;
+  maturationEndDate: string | null;
+  closedAt: string | null;
+  measurements: Record<string, MeasurementScalar>;
+  eventCount: number;
+  lastEventAt: string;
+};
+
+export type BatchDrift = { field: string; stored: unknown; replayed: unknown };
+
+// "untracked": the batch predates the event stream and can't be replayed
+export type BatchConsistency = {
+  batchId: number;
+  status: "ok" | "drift" | "untracked";
+  drift: BatchDrift[];
+};
+
+// The cheese room works on Brasília time; "today" for daily care is that calendar day
+export const PRODUCTION_TIMEZONE = "America/Sao_Paulo";
+
+export function toLocalDateKey(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: PRODUCTION_TIMEZONE });
+}
+
+export function isTurnedOn(log: unknown, dateKey: string): boolean {
+  return Array.isArray(log) && log.some((e: MaturationCareEntry) => e?.action === "turn" && e.date === dateKey);
+}
+
 // Re-export chat types
 export * from "./models/chat";